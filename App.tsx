@@ -2,7 +2,79 @@
 
 
 import React, { useState, useEffect, useMemo, useCallback, FormEvent, FC, ReactNode, useRef, isValidElement, cloneElement } from 'react';
-import { GoogleGenAI, Type, LiveServerMessage, Modality, Blob, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, type LiveServerMessage, Modality, type Blob, type Content } from "@google/genai";
+import type {
+    AccountCredential, AllocationScore, AuditEntry, AuthSession, BloodGroup, ContactAttempt, ContactChannel, ContactResult, DeviceEnrollment, Donor,
+    DonorEditableFields, EscalationParameters, ExchangeSearchResult, Gender, HeartStatusCode, Hospital, HospitalScope, InterestNotification,
+    ListingChange, ListingState, MatchComparison, MatchingMode, MatchOffer, MatchResult, NewAccountInput, OfferState, Organ, Page, PledgeDocument,
+    PledgeDocumentKind, ProtectedAadhaar, Recipient, RecipientEditableFields, SavedScreeningReport, ScreeningFlag, ScreeningFlagStatus,
+    ScreeningReport, TriageStatus, Urgency, UrgencyEscalation, UserAccount, UserRole, VerificationStatus,
+} from './types';
+import {
+    BLOOD_GROUPS, GENDERS, HOSPITALS, isBloodTypeCompatible, MOCK_DONORS, MOCK_RECIPIENTS, MS_PER_DAY, ORGANS, URGENCY_LEVELS, USER_ROLES,
+} from './registry';
+import { findDonorByAadhaar, getAadhaarDigester, maskAadhaar, normalizeAadhaar, protectAadhaar, validateAadhaar } from './registry/aadhaar';
+import {
+    actorFromSession, AUDIT_ACTIONS, canonicalJson, createAuditEntry, findAuditTips, offerAuditInputs, REDACTED_AUDIT_VALUE, sortAuditLog, SYSTEM_ACTOR,
+    verifyAuditChain,
+} from './registry/audit';
+import type { AuditActor, AuditInput, AuditVerification } from './registry/audit';
+import {
+    AUTH_SESSION_KEY, canAccessPage, constantTimeEquals, createAccountCredential, createAuthSession, createSignInCode, defaultPageFor, hashPassword,
+    isSessionActive, MIN_PASSWORD_LENGTH, normalizeSignInCode, normalizeUsername, PASSWORD_HASH_ITERATIONS, randomHex, readAuthSession,
+    sessionExpiresAt, sha256Hex, SIGN_IN_CODE_TTL_MS, validateNewAccount, verifyPassword, withSessionToken, writeAuthSession,
+} from './registry/auth';
+import { buildChatSystemInstruction, hospitalName, MAX_TOOL_ROUNDS, registryToolsFor, runRegistryTool } from './registry/chatTools';
+import type { ChatRole, RegistryToolContext } from './registry/chatTools';
+import {
+    ACCEPTED_DOCUMENT_TYPES, createIndexedDbDocumentStore, createMemoryDocumentStore, DOCUMENT_KINDS, isDonorVerified, MAX_DOCUMENT_BYTES,
+    sha256HexOfBlob, validateDocumentFile, withCloudDocumentCopies,
+} from './registry/documents';
+import type { DocumentStore } from './registry/documents';
+import { canChangePledge, changedDonorFields, DONOR_FIELD_LABELS, formatFileSize, REVERIFICATION_FIELDS, validateDonorProfile } from './registry/donorProfile';
+import {
+    canReviewEscalation, describeEscalationParameters, DIRECT_URGENCY_LEVELS, ESCALATION_PARAMETER_FOR_ORGAN, HEART_STATUS_CODES, isEscalationPending,
+    MELD_RANGE, validateEscalationRequest,
+} from './registry/escalation';
+import { findExchangeProposals } from './registry/exchange';
+import { createFirestoreSyncStore, getFirestoreSyncConfig } from './registry/firestoreSync';
+import { canManageHospital, canViewHospital, getHospitalScope } from './registry/hospitalScope';
+import { assessImmunology, buildImmunologyProfile, immunologyProfileToForm, initialImmunologyForm } from './registry/immunology';
+import type { ImmunologyFormFields } from './registry/immunology';
+import { createIndexedDbStore } from './registry/indexedDbStore';
+import {
+    appendListingEvent, applyListingChange, getListingState, hasOfferInProgress, isListingOpen, isReviewOverdue, latestListingEvent,
+    LISTING_STATE_CLASSES, LISTING_TRANSITIONS, validateListingChange,
+} from './registry/listings';
+import { runGreedyMatching, runOptimalMatching, summarizeSupplyDemand, totalMatchScore } from './registry/matching';
+import { availableOrganUnits, isDeceasedPledge, ORGAN_MATCHING_RULES } from './registry/matchingRules';
+import {
+    ACTIVE_OFFER_STATES, applyOfferTransition, createMatchOffer, DECLINE_REASONS, hasActiveOffer, isAwaitingAllocation, OFFER_TRANSITIONS,
+    rankBackupRecipients, RECIPIENT_STATUS_FOR_OFFER,
+} from './registry/offers';
+import {
+    collectIssuedIds, formatRegistryId, highestIssuedSequence, issuePledgeIds, parseRegistryId, patientIdPrefix, PLEDGE_ID_PREFIX,
+} from './registry/registryIds';
+import { scoreAllocation } from './registry/scoring';
+import {
+    buildClinicalLabs, clinicalLabsToForm, computeSeverityScore, currentSeverity, formatSeverity, initialClinicalLabForm, LUNG_DIAGNOSIS_GROUPS,
+    SEVERITY_LAB_FIELDS,
+} from './registry/severity';
+import type { ClinicalLabFormFields } from './registry/severity';
+import { createLocalStorageStore, SESSION_ID, SHARED_COLLECTION_NAMES } from './registry/storage';
+import type {
+    QuarantinedRecord, RegistryChangeListener, RegistryCollections, RegistryRecord, RegistryStore, SharedCollectionName, SharedCollections,
+} from './registry/storage';
+import { applyChangeEvent, createTabChannel, diffCollection, withCrossTabSync } from './registry/tabSync';
+import {
+    applyTriageStatus, canWorkInterest, CONTACT_CHANNELS, CONTACT_RESULTS, formatSlaRemaining, getTriageStatus, isTriageOpen, isTriageOverdue,
+    TRIAGE_OUTCOME_STATUSES, TRIAGE_SLA_HOURS, TRIAGE_STATUS_CLASSES, TRIAGE_TRANSITIONS, triageDueAt, validateTriageChange,
+} from './registry/triage';
+import {
+    analyzeUrgency, BLANK_SCREENING_REPORT, buildUrgencyFacts, createDefaultStructuredModel, generateScreeningReport, SCREENING_FLAG_STATUSES,
+    URGENCY_ANALYSIS_TOP_N,
+} from './structuredGeneration';
+import type { StructuredModel, UrgencyAnalysis, UrgencyFacts } from './structuredGeneration';
 
 
 // --- AI & AUDIO HELPERS ---
@@ -60,296 +132,56 @@ function createBlob(data: Float32Array): Blob {
 }
 
 
-// --- TYPE DEFINITIONS ---
-type Page = 'donor' | 'waitlist' | 'admin' | 'hospital';
-type BloodGroup = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
-type Organ = 'Heart' | 'Kidney' | 'Liver' | 'Eye' | 'Lungs' | 'Pancreas' | 'Bone Marrow';
-type Urgency = 'Critical' | 'High' | 'Medium';
-type Gender = 'Male' | 'Female' | 'Other' | 'Prefer not to say';
+// --- REGISTRY INSTANCES ---
+// The stores used by the app; their factories and the domain logic live in registry.ts and the modules under registry/
+const INITIAL_REGISTRY: RegistryCollections = {
+    donors: MOCK_DONORS,
+    recipients: MOCK_RECIPIENTS,
+    interestNotifications: [],
+    matchOffers: [],
+    accounts: [],
+    auditLog: [],
+    credentials: [],
+};
 
-interface Donor {
-    id: string;
-    name: string;
-    contact: string;
-    dob: string;
-    gender: Gender;
-    bloodGroup: BloodGroup;
-    address: string;
-    aadharUrl: string;
-    reportUrl: string;
-    pledgedOrgans: Organ[];
-    pledgeDate: number;
-    status: 'Pledged';
-}
+const localRegistryStore: RegistryStore = typeof indexedDB !== 'undefined'
+    ? createIndexedDbStore(indexedDB, localStorage, INITIAL_REGISTRY)
+    : createLocalStorageStore(localStorage, INITIAL_REGISTRY);
 
-interface Recipient {
-    id:string;
-    patientId: string;
-    name: string;
-    organNeeded: Organ;
-    bloodGroup: BloodGroup;
-    urgency: Urgency;
-    timeOnList: number;
-    hospitalId?: string;
-    hospitalName?: string;
-    clinicalNotes?: string;
-    status: 'Searching' | 'Potential Match Found';
-}
+const firestoreSyncConfig = getFirestoreSyncConfig();
 
-interface MatchResult {
-    recipient: Recipient;
-    donor: Donor;
-}
+const aadhaarDigester = getAadhaarDigester(!!firestoreSyncConfig);
 
-interface Hospital {
-  id: string;
-  mockId: string;
-  name: string;
-  city: string;
-  contact: string;
-}
+const registryStore: RegistryStore = withCrossTabSync(
+    firestoreSyncConfig
+        ? createFirestoreSyncStore(localRegistryStore, firestoreSyncConfig, localStorage)
+        : localRegistryStore,
+    createTabChannel(localStorage),
+);
 
-interface InterestNotification {
-    id: string;
-    donorId: string;
-    organ: Organ;
-    timestamp: number;
-}
+// Lets a view react to registry writes, e.g. to refresh derived data or show activity
+const useRegistryChanges = (listener: RegistryChangeListener) => {
+    const listenerRef = useRef(listener);
+    listenerRef.current = listener;
+    useEffect(() => registryStore.subscribe(event => listenerRef.current(event)), []);
+};
 
+const findDeviceCredential = async (accountId: string): Promise<AccountCredential | undefined> =>
+    (await registryStore.findByIndex('credentials', 'accountId', accountId))[0];
 
-// --- CONSTANTS ---
-const ORGANS: Organ[] = ['Heart', 'Eye', 'Bone Marrow', 'Kidney', 'Lungs', 'Liver', 'Pancreas'];
-const BLOOD_GROUPS: BloodGroup[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
-const URGENCY_LEVELS: Urgency[] = ['Critical', 'High', 'Medium'];
-const GENDERS: Gender[] = ['Male', 'Female', 'Other', 'Prefer not to say'];
-const ADMIN_PIN = '12345';
-
-const HOSPITALS_DATA = [
-  // Existing
-  { id: 'apollo_bgl', name: 'Apollo Hospitals, Bannerghatta Road', city: 'Bangalore', contact: '1860-500-1066' },
-  { id: 'fortis_cunningham_bgl', name: 'Fortis Hospital, Cunningham Road', city: 'Bangalore', contact: '080-4199-4444' },
-  { id: 'manipal_bgl', name: 'Manipal Hospital, Old Airport Road', city: 'Bangalore', contact: '1800-102-5555' },
-  { id: 'narayana_health_bgl', name: 'Narayana Health City', city: 'Bangalore', contact: '1860-208-0208' },
-  { id: 'jss_msr', name: 'JSS Hospital, Mysuru', city: 'Mysore', contact: '0821-233-5555' },
-  { id: 'kmc_mgl', name: 'KMC Hospital, Mangaluru', city: 'Mangalore', contact: '0824-244-5858' },
-  { id: 'columbia_asia_bgl', name: 'Columbia Asia Hospital', city: 'Bangalore', contact: '080-6660-0666' },
-  { id: 'bgs_gleneagles_bgl', name: 'BGS Gleneagles Global Hospital', city: 'Bangalore', contact: '080-2625-5555' },
-  { id: 'kasturba_mnpl', name: 'Kasturba Hospital', city: 'Manipal', contact: '0820-292-2345' },
-  { id: 'sdm_dwd', name: 'SDM Medical College & Hospital', city: 'Dharwad', contact: '0836-247-7507' },
-  { id: 'father_muller_mgl', name: 'Father Muller Medical College Hospital', city: 'Mangalore', contact: '0824-223-8000' },
-  { id: 'st_johns_bgl', name: 'St. John\'s Medical College Hospital', city: 'Bangalore', contact: '080-2206-5000' },
-  { id: 'victoria_hosp_bgl', name: 'Victoria Hospital', city: 'Bangalore', contact: '080-2670-1150' },
-  { id: 'bowring_lady_bgl', name: 'Bowring & Lady Curzon Hospital', city: 'Bangalore', contact: '080-2559-1365' },
-  { id: 'sanjay_gandhi_trauma_bgl', name: 'Sanjay Gandhi Institute of Trauma', city: 'Bangalore', contact: '080-2653-4333' },
-  { id: 'kidwai_oncology_bgl', name: 'Kidwai Memorial Institute of Oncology', city: 'Bangalore', contact: '080-2609-4000' },
-  { id: 'jayadeva_cardio_bgl', name: 'Jayadeva Institute of Cardiovascular Sciences', city: 'Bangalore', contact: '080-2297-7200' },
-  { id: 'sagar_hosp_bgl', name: 'Sagar Hospitals', city: 'Bangalore', contact: '080-4299-9999' },
-  { id: 'hosmat_hosp_bgl', name: 'Hosmat Hospital', city: 'Bangalore', contact: '080-2559-3796' },
-  { id: 'aster_cmi_bgl', name: 'Aster CMI Hospital', city: 'Bangalore', contact: '080-4342-0100' },
-  { id: 'sakra_world_bgl', name: 'Sakra World Hospital', city: 'Bangalore', contact: '080-4969-4969' },
-  { id: 'baptist_hosp_bgl', name: 'Baptist Hospital', city: 'Bangalore', contact: '080-2202-4700' },
-  { id: 'ms_ramaiah_bgl', name: 'M S Ramaiah Memorial Hospital', city: 'Bangalore', contact: '080-2360-8888' },
-  { id: 'st_marthas_bgl', name: 'St. Martha\'s Hospital', city: 'Bangalore', contact: '080-4012-8200' },
-  { id: 'cloudnine_bgl', name: 'Cloudnine Hospital', city: 'Bangalore', contact: '1860-108-9999' },
-  { id: 'vydehi_med_sci_bgl', name: 'Vydehi Institute of Medical Sciences', city: 'Bangalore', contact: '080-2841-3381' },
-  { id: 'kims_bgl', name: 'Kempegowda Institute of Medical Sciences', city: 'Bangalore', contact: '080-2667-2727' },
-  { id: 'bmcri_bgl', name: 'Bangalore Medical College and Research Institute', city: 'Bangalore', contact: '080-2670-0810' },
-  { id: 'sparsh_hosp_bgl', name: 'Sparsh Hospital', city: 'Bangalore', contact: '080-6122-2000' },
-  { id: 'vikram_hosp_bgl', name: 'Vikram Hospital', city: 'Bangalore', contact: '080-4609-4444' },
-  { id: 'hcg_cancer_bgl', name: 'HCG Cancer Centre', city: 'Bangalore', contact: '080-4660-7700' },
-  { id: 'people_tree_bgl', name: 'People Tree Hospitals', city: 'Bangalore', contact: '080-4959-9999' },
-  { id: 'narayana_hrudayalaya_bgl', name: 'Narayana Institute of Cardiac Sciences', city: 'Bangalore', contact: '1860-208-0208' },
-  { id: 'fortis_la_femme_bgl', name: 'Fortis La Femme', city: 'Bangalore', contact: '080-6746-4646' },
-  { id: 'apollospectra_bgl', name: 'Apollo Spectra Hospitals', city: 'Bangalore', contact: '080-4612-4612' },
-  { id: 'motherhood_bgl', name: 'Motherhood Hospital', city: 'Bangalore', contact: '1800-108-8008' },
-  { id: 'columbiaasia_hebbal_bgl', name: 'Columbia Asia Hospital, Hebbal', city: 'Bangalore', contact: '080-4179-1000' },
-  { id: 'chinmaya_bgl', name: 'Chinmaya Mission Hospital', city: 'Bangalore', contact: '080-2528-0425' },
-  { id: 'shekhar_bgl', name: 'Shekhar Hospital', city: 'Bangalore', contact: '080-4248-5600' },
-  { id: 'santhosh_bgl', name: 'Santhosh Hospital', city: 'Bangalore', contact: '080-4089-0500' },
-  { id: 'apollo_bgs_msr', name: 'Apollo BGS Hospitals', city: 'Mysore', contact: '0821-256-8888' },
-  { id: 'columbia_asia_msr', name: 'Columbia Asia Hospital', city: 'Mysore', contact: '0821-398-9896' },
-  { id: 'narayana_multi_msr', name: 'Narayana Multispeciality Hospital', city: 'Mysore', contact: '1860-208-0208' },
-  { id: 'kr_hosp_msr', name: 'K.R. Hospital', city: 'Mysore', contact: '0821-242-4551' },
-  { id: 'cheluvamba_msr', name: 'Cheluvamba Hospital for Women and Children', city: 'Mysore', contact: '0821-242-0544' },
-  { id: 'gokulam_msr', name: 'Gokulam Hospital', city: 'Mysore', contact: '0821-251-5555' },
-  { id: 'kamakshi_msr', name: 'Kamakshi Hospital', city: 'Mysore', contact: '0821-236-4444' },
-  { id: 'cauvery_heart_msr', name: 'Cauvery Heart & Multi-Speciality Hospital', city: 'Mysore', contact: '0821-241-4141' },
-  { id: 'bharath_oncology_msr', name: 'Bharath Hospital and Institute of Oncology', city: 'Mysore', contact: '0821-252-1777' },
-  { id: 'secure_hosp_msr', name: 'SECURE Hospital', city: 'Mysore', contact: '0821-428-2222' },
-  { id: 'bhanavi_msr', name: 'Bhanavi Hospital', city: 'Mysore', contact: '0821-252-0000' },
-  { id: 'radiant_msr', name: 'Radiant Hospital', city: 'Mysore', contact: '0821-252-2522' },
-  { id: 'pramathi_msr', name: 'Pramathi Hospital', city: 'Mysore', contact: '0821-254-4444' },
-  { id: 'st_josephs_msr', name: 'St. Joseph\'s Hospital', city: 'Mysore', contact: '0821-244-4422' },
-  { id: 'basappa_msr', name: 'Basappa Memorial Hospital', city: 'Mysore', contact: '0821-244-2424' },
-  { id: 'aj_hosp_mgl', name: 'A J Hospital & Research Centre', city: 'Mangalore', contact: '0824-222-5533' },
-  { id: 'yenepoya_mgl', name: 'Yenepoya Medical College Hospital', city: 'Mangalore', contact: '0824-220-4668' },
-  { id: 'indiana_hosp_mgl', name: 'Indiana Hospital & Heart Institute', city: 'Mangalore', contact: '0824-288-0880' },
-  { id: 'scs_hosp_mgl', name: 'SCS Hospital', city: 'Mangalore', contact: '0824-221-1255' },
-  { id: 'tejasvini_mgl', name: 'Tejasvini Hospital', city: 'Mangalore', contact: '0824-242-4242' },
-  { id: 'kshema_mgl', name: 'K S Hegde Medical Academy (KSHEMA)', city: 'Mangalore', contact: '0824-220-4490' },
-  { id: 'unity_hosp_mgl', name: 'Unity Hospital', city: 'Mangalore', contact: '0824-244-3065' },
-  { id: 'wenlock_dist_mgl', name: 'Wenlock District Hospital', city: 'Mangalore', contact: '0824-242-3252' },
-  { id: 'lady_goschen_mgl', name: 'Lady Goschen Hospital', city: 'Mangalore', contact: '0824-242-4522' },
-  { id: 'omega_mgl', name: 'Omega Hospital', city: 'Mangalore', contact: '0824-244-0333' },
-  { id: 'city_hosp_mgl', name: 'City Hospital', city: 'Mangalore', contact: '0824-244-1144' },
-  { id: 'vasan_eye_mgl', name: 'Vasan Eye Care', city: 'Mangalore', contact: '1800-102-8272' },
-  { id: 'vinaya_hosp_mgl', name: 'Vinaya Hospital & Research Centre', city: 'Mangalore', contact: '0824-227-6666' },
-  { id: 'global_multi_mgl', name: 'Global Multispeciality Hospital', city: 'Mangalore', contact: '0824-245-5555' },
-  { id: 'kims_hbl', name: 'Karnataka Institute of Medical Sciences (KIMS)', city: 'Hubli', contact: '0836-237-3348' },
-  { id: 'sdm_med_dwd', name: 'SDM College of Medical Sciences & Hospital', city: 'Dharwad', contact: '0836-247-7507' },
-  { id: 'tatwadarsha_hbl', name: 'Tatwadarsha Hospital', city: 'Hubli', contact: '0836-235-5555' },
-  { id: 'vivekananda_hbl', name: 'Vivekananda General Hospital', city: 'Hubli', contact: '0836-236-2661' },
-  { id: 'lifepoint_hbl', name: 'Lifepoint Multispeciality Hospital', city: 'Hubli', contact: '0836-425-5555' },
-  { id: 'shushrusha_dwd', name: 'Shushrusha Nursing Home', city: 'Dharwad', contact: '0836-274-5555' },
-  { id: 'dist_hosp_dwd', name: 'District Hospital', city: 'Dharwad', contact: '0836-244-7422' },
-  { id: 'suchirayu_hbl', name: 'Suchirayu Hospital', city: 'Hubli', contact: '0836-222-2222' },
-  { id: 'shree_devi_hbl', name: 'Shree Devi Hospital', city: 'Hubli', contact: '0836-235-1111' },
-  { id: 'city_clinic_dwd', name: 'City Clinic', city: 'Dharwad', contact: '0836-274-8888' },
-  { id: 'kle_hosp_hbl', name: 'KLE Hospital', city: 'Hubli', contact: '0836-227-7777' },
-  { id: 'dr_hegde_hbl', name: 'Dr. Hegde Hospital', city: 'Hubli', contact: '0836-225-5555' },
-  { id: 'patil_hosp_dwd', name: 'Patil Nursing Home', city: 'Dharwad', contact: '0836-244-4444' },
-  { id: 'sarvodaya_hbl', name: 'Sarvodaya Hospital', city: 'Hubli', contact: '0836-226-6666' },
-  { id: 'anand_dwd', name: 'Anand Hospital', city: 'Dharwad', contact: '0836-277-7777' },
-  { id: 'jnmc_bga', name: 'Jawaharlal Nehru Medical College (JNMC) Hospital', city: 'Belgaum', contact: '0831-247-3777' },
-  { id: 'kle_kore_bga', name: 'KLE Dr. Prabhakar Kore Hospital & MRC', city: 'Belgaum', contact: '0831-247-3777' },
-  { id: 'lakeview_bga', name: 'Lakeview Goaves Hospital', city: 'Belgaum', contact: '0831-247-0777' },
-  { id: 'vijaya_ortho_bga', name: 'Vijaya Ortho & Trauma Centre', city: 'Belgaum', contact: '0831-245-5555' },
-  { id: 'belgaum_cancer_bga', name: 'Belgaum Cancer Hospital', city: 'Belgaum', contact: '0831-246-6666' },
-  { id: 'kore_charitable_bga', name: 'Dr. Prabhakar Kore Charitable Hospital', city: 'Belgaum', contact: '0831-247-3777' },
-  { id: 'gogte_nursing_bga', name: 'Gogte Nursing Home', city: 'Belgaum', contact: '0831-242-2222' },
-  { id: 'sanjeevini_bga', name: 'Sanjeevini Hospital', city: 'Belgaum', contact: '0831-243-3333' },
-  { id: 'bims_bga', name: 'Belgaum Institute of Medical Sciences (BIMS)', city: 'Belgaum', contact: '0831-240-3101' },
-  { id: 'maratha_mandal_bga', name: 'Maratha Mandal\'s Hospital', city: 'Belgaum', contact: '0831-247-4777' },
-  { id: 'ashwini_bga', name: 'Ashwini Hospital', city: 'Belgaum', contact: '0831-247-7777' },
-  { id: 'vivekanand_bga', name: 'Vivekanand Hospital', city: 'Belgaum', contact: '0831-242-4242' },
-  { id: 'shanti_bga', name: 'Shanti Hospital', city: 'Belgaum', contact: '0831-245-4545' },
-  { id: 'city_hosp_bga', name: 'City Hospital', city: 'Belgaum', contact: '0831-246-4646' },
-  { id: 'prerana_bga', name: 'Prerana Hospital', city: 'Belgaum', contact: '0831-247-4747' },
-  { id: 'tma_pai_udupi', name: 'Dr. T.M.A. Pai Hospital', city: 'Udupi', contact: '0820-257-1201' },
-  { id: 'adarsh_hosp_udupi', name: 'Adarsh Hospital', city: 'Udupi', contact: '0820-252-2522' },
-  { id: 'hitech_medicare_udupi', name: 'Hi-Tech Medicare Hospital', city: 'Udupi', contact: '0820-253-3533' },
-  { id: 'gandhi_hosp_udupi', name: 'Gandhi Hospital', city: 'Udupi', contact: '0820-252-1234' },
-  { id: 'mahesh_hosp_udupi', name: 'Mahesh Hospital', city: 'Udupi', contact: '0820-252-5252' },
-  { id: 'sri_krishna_udupi', name: 'Sri Krishna Hospital', city: 'Udupi', contact: '0820-253-0000' },
-  { id: 'city_hosp_udupi', name: 'City Hospital', city: 'Udupi', contact: '0820-252-0888' },
-  { id: 'mission_hosp_udupi', name: 'Mission Hospital', city: 'Udupi', contact: '0820-252-0555' },
-  { id: 'amc_hosp_manipal', name: 'AMC Hospital', city: 'Manipal', contact: '0820-257-1999' },
-  { id: 'vinaya_hosp_udupi', name: 'Vinaya Hospital', city: 'Udupi', contact: '0820-252-3333' },
-  { id: 'mcgann_dist_smg', name: 'Mc Gann District Hospital', city: 'Shivamogga', contact: '08182-222-222' },
-  { id: 'nanjappa_smg', name: 'Nanjappa Hospital', city: 'Shivamogga', contact: '08182-277-777' },
-  { id: 'sahyadri_narayana_smg', name: 'Sahyadri Narayana Multispeciality Hospital', city: 'Shivamogga', contact: '1860-208-0208' },
-  { id: 'sarji_smg', name: 'Sarji Hospital', city: 'Shivamogga', contact: '08182-255-555' },
-  { id: 'subbaiah_med_smg', name: 'Subbaiah Institute of Medical Sciences', city: 'Shivamogga', contact: '08182-295-555' },
-  { id: 'maxgann_smg', name: 'Maxgann Hospital', city: 'Shivamogga', contact: '08182-266-666' },
-  { id: 'shankar_eye_smg', name: 'Shankar Eye Hospital', city: 'Shivamogga', contact: '08182-228-888' },
-  { id: 'city_central_smg', name: 'City Central Hospital', city: 'Shivamogga', contact: '08182-277-277' },
-  { id: 'asha_smg', name: 'Asha Hospital', city: 'Shivamogga', contact: '08182-221-122' },
-  { id: 'gopala_gowda_smg', name: 'Gopala Gowda Shanthaveri Memorial Hospital', city: 'Shivamogga', contact: '08182-220-022' },
-  { id: 'vims_blr', name: 'Vijayanagara Institute of Medical Sciences (VIMS)', city: 'Ballari', contact: '08392-235-201' },
-  { id: 'st_marys_blr', name: 'St. Mary\'s Hospital', city: 'Ballari', contact: '08392-277-777' },
-  { id: 'al_iqra_blr', name: 'AL-IQRA Hospital', city: 'Ballari', contact: '08392-266-666' },
-  { id: 'dhanvantari_blr', name: 'Dhanvantari Hospital', city: 'Ballari', contact: '08392-255-555' },
-  { id: 'bellary_city_blr', name: 'Bellary City Hospital', city: 'Ballari', contact: '08392-244-444' },
-  { id: 'sri_raghavendra_blr', name: 'Sri Raghavendra Hospital', city: 'Ballari', contact: '08392-233-333' },
-  { id: 'kalyani_blr', name: 'Kalyani Hospital', city: 'Ballari', contact: '08392-222-222' },
-  { id: 'jyothi_blr', name: 'Jyothi Hospital', city: 'Ballari', contact: '08392-211-111' },
-  { id: 'government_hosp_blr', name: 'Government Hospital', city: 'Ballari', contact: '08392-275-275' },
-  { id: 'sunshine_blr', name: 'Sunshine Hospital', city: 'Ballari', contact: '08392-288-888' },
-  { id: 'jjmmc_dvn', name: 'JJMMC Hospital', city: 'Davanagere', contact: '08192-231-388' },
-  { id: 'bapuji_dvn', name: 'Bapuji Hospital', city: 'Davanagere', contact: '08192-221-288' },
-  { id: 'city_central_dvn', name: 'City Central Hospital', city: 'Davanagere', contact: '08192-255-555' },
-  { id: 'ssims_dvn', name: 'SS Institute of Medical Sciences & Research Centre', city: 'Davanagere', contact: '08192-266-666' },
-  { id: 'chigateri_dist_dvn', name: 'Chigateri District Hospital', city: 'Davanagere', contact: '08192-232-088' },
-  { id: 'aruna_dvn', name: 'Aruna Hospital', city: 'Davanagere', contact: '08192-277-777' },
-  { id: 'anugraha_dvn', name: 'Anugraha Hospital', city: 'Davanagere', contact: '08192-266-266' },
-  { id: 'santhosh_dvn', name: 'Santhosh Hospital', city: 'Davanagere', contact: '08192-244-444' },
-  { id: 'srinivas_dvn', name: 'Srinivas Hospital', city: 'Davanagere', contact: '08192-233-333' },
-  { id: 'shamanur_shivashankarappa_dvn', name: 'Shamanur Shivashankarappa Janakalyan Trust Hospital', city: 'Davanagere', contact: '08192-222-222' },
-  { id: 'basaveshwar_klb', name: 'Basaveshwar Teaching and General Hospital', city: 'Kalaburagi', contact: '08472-220-303' },
-  { id: 'united_hosp_klb', name: 'United Hospital', city: 'Kalaburagi', contact: '08472-255-555' },
-  { id: 'esic_med_klb', name: 'ESIC Medical College & Hospital', city: 'Kalaburagi', contact: '08472-265-555' },
-  { id: 'gda_hosp_klb', name: 'GDA Hospital', city: 'Kalaburagi', contact: '08472-244-444' },
-  { id: 'humnabad_klb', name: 'Humnabad Hospital', city: 'Kalaburagi', contact: '08472-233-333' },
-  { id: 'khaja_bandanawaz_klb', name: 'Khaja Bandanawaz Institute of Medical Sciences', city: 'Kalaburagi', contact: '08472-266-666' },
-  { id: 'navodaya_klb', name: 'Navodaya Hospital', city: 'Kalaburagi', contact: '08472-277-777' },
-  { id: 'soukhya_klb', name: 'Soukhya Hospital', city: 'Kalaburagi', contact: '08472-222-222' },
-  { id: 'sai_klb', name: 'Sai Hospital', city: 'Kalaburagi', contact: '08472-211-111' },
-  { id: 'vasavi_klb', name: 'Vasavi Hospital', city: 'Kalaburagi', contact: '08472-288-888' },
-  { id: 'brims_bdr', name: 'Bidar Institute of Medical Sciences (BRIMS)', city: 'Bidar', contact: '08482-225-333' },
-  { id: 'guru_nanak_bdr', name: 'Guru Nanak Hospital', city: 'Bidar', contact: '08482-222-222' },
-  { id: 'bidar_city_bdr', name: 'Bidar City Hospital', city: 'Bidar', contact: '08482-233-333' },
-  { id: 'mr_med_bdr', name: 'M.R. Medical College Hospital', city: 'Bidar', contact: '08482-244-444' },
-  { id: 'prakash_bdr', name: 'Prakash Hospital', city: 'Bidar', contact: '08482-255-555' },
-  { id: 'bhalke_bdr', name: 'Bhalke Hospital', city: 'Bidar', contact: '08482-266-666' },
-  { id: 'shiva_bdr', name: 'Shiva Hospital', city: 'Bidar', contact: '08482-277-777' },
-  { id: 'sanjivani_bdr', name: 'Sanjivani Hospital', city: 'Bidar', contact: '08482-288-888' },
-  { id: 'basavakalyan_bdr', name: 'Basavakalyan Hospital', city: 'Bidar', contact: '08482-299-999' },
-  { id: 'noori_bdr', name: 'Noori Hospital', city: 'Bidar', contact: '08482-211-111' },
-  { id: 'hims_hsn', name: 'Hassan Institute of Medical Sciences (HIMS)', city: 'Hassan', contact: '08172-231-000' },
-  { id: 'ssm_hosp_hsn', name: 'SSM Hospital', city: 'Hassan', contact: '08172-266-666' },
-  { id: 'mangala_hsn', name: 'Mangala Hospital', city: 'Hassan', contact: '08172-255-555' },
-  { id: 'city_hosp_hsn', name: 'City Hospital', city: 'Hassan', contact: '08172-244-444' },
-  { id: 'chamarajendra_hsn', name: 'Sri Chamarajendra Hospital', city: 'Hassan', contact: '08172-233-333' },
-  { id: 'hemavathi_hsn', name: 'Hemavathi Hospital', city: 'Hassan', contact: '08172-222-222' },
-  { id: 'vasan_eye_hsn', name: 'Vasan Eye Care', city: 'Hassan', contact: '1800-102-8272' },
-  { id: 'hosalli_hsn', name: 'Hosalli Hospital', city: 'Hassan', contact: '08172-277-777' },
-  { id: 'nethradhama_hsn', name: 'Nethradhama Superspeciality Eye Hospital', city: 'Hassan', contact: '08172-288-888' },
-  { id: 'malnad_hsn', name: 'Malnad Hospital', city: 'Hassan', contact: '08172-299-999' },
-  { id: 'siddaganga_tmk', name: 'Siddaganga Hospital & Research Centre', city: 'Tumakuru', contact: '0816-228-1111' },
-  { id: 'dist_govt_tmk', name: 'District Government Hospital', city: 'Tumakuru', contact: '0816-227-8686' },
-  { id: 'shridevi_med_tmk', name: 'Shridevi Institute of Medical Sciences & Research Hospital', city: 'Tumakuru', contact: '0816-221-1555' },
-  { id: 'adarsha_tmk', name: 'Adarsha Hospital', city: 'Tumakuru', contact: '0816-225-5555' },
-  { id: 'sree_siddaganga_med_tmk', name: 'Sree Siddaganga Medical College And Research Institute', city: 'Tumakuru', contact: '0816-220-0222' },
-  { id: 'seetharam_tmk', name: 'Seetharam Hospital', city: 'Tumakuru', contact: '0816-224-4444' },
-  { id: 'sri_manjunatha_tmk', name: 'Sri Manjunatha Hospital', city: 'Tumakuru', contact: '0816-226-6666' },
-  { id: 'vasavi_tmk', name: 'Vasavi Hospital', city: 'Tumakuru', contact: '0816-223-3333' },
-  { id: 'mamatha_tmk', name: 'Mamatha Hospital', city: 'Tumakuru', contact: '0816-227-7777' },
-  { id: 'aruna_tmk', name: 'Aruna Hospital', city: 'Tumakuru', contact: '0816-228-8888' },
-];
-
-
-const HOSPITALS: Hospital[] = HOSPITALS_DATA.map((hospital, index) => ({
-    ...hospital,
-    mockId: `HSP-${String(index + 1).padStart(3, '0')}`
-}));
-
-
-// --- MOCK DATA (for initial state if localStorage is empty) ---
-const MOCK_DONORS: Donor[] = [];
-
-const MOCK_RECIPIENTS: Recipient[] = [];
-
-
-// --- LOCAL STORAGE HELPERS ---
-const getStoredData = <T,>(key: string, fallback: T[]): T[] => {
-    try {
-        const stored = localStorage.getItem(key);
-        return stored ? JSON.parse(stored) : fallback;
-    } catch (error) {
-        console.error(`Error reading from localStorage key "${key}":`, error);
-        return fallback;
-    }
+// Clears the token hash on this device so an ended session cannot be restored from storage, unless
+// another sign-in has already replaced it
+const revokeSession = async (session: AuthSession) => {
+    const credential = await findDeviceCredential(session.accountId);
+    if (!credential?.sessionTokenHash || !constantTimeEquals(await sha256Hex(session.token), credential.sessionTokenHash)) return;
+    await registryStore.putRecords('credentials', [await withSessionToken(credential, null)]);
 };
 
-const setStoredData = <T,>(key: string, data: T[]): void => {
-    try {
-        localStorage.setItem(key, JSON.stringify(data));
-    } catch (error) {
-        console.error(`Error writing to localStorage key "${key}":`, error);
-    }
-};
+const localDocumentStore: DocumentStore = typeof indexedDB !== 'undefined' ? createIndexedDbDocumentStore(indexedDB) : createMemoryDocumentStore();
 
-// --- DOMAIN LOGIC HELPERS ---
-const isBloodTypeCompatible = (donorBG: BloodGroup, recipientBG: BloodGroup): boolean => {
-    const compatibility: Record<BloodGroup, BloodGroup[]> = {
-        'A+': ['A+', 'A-', 'O+', 'O-'], 'A-': ['A-', 'O-'],
-        'B+': ['B+', 'B-', 'O+', 'O-'], 'B-': ['B-', 'O-'],
-        'AB+': ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
-        'AB-': ['A-', 'B-', 'AB-', 'O-'],
-        'O+': ['O+', 'O-'], 'O-': ['O-'],
-    };
-    return compatibility[recipientBG]?.includes(donorBG) ?? false;
-};
+const documentStore: DocumentStore = firestoreSyncConfig?.firebase.storageBucket
+    ? withCloudDocumentCopies(localDocumentStore, firestoreSyncConfig)
+    : localDocumentStore;
 
 
 // --- SVG ICONS ---
@@ -372,8 +204,10 @@ const MicIcon = ({ className = '' }: { className?: string }) => <IconWrapper cla
 const Volume2Icon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><path d="M15.54 8.46a5 5 0 0 1 0 7.07"/><path d="M19.07 4.93a10 10 0 0 1 0 14.14"/></IconWrapper>;
 const ZapIcon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><polygon points="13 2 3 14 12 14 11 22 21 10 12 10 13 2"></polygon></IconWrapper>;
 const BotMessageSquareIcon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><path d="M12 6V2H8"/><path d="m8 18-4 4V8a2 2 0 0 1 2-2h12a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2Z"/><path d="M2 12h2"/><path d="M9 12h2"/><path d="M16 12h2"/></IconWrapper>;
+const ShieldCheckIcon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/><path d="m9 12 2 2 4-4"/></IconWrapper>;
 const XIcon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><path d="M18 6 6 18" /><path d="m6 6 12 12" /></IconWrapper>;
 const SettingsIcon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 0 2l-.15.08a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.38a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1 0-2l.15-.08a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></IconWrapper>;
+const DatabaseIcon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><ellipse cx="12" cy="5" rx="9" ry="3"/><path d="M3 5v14a9 3 0 0 0 18 0V5"/><path d="M3 12a9 3 0 0 0 18 0"/></IconWrapper>;
 const SendHorizonalIcon = ({ className = '' }: { className?: string }) => <IconWrapper className={className}><path d="m3 3 3 9-3 9 19-9Z"/><path d="M6 12h16"/></IconWrapper>;
 
 
@@ -486,7 +320,7 @@ const Modal: FC<{ isOpen: boolean; onClose: () => void; children: ReactNode; }>
     );
 };
 
-const ConfirmationModal: FC<{ isOpen: boolean; onClose: () => void; onConfirm: () => void; title: string; children: ReactNode; }> = ({ isOpen, onClose, onConfirm, title, children }) => {
+const ConfirmationModal: FC<{ isOpen: boolean; onClose: () => void; onConfirm: () => void; title: string; children: ReactNode; confirmLabel?: string; }> = ({ isOpen, onClose, onConfirm, title, children, confirmLabel = 'Confirm Interest' }) => {
     if (!isOpen) return null;
     return (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
@@ -510,7 +344,7 @@ const ConfirmationModal: FC<{ isOpen: boolean; onClose: () => void; onConfirm: (
                         Cancel
                     </button>
                     <Button onClick={onConfirm}>
-                        Confirm Interest
+                        {confirmLabel}
                     </Button>
                 </div>
             </div>
@@ -518,6 +352,51 @@ const ConfirmationModal: FC<{ isOpen: boolean; onClose: () => void; onConfirm: (
     );
 };
 
+// Collects the reason that is written to the audit trail alongside a mutation
+const ReasonPromptModal: FC<{ isOpen: boolean; onClose: () => void; onConfirm: (reason: string) => void; title: string; children: ReactNode; confirmLabel: string; }> = ({ isOpen, onClose, onConfirm, title, children, confirmLabel }) => {
+    const [reason, setReason] = useState('');
+
+    useEffect(() => {
+        if (isOpen) setReason('');
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+            <form
+                onSubmit={e => { e.preventDefault(); if (reason.trim()) onConfirm(reason.trim()); }}
+                className="bg-slate-800 border border-slate-700 rounded-xl shadow-xl text-white max-w-md w-full p-6 space-y-6 transform transition-all"
+            >
+                <div className="flex items-start space-x-4">
+                    <div className="flex-shrink-0 text-amber-500">
+                        <AlertTriangleIcon className="w-6 h-6"/>
+                    </div>
+                    <div className="flex-1">
+                        <h2 className="text-xl font-bold">{title}</h2>
+                        <div className="text-slate-400 mt-2 text-sm">
+                            {children}
+                        </div>
+                        <label className="block text-sm font-medium text-slate-300 mt-4">Reason (recorded in the audit trail)</label>
+                        <Textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} autoFocus required />
+                    </div>
+                </div>
+                <div className="flex justify-end space-x-3">
+                     <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-md font-semibold shadow-sm text-sm"
+                    >
+                        Cancel
+                    </button>
+                    <Button type="submit" disabled={!reason.trim()}>
+                        {confirmLabel}
+                    </Button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
 const InfoModal: FC<{
     isOpen: boolean;
     onClose: () => void;
@@ -525,7 +404,8 @@ const InfoModal: FC<{
     icon?: ReactNode;
     children: ReactNode;
     accentColor?: 'indigo' | 'amber';
-}> = ({ isOpen, onClose, title, icon, children, accentColor = 'indigo' }) => {
+    wide?: boolean;
+}> = ({ isOpen, onClose, title, icon, children, accentColor = 'indigo', wide = false }) => {
     if (!isOpen) return null;
 
     const accentClasses = {
@@ -540,7 +420,7 @@ const InfoModal: FC<{
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4 animate-fade-in" aria-modal="true" role="dialog">
-            <div className={`bg-slate-800 border ${accentClasses[accentColor]} rounded-xl shadow-xl text-white max-w-lg w-full transform transition-all`}>
+            <div className={`bg-slate-800 border ${accentClasses[accentColor]} rounded-xl shadow-xl text-white ${wide ? 'max-w-5xl' : 'max-w-lg'} w-full transform transition-all`}>
                 <div className="p-6">
                     <div className="flex items-start space-x-4 mb-4">
                         {icon && <div className={`flex-shrink-0 ${iconWrapperClasses[accentColor]}`}>{icon}</div>}
@@ -558,11 +438,852 @@ const InfoModal: FC<{
     );
 };
 
+const ScoreBreakdown: FC<{ score: AllocationScore }> = ({ score }) => (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-1">
+        {score.breakdown.map(item => (
+            <div key={item.factor} className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1">
+                <div className="flex justify-between text-xs">
+                    <span className="text-slate-400">{item.label}</span>
+                    <span className={`font-semibold ${item.points > 0 ? 'text-amber-400' : 'text-slate-500'}`}>+{item.points}</span>
+                </div>
+                <div className="text-[11px] text-slate-500 truncate" title={item.detail}>{item.detail}</div>
+            </div>
+        ))}
+    </div>
+);
+
+const ImmunologyFieldset: FC<{ values: ImmunologyFormFields; onChange: (values: ImmunologyFormFields) => void; legendClassName?: string }> = ({ values, onChange, legendClassName = 'text-rose-400' }) => {
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...values, [e.target.name]: e.target.value });
+    return (
+        <fieldset>
+            <legend className={`text-lg font-medium mb-2 ${legendClassName}`}>Immunological Data (optional)</legend>
+            <p className="text-xs text-slate-400 mb-2">Enter antigens separated by commas (e.g., "A2, A24"). Leave blank if HLA typing is pending. A recipient's cPRA (or PRA when cPRA is blank) raises kidney and pancreas allocation priority.</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div><label className="block text-sm font-medium text-slate-300">HLA-A</label><Input name="hlaA" type="text" value={values.hlaA} onChange={handleChange} placeholder="A2, A24" /></div>
+                <div><label className="block text-sm font-medium text-slate-300">HLA-B</label><Input name="hlaB" type="text" value={values.hlaB} onChange={handleChange} placeholder="B7, B44" /></div>
+                <div><label className="block text-sm font-medium text-slate-300">HLA-DR</label><Input name="hlaDR" type="text" value={values.hlaDR} onChange={handleChange} placeholder="DR4, DR15" /></div>
+                <div><label className="block text-sm font-medium text-slate-300">PRA (%)</label><Input name="pra" type="number" min={0} max={100} value={values.pra} onChange={handleChange} /></div>
+                <div><label className="block text-sm font-medium text-slate-300">cPRA (%)</label><Input name="cpra" type="number" min={0} max={100} value={values.cpra} onChange={handleChange} /></div>
+                <div><label className="block text-sm font-medium text-slate-300">Unacceptable Antigens</label><Input name="unacceptableAntigens" type="text" value={values.unacceptableAntigens} onChange={handleChange} placeholder="A1, B8" /></div>
+            </div>
+        </fieldset>
+    );
+};
+
+const SeverityFieldset: FC<{ organ: Organ; dob?: string; values: ClinicalLabFormFields; onChange: (values: ClinicalLabFormFields) => void }> = ({ organ, dob, values, onChange }) => {
+    if (!SEVERITY_LAB_FIELDS[organ]) return null;
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value, type } = e.target;
+        onChange({ ...values, [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value });
+    };
+    const preview = computeSeverityScore(organ, buildClinicalLabs(organ, values), dob || undefined, Date.now());
+    const checkbox = (name: keyof ClinicalLabFormFields, label: string) => (
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+            <input type="checkbox" name={name} checked={values[name] as boolean} onChange={handleChange} className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-rose-600 focus:ring-rose-500" />
+            <span>{label}</span>
+        </label>
+    );
+    return (
+        <fieldset>
+            <legend className="text-lg font-medium mb-2 text-rose-400">Clinical Severity ({organ === 'Liver' ? 'MELD / MELD-Na' : organ === 'Lungs' ? 'LAS (est.)' : 'EPTS'})</legend>
+            {organ === 'Liver' && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div><label className="block text-sm font-medium text-slate-300">Bilirubin (mg/dL)</label><Input name="bilirubin" type="number" step="0.1" min={0} value={values.bilirubin} onChange={handleChange} /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">INR</label><Input name="inr" type="number" step="0.1" min={0} value={values.inr} onChange={handleChange} /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">Creatinine (mg/dL)</label><Input name="creatinine" type="number" step="0.1" min={0} value={values.creatinine} onChange={handleChange} /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">Sodium (mEq/L)</label><Input name="sodium" type="number" min={0} value={values.sodium} onChange={handleChange} /></div>
+                    <div className="col-span-2 md:col-span-4">{checkbox('dialysisTwiceInPastWeek', 'Dialysis at least twice in the past week')}</div>
+                </div>
+            )}
+            {organ === 'Lungs' && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    <div className="col-span-2 md:col-span-3">
+                        <label className="block text-sm font-medium text-slate-300">Diagnosis Group</label>
+                        <Select name="lungDiagnosisGroup" value={values.lungDiagnosisGroup} onChange={handleChange}>
+                            <option value="">Not recorded</option>
+                            {LUNG_DIAGNOSIS_GROUPS.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+                        </Select>
+                    </div>
+                    <div><label className="block text-sm font-medium text-slate-300">FVC (% predicted)</label><Input name="fvcPercent" type="number" min={0} value={values.fvcPercent} onChange={handleChange} /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">PA Systolic (mmHg)</label><Input name="paSystolic" type="number" min={0} value={values.paSystolic} onChange={handleChange} /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">O₂ at Rest (L/min)</label><Input name="oxygenLpm" type="number" step="0.5" min={0} value={values.oxygenLpm} onChange={handleChange} /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">6-Minute Walk (m)</label><Input name="sixMinuteWalkM" type="number" min={0} value={values.sixMinuteWalkM} onChange={handleChange} /></div>
+                    <div className="col-span-2 flex items-end pb-2">{checkbox('onVentilator', 'On continuous mechanical ventilation')}</div>
+                </div>
+            )}
+            {organ === 'Kidney' && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div><label className="block text-sm font-medium text-slate-300">Dialysis Start Date</label><Input name="dialysisStartDate" type="date" value={values.dialysisStartDate} onChange={handleChange} /></div>
+                    <div className="flex items-end pb-2">{checkbox('diabetes', 'Diabetes')}</div>
+                    <div className="flex items-end pb-2">{checkbox('priorTransplant', 'Prior solid organ transplant')}</div>
+                </div>
+            )}
+            <p className="text-xs text-slate-400 mt-2">
+                {preview ? <>Computed: <span className="font-semibold text-amber-400">{preview.detail}</span></> : organ === 'Kidney' ? 'EPTS needs the date of birth.' : 'Enter the required values to compute the score.'}
+            </p>
+        </fieldset>
+    );
+};
+
+const MatchResultCard: FC<{ match: MatchResult; onPropose?: (match: MatchResult) => void; isProposed?: boolean }> = ({ match, onPropose, isProposed }) => (
+    <div className="bg-slate-900 p-3 rounded-md mb-2">
+        <p><strong className="text-slate-400">Recipient:</strong> {match.recipient.name} (ID: {match.recipient.patientId}, BG: {match.recipient.bloodGroup}, Hospital: {match.recipient.hospitalName})</p>
+        <p><strong className="text-slate-400">Donor:</strong> {match.donor.name} (BG: {match.donor.bloodGroup}, Organ: {match.recipient.organNeeded})</p>
+        <p className="text-xs text-slate-500 mt-1">Rule: {ORGAN_MATCHING_RULES[match.recipient.organNeeded].description}</p>
+        <p className="mt-1"><strong className="text-slate-400">Immunology:</strong> {match.immunology.mismatches ? `${match.immunology.mismatches.total}/6 mismatches (A ${match.immunology.mismatches.A}, B ${match.immunology.mismatches.B}, DR ${match.immunology.mismatches.DR})` : 'HLA typing incomplete'} · Virtual crossmatch: <span className={match.immunology.crossmatch === 'Negative' ? 'text-emerald-400' : 'text-amber-400'}>{match.immunology.crossmatch}</span></p>
+        <p className="mt-2"><strong className="text-slate-400">Allocation Score:</strong> <span className="font-bold text-amber-400">{match.score.total}</span></p>
+        <ScoreBreakdown score={match.score} />
+        {onPropose && (
+            <div className="text-right mt-2">
+                <button onClick={() => onPropose(match)} disabled={isProposed} className="text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-3 py-1.5 rounded-md">
+                    {isProposed ? 'Offer In Progress' : 'Propose Offer'}
+                </button>
+            </div>
+        )}
+    </div>
+);
+
+const EscalationRequestModal: FC<{
+    recipient: Recipient | null;
+    onClose: () => void;
+    onSubmit: (recipientId: string, justification: string, parameters: EscalationParameters) => void;
+}> = ({ recipient, onClose, onSubmit }) => {
+    const [justification, setJustification] = useState('');
+    const [meldScore, setMeldScore] = useState('');
+    const [heartStatusCode, setHeartStatusCode] = useState<HeartStatusCode>(HEART_STATUS_CODES[0]);
+    const [clinicalIndicator, setClinicalIndicator] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setJustification('');
+        const severity = recipient?.organNeeded === 'Liver' ? currentSeverity(recipient, Date.now()) : undefined;
+        setMeldScore(severity ? String(severity.value) : '');
+        setHeartStatusCode(HEART_STATUS_CODES[0]);
+        setClinicalIndicator('');
+        setError('');
+    }, [recipient?.id]);
+
+    if (!recipient) return null;
+    const requiredParameter = ESCALATION_PARAMETER_FOR_ORGAN[recipient.organNeeded];
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        const parameters: EscalationParameters =
+            requiredParameter === 'meldScore' ? { meldScore: meldScore === '' ? undefined : Number(meldScore) }
+            : requiredParameter === 'heartStatusCode' ? { heartStatusCode }
+            : { clinicalIndicator: clinicalIndicator.trim() };
+        const invalid = validateEscalationRequest(recipient.organNeeded, justification, parameters);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        onSubmit(recipient.id, justification.trim(), parameters);
+    };
+
+    return (
+        <InfoModal isOpen onClose={onClose} title={`Request Critical Escalation: ${recipient.patientId}`} icon={<AlertTriangleIcon className="w-6 h-6" />} accentColor="amber">
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <p className="text-sm">{recipient.name} · {recipient.organNeeded} · currently <span className="font-semibold text-white">{recipient.urgency}</span>. The patient stays at their current urgency until a second coordinator approves this request.</p>
+                <div>
+                    <label className="block text-sm font-medium text-slate-300">Clinical Justification</label>
+                    <Textarea value={justification} onChange={e => setJustification(e.target.value)} rows={3} required />
+                </div>
+                {requiredParameter === 'meldScore' && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300">MELD Score ({MELD_RANGE.min}-{MELD_RANGE.max})</label>
+                        <Input type="number" min={MELD_RANGE.min} max={MELD_RANGE.max} value={meldScore} onChange={e => setMeldScore(e.target.value)} required />
+                    </div>
+                )}
+                {requiredParameter === 'heartStatusCode' && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300">Heart Status Code</label>
+                        <Select value={heartStatusCode} onChange={e => setHeartStatusCode(e.target.value as HeartStatusCode)}>
+                            {HEART_STATUS_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+                        </Select>
+                    </div>
+                )}
+                {requiredParameter === 'clinicalIndicator' && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300">Supporting Clinical Indicator</label>
+                        <Input value={clinicalIndicator} onChange={e => setClinicalIndicator(e.target.value)} placeholder="e.g. creatinine 9.1 mg/dL, on dialysis, ICU admission" required />
+                    </div>
+                )}
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <Button type="submit" className="w-full">Submit for Second Approval</Button>
+            </form>
+        </InfoModal>
+    );
+};
+
+const ListingStatusModal: FC<{
+    recipient: Recipient | null;
+    donors: Donor[];
+    onClose: () => void;
+    onSubmit: (recipientId: string, change: ListingChange) => void;
+}> = ({ recipient, donors, onClose, onSubmit }) => {
+    const options = recipient ? LISTING_TRANSITIONS[getListingState(recipient)] : [];
+    const [state, setState] = useState<ListingState>('Temporarily Inactive');
+    const [reason, setReason] = useState('');
+    const [reviewDate, setReviewDate] = useState('');
+    const [transplantDonorId, setTransplantDonorId] = useState('');
+    const [transplantDate, setTransplantDate] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setState(options[0] ?? 'Active');
+        setReason('');
+        setReviewDate('');
+        setTransplantDonorId('');
+        setTransplantDate(new Date().toISOString().slice(0, 10));
+        setError('');
+    }, [recipient?.id]);
+
+    if (!recipient) return null;
+    const linkableDonors = donors.filter(d => availableOrganUnits(d, recipient.organNeeded) > 0);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        const change: ListingChange = {
+            state,
+            reason: reason.trim(),
+            reviewDate: state === 'Temporarily Inactive' ? reviewDate : undefined,
+            transplantDonorId: state === 'Transplanted' ? transplantDonorId || undefined : undefined,
+            transplantDate: state === 'Transplanted' ? transplantDate : undefined,
+        };
+        const invalid = validateListingChange(recipient, change, donors);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        onSubmit(recipient.id, change);
+    };
+
+    return (
+        <InfoModal isOpen onClose={onClose} title={`Listing Status: ${recipient.patientId}`} icon={<ListIcon className="w-6 h-6" />} accentColor="indigo">
+            <p>{recipient.name} · {recipient.organNeeded} · currently <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${LISTING_STATE_CLASSES[getListingState(recipient)]}`}>{getListingState(recipient)}</span></p>
+            {options.length === 0 ? <p className="text-slate-400">This listing is closed. Register the patient again if they need to return to the waitlist.</p> : (
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300">New Status</label>
+                        <Select value={state} onChange={e => setState(e.target.value as ListingState)}>
+                            {options.map(option => <option key={option} value={option}>{option}</option>)}
+                        </Select>
+                    </div>
+                    {state === 'Temporarily Inactive' && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">Review Date</label>
+                            <Input type="date" value={reviewDate} onChange={e => setReviewDate(e.target.value)} required />
+                            <p className="text-xs text-slate-500 mt-1">The patient keeps accruing waiting time but is skipped by matching until reactivated.</p>
+                        </div>
+                    )}
+                    {state === 'Transplanted' && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300">Donor (if on registry)</label>
+                                <Select value={transplantDonorId} onChange={e => setTransplantDonorId(e.target.value)}>
+                                    <option value="">Not on registry</option>
+                                    {linkableDonors.map(d => <option key={d.id} value={d.id}>{d.name} ({d.bloodGroup})</option>)}
+                                </Select>
+                            </div>
+                            <div><label className="block text-sm font-medium text-slate-300">Transplant Date</label><Input type="date" value={transplantDate} onChange={e => setTransplantDate(e.target.value)} required /></div>
+                        </div>
+                    )}
+                    <div><label className="block text-sm font-medium text-slate-300">Reason (recorded in the listing history and audit trail)</label><Textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} required /></div>
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <Button type="submit" className="w-full">Update Status</Button>
+                </form>
+            )}
+            {(recipient.listingHistory?.length ?? 0) > 0 && (
+                <div>
+                    <p className="text-sm font-medium text-slate-300 mb-1">Listing History</p>
+                    <ul className="space-y-1 text-xs text-slate-400 max-h-40 overflow-y-auto">
+                        {[...recipient.listingHistory!].reverse().map((event, index) => (
+                            <li key={index}>
+                                {new Date(event.at).toLocaleString()} · <span className="text-slate-200">{event.kind}</span> by {event.actorName}: {event.reason}
+                                {event.reviewDate && ` (review ${event.reviewDate})`}
+                                {event.kind === 'Transferred' && ` (${event.fromHospitalId} → ${event.toHospitalId})`}
+                                {event.transplantDate && ` (${event.transplantDate}${event.transplantDonorId ? `, donor ${donors.find(d => d.id === event.transplantDonorId)?.name ?? event.transplantDonorId}` : ''})`}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </InfoModal>
+    );
+};
+
+const ListingStateBadge: FC<{ recipient: Recipient }> = ({ recipient }) => {
+    const state = getListingState(recipient);
+    if (state === 'Active') return null;
+    const inactive = latestListingEvent(recipient, 'Temporarily Inactive');
+    return (
+        <div className="mt-1">
+            <span className={`px-2 py-0.5 text-[10px] font-semibold rounded-full ${LISTING_STATE_CLASSES[state]}`}>{state}</span>
+            {state === 'Temporarily Inactive' && inactive?.reviewDate && (
+                <span className={`block text-[11px] mt-0.5 ${isReviewOverdue(recipient) ? 'text-red-400 font-semibold' : 'text-slate-500'}`}>Review {isReviewOverdue(recipient) ? 'overdue' : 'due'} {inactive.reviewDate}</span>
+            )}
+        </div>
+    );
+};
+
+// Recomputed from the stored labs, like the allocation score, rather than read from the copy saved with the record
+const SeverityBadge: FC<{ recipient: Recipient }> = ({ recipient }) => {
+    const severity = currentSeverity(recipient, Date.now());
+    return severity ? <div className="text-xs text-amber-400" title={severity.detail}>{formatSeverity(severity)}</div> : null;
+};
+
+const EscalationQueueCard: FC<{
+    recipients: Recipient[];
+    session: AuthSession | null;
+    onReview: (recipientId: string, approve: boolean, note: string) => void;
+}> = ({ recipients, session, onReview }) => {
+    const [rejectingId, setRejectingId] = useState<string | null>(null);
+    const pending = recipients.filter(isEscalationPending).sort((a, b) => a.urgencyEscalation!.requestedAt - b.urgencyEscalation!.requestedAt);
+    if (pending.length === 0) return null;
+
+    return (
+        <Card title={`Pending Critical Escalations (${pending.length})`} titleIcon={<AlertTriangleIcon className="text-amber-400"/>} accentColor="amber">
+            <p className="text-sm text-slate-400 mb-3">Escalations do not affect ranking until a second coordinator approves them. You cannot approve your own request.</p>
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+                {pending.map(recipient => {
+                    const escalation = recipient.urgencyEscalation!;
+                    const canReview = canReviewEscalation(session, recipient);
+                    return (
+                        <div key={recipient.id} className="bg-slate-900 p-3 rounded-md text-sm">
+                            <div className="flex justify-between items-start gap-4">
+                                <div>
+                                    <p className="font-semibold text-white">{recipient.name} <span className="text-xs text-slate-500">{recipient.patientId} · {recipient.organNeeded} · {recipient.hospitalName}</span></p>
+                                    <p className="text-amber-300 text-xs mt-1">{escalation.from} → Critical · {describeEscalationParameters(escalation.parameters)}</p>
+                                    <p className="text-slate-300 mt-1">{escalation.justification}</p>
+                                    <p className="text-xs text-slate-500 mt-1">Requested by {escalation.requestedByName} · {new Date(escalation.requestedAt).toLocaleString()}</p>
+                                </div>
+                                {canReview ? (
+                                    <div className="flex space-x-2 whitespace-nowrap">
+                                        <button onClick={() => onReview(recipient.id, true, 'Approved on second review')} className="text-emerald-400 hover:text-emerald-300 font-semibold text-xs">Approve</button>
+                                        <button onClick={() => setRejectingId(recipient.id)} className="text-rose-500 hover:text-rose-400 font-semibold text-xs">Reject</button>
+                                    </div>
+                                ) : (
+                                    <span className="text-xs text-slate-500 whitespace-nowrap">{escalation.requestedById === session?.accountId ? 'Awaiting second approver' : 'Not your hospital'}</span>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            <ReasonPromptModal
+                isOpen={rejectingId !== null}
+                onClose={() => setRejectingId(null)}
+                onConfirm={note => {
+                    if (rejectingId) onReview(rejectingId, false, note);
+                    setRejectingId(null);
+                }}
+                title="Reject Critical Escalation"
+                confirmLabel="Reject Escalation"
+            >
+                <p>The patient keeps their current urgency. The requesting coordinator can submit a new request with additional evidence.</p>
+            </ReasonPromptModal>
+        </Card>
+    );
+};
+
+const OFFER_STATE_CLASSES: Record<OfferState, string> = {
+    'Proposed': 'bg-sky-500/20 text-sky-400',
+    'Offered': 'bg-amber-500/20 text-amber-400',
+    'Accepted': 'bg-emerald-500/20 text-emerald-400',
+    'Transplanted': 'bg-indigo-500/20 text-indigo-300',
+    'Declined': 'bg-red-500/20 text-red-400',
+    'Expired': 'bg-slate-500/20 text-slate-400',
+};
+
+const MatchOffersCard: FC<{
+    offers: MatchOffer[];
+    donors: Donor[];
+    recipients: Recipient[];
+    onAdvanceOffer: (offerId: string, to: OfferState, note?: string) => void;
+}> = ({ offers, donors, recipients, onAdvanceOffer }) => {
+    const [decliningOfferId, setDecliningOfferId] = useState<string | null>(null);
+    const [declineReason, setDeclineReason] = useState(DECLINE_REASONS[0]);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 30000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const handleConfirmDecline = (offerId: string) => {
+        onAdvanceOffer(offerId, 'Declined', declineReason);
+        setDecliningOfferId(null);
+        setDeclineReason(DECLINE_REASONS[0]);
+    };
+
+    const activeCount = offers.filter(o => ACTIVE_OFFER_STATES.includes(o.state)).length;
+
+    return (
+        <Card title={`Match Offers (${activeCount} active)`} titleIcon={<CheckCircleIcon className="text-emerald-400"/>} accentColor="indigo">
+            <div className="max-h-96 overflow-y-auto">
+            {offers.length > 0 ? (
+                <table className="w-full text-left text-sm">
+                    <thead className="text-xs text-slate-400 uppercase bg-slate-900 sticky top-0">
+                        <tr>
+                            <th className="px-4 py-3">Recipient</th>
+                            <th className="px-4 py-3">Donor/Organ</th>
+                            <th className="px-4 py-3">State</th>
+                            <th className="px-4 py-3">Expiry / Reason</th>
+                            <th className="px-4 py-3 text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-slate-300">
+                        {offers.map(offer => {
+                            const recipient = recipients.find(r => r.id === offer.recipientId);
+                            const donor = donors.find(d => d.id === offer.donorId);
+                            const minutesLeft = offer.expiresAt ? Math.max(0, Math.ceil((offer.expiresAt - now) / 60000)) : null;
+                            return (
+                                <tr key={offer.id} className="border-b border-slate-700">
+                                    <td className="px-4 py-3">
+                                        <div className="font-semibold">{recipient?.name || 'Removed recipient'}</div>
+                                        <div className="text-xs text-slate-500">{recipient?.patientId} · score {offer.score}</div>
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <div>{donor?.name || 'Withdrawn donor'}</div>
+                                        <div className="text-xs text-rose-400">{offer.organ}</div>
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${OFFER_STATE_CLASSES[offer.state]}`}>{offer.state}</span>
+                                        {offer.previousOfferId && <div className="text-[11px] text-slate-500 mt-1">Cascaded</div>}
+                                    </td>
+                                    <td className="px-4 py-3 text-xs">
+                                        {offer.state === 'Offered' && minutesLeft !== null && <span className={minutesLeft <= 10 ? 'text-red-400' : 'text-slate-400'}>{minutesLeft} min left</span>}
+                                        {offer.state === 'Declined' && <span className="text-slate-400">{offer.declineReason}</span>}
+                                    </td>
+                                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                                        {decliningOfferId === offer.id ? (
+                                            <div className="flex items-center justify-end space-x-2">
+                                                <Select value={declineReason} onChange={e => setDeclineReason(e.target.value)} className="text-xs !p-1 !mt-0 w-44">
+                                                    {DECLINE_REASONS.map(reason => <option key={reason} value={reason}>{reason}</option>)}
+                                                </Select>
+                                                <button onClick={() => handleConfirmDecline(offer.id)} className="text-red-400 hover:text-red-300 font-semibold text-xs">Confirm</button>
+                                                <button onClick={() => setDecliningOfferId(null)} className="text-slate-400 hover:text-white text-xs">Cancel</button>
+                                            </div>
+                                        ) : (
+                                            <>
+                                                {offer.state === 'Proposed' && <button onClick={() => onAdvanceOffer(offer.id, 'Offered')} className="text-sky-400 hover:text-sky-300 font-semibold text-xs">Send Offer</button>}
+                                                {offer.state === 'Offered' && <button onClick={() => onAdvanceOffer(offer.id, 'Accepted')} className="text-emerald-400 hover:text-emerald-300 font-semibold text-xs">Accept</button>}
+                                                {offer.state === 'Accepted' && <button onClick={() => onAdvanceOffer(offer.id, 'Transplanted')} className="text-indigo-300 hover:text-indigo-200 font-semibold text-xs">Mark Transplanted</button>}
+                                                {OFFER_TRANSITIONS[offer.state].includes('Declined') && <button onClick={() => setDecliningOfferId(offer.id)} className="text-red-400 hover:text-red-300 font-semibold text-xs">Decline</button>}
+                                            </>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            ) : <p className="text-slate-400 text-center py-4">No match offers yet. Run the match algorithm and propose an offer.</p>}
+            </div>
+        </Card>
+    );
+};
+
+const InterestTriageCard: FC<{
+    notifications: InterestNotification[];
+    donors: Donor[];
+    recipients: Recipient[];
+    offers?: MatchOffer[];
+    // Coordinators a lead can be assigned to; assignment is read-only without onAssign
+    assignees: UserAccount[];
+    session: AuthSession | null;
+    onAssign?: (notificationId: string, accountId: string) => void;
+    onChangeStatus: (notificationId: string, status: TriageStatus, note: string) => void;
+    onLogContact: (notificationId: string, attempt: Pick<ContactAttempt, 'channel' | 'result' | 'note'>) => void;
+    onConfirmInterest?: (notification: InterestNotification) => void;
+    onOpenScreening?: (notification: InterestNotification) => void;
+}> = ({ notifications, donors, recipients, offers = [], assignees, session, onAssign, onChangeStatus, onLogContact, onConfirmInterest, onOpenScreening }) => {
+    const [now, setNow] = useState(Date.now());
+    const [showClosed, setShowClosed] = useState(false);
+    const [contactTarget, setContactTarget] = useState<InterestNotification | null>(null);
+    const [statusTarget, setStatusTarget] = useState<InterestNotification | null>(null);
+    const [channel, setChannel] = useState<ContactChannel>('Phone');
+    const [result, setResult] = useState<ContactResult>('Reached');
+    const [nextStatus, setNextStatus] = useState<TriageStatus>('Contacted');
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 60000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const openLeads = notifications.filter(isTriageOpen);
+    const overdueCount = openLeads.filter(n => isTriageOverdue(n, now)).length;
+    const outcomeCounts = TRIAGE_OUTCOME_STATUSES.map(status => ({ status, count: notifications.filter(n => n.outcome?.status === status).length }));
+    // Soonest deadline first; leads without a running SLA go last
+    const visible = (showClosed ? notifications : openLeads)
+        .slice()
+        .sort((a, b) => (triageDueAt(a) ?? Infinity) - (triageDueAt(b) ?? Infinity) || b.timestamp - a.timestamp);
+
+    const openContact = (notification: InterestNotification) => {
+        setContactTarget(notification);
+        setChannel('Phone');
+        setResult('Reached');
+        setNote('');
+    };
+
+    const openStatus = (notification: InterestNotification) => {
+        setStatusTarget(notification);
+        setNextStatus(TRIAGE_TRANSITIONS[getTriageStatus(notification)][0]);
+        setNote('');
+        setError('');
+    };
+
+    const handleSubmitContact = (e: FormEvent) => {
+        e.preventDefault();
+        if (contactTarget) onLogContact(contactTarget.id, { channel, result, note: note.trim() || undefined });
+        setContactTarget(null);
+    };
+
+    const handleSubmitStatus = (e: FormEvent) => {
+        e.preventDefault();
+        if (!statusTarget) return;
+        const invalid = validateTriageChange(statusTarget, nextStatus, note);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        onChangeStatus(statusTarget.id, nextStatus, note);
+        setStatusTarget(null);
+    };
+
+    const closedToggle = notifications.length > openLeads.length ? (
+        <button onClick={() => setShowClosed(!showClosed)} className="text-xs text-slate-400 hover:text-white font-semibold">
+            {showClosed ? 'Hide' : 'Show'} closed ({notifications.length - openLeads.length})
+        </button>
+    ) : undefined;
+
+    return (
+        <Card title={`Donor Interest Triage (${openLeads.length} open)`} titleIcon={<HeartIcon className="text-indigo-400"/>} titleActions={closedToggle} accentColor="indigo">
+            <p className="text-sm text-slate-400 mb-2">These donors have explicitly indicated a willingness to donate. First contact is due within {TRIAGE_SLA_HOURS['New']}h, screening within {TRIAGE_SLA_HOURS['Contacted']}h of contact, and a decision within {TRIAGE_SLA_HOURS['Screening']! / 24} days.</p>
+            <p className="text-xs text-slate-500 mb-4">
+                {overdueCount > 0 && <span className="text-red-400 font-semibold">{overdueCount} overdue · </span>}
+                Outcomes: {outcomeCounts.map(({ status, count }) => `${status} ${count}`).join(' · ')}
+            </p>
+            <div className="max-h-96 overflow-y-auto">
+            {visible.length > 0 ? (
+                <table className="w-full text-left text-sm">
+                    <thead className="text-xs text-slate-400 uppercase bg-slate-900 sticky top-0">
+                        <tr>
+                            <th className="px-4 py-3">Donor/City/BG</th>
+                            <th className="px-4 py-3">Organ/Candidate</th>
+                            <th className="px-4 py-3">Status/SLA</th>
+                            <th className="px-4 py-3">Assigned</th>
+                            <th className="px-4 py-3 text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-slate-300">
+                        {visible.map(notification => {
+                            const donor = donors.find(d => d.id === notification.donorId);
+                            const candidate = recipients.find(r => r.id === notification.candidateRecipientId);
+                            const offer = offers.find(o => o.id === notification.matchOfferId);
+                            const status = getTriageStatus(notification);
+                            const dueAt = triageDueAt(notification);
+                            const overdue = isTriageOverdue(notification, now);
+                            const attempts = notification.contactAttempts ?? [];
+                            const lastAttempt = attempts[attempts.length - 1];
+                            const canWork = canWorkInterest(session, notification);
+                            return (
+                                <tr key={notification.id} className={`border-b border-slate-700 ${overdue ? 'bg-red-900/20' : ''}`}>
+                                    <td className="px-4 py-3">
+                                        {donor ? (
+                                            <>
+                                                <div className="font-semibold">{donor.name} ({donor.bloodGroup})</div>
+                                                <div className="text-xs text-slate-400">City: {donor.address.split(',').pop()?.trim() || 'N/A'} · {donor.contact}</div>
+                                                {donor.aadhaar && <div className="text-xs text-slate-500">Aadhaar: {maskAadhaar(donor.aadhaar.last4)}</div>}
+                                            </>
+                                        ) : <div className="text-slate-500">Pledge withdrawn</div>}
+                                        <div className="text-xs text-slate-500">Received {new Date(notification.timestamp).toLocaleString()}</div>
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <div className="font-semibold text-rose-400">{notification.organ}</div>
+                                        {candidate ? (
+                                            <div className="text-xs">{candidate.name} <span className="text-slate-500">({candidate.patientId}, {candidate.bloodGroup})</span></div>
+                                        ) : <div className="text-xs text-slate-500">None compatible when recorded</div>}
+                                        {offer && <div className="text-xs text-emerald-300">Offer {offer.state}</div>}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${TRIAGE_STATUS_CLASSES[status]}`}>{status}</span>
+                                        {dueAt !== null && <div className={`text-xs mt-1 ${overdue ? 'text-red-400 font-semibold' : 'text-slate-500'}`}>{formatSlaRemaining(dueAt, now)}</div>}
+                                        {lastAttempt && <div className="text-xs text-slate-500 mt-1">{attempts.length} attempt(s) · last {lastAttempt.result.toLowerCase()} by {lastAttempt.channel.toLowerCase()}</div>}
+                                        {notification.outcome && <div className="text-xs text-slate-400 mt-1">{notification.outcome.note}</div>}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        {onAssign && isTriageOpen(notification) ? (
+                                            <Select value={notification.assignedToId ?? ''} onChange={e => onAssign(notification.id, e.target.value)} className="text-xs py-1">
+                                                <option value="">Unassigned</option>
+                                                {assignees.map(account => <option key={account.id} value={account.id}>{account.displayName}</option>)}
+                                            </Select>
+                                        ) : <span className="text-xs">{notification.assignedToName ?? 'Unassigned'}</span>}
+                                    </td>
+                                    <td className="px-4 py-3 text-right space-y-1">
+                                        {canWork && isTriageOpen(notification) && (
+                                            <div className="flex justify-end space-x-3">
+                                                <button onClick={() => openContact(notification)} className="text-sky-400 hover:text-sky-300 font-semibold text-xs">Log Contact</button>
+                                                <button onClick={() => openStatus(notification)} className="text-indigo-400 hover:text-indigo-300 font-semibold text-xs">Update Status</button>
+                                            </div>
+                                        )}
+                                        {onConfirmInterest && status === 'Eligible' && !notification.matchOfferId && (
+                                            <button onClick={() => onConfirmInterest(notification)} className="text-emerald-400 hover:text-emerald-300 font-semibold text-xs">Check &amp; Confirm Match</button>
+                                        )}
+                                        {onOpenScreening && donor && (
+                                            <button onClick={() => onOpenScreening(notification)} className="inline-flex items-center space-x-1 text-amber-400 hover:text-amber-300 font-semibold text-xs">
+                                                <BrainCircuitIcon className="w-4 h-4" />
+                                                <span>AI Draft</span>
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            ) : <p className="text-slate-400 text-center py-4">No open donor interest leads.</p>}
+            </div>
+
+            <InfoModal isOpen={contactTarget !== null} onClose={() => setContactTarget(null)} title="Log Contact Attempt" icon={<InfoIcon className="w-6 h-6" />} accentColor="indigo">
+                <form onSubmit={handleSubmitContact} className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">Channel</label>
+                            <Select value={channel} onChange={e => setChannel(e.target.value as ContactChannel)}>{CONTACT_CHANNELS.map(c => <option key={c} value={c}>{c}</option>)}</Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">Result</label>
+                            <Select value={result} onChange={e => setResult(e.target.value as ContactResult)}>{CONTACT_RESULTS.map(r => <option key={r} value={r}>{r}</option>)}</Select>
+                        </div>
+                    </div>
+                    <div><label className="block text-sm font-medium text-slate-300">Note</label><Textarea value={note} onChange={e => setNote(e.target.value)} rows={2} /></div>
+                    {contactTarget && getTriageStatus(contactTarget) === 'New' && result === 'Reached' && <p className="text-xs text-slate-400">Reaching the donor moves the lead to Contacted.</p>}
+                    <Button type="submit" className="w-full">Save Attempt</Button>
+                </form>
+            </InfoModal>
+
+            <InfoModal isOpen={statusTarget !== null} onClose={() => setStatusTarget(null)} title="Update Triage Status" icon={<ListIcon className="w-6 h-6" />} accentColor="indigo">
+                {statusTarget && (
+                    <form onSubmit={handleSubmitStatus} className="space-y-3">
+                        <p>Currently <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${TRIAGE_STATUS_CLASSES[getTriageStatus(statusTarget)]}`}>{getTriageStatus(statusTarget)}</span></p>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">New Status</label>
+                            <Select value={nextStatus} onChange={e => setNextStatus(e.target.value as TriageStatus)}>
+                                {TRIAGE_TRANSITIONS[getTriageStatus(statusTarget)].map(option => <option key={option} value={option}>{option}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">{TRIAGE_OUTCOME_STATUSES.includes(nextStatus) ? 'Outcome (kept for reporting)' : 'Note'}</label>
+                            <Textarea value={note} onChange={e => setNote(e.target.value)} rows={2} required={TRIAGE_OUTCOME_STATUSES.includes(nextStatus)} />
+                        </div>
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+                        <Button type="submit" className="w-full">Update Status</Button>
+                    </form>
+                )}
+            </InfoModal>
+        </Card>
+    );
+};
+
+// Cited figures are shown with the registry's own values, so a reader never relies on numbers restated by the model
+const CitedFacts: FC<{ keys: string[]; facts: UrgencyFacts; prefix: string }> = ({ keys, facts, prefix }) => (
+    <div className="flex flex-wrap gap-1 mt-2">
+        {keys.map(key => (
+            <span key={key} className="text-[11px] bg-slate-800 border border-slate-700 text-slate-400 px-2 py-0.5 rounded-full">
+                {key.startsWith(`${prefix}.`) ? key.slice(prefix.length + 1) : key}: <span className="text-slate-200">{facts.values[key]}</span>
+            </span>
+        ))}
+    </div>
+);
+
+const UrgencyAnalysisModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    analysis: UrgencyAnalysis | null;
+    facts: UrgencyFacts | null;
+    recipients: Recipient[];
+}> = ({ isOpen, onClose, analysis, facts, recipients }) => (
+    <InfoModal isOpen={isOpen} onClose={onClose} title="Priority Patient Urgency Analysis" icon={<ZapIcon className="w-6 h-6" />} accentColor="amber" wide>
+        {!analysis || !facts ? <p className="text-amber-300">Analysing the top {URGENCY_ANALYSIS_TOP_N} waiting patients…</p> : (
+            <div className="space-y-3 max-h-[70vh] overflow-y-auto pr-1">
+                <div className="bg-slate-900 p-3 rounded-md">
+                    <h3 className="font-bold text-amber-400">Overview</h3>
+                    <p>{analysis.overview}</p>
+                </div>
+                {analysis.patientPlans.map(plan => {
+                    const patient = recipients.find(r => r.patientId === plan.patientId);
+                    return (
+                        <div key={plan.patientId} className="bg-slate-900 p-3 rounded-md">
+                            <h3 className="font-bold text-amber-400">{plan.headline}</h3>
+                            <p className="text-xs text-slate-500">{patient?.name} ({plan.patientId}) · {patient?.hospitalName}</p>
+                            <ul className="list-disc list-inside space-y-1 mt-1 text-slate-300">
+                                {plan.actions.map((action, index) => <li key={index}>{action}</li>)}
+                            </ul>
+                            <CitedFacts keys={plan.citedFacts} facts={facts} prefix={plan.patientId} />
+                        </div>
+                    );
+                })}
+                {analysis.organOutlook.length > 0 && (
+                    <div className="bg-slate-900 p-3 rounded-md">
+                        <h3 className="font-bold text-amber-400">Supply and Demand</h3>
+                        {analysis.organOutlook.map(outlook => (
+                            <div key={outlook.organ} className="mt-2">
+                                <p><span className="font-semibold text-rose-400">{outlook.organ}:</span> {outlook.assessment}</p>
+                                <CitedFacts keys={outlook.citedFacts} facts={facts} prefix={outlook.organ} />
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <p className="text-xs text-slate-500 text-center">
+                    {analysis.source === 'Rule-based' ? `Rule-based summary. ${analysis.fallbackReason ?? ''}` : `Generated by ${analysis.source} from the cited registry figures; every citation was checked against the registry.`} Ranking is set by the allocation score, not by this analysis.
+                </p>
+            </div>
+        )}
+    </InfoModal>
+);
+
+type ScreeningReportDraft = Omit<SavedScreeningReport, 'savedAt' | 'savedById' | 'savedByName'>;
+
+const ScreeningReportModal: FC<{
+    notification: InterestNotification | null;
+    donors: Donor[];
+    recipients: Recipient[];
+    model: StructuredModel | null;
+    onClose: () => void;
+    onSave: (donorId: string, report: ScreeningReportDraft) => void;
+}> = ({ notification, donors, recipients, model, onClose, onSave }) => {
+    const donor = notification ? donors.find(d => d.id === notification.donorId) : undefined;
+    const saved = donor?.screeningReports?.filter(r => r.notificationId === notification?.id).pop();
+    const [report, setReport] = useState<ScreeningReport | null>(null);
+    const [generatedBy, setGeneratedBy] = useState('Manual');
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState('');
+    // Ignores a slow response that arrives after the coordinator moved on to another lead
+    const requestRef = useRef(0);
+
+    const generate = async () => {
+        if (!model || !donor || !notification) return;
+        const request = ++requestRef.current;
+        setIsGenerating(true);
+        setError('');
+        try {
+            const draft = await generateScreeningReport(model, donor, notification, recipients, Date.now());
+            if (request !== requestRef.current) return;
+            setReport(draft);
+            setGeneratedBy(model.name);
+        } catch (err) {
+            console.error('Screening report generation failed:', err);
+            if (request === requestRef.current) setError(err instanceof Error ? err.message : 'The screening report could not be generated.');
+        } finally {
+            if (request === requestRef.current) setIsGenerating(false);
+        }
+    };
+
+    useEffect(() => {
+        requestRef.current++;
+        setIsGenerating(false);
+        setError('');
+        setReport(saved ?? null);
+        setGeneratedBy(saved?.generatedBy ?? 'Manual');
+        if (!saved) generate();
+    }, [notification?.id]);
+
+    if (!notification) return null;
+
+    const update = (changes: Partial<ScreeningReport>) => setReport(prev => prev ? { ...prev, ...changes } : prev);
+    const updateFlag = (index: number, changes: Partial<ScreeningFlag>) =>
+        update({ eligibilityFlags: report!.eligibilityFlags.map((flag, i) => i === index ? { ...flag, ...changes } : flag) });
+    const nonEmptyLines = (lines: string[]) => lines.map(line => line.trim()).filter(Boolean);
+
+    const handleSave = () => {
+        if (!donor || !report) return;
+        onSave(donor.id, {
+            summary: report.summary.trim(),
+            eligibilityFlags: report.eligibilityFlags.filter(flag => flag.criterion.trim()),
+            risks: nonEmptyLines(report.risks),
+            followUpQuestions: nonEmptyLines(report.followUpQuestions),
+            contactDraft: report.contactDraft.trim(),
+            notificationId: notification.id,
+            organ: notification.organ,
+            generatedBy,
+        });
+    };
+
+    return (
+        <InfoModal isOpen onClose={onClose} title="Initial Donor Screening Report" icon={<BrainCircuitIcon className="w-6 h-6" />} accentColor="amber" wide>
+            {!donor ? <p className="text-slate-400">The pledge behind this lead has been withdrawn.</p> : (
+                <div className="space-y-3 max-h-[70vh] overflow-y-auto pr-1">
+                    <p className="text-sm text-slate-300">
+                        {donor.name} ({donor.bloodGroup}) · {notification.organ}
+                        {saved && <span className="text-xs text-slate-500"> · saved {new Date(saved.savedAt).toLocaleString()} by {saved.savedByName}</span>}
+                    </p>
+                    {isGenerating && <p className="text-amber-300 text-sm">Generating a draft with {model?.name}…</p>}
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    {!report && !isGenerating && (
+                        <div className="bg-slate-900 p-3 rounded-md text-sm space-y-2">
+                            {!model && <p className="text-slate-400">No Gemini API key is configured (GEMINI_API_KEY), so no draft can be generated.</p>}
+                            <button onClick={() => setReport(BLANK_SCREENING_REPORT)} className="text-amber-400 hover:text-amber-300 font-semibold text-xs">Write the report manually</button>
+                        </div>
+                    )}
+                    {report && (
+                        <>
+                            <div>
+                                <label className="block text-sm font-medium text-amber-400">Summary</label>
+                                <Textarea value={report.summary} onChange={e => update({ summary: e.target.value })} rows={3} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-amber-400">Eligibility Flags</label>
+                                <div className="space-y-2 mt-1">
+                                    {report.eligibilityFlags.map((flag, index) => (
+                                        <div key={index} className="grid grid-cols-12 gap-2">
+                                            <Input className="col-span-4" value={flag.criterion} onChange={e => updateFlag(index, { criterion: e.target.value })} />
+                                            <Select className="col-span-2" value={flag.status} onChange={e => updateFlag(index, { status: e.target.value as ScreeningFlagStatus })}>
+                                                {SCREENING_FLAG_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                                            </Select>
+                                            <Input className="col-span-6" value={flag.note} onChange={e => updateFlag(index, { note: e.target.value })} />
+                                        </div>
+                                    ))}
+                                    <button onClick={() => update({ eligibilityFlags: [...report.eligibilityFlags, { criterion: '', status: 'Unknown', note: '' }] })} className="text-xs text-slate-400 hover:text-white font-semibold">+ Add flag</button>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-amber-400">Risks (one per line)</label>
+                                    <Textarea value={report.risks.join('\n')} onChange={e => update({ risks: e.target.value.split('\n') })} rows={4} />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-amber-400">Follow-up Questions (one per line)</label>
+                                    <Textarea value={report.followUpQuestions.join('\n')} onChange={e => update({ followUpQuestions: e.target.value.split('\n') })} rows={4} />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-amber-400">Initial Contact Draft</label>
+                                <Textarea value={report.contactDraft} onChange={e => update({ contactDraft: e.target.value })} rows={4} />
+                            </div>
+                        </>
+                    )}
+                    <div className="flex justify-end space-x-3">
+                        {model && <Button type="button" variant="tertiary" onClick={generate} disabled={isGenerating}>{report ? 'Regenerate' : 'Generate'}</Button>}
+                        {report && <Button type="button" onClick={handleSave} disabled={isGenerating}>Save to Donor Record</Button>}
+                    </div>
+                    <p className="text-xs text-slate-500 text-center">
+                        {generatedBy === 'Manual' ? 'Written by the coordinator.' : `First draft generated by ${generatedBy} from de-identified registry facts; review and edit before saving.`} Full medical verification is mandatory.
+                    </p>
+                </div>
+            )}
+        </InfoModal>
+    );
+};
+
 
 // --- VIEWS ---
 
-const Header: FC<{ currentPage: Page; onNavigate: (page: Page) => void }> = ({ currentPage, onNavigate }) => {
+const Header: FC<{ currentPage: Page; onNavigate: (page: Page) => void; session: AuthSession | null; onSignOut: () => void }> = ({ currentPage, onNavigate, session, onSignOut }) => {
     const NavLink: FC<{ page: Page; children: ReactNode; icon: ReactNode }> = ({ page, children, icon }) => {
+        if (!canAccessPage(session?.role ?? 'Guest', page)) return null;
         const isActive = currentPage === page;
         return (
             <button
@@ -587,36 +1308,347 @@ const Header: FC<{ currentPage: Page; onNavigate: (page: Page) => void }> = ({ c
                     <NavLink page="waitlist" icon={<ListIcon className="w-5 h-5"/>}>Waitlist</NavLink>
                     <NavLink page="hospital" icon={<HospitalIcon className="w-5 h-5"/>}>Hospital</NavLink>
                     <NavLink page="admin" icon={<BrainCircuitIcon className="w-5 h-5"/>}>Admin</NavLink>
+                    <NavLink page="audit" icon={<ShieldCheckIcon className="w-5 h-5"/>}>Audit</NavLink>
+                    {session && (
+                        <div className="flex items-center space-x-3 pl-3 ml-1 border-l border-slate-700">
+                            <div className="text-right leading-tight">
+                                <p className="text-sm font-semibold text-slate-200">{session.displayName}</p>
+                                <p className="text-[11px] text-slate-400">{session.role}{session.hospitalId ? ` · ${HOSPITALS.find(h => h.mockId === session.hospitalId)?.name ?? session.hospitalId}` : ''}</p>
+                            </div>
+                            <button onClick={onSignOut} className="text-xs text-slate-400 hover:text-white font-semibold">Sign Out</button>
+                        </div>
+                    )}
+                    {!session && currentPage === 'waitlist' && (
+                        // Any page guests cannot open shows the sign-in form
+                        <button onClick={() => onNavigate('donor')} className="text-sm text-slate-300 hover:text-white font-semibold pl-3 ml-1 border-l border-slate-700">Sign In</button>
+                    )}
+                </div>
+            </nav>
+        </header>
+    );
+};
+
+// Shows checksum problems as the user types; the raw value stays in form state only until it is protected
+const AadhaarInput: FC<{ value: string; onChange: (value: string) => void; required?: boolean }> = ({ value, onChange, required }) => {
+    const error = normalizeAadhaar(value).length >= 12 ? validateAadhaar(value) : null;
+    return (
+        <div>
+            <label className="block text-sm font-medium text-slate-300">Aadhaar Number{required ? '' : ' (optional)'}</label>
+            <Input type="text" inputMode="numeric" autoComplete="off" value={value} onChange={e => onChange(e.target.value)} placeholder="1234 5678 9012" maxLength={14} required={required} />
+            {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+        </div>
+    );
+};
+
+const VERIFICATION_STATUS_CLASSES: Record<VerificationStatus, string> = {
+    Pending: 'bg-amber-500/20 text-amber-300',
+    Verified: 'bg-emerald-500/20 text-emerald-300',
+    Rejected: 'bg-red-500/20 text-red-300',
+};
+
+// Loads the file from the document store and re-hashes it so tampered or missing files are flagged before viewing.
+// Files come from this browser or, when a storage bucket is configured, from the copy uploaded to Cloud Storage.
+// Where neither has it, the reviewer attaches the copy the donor sent them; it is kept only if its hash matches
+// the one recorded at upload.
+const DocumentPreviewModal: FC<{ document: PledgeDocument | null; onClose: () => void }> = ({ document, onClose }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [integrity, setIntegrity] = useState<'checking' | 'ok' | 'mismatch' | 'missing'>('checking');
+    const [attachError, setAttachError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    const handleAttachCopy = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !document) return;
+        setAttachError(null);
+        try {
+            if (await sha256HexOfBlob(file) !== document.sha256) {
+                setAttachError(`${file.name} is not the file the donor uploaded: its SHA-256 does not match the recorded hash.`);
+                return;
+            }
+            await documentStore.put(file, document.kind);
+            setReloadKey(key => key + 1);
+        } catch (error) {
+            console.error('Error storing attached document copy:', error);
+            setAttachError('The file could not be stored on this device. Please try again.');
+        }
+    };
+
+    useEffect(() => {
+        if (!document) return;
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setUrl(null);
+        setIntegrity('checking');
+        documentStore.get(document.sha256)
+            .then(async blob => {
+                if (cancelled) return;
+                if (!blob) {
+                    setIntegrity('missing');
+                    return;
+                }
+                const actual = await sha256HexOfBlob(blob);
+                if (cancelled) return;
+                setIntegrity(actual === document.sha256 ? 'ok' : 'mismatch');
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            })
+            .catch(error => {
+                console.error('Error loading document:', error);
+                if (!cancelled) setIntegrity('missing');
+            });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [document?.id, reloadKey]);
+
+    useEffect(() => setAttachError(null), [document?.id]);
+
+    if (!document) return null;
+    return (
+        <InfoModal isOpen onClose={onClose} title={`${document.kind}: ${document.fileName}`} icon={<ShieldCheckIcon className="w-6 h-6" />} accentColor="indigo" wide>
+            <p className="text-xs text-slate-400 break-all">
+                {document.mimeType} · {formatFileSize(document.size)} · uploaded {new Date(document.uploadedAt).toLocaleString()}<br />
+                SHA-256 {document.sha256}
+            </p>
+            {integrity === 'checking' && <p className="text-slate-400">Checking file integrity...</p>}
+            {integrity === 'missing' && (
+                <div className="space-y-2">
+                    <p className="text-red-400">The file is not stored on this device{document.storagePath ? ' and could not be found in document storage' : '. It was not copied to shared document storage when uploaded'}.</p>
+                    <p className="text-sm text-slate-400">Ask the donor for a copy and attach it here. It is accepted only if its SHA-256 matches the hash above.</p>
+                    <input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={handleAttachCopy} className="text-sm text-slate-300" />
+                    {attachError && <p className="text-red-400 text-sm">{attachError}</p>}
+                </div>
+            )}
+            {integrity === 'mismatch' && <p className="text-red-400 font-semibold">Content hash does not match the recorded hash. Do not verify this document.</p>}
+            {integrity === 'ok' && <p className="text-emerald-400">Content hash verified.</p>}
+            {url && (document.mimeType === 'application/pdf'
+                ? <iframe src={url} title={document.fileName} className="w-full h-[60vh] rounded-md bg-white" />
+                : <img src={url} alt={document.fileName} className="max-h-[60vh] mx-auto rounded-md" />)}
+        </InfoModal>
+    );
+};
+
+const DocumentList: FC<{ documents?: PledgeDocument[]; onPreview: (document: PledgeDocument) => void }> = ({ documents, onPreview }) => (
+    <ul className="space-y-1">
+        {(documents ?? []).map(doc => (
+            <li key={doc.id} className="flex justify-between items-center text-xs">
+                <span className="text-slate-300 truncate" title={doc.fileName}>{doc.kind}: {doc.fileName} <span className="text-slate-500">({formatFileSize(doc.size)})</span></span>
+                <button type="button" onClick={() => onPreview(doc)} className="text-sky-400 hover:text-sky-300 font-semibold ml-2">Preview</button>
+            </li>
+        ))}
+    </ul>
+);
+
+const DocumentVerificationCard: FC<{
+    donors: Donor[];
+    onReview: (donorId: string, approve: boolean, reason: string) => void;
+}> = ({ donors, onReview }) => {
+    const [previewDocument, setPreviewDocument] = useState<PledgeDocument | null>(null);
+    const [pendingReview, setPendingReview] = useState<{ donor: Donor; approve: boolean } | null>(null);
+    const pending = donors.filter(d => d.verification?.status === 'Pending').sort((a, b) => a.verification!.submittedAt - b.verification!.submittedAt);
+
+    return (
+        <Card title={`Document Verification Queue (${pending.length})`} titleIcon={<ShieldCheckIcon className="text-emerald-400"/>} titleClassName="text-emerald-400">
+            <p className="text-sm text-slate-400 mb-3">Donors are only proposed by matching once their ID proof and medical report have been verified.</p>
+            <p className="text-xs text-slate-500 mb-3">Files are shared through document storage when it is configured, otherwise only their details and SHA-256 hash are. Every preview re-checks the hash; if a file cannot be loaded, attach the copy the donor sent you.</p>
+            {pending.length === 0 ? <p className="text-slate-400">No pledges awaiting verification.</p> : (
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {pending.map(donor => (
+                        <div key={donor.id} className="bg-slate-900 p-3 rounded-md text-sm">
+                            <div className="flex justify-between items-start gap-4">
+                                <div>
+                                    <p className="font-semibold text-white">{donor.name} <span className="text-xs text-slate-500">{donor.bloodGroup} · {donor.pledgedOrgans.join(', ')}</span></p>
+                                    <p className="text-xs text-slate-500">Submitted {new Date(donor.verification!.submittedAt).toLocaleString()}</p>
+                                </div>
+                                <div className="flex space-x-2 whitespace-nowrap">
+                                    <button onClick={() => setPendingReview({ donor, approve: true })} className="text-emerald-400 hover:text-emerald-300 font-semibold text-xs">Approve</button>
+                                    <button onClick={() => setPendingReview({ donor, approve: false })} className="text-rose-500 hover:text-rose-400 font-semibold text-xs">Reject</button>
+                                </div>
+                            </div>
+                            <div className="mt-2">
+                                {donor.documents?.length
+                                    ? <DocumentList documents={donor.documents} onPreview={setPreviewDocument} />
+                                    : <p className="text-xs text-amber-400">Medical details changed; no documents uploaded yet.</p>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <DocumentPreviewModal document={previewDocument} onClose={() => setPreviewDocument(null)} />
+            <ReasonPromptModal
+                isOpen={pendingReview !== null}
+                onClose={() => setPendingReview(null)}
+                onConfirm={reason => {
+                    if (pendingReview) onReview(pendingReview.donor.id, pendingReview.approve, reason);
+                    setPendingReview(null);
+                }}
+                title={`${pendingReview?.approve ? 'Verify' : 'Reject'} Documents for ${pendingReview?.donor.name ?? ''}`}
+                confirmLabel={pendingReview?.approve ? 'Mark Verified' : 'Reject Documents'}
+            >
+                <p>{pendingReview?.approve ? 'Confirm the ID proof matches the donor and the medical report is current.' : 'The donor will see this reason and can upload corrected documents.'}</p>
+            </ReasonPromptModal>
+        </Card>
+    );
+};
+
+const DonorProfileEditor: FC<{
+    donor: Donor | null;
+    onClose: () => void;
+    onSave: (donorId: string, changes: DonorEditableFields, reason: string) => string | null;
+}> = ({ donor, onClose, onSave }) => {
+    const [form, setForm] = useState({ name: '', contact: '', dob: '', gender: GENDERS[2], bloodGroup: BLOOD_GROUPS[0], address: '' });
+    const [immunologyForm, setImmunologyForm] = useState<ImmunologyFormFields>(initialImmunologyForm);
+    const [aadhaarInput, setAadhaarInput] = useState('');
+    const [replacementFiles, setReplacementFiles] = useState<Partial<Record<PledgeDocumentKind, File>>>({});
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [previewDocument, setPreviewDocument] = useState<PledgeDocument | null>(null);
+
+    useEffect(() => {
+        if (!donor) return;
+        setForm({ name: donor.name, contact: donor.contact, dob: donor.dob, gender: donor.gender, bloodGroup: donor.bloodGroup, address: donor.address });
+        setImmunologyForm(immunologyProfileToForm(donor.immunology));
+        setAadhaarInput('');
+        setReplacementFiles({});
+        setReason('');
+        setError('');
+    }, [donor?.id]);
+
+    if (!donor) return null;
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleReplaceDocument = (kind: PledgeDocumentKind, file: File | undefined) => {
+        const invalid = file ? validateDocumentFile(file) : null;
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+        setReplacementFiles(prev => ({ ...prev, [kind]: file }));
+    };
+
+    // Preview of which fields will change, so the donor sees the re-verification warning before saving
+    const draft: DonorEditableFields = {
+        ...form,
+        gender: form.gender as Gender,
+        bloodGroup: form.bloodGroup as BloodGroup,
+        immunology: buildImmunologyProfile(immunologyForm),
+        documents: donor.documents,
+        aadhaar: donor.aadhaar,
+    };
+    const pendingFields = [
+        ...changedDonorFields(donor, draft),
+        ...(Object.keys(replacementFiles).length > 0 ? ['documents' as const] : []),
+        ...(aadhaarInput.trim() ? ['aadhaar' as const] : []),
+    ];
+    const needsReverification = pendingFields.some(field => REVERIFICATION_FIELDS.includes(field));
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        const aadhaarError = aadhaarInput.trim() ? validateAadhaar(aadhaarInput) : null;
+        if (aadhaarError) {
+            setError(aadhaarError);
+            return;
+        }
+        setIsSaving(true);
+        setError('');
+        try {
+            const replaced = await Promise.all((Object.keys(replacementFiles) as PledgeDocumentKind[]).map(kind => documentStore.put(replacementFiles[kind]!, kind)));
+            const documents = replaced.length > 0
+                ? [...(donor.documents ?? []).filter(doc => !replaced.some(r => r.kind === doc.kind)), ...replaced]
+                : donor.documents;
+            const aadhaar = aadhaarInput.trim() ? await protectAadhaar(aadhaarInput, aadhaarDigester) : donor.aadhaar;
+            const rejected = onSave(donor.id, { ...draft, documents, aadhaar }, reason.trim());
+            if (rejected) setError(rejected);
+            else onClose();
+        } catch (err) {
+            console.error('Error saving donor profile:', err);
+            setError('Your changes could not be saved. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <InfoModal isOpen onClose={onClose} title={`Edit Pledge Details: ${donor.name}`} icon={<UserCheckIcon className="w-6 h-6" />} accentColor="indigo" wide>
+            <form onSubmit={handleSubmit} className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+                <p className="text-xs text-slate-400">Originally pledged {new Date(donor.pledgeDate).toLocaleDateString()}. Your pledge date is kept when you edit your details.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div><label className="block text-sm font-medium text-slate-300">Full Name</label><Input name="name" value={form.name} onChange={handleInputChange} required /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">Contact Number</label><Input name="contact" type="tel" value={form.contact} onChange={handleInputChange} required /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">Date of Birth</label><Input name="dob" type="date" value={form.dob} onChange={handleInputChange} required /></div>
+                    <div><label className="block text-sm font-medium text-slate-300">Gender</label><Select name="gender" value={form.gender} onChange={handleInputChange}>{GENDERS.map(g => <option key={g} value={g}>{g}</option>)}</Select></div>
+                    <div><label className="block text-sm font-medium text-slate-300">Blood Group</label><Select name="bloodGroup" value={form.bloodGroup} onChange={handleInputChange}>{BLOOD_GROUPS.map(bg => <option key={bg} value={bg}>{bg}</option>)}</Select></div>
+                    <div>
+                        <AadhaarInput value={aadhaarInput} onChange={setAadhaarInput} />
+                        {donor.aadhaar && !aadhaarInput && <p className="text-xs text-slate-500 mt-1">Current: {maskAadhaar(donor.aadhaar.last4)}. Leave blank to keep it.</p>}
+                    </div>
+                    <div className="md:col-span-3"><label className="block text-sm font-medium text-slate-300">Full Residential Address</label><Textarea name="address" value={form.address} onChange={handleInputChange} rows={2} required /></div>
                 </div>
-            </nav>
-        </header>
+                <fieldset>
+                    <legend className="text-sm font-medium text-slate-300 mb-2">Documents</legend>
+                    <DocumentList documents={donor.documents} onPreview={setPreviewDocument} />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+                        {DOCUMENT_KINDS.map(kind => (
+                            <div key={kind}>
+                                <label className="block text-xs text-slate-400">Replace {kind}</label>
+                                <input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} onChange={e => handleReplaceDocument(kind, e.target.files?.[0])} className="mt-1 block w-full text-xs text-slate-300 file:mr-3 file:py-1 file:px-2 file:rounded-md file:border-0 file:bg-slate-700 file:text-slate-200" />
+                            </div>
+                        ))}
+                    </div>
+                </fieldset>
+                <ImmunologyFieldset values={immunologyForm} onChange={setImmunologyForm} legendClassName="text-sm text-slate-300" />
+                <div><label className="block text-sm font-medium text-slate-300">Reason for change (optional)</label><Input value={reason} onChange={e => setReason(e.target.value)} placeholder="e.g. corrected blood group after new lab report" /></div>
+                {needsReverification && (
+                    <p className="text-sm text-amber-400">Changing {pendingFields.filter(f => REVERIFICATION_FIELDS.includes(f)).map(f => DONOR_FIELD_LABELS[f]).join(', ')} sends your pledge back for coordinator verification. It will not be matched until it is verified again.</p>
+                )}
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <Button type="submit" isLoading={isSaving} disabled={pendingFields.length === 0} className="w-full">Save Changes</Button>
+                {(donor.changeHistory?.length ?? 0) > 0 && (
+                    <div>
+                        <p className="text-sm font-medium text-slate-300 mb-1">Change History</p>
+                        <ul className="space-y-1 text-xs text-slate-400">
+                            {[...donor.changeHistory!].reverse().map((entry, index) => (
+                                <li key={index}>
+                                    {new Date(entry.at).toLocaleString()} · {entry.changedByName}: {entry.fields.map(f => DONOR_FIELD_LABELS[f]).join(', ')}
+                                    {entry.reverification && <span className="text-amber-400"> (re-verification)</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </form>
+            <DocumentPreviewModal document={previewDocument} onClose={() => setPreviewDocument(null)} />
+        </InfoModal>
     );
 };
 
-const PledgeCard: FC<{donor: Donor, organ: Organ, onWithdraw: (donorId: string, organ: Organ) => void}> = ({ donor, organ, onWithdraw }) => {
-    // Create a pseudo-random ID for display based on donor ID and organ
-    const displayId = useMemo(() => {
-        let hash = 0;
-        const str = donor.id + organ;
-        for (let i = 0; i < str.length; i++) {
-            const char = str.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash |= 0; // Convert to 32bit integer
-        }
-        return `plg_${new URLSearchParams(Math.abs(hash).toString(36)).toString().slice(0,12)}`;
-    }, [donor.id, organ]);
-
+const PledgeCard: FC<{donor: Donor, organ: Organ, onWithdraw: (donorId: string, organ: Organ) => void, onEdit: (donor: Donor) => void}> = ({ donor, organ, onWithdraw, onEdit }) => {
     return (
     <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700 flex flex-col justify-between">
         <div>
             <div className="flex justify-between items-start">
                 <h3 className="font-bold text-white text-lg">{donor.name} <span className="text-sm font-normal text-slate-400">({donor.bloodGroup})</span></h3>
+                {!isDeceasedPledge(donor) && <span className="text-[10px] uppercase tracking-wider bg-sky-600/30 text-sky-300 px-2 py-0.5 rounded-full">Living</span>}
             </div>
             <p className="text-sm text-slate-300 mt-1">Pledged: <span className="font-semibold text-rose-400">{organ}</span></p>
-            <p className="text-xs text-slate-500 mt-1">ID: {displayId}</p>
+            <p className="text-xs text-slate-500 mt-1">Pledge ID: <span className="font-mono">{donor.pledgeIds?.[organ] ?? 'Not yet issued'}</span></p>
+            {donor.aadhaar && <p className="text-xs text-slate-500">Aadhaar: {maskAadhaar(donor.aadhaar.last4)}</p>}
+            {donor.verification && (
+                <p className="text-xs mt-2">
+                    <span className={`px-2 py-0.5 rounded-full font-semibold ${VERIFICATION_STATUS_CLASSES[donor.verification.status]}`}>Documents {donor.verification.status}</span>
+                    {donor.verification.status === 'Rejected' && donor.verification.reason && <span className="block text-red-300 mt-1">{donor.verification.reason}</span>}
+                </p>
+            )}
         </div>
         <div className="mt-4 flex space-x-2">
-            <button className="text-xs bg-sky-600/50 hover:bg-sky-600 text-white px-3 py-1.5 rounded-md w-full transition-colors">Edit Details</button>
+            <button onClick={() => onEdit(donor)} className="text-xs bg-sky-600/50 hover:bg-sky-600 text-white px-3 py-1.5 rounded-md w-full transition-colors">Edit Details</button>
             <button onClick={() => onWithdraw(donor.id, organ)} className="text-xs bg-rose-800/80 hover:bg-rose-800 text-white px-3 py-1.5 rounded-md w-full transition-colors">Withdraw Pledge</button>
         </div>
     </div>
@@ -629,18 +1661,21 @@ const initialFormData = {
     gender: GENDERS[2],
     bloodGroup: BLOOD_GROUPS[0],
     address: '',
-    aadharUrl: '',
-    reportUrl: '',
 };
 
-const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'pledgeDate' | 'status'>) => void, onWithdrawPledge: (donorId: string, organ: Organ) => void, recipients: Recipient[], onDonorInterest: (organ: Organ) => void, onOpenChat: () => void }> = ({ donors, onAddDonor, onWithdrawPledge, recipients, onDonorInterest, onOpenChat }) => {
+const DonorView: FC<{ donors: Donor[], onCheckAadhaar: (aadhaar: ProtectedAadhaar) => string | null, onAddDonor: (donor: Omit<Donor, 'id' | 'pledgeDate' | 'status'>) => Promise<string | null>, onUpdateDonor: (donorId: string, changes: DonorEditableFields, reason: string) => string | null, onWithdrawPledge: (donorId: string, organ: Organ, reason: string) => void, recipients: Recipient[], onDonorInterest: (donorId: string, organ: Organ) => string | null, onOpenChat: () => void }> = ({ donors, onCheckAadhaar, onAddDonor, onUpdateDonor, onWithdrawPledge, recipients, onDonorInterest, onOpenChat }) => {
     const [isPledgeFormOpen, setIsPledgeFormOpen] = useState(false);
+    const [pendingWithdrawal, setPendingWithdrawal] = useState<{ donorId: string; organ: Organ } | null>(null);
+    const [editingDonor, setEditingDonor] = useState<Donor | null>(null);
     const [formData, setFormData] = useState(initialFormData);
+    const [immunologyForm, setImmunologyForm] = useState<ImmunologyFormFields>(initialImmunologyForm);
     const [selectedOrgans, setSelectedOrgans] = useState<Set<Organ>>(new Set());
+    const [documentFiles, setDocumentFiles] = useState<Partial<Record<PledgeDocumentKind, File>>>({});
+    const [aadhaarInput, setAadhaarInput] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     
     const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
-    const [confirmModalData, setConfirmModalData] = useState<{organ: Organ, count: number} | null>(null);
+    const [confirmModalData, setConfirmModalData] = useState<{organ: Organ, count: number, donor: Donor} | null>(null);
     const [isInterestNotifiedModalOpen, setIsInterestNotifiedModalOpen] = useState(false);
     const [notifiedOrgan, setNotifiedOrgan] = useState<Organ | null>(null);
 
@@ -659,37 +1694,89 @@ const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'p
         setFormData(prev => ({ ...prev, [name]: value }));
     };
 
-    const handlePledgeSubmit = (e: FormEvent) => {
+    const handleDocumentChange = (kind: PledgeDocumentKind, file: File | undefined) => {
+        const invalid = file ? validateDocumentFile(file) : null;
+        if (invalid) {
+            alert(invalid);
+            return;
+        }
+        setDocumentFiles(prev => ({ ...prev, [kind]: file }));
+    };
+
+    const handlePledgeSubmit = async (e: FormEvent) => {
         e.preventDefault();
         if (!formData.name || !formData.contact || !formData.dob || !formData.address || selectedOrgans.size === 0) {
             alert('Please fill in all personal details and select at least one organ.');
             return;
         }
+        const aadhaarError = validateAadhaar(aadhaarInput);
+        if (aadhaarError) {
+            alert(aadhaarError);
+            return;
+        }
+        if (DOCUMENT_KINDS.some(kind => !documentFiles[kind])) {
+            alert('Please upload both your ID proof and your latest medical report.');
+            return;
+        }
         setIsSubmitting(true);
-        setTimeout(() => {
-            onAddDonor({
+        try {
+            const aadhaar = await protectAadhaar(aadhaarInput, aadhaarDigester);
+            // Refuse a duplicate before any file is stored, so a rejected pledge leaves no orphaned documents behind
+            const duplicate = onCheckAadhaar(aadhaar);
+            if (duplicate) {
+                alert(duplicate);
+                return;
+            }
+            const documents = await Promise.all(DOCUMENT_KINDS.map(kind => documentStore.put(documentFiles[kind]!, kind)));
+            const rejected = await onAddDonor({
                 ...formData,
                 gender: formData.gender as Gender,
                 bloodGroup: formData.bloodGroup as BloodGroup,
                 pledgedOrgans: Array.from(selectedOrgans),
+                immunology: buildImmunologyProfile(immunologyForm),
+                documents,
+                aadhaar,
             });
-            setIsSubmitting(false);
+            if (rejected) {
+                alert(rejected);
+                return;
+            }
+            setAadhaarInput('');
             setIsPledgeFormOpen(false);
             setFormData(initialFormData);
+            setImmunologyForm(initialImmunologyForm);
             setSelectedOrgans(new Set());
-        }, 500);
+            setDocumentFiles({});
+        } catch (error) {
+            console.error('Error storing pledge documents:', error);
+            alert('Your documents could not be saved on this device. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
     };
     
+    // Interest is sent against one of the signed-in donor's own pledges for that organ
+    const findOwnPledge = (organ: Organ) => donors.find(d => isDeceasedPledge(d) && d.pledgedOrgans.includes(organ));
+
     const handleOpenConfirmModal = (organ: Organ, count: number) => {
-        setConfirmModalData({ organ, count });
+        const donor = findOwnPledge(organ);
+        if (!donor) {
+            alert(`You have not pledged ${organ}. Register a pledge that includes ${organ} before notifying the coordinators.`);
+            return;
+        }
+        setConfirmModalData({ organ, count, donor });
         setIsConfirmModalOpen(true);
     };
     
     const handleConfirmInterest = () => {
         if (confirmModalData) {
-            onDonorInterest(confirmModalData.organ);
-            setNotifiedOrgan(confirmModalData.organ);
-            setIsInterestNotifiedModalOpen(true);
+            const rejected = onDonorInterest(confirmModalData.donor.id, confirmModalData.organ);
+            if (rejected) {
+                alert(rejected);
+            } else {
+                setNotifiedOrgan(confirmModalData.organ);
+                setIsInterestNotifiedModalOpen(true);
+            }
         }
         setIsConfirmModalOpen(false);
         setConfirmModalData(null);
@@ -722,7 +1809,7 @@ const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'p
             <div className="space-y-8">
                 <h1 className="text-3xl font-bold text-slate-200">Donor/Pledge Interface</h1>
                 
-                <Card accentColor="rose" title={`Registered Donor Pledges (${totalPledges})`} titleIcon={<HeartIcon className="text-rose-400"/>} titleActions={titleActions}>
+                <Card accentColor="rose" title={`My Registered Pledges (${totalPledges})`} titleIcon={<HeartIcon className="text-rose-400"/>} titleActions={titleActions}>
                     {isPledgeFormOpen && (
                         <form onSubmit={handlePledgeSubmit} className="p-4 bg-slate-900/50 rounded-lg mb-6 space-y-6 animate-fade-in border border-slate-700">
                             <fieldset>
@@ -733,17 +1820,29 @@ const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'p
                                     <div className="lg:col-span-1"><label className="block text-sm font-medium text-slate-300">Date of Birth</label><Input name="dob" type="date" value={formData.dob} onChange={handleInputChange} required /></div>
                                     <div className="lg:col-span-1"><label className="block text-sm font-medium text-slate-300">Gender</label><Select name="gender" value={formData.gender} onChange={handleInputChange}>{GENDERS.map(g => <option key={g} value={g}>{g}</option>)}</Select></div>
                                     <div className="lg:col-span-1"><label className="block text-sm font-medium text-slate-300">Blood Group</label><Select name="bloodGroup" value={formData.bloodGroup} onChange={handleInputChange}>{BLOOD_GROUPS.map(bg => <option key={bg} value={bg}>{bg}</option>)}</Select></div>
+                                    <div className="lg:col-span-1"><AadhaarInput value={aadhaarInput} onChange={setAadhaarInput} required /></div>
                                     <div className="lg:col-span-4"><label className="block text-sm font-medium text-slate-300">Full Residential Address</label><Textarea name="address" value={formData.address} onChange={handleInputChange} rows={2} required/></div>
                                 </div>
                             </fieldset>
                             <fieldset>
-                                <legend className="text-lg font-medium text-rose-400 mb-4">Mandatory Documentation (Mock URLs)</legend>
-                                <p className="text-xs text-slate-400 mb-2">*In a real app, these would be file uploads. For this demo, please enter a mock URL (e.g., "https://myfiles.com/report.pdf").</p>
+                                <legend className="text-lg font-medium text-rose-400 mb-4">Mandatory Documentation</legend>
+                                <p className="text-xs text-slate-400 mb-2">PDF, PNG, JPEG or WebP, up to {MAX_DOCUMENT_BYTES / (1024 * 1024)} MB each. Files are stored on this device and reviewed by a coordinator before your pledge can be matched.</p>
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                     <div><label className="block text-sm font-medium text-slate-300">Aadhar/ID Proof URL</label><Input name="aadharUrl" type="text" value={formData.aadharUrl} onChange={handleInputChange} required /></div>
-                                     <div><label className="block text-sm font-medium text-slate-300">Latest Blood Report/Medical Summary URL</label><Input name="reportUrl" type="text" value={formData.reportUrl} onChange={handleInputChange} required /></div>
+                                    {DOCUMENT_KINDS.map(kind => (
+                                        <div key={kind}>
+                                            <label className="block text-sm font-medium text-slate-300">{kind === 'ID Proof' ? 'Aadhaar/ID Proof' : 'Latest Blood Report/Medical Summary'}</label>
+                                            <input
+                                                type="file"
+                                                accept={ACCEPTED_DOCUMENT_TYPES.join(',')}
+                                                onChange={e => handleDocumentChange(kind, e.target.files?.[0])}
+                                                className="mt-1 block w-full text-sm text-slate-300 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600"
+                                            />
+                                            {documentFiles[kind] && <p className="text-xs text-slate-500 mt-1">{documentFiles[kind]!.name} ({formatFileSize(documentFiles[kind]!.size)})</p>}
+                                        </div>
+                                    ))}
                                 </div>
                             </fieldset>
+                            <ImmunologyFieldset values={immunologyForm} onChange={setImmunologyForm} />
                             <fieldset>
                                 <legend className="text-lg font-medium text-rose-400 mb-2">Organs to Donate (Select one or more)</legend>
                                 <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
@@ -770,7 +1869,7 @@ const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'p
                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                             {donors.flatMap(donor => 
                                 donor.pledgedOrgans.map(organ => (
-                                    <PledgeCard key={`${donor.id}-${organ}`} donor={donor} organ={organ} onWithdraw={onWithdrawPledge} />
+                                    <PledgeCard key={`${donor.id}-${organ}`} donor={donor} organ={organ} onWithdraw={(donorId, withdrawnOrgan) => setPendingWithdrawal({ donorId, organ: withdrawnOrgan })} onEdit={setEditingDonor} />
                                 ))
                             )}
                        </div>
@@ -787,6 +1886,7 @@ const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'p
                                 <button key={organ} onClick={() => handleOpenConfirmModal(organ, count)} className="bg-slate-900/50 p-4 rounded-lg text-center border border-slate-700 hover:border-amber-500 hover:bg-slate-700 transition-all group">
                                     <p className="text-sm text-slate-300"> {organ} Needed</p>
                                     <p className="text-4xl font-bold text-amber-400 mt-1">{count}</p>
+                                    {!findOwnPledge(organ) && <p className="text-xs text-slate-500 mt-1">Not in your pledge</p>}
                                 </button>
                             ))}
                         </div>
@@ -802,7 +1902,22 @@ const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'p
                     <span className="text-slate-900 font-bold">NOTTO Info Chat (Ask a Question)</span>
                 </div>
             </div>
+
+            <DonorProfileEditor donor={editingDonor} onClose={() => setEditingDonor(null)} onSave={onUpdateDonor} />
             
+            <ReasonPromptModal
+                isOpen={pendingWithdrawal !== null}
+                onClose={() => setPendingWithdrawal(null)}
+                onConfirm={reason => {
+                    if (pendingWithdrawal) onWithdrawPledge(pendingWithdrawal.donorId, pendingWithdrawal.organ, reason);
+                    setPendingWithdrawal(null);
+                }}
+                title={`Withdraw ${pendingWithdrawal?.organ ?? ''} Pledge`}
+                confirmLabel="Withdraw Pledge"
+            >
+                <p>Your pledge will be removed from the registry. You can pledge again at any time.</p>
+            </ReasonPromptModal>
+
             <ConfirmationModal
                 isOpen={isConfirmModalOpen}
                 onClose={() => setIsConfirmModalOpen(false)}
@@ -810,7 +1925,7 @@ const DonorView: FC<{ donors: Donor[], onAddDonor: (donor: Omit<Donor, 'id' | 'p
                 title={`Confirm Interest in ${confirmModalData?.organ} Donation`}
             >
                 {confirmModalData && (
-                     <p>You are indicating interest in donating your pledged {confirmModalData.organ} to address the current high demand of {confirmModalData.count} patient(s). This sends a potential lead notification to the Hospital Coordinator Admin for review and follow-up. Do you wish to proceed?</p>
+                     <p>You are indicating interest in donating your pledged {confirmModalData.organ} (pledge {confirmModalData.donor.pledgeIds?.[confirmModalData.organ] ?? 'ID pending'}) to address the current high demand of {confirmModalData.count} patient(s). This sends a potential lead notification to the Hospital Coordinator Admin for review and follow-up. No patient is matched until a coordinator has checked compatibility and confirmed. Do you wish to proceed?</p>
                 )}
             </ConfirmationModal>
 
@@ -863,6 +1978,12 @@ const WaitlistView: FC<{ recipients: Recipient[] }> = ({ recipients }) => {
     
     const getStatusMessage = useCallback((recipient: Recipient | null, id: string): string => {
         if (recipient) {
+            if (recipient.status === 'Transplanted') {
+                return `Hello ${recipient.name}. Our records show your ${recipient.organNeeded} transplant has been completed. We wish you a smooth recovery.`;
+            }
+            if (recipient.status === 'Offer Pending' || recipient.status === 'Offer Accepted') {
+                return `Good news, ${recipient.name}. An organ offer for the requested ${recipient.organNeeded} is being processed. Please stay reachable and contact your hospital coordinator immediately.`;
+            }
             if (recipient.status === 'Potential Match Found') {
                 return `Good news, ${recipient.name}. A potential donor has expressed interest for the requested ${recipient.organNeeded}. Your hospital coordinator will be in touch with you shortly for the next steps.`;
             }
@@ -940,7 +2061,7 @@ const WaitlistView: FC<{ recipients: Recipient[] }> = ({ recipients }) => {
                             type="text" 
                             value={patientIdInput}
                             onChange={e => setPatientIdInput(e.target.value)}
-                            placeholder="Enter or Speak Patient ID (e.g., NOD-1701)"
+                            placeholder="Enter or Speak Patient ID (e.g., NOD-BLR001-000042-4)"
                             className="w-full pr-10"
                             required
                         />
@@ -967,15 +2088,15 @@ const WaitlistView: FC<{ recipients: Recipient[] }> = ({ recipients }) => {
                             <div><strong className="text-slate-400 block font-medium">Urgency:</strong> <span className={`px-2 py-1 text-xs font-semibold rounded-full ${searchedRecipient.urgency === 'Critical' ? 'bg-red-500/20 text-red-400' : searchedRecipient.urgency === 'High' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-green-500/20 text-green-400'}`}>{searchedRecipient.urgency}</span></div>
                             <div className="md:col-span-2"><strong className="text-slate-400 block font-medium">Registered Hospital:</strong> {searchedRecipient.hospitalName}</div>
                             <div className="md:col-span-2"><strong className="text-slate-400 block font-medium">Status:</strong> 
-                                {searchedRecipient.status === 'Potential Match Found' ? (
-                                    <span className="text-emerald-400 font-semibold">Potential Match Found</span>
-                                ) : (
+                                {searchedRecipient.status === 'Searching' ? (
                                     <span className="text-cyan-400 font-semibold">Active on Waitlist</span>
+                                ) : (
+                                    <span className="text-emerald-400 font-semibold">{searchedRecipient.status}</span>
                                 )}
                             </div>
                              <div className="md:col-span-2"><strong className="text-slate-400 block font-medium">Time on Waitlist:</strong> {timeOnListDays(searchedRecipient.timeOnList)} days</div>
 
-                             {searchedRecipient.status === 'Potential Match Found' && (
+                             {(searchedRecipient.status === 'Potential Match Found' || searchedRecipient.status === 'Offer Pending' || searchedRecipient.status === 'Offer Accepted') && (
                                 <div className="md:col-span-2 mt-4 p-3 bg-emerald-500/10 rounded-md border border-emerald-500/30">
                                     <p className="font-bold text-emerald-400">Action Required:</p>
                                     <p className="text-slate-300 text-sm">Please contact your hospital coordinator immediately for next steps.</p>
@@ -989,6 +2110,9 @@ const WaitlistView: FC<{ recipients: Recipient[] }> = ({ recipients }) => {
                 ) : (
                     <Card title="Not Found" titleIcon={<XCircleIcon className="text-red-400"/>}>
                         <p className="text-slate-400">No recipient found with the ID "{patientIdInput}". Please verify the ID and try again.</p>
+                        {parseRegistryId(patientIdInput)?.checkValid === false && (
+                            <p className="text-amber-300 text-sm mt-2">The last digit of this ID does not match the rest, so it was probably mistyped.</p>
+                        )}
                     </Card>
                 )
             )}
@@ -996,8 +2120,38 @@ const WaitlistView: FC<{ recipients: Recipient[] }> = ({ recipients }) => {
     );
 };
 
-const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Recipient) => void }> = ({ recipients, onAddRecipient }) => {
-    const [selectedHospital, setSelectedHospital] = useState<Hospital>(HOSPITALS[0]);
+const HospitalView: FC<{
+    recipients: Recipient[];
+    scope: HospitalScope;
+    onAddRecipient: (recipient: Omit<Recipient, 'patientId'>) => Promise<Recipient | null>;
+    onUpdateRecipient: (id: string, changes: RecipientEditableFields, reason: string) => void;
+    onTransferRecipient: (id: string, hospitalId: string, reason: string) => void;
+    onChangeListing: (id: string, change: ListingChange) => void;
+    session: AuthSession | null;
+    onRequestEscalation: (id: string, justification: string, parameters: EscalationParameters) => void;
+    onReviewEscalation: (id: string, approve: boolean, note: string) => void;
+    donors: Donor[];
+    onReviewDocuments: (donorId: string, approve: boolean, reason: string) => void;
+    // Donor interest leads the central admin assigned to this coordinator
+    assignedInterests: InterestNotification[];
+    onChangeTriageStatus: (notificationId: string, status: TriageStatus, note: string) => void;
+    onLogContact: (notificationId: string, attempt: Pick<ContactAttempt, 'channel' | 'result' | 'note'>) => void;
+}> = ({ recipients, scope, onAddRecipient, onUpdateRecipient, onTransferRecipient, onChangeListing, session, onRequestEscalation, onReviewEscalation, donors, onReviewDocuments, assignedInterests, onChangeTriageStatus, onLogContact }) => {
+    // Own hospital(s) first, then hospitals visible through cross-hospital grants
+    const availableHospitals = useMemo(() => {
+        const visible = HOSPITALS.filter(h => canViewHospital(scope, h.mockId));
+        return [...visible.filter(h => canManageHospital(scope, h.mockId)), ...visible.filter(h => !canManageHospital(scope, h.mockId))];
+    }, [scope]);
+    const [selectedHospital, setSelectedHospital] = useState<Hospital | undefined>(availableHospitals[0]);
+    const isManageable = canManageHospital(scope, selectedHospital?.mockId);
+    const [editingRecipient, setEditingRecipient] = useState<Recipient | null>(null);
+    const [editForm, setEditForm] = useState<RecipientEditableFields | null>(null);
+    const [editReason, setEditReason] = useState('');
+    const [transferringRecipient, setTransferringRecipient] = useState<Recipient | null>(null);
+    const [transferHospitalId, setTransferHospitalId] = useState('');
+    const [listingRecipient, setListingRecipient] = useState<Recipient | null>(null);
+    const [showClosedListings, setShowClosedListings] = useState(false);
+    const [escalatingRecipient, setEscalatingRecipient] = useState<Recipient | null>(null);
     const [isSuccessModalOpen, setIsSuccessModalOpen] = useState(false);
     const [newlyCreatedRecipient, setNewlyCreatedRecipient] = useState<Recipient | null>(null);
     
@@ -1006,17 +2160,57 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
         organNeeded: ORGANS[1],
         bloodGroup: BLOOD_GROUPS[0],
         urgency: URGENCY_LEVELS[2],
+        dob: '',
         clinicalNotes: '',
     });
     
+    const [immunologyForm, setImmunologyForm] = useState<ImmunologyFormFields>(initialImmunologyForm);
+    const [labForm, setLabForm] = useState<ClinicalLabFormFields>(initialClinicalLabForm);
+    const [editLabForm, setEditLabForm] = useState<ClinicalLabFormFields>(initialClinicalLabForm);
+    
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submissionStatus, setSubmissionStatus] = useState<'success' | 'error' | null>(null);
 
+    useEffect(() => {
+        if (!selectedHospital || !availableHospitals.some(h => h.mockId === selectedHospital.mockId)) setSelectedHospital(availableHospitals[0]);
+    }, [availableHospitals]);
+
     const hospitalRequests = useMemo(() => {
         return recipients
-            .filter(r => r.hospitalId === selectedHospital.mockId)
+            .filter(r => r.hospitalId === selectedHospital?.mockId)
             .sort((a, b) => a.timeOnList - b.timeOnList);
     }, [recipients, selectedHospital]);
+    const openRequests = hospitalRequests.filter(isListingOpen);
+    const visibleRequests = showClosedListings ? hospitalRequests : openRequests;
+
+    const handleOpenEdit = (recipient: Recipient) => {
+        setEditingRecipient(recipient);
+        setEditForm({ name: recipient.name, bloodGroup: recipient.bloodGroup, urgency: recipient.urgency, dob: recipient.dob ?? '', clinicalNotes: recipient.clinicalNotes ?? '', labs: recipient.labs });
+        setEditLabForm(clinicalLabsToForm(recipient.labs));
+        setEditReason('');
+    };
+
+    const handleEditSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!editingRecipient || !editForm) return;
+        if (!editForm.name.trim()) {
+            alert('Patient name cannot be empty.');
+            return;
+        }
+        onUpdateRecipient(editingRecipient.id, { ...editForm, name: editForm.name.trim(), dob: editForm.dob || undefined, labs: buildClinicalLabs(editingRecipient.organNeeded, editLabForm) }, editReason.trim());
+        setEditingRecipient(null);
+        setEditForm(null);
+    };
+
+    const handleOpenTransfer = (recipient: Recipient) => {
+        setTransferringRecipient(recipient);
+        setTransferHospitalId(HOSPITALS.find(h => h.mockId !== recipient.hospitalId)?.mockId ?? '');
+    };
+
+    const handleConfirmTransfer = (reason: string) => {
+        if (transferringRecipient && transferHospitalId) onTransferRecipient(transferringRecipient.id, transferHospitalId, reason);
+        setTransferringRecipient(null);
+    };
     
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
@@ -1025,6 +2219,7 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
 
     const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
         e.preventDefault();
+        if (!selectedHospital || !isManageable) return;
         if (!formData.name || !formData.organNeeded || !formData.bloodGroup || !formData.urgency) {
             alert('Please fill all required fields.');
             return;
@@ -1033,21 +2228,27 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
         setSubmissionStatus(null);
 
         // Simulate async operation
-        setTimeout(() => {
+        setTimeout(async () => {
             try {
-                const randomId = Math.floor(1000 + Math.random() * 9000);
-                const newRecipient: Recipient = {
+                const labs = buildClinicalLabs(formData.organNeeded, labForm);
+                const registered = await onAddRecipient({
                     ...formData,
+                    dob: formData.dob || undefined,
+                    immunology: buildImmunologyProfile(immunologyForm),
+                    labs,
+                    severity: computeSeverityScore(formData.organNeeded, labs, formData.dob || undefined, Date.now()),
                     id: `r${Date.now()}`,
-                    patientId: `NOD-${randomId}`,
                     timeOnList: Date.now(),
                     hospitalId: selectedHospital.mockId,
                     hospitalName: selectedHospital.name,
                     status: 'Searching',
-                };
-                onAddRecipient(newRecipient);
+                });
+                if (!registered) {
+                    setSubmissionStatus('error');
+                    return;
+                }
 
-                setNewlyCreatedRecipient(newRecipient);
+                setNewlyCreatedRecipient(registered);
                 setIsSuccessModalOpen(true);
                 
                 setSubmissionStatus('success');
@@ -1056,8 +2257,11 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
                     organNeeded: ORGANS[1],
                     bloodGroup: BLOOD_GROUPS[0],
                     urgency: URGENCY_LEVELS[2],
+                    dob: '',
                     clinicalNotes: '',
                 });
+                setImmunologyForm(initialImmunologyForm);
+                setLabForm(initialClinicalLabForm);
 
             } catch (error) {
                 console.error("Error submitting request:", error);
@@ -1068,20 +2272,37 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
         }, 500);
     };
     
+    if (!selectedHospital) {
+        return (
+            <Card title="No Hospital Assigned" titleIcon={<XCircleIcon className="text-red-400"/>}>
+                <p className="text-slate-400">Your account is not bound to a hospital. Ask the central admin to assign one.</p>
+            </Card>
+        );
+    }
+
     return (
         <>
             <div className="space-y-6">
-                <Card title="Select Hospital" titleIcon={<HospitalIcon className="text-sky-400"/>}>
-                    <Select
-                        value={selectedHospital.id}
-                        onChange={e => setSelectedHospital(HOSPITALS.find(h => h.id === e.target.value) || HOSPITALS[0])}
-                        className="bg-slate-700"
-                    >
-                        {HOSPITALS.map(h => <option key={h.id} value={h.id}>{h.name}, {h.city}</option>)}
-                    </Select>
+                <Card title={availableHospitals.length > 1 ? 'Select Hospital' : 'Your Hospital'} titleIcon={<HospitalIcon className="text-sky-400"/>}>
+                    {availableHospitals.length > 1 ? (
+                        <Select
+                            value={selectedHospital.id}
+                            onChange={e => setSelectedHospital(availableHospitals.find(h => h.id === e.target.value) || availableHospitals[0])}
+                            className="bg-slate-700"
+                        >
+                            {availableHospitals.map(h => <option key={h.id} value={h.id}>{h.name}, {h.city}{canManageHospital(scope, h.mockId) ? '' : ' (view only)'}</option>)}
+                        </Select>
+                    ) : (
+                        <p className="text-lg font-semibold text-white">{selectedHospital.name}, {selectedHospital.city} <span className="text-sm font-normal text-slate-400">({selectedHospital.mockId})</span></p>
+                    )}
                 </Card>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {!isManageable ? (
+                        <Card title="View-Only Access" titleIcon={<InfoIcon className="text-sky-400" />}>
+                            <p className="text-slate-400">You have been granted read-only visibility of {selectedHospital.name}'s requests. Only its own coordinators can register, edit, transfer or withdraw them.</p>
+                        </Card>
+                    ) : (
                     <Card title="New Organ Request" titleIcon={<UserCheckIcon className="text-rose-400" />} titleClassName="text-rose-400">
                         <form onSubmit={handleSubmit} className="space-y-4">
                             <fieldset className="space-y-4">
@@ -1105,8 +2326,13 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
                                     <div>
                                         <label className="block text-sm font-medium text-slate-300">Urgency Level</label>
                                         <Select name="urgency" value={formData.urgency} onChange={handleInputChange}>
-                                            {URGENCY_LEVELS.map(u => <option key={u} value={u}>{u}</option>)}
+                                            {DIRECT_URGENCY_LEVELS.map(u => <option key={u} value={u}>{u}</option>)}
                                         </Select>
+                                        <p className="text-xs text-slate-500 mt-1">For Critical, register the patient and then request an escalation.</p>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-300">Date of Birth (for pediatric priority)</label>
+                                        <Input name="dob" type="date" value={formData.dob} onChange={handleInputChange} />
                                     </div>
                                 </div>
                                 <div>
@@ -1114,6 +2340,8 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
                                     <Textarea name="clinicalNotes" value={formData.clinicalNotes} onChange={handleInputChange} />
                                 </div>
                             </fieldset>
+                            <SeverityFieldset organ={formData.organNeeded} dob={formData.dob} values={labForm} onChange={setLabForm} />
+                            <ImmunologyFieldset values={immunologyForm} onChange={setImmunologyForm} />
                             <div className="pt-2">
                                 <Button type="submit" isLoading={isSubmitting} className="w-full">
                                     {isSubmitting ? 'Registering...' : 'Register Patient on National Waitlist'}
@@ -1121,23 +2349,52 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
                             </div>
                         </form>
                     </Card>
-                    <Card title={`Current Active Requests (${hospitalRequests.length})`} titleIcon={<ListIcon className="text-amber-400"/>} titleClassName="text-amber-400">
+                    )}
+                    <Card
+                        title={`Current Requests (${openRequests.length})`}
+                        titleIcon={<ListIcon className="text-amber-400"/>}
+                        titleClassName="text-amber-400"
+                        titleActions={hospitalRequests.length > openRequests.length ? (
+                            <button onClick={() => setShowClosedListings(!showClosedListings)} className="text-xs text-slate-400 hover:text-white font-semibold">
+                                {showClosedListings ? 'Hide' : 'Show'} closed ({hospitalRequests.length - openRequests.length})
+                            </button>
+                        ) : undefined}
+                    >
                         <div className="max-h-96 overflow-y-auto">
-                            {hospitalRequests.length === 0 ? <p className="text-slate-400">No active requests for this hospital.</p> : (
+                            {visibleRequests.length === 0 ? <p className="text-slate-400">No active requests for this hospital.</p> : (
                                 <table className="w-full text-left text-sm">
                                     <thead className="text-xs text-slate-400 uppercase bg-slate-900 sticky top-0">
                                         <tr>
                                             <th className="px-4 py-3">Patient</th>
                                             <th className="px-4 py-3">Organ</th>
                                             <th className="px-4 py-3">Urgency</th>
+                                            {isManageable && <th className="px-4 py-3 text-right">Actions</th>}
                                         </tr>
                                     </thead>
                                     <tbody className="text-slate-300">
-                                        {hospitalRequests.map(r => (
+                                        {visibleRequests.map(r => (
                                             <tr key={r.id} className="border-b border-slate-700">
-                                                <td className="px-4 py-3">{r.name}</td>
-                                                <td className="px-4 py-3">{r.organNeeded}</td>
-                                                <td className="px-4 py-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${r.urgency === 'Critical' ? 'bg-red-500/20 text-red-400' : r.urgency === 'High' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-green-500/20 text-green-400'}`}>{r.urgency}</span></td>
+                                                <td className="px-4 py-3">
+                                                    <div>{r.name}</div>
+                                                    <div className="text-xs text-slate-500">{r.patientId}</div>
+                                                    <ListingStateBadge recipient={r} />
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div>{r.organNeeded}</div>
+                                                    <SeverityBadge recipient={r} />
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${r.urgency === 'Critical' ? 'bg-red-500/20 text-red-400' : r.urgency === 'High' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-green-500/20 text-green-400'}`}>{r.urgency}</span>
+                                                    {isEscalationPending(r) && <div className="text-xs text-amber-400 mt-1">Critical pending</div>}
+                                                </td>
+                                                {isManageable && (
+                                                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                                                        {isListingOpen(r) && <button onClick={() => handleOpenEdit(r)} className="text-sky-400 hover:text-sky-300 font-semibold text-xs">Edit</button>}
+                                                        {isAwaitingAllocation(r) && r.urgency !== 'Critical' && !isEscalationPending(r) && <button onClick={() => setEscalatingRecipient(r)} className="text-red-400 hover:text-red-300 font-semibold text-xs">Escalate</button>}
+                                                        {isListingOpen(r) && !hasOfferInProgress(r) && <button onClick={() => handleOpenTransfer(r)} className="text-amber-400 hover:text-amber-300 font-semibold text-xs">Transfer</button>}
+                                                        <button onClick={() => setListingRecipient(r)} className="text-rose-500 hover:text-rose-400 font-semibold text-xs">Status</button>
+                                                    </td>
+                                                )}
                                             </tr>
                                         ))}
                                     </tbody>
@@ -1146,6 +2403,19 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
                         </div>
                     </Card>
                 </div>
+                {isManageable && <EscalationQueueCard recipients={hospitalRequests} session={session} onReview={onReviewEscalation} />}
+                {session?.role === 'Hospital Coordinator' && <DocumentVerificationCard donors={donors} onReview={onReviewDocuments} />}
+                {assignedInterests.length > 0 && (
+                    <InterestTriageCard
+                        notifications={assignedInterests}
+                        donors={donors}
+                        recipients={recipients}
+                        assignees={[]}
+                        session={session}
+                        onChangeStatus={onChangeTriageStatus}
+                        onLogContact={onLogContact}
+                    />
+                )}
             </div>
             <Modal
                 isOpen={isSuccessModalOpen}
@@ -1165,6 +2435,61 @@ const HospitalView: FC<{ recipients: Recipient[]; onAddRecipient: (recipient: Re
                     </div>
                 </div>
             </Modal>
+
+            <InfoModal
+                isOpen={editingRecipient !== null && editForm !== null}
+                onClose={() => { setEditingRecipient(null); setEditForm(null); }}
+                title={`Edit Request ${editingRecipient?.patientId ?? ''}`}
+                icon={<UserCheckIcon className="w-6 h-6" />}
+                accentColor="indigo"
+            >
+                {editForm && (
+                    <form onSubmit={handleEditSubmit} className="space-y-3">
+                        <div><label className="block text-sm font-medium text-slate-300">Patient Name / ID</label><Input value={editForm.name} onChange={e => setEditForm({ ...editForm, name: e.target.value })} required /></div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div><label className="block text-sm font-medium text-slate-300">Blood Group</label><Select value={editForm.bloodGroup} onChange={e => setEditForm({ ...editForm, bloodGroup: e.target.value as BloodGroup })}>{BLOOD_GROUPS.map(bg => <option key={bg} value={bg}>{bg}</option>)}</Select></div>
+                            <div><label className="block text-sm font-medium text-slate-300">Urgency Level</label><Select value={editForm.urgency} onChange={e => setEditForm({ ...editForm, urgency: e.target.value as Urgency })}>{(editingRecipient?.urgency === 'Critical' ? URGENCY_LEVELS : DIRECT_URGENCY_LEVELS).map(u => <option key={u} value={u}>{u}</option>)}</Select></div>
+                        </div>
+                        <div><label className="block text-sm font-medium text-slate-300">Date of Birth</label><Input type="date" value={editForm.dob ?? ''} onChange={e => setEditForm({ ...editForm, dob: e.target.value })} /></div>
+                        <div><label className="block text-sm font-medium text-slate-300">Notes</label><Textarea value={editForm.clinicalNotes ?? ''} onChange={e => setEditForm({ ...editForm, clinicalNotes: e.target.value })} /></div>
+                        {editingRecipient && <SeverityFieldset organ={editingRecipient.organNeeded} dob={editForm.dob} values={editLabForm} onChange={setEditLabForm} />}
+                        <div><label className="block text-sm font-medium text-slate-300">Reason for change (recorded in the audit trail)</label><Input value={editReason} onChange={e => setEditReason(e.target.value)} required /></div>
+                        <Button type="submit" className="w-full" disabled={!editReason.trim()}>Save Changes</Button>
+                    </form>
+                )}
+            </InfoModal>
+
+            <EscalationRequestModal
+                recipient={escalatingRecipient}
+                onClose={() => setEscalatingRecipient(null)}
+                onSubmit={(id, justification, parameters) => {
+                    onRequestEscalation(id, justification, parameters);
+                    setEscalatingRecipient(null);
+                }}
+            />
+
+            <ReasonPromptModal
+                isOpen={transferringRecipient !== null}
+                onClose={() => setTransferringRecipient(null)}
+                onConfirm={handleConfirmTransfer}
+                title={`Transfer ${transferringRecipient?.patientId ?? ''}`}
+                confirmLabel="Transfer Patient"
+            >
+                <p className="mb-3">The patient keeps their original listing date, so waiting time carries over. After the transfer only the receiving hospital's coordinators can manage this request.</p>
+                <Select value={transferHospitalId} onChange={e => setTransferHospitalId(e.target.value)}>
+                    {HOSPITALS.filter(h => h.mockId !== transferringRecipient?.hospitalId).map(h => <option key={h.mockId} value={h.mockId}>{h.name}, {h.city}</option>)}
+                </Select>
+            </ReasonPromptModal>
+
+            <ListingStatusModal
+                recipient={listingRecipient}
+                donors={donors}
+                onClose={() => setListingRecipient(null)}
+                onSubmit={(id, change) => {
+                    onChangeListing(id, change);
+                    setListingRecipient(null);
+                }}
+            />
         </>
     );
 };
@@ -1176,141 +2501,488 @@ const StatCard: FC<{ title: string; value: number | string, className?: string }
     </div>
 );
 
-const AdminAuthView: FC<{ onAuthSuccess: () => void }> = ({ onAuthSuccess }) => {
-    const [pin, setPin] = useState('');
+type AuthMode = 'signIn' | 'register' | 'setup' | 'enroll';
+
+const initialAccountForm = {
+    username: '',
+    displayName: '',
+    signInCode: '',
+    password: '',
+    confirmPassword: '',
+};
+
+// Sign-in screen. Donors can register themselves; the very first visit sets up the central admin,
+// who then creates coordinator and auditor accounts from the dashboard.
+const AuthView: FC<{
+    needsSetup: boolean;
+    // No accounts are known yet because the shared registry has not finished loading
+    awaitingSync: boolean;
+    notice?: string | null;
+    onSignIn: (username: string, password: string) => Promise<string | null>;
+    onCreateAccount: (input: NewAccountInput) => Promise<string | null>;
+    onEnrollDevice: (username: string, code: string, password: string) => Promise<string | null>;
+    onViewWaitlist: () => void;
+}> = ({ needsSetup, awaitingSync, notice, onSignIn, onCreateAccount, onEnrollDevice, onViewWaitlist }) => {
+    const [mode, setMode] = useState<AuthMode>(needsSetup ? 'setup' : 'signIn');
+    const [formData, setFormData] = useState(initialAccountForm);
     const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const handleSubmit = (e: FormEvent) => {
+    useEffect(() => {
+        if (needsSetup) setMode('setup');
+        else if (mode === 'setup') setMode('signIn');
+    }, [needsSetup]);
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSwitchMode = (next: AuthMode) => {
+        setMode(next);
+        setError('');
+        setFormData(initialAccountForm);
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
-        if (pin === ADMIN_PIN) {
-            onAuthSuccess();
-        } else {
-            setError('Incorrect PIN. Please try again.');
-            setPin('');
+        setError('');
+        if (mode !== 'signIn' && formData.password !== formData.confirmPassword) {
+            setError('Passwords do not match.');
+            return;
+        }
+        setIsSubmitting(true);
+        const failure = mode === 'signIn'
+            ? await onSignIn(formData.username, formData.password)
+            : mode === 'enroll'
+            ? await onEnrollDevice(formData.username, formData.signInCode, formData.password)
+            : await onCreateAccount({
+                username: formData.username,
+                displayName: formData.displayName,
+                password: formData.password,
+                role: mode === 'setup' ? 'Central Admin' : 'Donor',
+            });
+        setIsSubmitting(false);
+        if (failure) {
+            setError(failure);
+            setFormData(prev => ({ ...prev, password: '', confirmPassword: '' }));
         }
     };
 
+    const title = mode === 'setup' ? 'Set Up Central Admin' : mode === 'register' ? 'Register as a Donor' : mode === 'enroll' ? 'Set Up This Device' : 'Sign In';
+
     return (
         <div className="max-w-md mx-auto mt-10 animate-fade-in">
-            <Card title="Admin Access Required" accentColor="indigo">
+            <Card title={title} accentColor="indigo">
                 <form onSubmit={handleSubmit} className="space-y-4">
-                    <p className="text-slate-400">Please enter the admin PIN to access the coordinator dashboard.</p>
+                    {mode === 'setup' && <p className="text-slate-400">No central admin account exists yet. Create one to manage hospital coordinator and auditor accounts.</p>}
+                    {mode === 'signIn' && <p className="text-slate-400">Sign in with your Life Connect account.</p>}
+                    {mode === 'enroll' && <p className="text-slate-400">Passwords are kept only on the device where they were set. Enter the one-time code from the central admin and choose a password for this device.</p>}
+                    {mode === 'signIn' && awaitingSync && <p className="text-sm text-amber-400">Waiting for the shared registry to load. Central admin set-up is offered only once it confirms no accounts exist.</p>}
+                    {notice && <p className="text-sm text-amber-400">{notice}</p>}
                     <div>
-                        <Input 
-                            type="password" 
-                            value={pin}
-                            onChange={e => setPin(e.target.value)}
-                            placeholder="Enter PIN"
-                            maxLength={5}
-                            autoFocus
-                            className="text-center text-lg tracking-widest"
-                        />
+                        <label className="block text-sm font-medium text-slate-300">Username</label>
+                        <Input name="username" type="text" value={formData.username} onChange={handleInputChange} autoComplete="username" autoFocus required />
+                    </div>
+                    {mode === 'enroll' && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">Sign-in Code</label>
+                            <Input name="signInCode" type="text" value={formData.signInCode} onChange={handleInputChange} autoComplete="one-time-code" placeholder="xxxx-xxxx-xxxx-xxxx-xxxx-xxxx-xxxx-xxxx" required />
+                        </div>
+                    )}
+                    {(mode === 'register' || mode === 'setup') && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">Full Name</label>
+                            <Input name="displayName" type="text" value={formData.displayName} onChange={handleInputChange} required />
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300">Password</label>
+                        <Input name="password" type="password" value={formData.password} onChange={handleInputChange} autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'} required />
                     </div>
+                    {mode !== 'signIn' && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">Confirm Password</label>
+                            <Input name="confirmPassword" type="password" value={formData.confirmPassword} onChange={handleInputChange} autoComplete="new-password" required />
+                        </div>
+                    )}
                     {error && <p className="text-sm text-red-400">{error}</p>}
-                    <Button type="submit" className="w-full" variant="secondary">Unlock Dashboard</Button>
+                    <Button type="submit" className="w-full" variant="secondary" isLoading={isSubmitting}>
+                        {mode === 'signIn' ? 'Sign In' : 'Create Account'}
+                    </Button>
+                    {mode === 'signIn' && (
+                        <>
+                            <p className="text-sm text-slate-400 text-center">New donor? <button type="button" onClick={() => handleSwitchMode('register')} className="text-sky-400 hover:text-sky-300 font-semibold">Create an account</button></p>
+                            <p className="text-sm text-slate-400 text-center">New device? <button type="button" onClick={() => handleSwitchMode('enroll')} className="text-sky-400 hover:text-sky-300 font-semibold">Use a sign-in code</button></p>
+                        </>
+                    )}
+                    {(mode === 'register' || mode === 'enroll') && (
+                        <p className="text-sm text-slate-400 text-center">Already registered? <button type="button" onClick={() => handleSwitchMode('signIn')} className="text-sky-400 hover:text-sky-300 font-semibold">Sign in</button></p>
+                    )}
+                    <p className="text-sm text-slate-400 text-center border-t border-slate-700 pt-3">Checking on a patient? <button type="button" onClick={onViewWaitlist} className="text-sky-400 hover:text-sky-300 font-semibold">Look up waitlist status</button> without signing in.</p>
                 </form>
             </Card>
         </div>
     );
 };
 
+const initialStaffAccountForm = {
+    username: '',
+    displayName: '',
+    role: 'Hospital Coordinator' as UserRole,
+    hospitalId: HOSPITALS[0].mockId,
+    password: '',
+};
+
+const AccountsCard: FC<{
+    accounts: UserAccount[];
+    currentAccountId: string;
+    onCreateAccount: (input: NewAccountInput) => Promise<string | null>;
+    onSetAccountDisabled: (accountId: string, disabled: boolean) => void;
+    onSetViewHospitals: (accountId: string, hospitalIds: string[]) => void;
+    onIssueSignInCode: (accountId: string) => Promise<string | null>;
+}> = ({ accounts, currentAccountId, onCreateAccount, onSetAccountDisabled, onSetViewHospitals, onIssueSignInCode }) => {
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    // Shown once, right after it is issued; only its hash is stored
+    const [issuedCode, setIssuedCode] = useState<{ accountId: string; code: string } | null>(null);
+    const [formData, setFormData] = useState(initialStaffAccountForm);
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const staffAccounts = useMemo(() => accounts.filter(a => a.role !== 'Donor').sort((a, b) => a.username.localeCompare(b.username)), [accounts]);
+    const donorAccountCount = accounts.length - staffAccounts.length;
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsSubmitting(true);
+        const failure = await onCreateAccount({
+            ...formData,
+            hospitalId: formData.role === 'Hospital Coordinator' ? formData.hospitalId : undefined,
+        });
+        setIsSubmitting(false);
+        if (failure) {
+            setError(failure);
+            return;
+        }
+        setFormData(initialStaffAccountForm);
+        setIsFormOpen(false);
+    };
+
+    const titleActions = (
+        <button onClick={() => setIsFormOpen(!isFormOpen)} className="text-xs text-slate-400 hover:text-white font-semibold">
+            {isFormOpen ? 'Cancel' : '+ New Staff Account'}
+        </button>
+    );
+
+    return (
+        <Card title={`Staff Accounts (${staffAccounts.length})`} titleIcon={<UsersIcon className="text-indigo-400"/>} accentColor="indigo" titleActions={titleActions}>
+            {isFormOpen && (
+                <form onSubmit={handleSubmit} className="p-4 bg-slate-900/50 rounded-lg mb-4 border border-slate-700 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                    <div><label className="block text-xs font-medium text-slate-300">Username</label><Input name="username" value={formData.username} onChange={handleInputChange} required /></div>
+                    <div><label className="block text-xs font-medium text-slate-300">Full Name</label><Input name="displayName" value={formData.displayName} onChange={handleInputChange} required /></div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-300">Role</label>
+                        <Select name="role" value={formData.role} onChange={handleInputChange}>
+                            {USER_ROLES.filter(r => r !== 'Donor').map(r => <option key={r} value={r}>{r}</option>)}
+                        </Select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-300">Hospital</label>
+                        <Select name="hospitalId" value={formData.hospitalId} onChange={handleInputChange} disabled={formData.role !== 'Hospital Coordinator'}>
+                            {HOSPITALS.map(h => <option key={h.mockId} value={h.mockId}>{h.name}, {h.city}</option>)}
+                        </Select>
+                    </div>
+                    <div><label className="block text-xs font-medium text-slate-300">Initial Password</label><Input name="password" type="password" value={formData.password} onChange={handleInputChange} autoComplete="new-password" required /></div>
+                    {error && <p className="md:col-span-4 text-sm text-red-400">{error}</p>}
+                    <Button type="submit" isLoading={isSubmitting} className="md:col-start-5">Create Account</Button>
+                </form>
+            )}
+            <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="text-xs text-slate-400 uppercase bg-slate-900 sticky top-0">
+                        <tr>
+                            <th className="px-4 py-3">User</th>
+                            <th className="px-4 py-3">Role</th>
+                            <th className="px-4 py-3">Hospital</th>
+                            <th className="px-4 py-3 text-right">Access</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-slate-300">
+                        {staffAccounts.map(account => (
+                            <tr key={account.id} className={`border-b border-slate-700 ${account.disabled ? 'opacity-50' : ''}`}>
+                                <td className="px-4 py-3">
+                                    <div className="font-semibold">{account.displayName}</div>
+                                    <div className="text-xs text-slate-500">{account.username}</div>
+                                </td>
+                                <td className="px-4 py-3">{account.role}</td>
+                                <td className="px-4 py-3">
+                                    <div>{HOSPITALS.find(h => h.mockId === account.hospitalId)?.name ?? '—'}</div>
+                                    {account.role === 'Hospital Coordinator' && (
+                                        <div className="mt-1 flex flex-wrap gap-1 items-center">
+                                            {(account.viewHospitalIds ?? []).map(id => (
+                                                <span key={id} className="text-[10px] bg-sky-600/30 text-sky-300 px-2 py-0.5 rounded-full">
+                                                    views {HOSPITALS.find(h => h.mockId === id)?.name ?? id}
+                                                    <button onClick={() => onSetViewHospitals(account.id, (account.viewHospitalIds ?? []).filter(v => v !== id))} className="ml-1 hover:text-white" title="Revoke">×</button>
+                                                </span>
+                                            ))}
+                                            <Select value="" onChange={e => e.target.value && onSetViewHospitals(account.id, [...(account.viewHospitalIds ?? []), e.target.value])} className="text-xs !p-1 !mt-0 w-40" title="Grant read-only visibility of another hospital">
+                                                <option value="">+ Grant view…</option>
+                                                {HOSPITALS.filter(h => h.mockId !== account.hospitalId && !(account.viewHospitalIds ?? []).includes(h.mockId)).map(h => <option key={h.mockId} value={h.mockId}>{h.name}</option>)}
+                                            </Select>
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="px-4 py-3 text-right">
+                                    <div className="flex flex-col items-end gap-1">
+                                        {account.id !== currentAccountId && (
+                                            <button onClick={() => onSetAccountDisabled(account.id, !account.disabled)} className={`font-semibold text-xs ${account.disabled ? 'text-sky-400 hover:text-sky-300' : 'text-rose-500 hover:text-rose-400'}`}>
+                                                {account.disabled ? 'Enable' : 'Disable'}
+                                            </button>
+                                        )}
+                                        {!account.disabled && (
+                                            <button onClick={async () => { const code = await onIssueSignInCode(account.id); if (code) setIssuedCode({ accountId: account.id, code }); }} className="font-semibold text-xs text-amber-400 hover:text-amber-300" title="One-time code to set a password on another device">
+                                                Sign-in Code
+                                            </button>
+                                        )}
+                                        {issuedCode?.accountId === account.id && (
+                                            <div className="text-[11px] text-slate-400 text-left max-w-[14rem]">
+                                                <code className="block text-amber-300 break-all">{issuedCode.code}</code>
+                                                Valid for 24 hours, once. It will not be shown again.
+                                            </div>
+                                        )}
+                                        {account.enrollment && issuedCode?.accountId !== account.id && account.enrollment.expiresAt > Date.now() && (
+                                            <span className="text-[10px] text-slate-500">Code outstanding</span>
+                                        )}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-slate-500 mt-3">{donorAccountCount} self-registered donor account(s).</p>
+        </Card>
+    );
+};
+
+const initialLivingDonorForm = {
+    name: '',
+    contact: '',
+    dob: '',
+    gender: GENDERS[2],
+    bloodGroup: BLOOD_GROUPS[0],
+    address: '',
+    aadhaar: '',
+    pairedRecipientId: '',
+};
+
+const PairedExchangeCard: FC<{
+    donors: Donor[];
+    recipients: Recipient[];
+    onRegisterLivingDonor: (donor: Omit<Donor, 'id' | 'pledgeDate' | 'status'>) => Promise<string | null>;
+    onFindExchanges: () => void;
+}> = ({ donors, recipients, onRegisterLivingDonor, onFindExchanges }) => {
+    const [formData, setFormData] = useState(initialLivingDonorForm);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+
+    const kidneyRecipients = useMemo(() => recipients.filter(r => r.organNeeded === 'Kidney'), [recipients]);
+    const pairCount = donors.filter(d => d.donorType === 'Living Paired').length;
+    const altruistCount = donors.filter(d => d.donorType === 'Living Altruistic').length;
+    const pairedRecipient = kidneyRecipients.find(r => r.id === formData.pairedRecipientId);
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!formData.name || !formData.contact || !formData.dob || !formData.address) {
+            alert('Please fill in all living donor details.');
+            return;
+        }
+        const aadhaarError = formData.aadhaar.trim() ? validateAadhaar(formData.aadhaar) : null;
+        if (aadhaarError) {
+            alert(aadhaarError);
+            return;
+        }
+        const { pairedRecipientId, aadhaar, ...details } = formData;
+        let protectedAadhaar: ProtectedAadhaar | undefined;
+        try {
+            protectedAadhaar = aadhaar.trim() ? await protectAadhaar(aadhaar, aadhaarDigester) : undefined;
+        } catch (error) {
+            console.error('Error protecting Aadhaar number:', error);
+            alert('The Aadhaar number could not be checked right now. Please try again.');
+            return;
+        }
+        const rejected = await onRegisterLivingDonor({
+            ...details,
+            gender: details.gender as Gender,
+            bloodGroup: details.bloodGroup as BloodGroup,
+            aadhaar: protectedAadhaar,
+            pledgedOrgans: ['Kidney'],
+            donorType: pairedRecipientId ? 'Living Paired' : 'Living Altruistic',
+            pairedRecipientId: pairedRecipientId || undefined,
+        });
+        if (rejected) {
+            alert(rejected);
+            return;
+        }
+        setFormData(initialLivingDonorForm);
+        setIsFormOpen(false);
+    };
+
+    const titleActions = (
+        <button onClick={() => setIsFormOpen(!isFormOpen)} className="text-sm text-sky-400 hover:text-sky-300 font-semibold">
+            {isFormOpen ? 'Cancel' : '+ Register Living Donor'}
+        </button>
+    );
+
+    return (
+        <Card title="Kidney Paired Exchange" titleIcon={<UsersIcon className="text-sky-400"/>} accentColor="sky" titleActions={titleActions}>
+            <p className="text-sm text-slate-400 mb-4">Register living kidney donors who are incompatible with their intended recipient, or altruistic donors with no intended recipient. The exchange search finds 2-way and 3-way swap cycles and altruistic chains.</p>
+            {isFormOpen && (
+                <form onSubmit={handleSubmit} className="p-4 bg-slate-900/50 rounded-lg mb-4 space-y-4 border border-slate-700 animate-fade-in">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div><label className="block text-sm font-medium text-slate-300">Donor Name</label><Input name="name" type="text" value={formData.name} onChange={handleInputChange} required /></div>
+                        <div><label className="block text-sm font-medium text-slate-300">Contact Number</label><Input name="contact" type="tel" value={formData.contact} onChange={handleInputChange} required /></div>
+                        <div><label className="block text-sm font-medium text-slate-300">Date of Birth</label><Input name="dob" type="date" value={formData.dob} onChange={handleInputChange} required /></div>
+                        <div><label className="block text-sm font-medium text-slate-300">Gender</label><Select name="gender" value={formData.gender} onChange={handleInputChange}>{GENDERS.map(g => <option key={g} value={g}>{g}</option>)}</Select></div>
+                        <div><label className="block text-sm font-medium text-slate-300">Blood Group</label><Select name="bloodGroup" value={formData.bloodGroup} onChange={handleInputChange}>{BLOOD_GROUPS.map(bg => <option key={bg} value={bg}>{bg}</option>)}</Select></div>
+                        <AadhaarInput value={formData.aadhaar} onChange={aadhaar => setFormData(prev => ({ ...prev, aadhaar }))} />
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300">Intended Recipient</label>
+                            <Select name="pairedRecipientId" value={formData.pairedRecipientId} onChange={handleInputChange}>
+                                <option value="">None (altruistic donor)</option>
+                                {kidneyRecipients.map(r => <option key={r.id} value={r.id}>{r.name} ({r.patientId}, {r.bloodGroup})</option>)}
+                            </Select>
+                        </div>
+                        <div className="md:col-span-3"><label className="block text-sm font-medium text-slate-300">Full Residential Address</label><Textarea name="address" value={formData.address} onChange={handleInputChange} rows={2} required /></div>
+                    </div>
+                    {pairedRecipient && isBloodTypeCompatible(formData.bloodGroup as BloodGroup, pairedRecipient.bloodGroup) && (
+                        <p className="text-xs text-amber-400">This donor is blood-group compatible with {pairedRecipient.name}; a direct transplant may be possible without an exchange.</p>
+                    )}
+                    <div className="text-right"><Button type="submit" variant="secondary">Register Living Donor</Button></div>
+                </form>
+            )}
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-slate-300">{pairCount} incompatible pair(s) · {altruistCount} altruistic donor(s)</p>
+                <Button onClick={onFindExchanges} variant="secondary" disabled={pairCount + altruistCount === 0}>Find Exchange Cycles & Chains</Button>
+            </div>
+        </Card>
+    );
+};
+
 const AdminView: FC<{
     donors: Donor[], 
     recipients: Recipient[], 
     notifications: InterestNotification[],
-    onClearNotification: (id: string) => void,
-    onUpdateRecipientUrgency: (id: string, urgency: Urgency) => void,
-    onDeleteRecipient: (id: string) => void,
+    onConfirmInterest: (notificationId: string) => void,
+    onAssignInterest: (notificationId: string, accountId: string) => void,
+    onChangeTriageStatus: (notificationId: string, status: TriageStatus, note: string) => void,
+    onLogContact: (notificationId: string, attempt: Pick<ContactAttempt, 'channel' | 'result' | 'note'>) => void,
+    // Null when no API key is configured; screening then starts blank and urgency analysis is rule-based
+    model: StructuredModel | null,
+    onSaveScreeningReport: (donorId: string, report: ScreeningReportDraft) => void,
+    onUpdateRecipientUrgency: (id: string, urgency: Urgency, reason: string) => void,
+    onChangeListing: (id: string, change: ListingChange) => void,
     onAddMockRecipient: () => void;
-}> = ({ donors, recipients, notifications, onClearNotification, onUpdateRecipientUrgency, onDeleteRecipient, onAddMockRecipient }) => {
+    onRegisterLivingDonor: (donor: Omit<Donor, 'id' | 'pledgeDate' | 'status'>) => Promise<string | null>;
+    offers: MatchOffer[];
+    onProposeOffer: (match: MatchResult) => void;
+    onAdvanceOffer: (offerId: string, to: OfferState, note?: string) => void;
+    quarantined: QuarantinedRecord[];
+    onClearQuarantine: () => void;
+    accounts: UserAccount[];
+    currentAccountId: string;
+    onCreateAccount: (input: NewAccountInput) => Promise<string | null>;
+    onSetAccountDisabled: (accountId: string, disabled: boolean) => void;
+    onIssueSignInCode: (accountId: string) => Promise<string | null>;
+    onSetViewHospitals: (accountId: string, hospitalIds: string[]) => void;
+    session: AuthSession | null;
+    onRequestEscalation: (id: string, justification: string, parameters: EscalationParameters) => void;
+    onReviewEscalation: (id: string, approve: boolean, note: string) => void;
+    onReviewDocuments: (donorId: string, approve: boolean, reason: string) => void;
+}> = ({ donors, recipients, notifications, onConfirmInterest, onAssignInterest, onChangeTriageStatus, onLogContact, model, onSaveScreeningReport, onUpdateRecipientUrgency, onChangeListing, onAddMockRecipient, onRegisterLivingDonor, offers, onProposeOffer, onAdvanceOffer, quarantined, onClearQuarantine, accounts, currentAccountId, onCreateAccount, onSetAccountDisabled, onIssueSignInCode, onSetViewHospitals, session, onRequestEscalation, onReviewEscalation, onReviewDocuments }) => {
     const [isMatching, setIsMatching] = useState(false);
     const [isUrgencyModalOpen, setIsUrgencyModalOpen] = useState(false);
+    const [urgencyFacts, setUrgencyFacts] = useState<UrgencyFacts | null>(null);
+    const [urgencyAnalysis, setUrgencyAnalysis] = useState<UrgencyAnalysis | null>(null);
+    const urgencyRequestRef = useRef(0);
     const [isMatchModalOpen, setIsMatchModalOpen] = useState(false);
-    const [isScreeningModalOpen, setIsScreeningModalOpen] = useState(false);
     const [matchModalContent, setMatchModalContent] = useState<MatchResult[] | null>(null);
+    const [matchingMode, setMatchingMode] = useState<MatchingMode>('greedy');
+    const [matchComparison, setMatchComparison] = useState<MatchComparison | null>(null);
     const [screeningModalNotification, setScreeningModalNotification] = useState<InterestNotification | null>(null);
+    const [expandedScoreId, setExpandedScoreId] = useState<string | null>(null);
+    const [exchangeSearch, setExchangeSearch] = useState<ExchangeSearchResult | null>(null);
+    const [pendingUrgencyChange, setPendingUrgencyChange] = useState<{ recipient: Recipient; urgency: Urgency } | null>(null);
+    const [escalatingRecipient, setEscalatingRecipient] = useState<Recipient | null>(null);
+    const [listingRecipient, setListingRecipient] = useState<Recipient | null>(null);
+    const [pendingInterestConfirm, setPendingInterestConfirm] = useState<InterestNotification | null>(null);
     
-    const potentialMatches = useMemo(() => recipients.filter(r => r.status === 'Potential Match Found').length, [recipients]);
+    const isOfferInProgress = (match: MatchResult) => offers.some(o =>
+        ACTIVE_OFFER_STATES.includes(o.state) && (o.recipientId === match.recipient.id || (o.donorId === match.donor.id && o.organ === match.recipient.organNeeded)));
 
-    const organSupplyDemand = useMemo(() => {
-        const demand = recipients.reduce((acc, r) => {
-            acc[r.organNeeded] = (acc[r.organNeeded] || 0) + 1;
-            return acc;
-        }, {} as Record<Organ, number>);
-
-        const supply = donors.reduce((acc, d) => {
-            d.pledgedOrgans.forEach(organ => {
-                acc[organ] = (acc[organ] || 0) + 1;
-            });
-            return acc;
-        }, {} as Record<Organ, number>);
+    // Transplanted and removed patients stay in the registry for history but leave the working waitlist
+    const listedRecipients = useMemo(() => recipients.filter(isListingOpen), [recipients]);
+    const potentialMatches = useMemo(() => recipients.filter(r => r.status === 'Potential Match Found').length, [recipients]);
+    const unverifiedPledgeCount = useMemo(() => donors.filter(d => isDeceasedPledge(d) && !isDonorVerified(d)).length, [donors]);
 
-        const allOrgans = Array.from(new Set([...Object.keys(demand), ...Object.keys(supply)])) as Organ[];
-        return allOrgans.map(organ => ({
-            organ,
-            demand: demand[organ] || 0,
-            supply: supply[organ] || 0,
-        }));
-    }, [donors, recipients]);
+    const organSupplyDemand = useMemo(() =>
+        summarizeSupplyDemand(donors, listedRecipients).filter(({ demand, supply }) => demand > 0 || supply > 0),
+    [donors, listedRecipients]);
 
     const timeOnListDays = (timestamp: number) => {
         const diff = Date.now() - timestamp;
         return Math.floor(diff / (1000 * 60 * 60 * 24));
     };
 
-    const calculateScore = (recipient: Recipient) => {
-        const urgencyScore = recipient.urgency === 'Critical' ? 150 : recipient.urgency === 'High' ? 100 : 50;
-        const timeScore = timeOnListDays(recipient.timeOnList);
-        return urgencyScore + timeScore;
-    };
+    const recipientScores = useMemo(() => {
+        const now = Date.now();
+        return new Map(recipients.map(r => [r.id, scoreAllocation({ recipient: r, now })]));
+    }, [recipients]);
+
+    const calculateScore = (recipient: Recipient) => recipientScores.get(recipient.id)?.total ?? 0;
     
     const sortedRecipients = useMemo(() => 
-        [...recipients].sort((a, b) => calculateScore(b) - calculateScore(a)),
-    [recipients]);
+        [...listedRecipients].sort((a, b) => calculateScore(b) - calculateScore(a)),
+    [listedRecipients, recipientScores]);
 
     const handleRunMatching = () => {
         setIsMatching(true);
         setTimeout(() => {
-            const matches: MatchResult[] = [];
-            let availableDonors = [...donors];
-            
-            const donorOrganMap = new Map<Organ, Donor[]>();
-            availableDonors.forEach(d => {
-                d.pledgedOrgans.forEach(o => {
-                    if (!donorOrganMap.has(o)) donorOrganMap.set(o, []);
-                    donorOrganMap.get(o)?.push(d);
-                })
-            });
-
-            sortedRecipients.forEach(recipient => {
-                const compatibleDonors = donorOrganMap.get(recipient.organNeeded) || [];
-                const compatibleAndAvailable = compatibleDonors.filter(d => isBloodTypeCompatible(d.bloodGroup, recipient.bloodGroup));
-
-                if (compatibleAndAvailable.length > 0) {
-                    const matchedDonor = compatibleAndAvailable[0];
-                    matches.push({ recipient, donor: matchedDonor });
-                    availableDonors = availableDonors.filter(d => d.id !== matchedDonor.id);
-                    donorOrganMap.set(recipient.organNeeded, (donorOrganMap.get(recipient.organNeeded) || []).filter(d => d.id !== matchedDonor.id));
-                }
-            });
-            
-            setMatchModalContent(matches);
-            setIsMatchModalOpen(true);
+            const now = Date.now();
+            const awaiting = sortedRecipients.filter(isAwaitingAllocation);
+            const greedy = runGreedyMatching(donors, awaiting, now);
+            if (matchingMode === 'optimal') {
+                setMatchComparison({ greedy, optimal: runOptimalMatching(donors, awaiting, now) });
+            } else {
+                setMatchModalContent(greedy);
+                setIsMatchModalOpen(true);
+            }
             setIsMatching(false);
         }, 1500);
     };
 
-    const handleUrgencyAnalysis = () => {
-        if (recipients.length === 0) {
+    const handleUrgencyAnalysis = async () => {
+        const facts = buildUrgencyFacts(sortedRecipients, donors, organSupplyDemand, Date.now());
+        if (facts.patientIds.length === 0) {
             alert('No recipients on the waitlist to analyze.');
             return;
         }
+        const request = ++urgencyRequestRef.current;
+        setUrgencyFacts(facts);
+        setUrgencyAnalysis(null);
         setIsUrgencyModalOpen(true);
-    };
-
-    const handleOpenScreeningModal = (notification: InterestNotification) => {
-        setScreeningModalNotification(notification);
-        setIsScreeningModalOpen(true);
+        const analysis = await analyzeUrgency(model, facts);
+        if (request === urgencyRequestRef.current) setUrgencyAnalysis(analysis);
     };
 
     return (
@@ -1318,13 +2990,28 @@ const AdminView: FC<{
         <div className="space-y-6">
             <h1 className="text-3xl font-bold text-slate-200">Hospital Coordinator Dashboard</h1>
 
+            {quarantined.length > 0 && (
+                <Card title={`Quarantined Records (${quarantined.length})`} titleIcon={<AlertTriangleIcon className="text-amber-400"/>} accentColor="amber"
+                    titleActions={<button onClick={onClearQuarantine} className="text-xs text-slate-400 hover:text-white font-semibold">Dismiss All</button>}>
+                    <p className="text-sm text-slate-400 mb-3">These stored records failed validation on load and were set aside instead of being loaded. Review them before dismissing.</p>
+                    <div className="max-h-48 overflow-y-auto space-y-2">
+                        {quarantined.map((item, index) => (
+                            <details key={index} className="bg-slate-900 p-2 rounded-md text-xs">
+                                <summary className="cursor-pointer text-slate-300"><span className="font-semibold text-amber-400">{item.collection}</span> · {item.reason} · schema v{item.schemaVersion} · {new Date(item.quarantinedAt).toLocaleString()}</summary>
+                                <pre className="mt-2 text-slate-500 whitespace-pre-wrap break-all">{JSON.stringify(item.record, null, 2)}</pre>
+                            </details>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <StatCard title="Total Pledged Donors" value={donors.length} className="border-t-4 border-rose-500"/>
-                <StatCard title="Active Recipients" value={recipients.length} className="border-t-4 border-rose-500"/>
+                <StatCard title="Active Recipients" value={listedRecipients.filter(r => getListingState(r) === 'Active').length} className="border-t-4 border-rose-500"/>
                 <StatCard title="Potential Matches" value={potentialMatches} className="border-t-4 border-rose-500"/>
             </div>
 
-            <Card title="Organ Demand vs. Pledged Supply">
+            <Card title="Organ Demand vs. Available Verified Pledges">
                 <div className="space-y-6">
                     {organSupplyDemand.length > 0 ? organSupplyDemand.map(({organ, demand, supply}) => {
                         const maxVal = Math.max(demand, supply, 1);
@@ -1346,7 +3033,7 @@ const AdminView: FC<{
                                                <span className="text-sm font-medium text-white">{supply}</span>
                                             </div>
                                         </div>
-                                        <span className="text-sm text-slate-400 w-20 text-right">Pledged</span>
+                                        <span className="text-sm text-slate-400 w-20 text-right">Available</span>
                                     </div>
                                 </div>
                             </div>
@@ -1360,55 +3047,40 @@ const AdminView: FC<{
                     <ZapIcon className="w-5 h-5" />
                     <span>Urgency Prioritization Analysis</span>
                 </button>
-                 <Button onClick={handleRunMatching} variant="secondary" className="flex-1" isLoading={isMatching}>
-                    {isMatching ? 'Calculating...' : 'Run Match Algorithm (Simulate)'}
-                </Button>
+                <div className="flex-1 flex items-center space-x-2">
+                    <Select value={matchingMode} onChange={e => setMatchingMode(e.target.value as MatchingMode)} className="!mt-0 w-40" title="Matching mode">
+                        <option value="greedy">Greedy (Ranked)</option>
+                        <option value="optimal">Optimal (Global)</option>
+                    </Select>
+                    <Button onClick={handleRunMatching} variant="secondary" className="flex-1" isLoading={isMatching}>
+                        {isMatching ? 'Calculating...' : 'Run Match Algorithm (Simulate)'}
+                    </Button>
+                </div>
                 <Button onClick={onAddMockRecipient} variant="tertiary" className="flex-1">Add Mock Recipient</Button>
             </div>
             
-            <Card title={`Live Donor Interest Notifications (${notifications.length})`} titleIcon={<HeartIcon className="text-indigo-400"/>} accentColor="indigo">
-                <p className="text-sm text-slate-400 mb-4">These donors have explicitly indicated a willingness to donate. Use the AI tool to assist in initial screening.</p>
-                <div className="max-h-72 overflow-y-auto">
-                {notifications.length > 0 ? (
-                    <table className="w-full text-left text-sm">
-                        <thead className="text-xs text-slate-400 uppercase bg-slate-900 sticky top-0">
-                            <tr>
-                                <th className="px-4 py-3">Donor/City/BG</th>
-                                <th className="px-4 py-3">Organ</th>
-                                <th className="px-4 py-3">Date/Time</th>
-                                <th className="px-4 py-3">Screening Action</th>
-                                <th className="px-4 py-3 text-right">Clear</th>
-                            </tr>
-                        </thead>
-                        <tbody className="text-slate-300">
-                           {notifications.map(notification => {
-                               const donor = donors.find(d => d.id === notification.donorId);
-                               if (!donor) return null;
-                               return (
-                                    <tr key={notification.id} className="border-b border-slate-700">
-                                        <td className="px-4 py-3">
-                                            <div className="font-semibold">{donor.name} ({donor.bloodGroup})</div>
-                                            <div className="text-xs text-slate-400">City: {donor.address.split(',').pop()?.trim() || 'N/A'}</div>
-                                        </td>
-                                        <td className="px-4 py-3 font-semibold text-rose-400">{notification.organ}</td>
-                                        <td className="px-4 py-3">{new Date(notification.timestamp).toLocaleString()}</td>
-                                        <td className="px-4 py-3">
-                                            <button onClick={() => handleOpenScreeningModal(notification)} className="flex items-center space-x-1 text-amber-400 hover:text-amber-300 font-semibold">
-                                                <BrainCircuitIcon className="w-4 h-4" />
-                                                <span>AI Draft</span>
-                                            </button>
-                                        </td>
-                                        <td className="px-4 py-3 text-right">
-                                            <button onClick={() => onClearNotification(notification.id)} className="text-sky-400 hover:text-sky-300 font-semibold text-xs">Process/Clear</button>
-                                        </td>
-                                    </tr>
-                                )
-                           })}
-                        </tbody>
-                    </table>
-                ) : <p className="text-slate-400 text-center py-4">No live notifications.</p>}
-                </div>
-            </Card>
+            <MatchOffersCard offers={offers} donors={donors} recipients={recipients} onAdvanceOffer={onAdvanceOffer} />
+
+            <PairedExchangeCard
+                donors={donors}
+                recipients={recipients}
+                onRegisterLivingDonor={onRegisterLivingDonor}
+                onFindExchanges={() => setExchangeSearch(findExchangeProposals(donors, sortedRecipients))}
+            />
+            
+            <InterestTriageCard
+                notifications={notifications}
+                donors={donors}
+                recipients={recipients}
+                offers={offers}
+                assignees={accounts.filter(a => !a.disabled && (a.role === 'Hospital Coordinator' || a.role === 'Central Admin'))}
+                session={session}
+                onAssign={onAssignInterest}
+                onChangeStatus={onChangeTriageStatus}
+                onLogContact={onLogContact}
+                onConfirmInterest={setPendingInterestConfirm}
+                onOpenScreening={setScreeningModalNotification}
+            />
 
             <Card title="Live Recipient Waitlist Management" titleIcon={<ListIcon className="text-slate-400"/>} accentColor="slate">
                 <div className="max-h-96 overflow-y-auto">
@@ -1425,10 +3097,12 @@ const AdminView: FC<{
                         </thead>
                         <tbody className="text-slate-300">
                             {sortedRecipients.map(r => (
-                                <tr key={r.id} className="border-b border-slate-700 hover:bg-slate-700/50">
+                                <React.Fragment key={r.id}>
+                                <tr className="border-b border-slate-700 hover:bg-slate-700/50">
                                     <td className="px-4 py-3">
                                         <div className="font-semibold">{r.name}</div>
                                         <div className="text-xs text-slate-500">{r.patientId}</div>
+                                        <ListingStateBadge recipient={r} />
                                     </td>
                                     <td className="px-4 py-3">
                                         <div className="font-medium">{r.hospitalName?.split(',')[0]}</div>
@@ -1436,56 +3110,104 @@ const AdminView: FC<{
                                     </td>
                                     <td className="px-4 py-3">
                                          <div className="font-medium">{r.organNeeded} ({r.bloodGroup})</div>
+                                         <SeverityBadge recipient={r} />
                                     </td>
                                     <td className="px-4 py-3">
-                                        <Select value={r.urgency} onChange={(e) => onUpdateRecipientUrgency(r.id, e.target.value as Urgency)} className="text-xs !p-1 !mt-0 bg-slate-700/80 border-slate-600 w-28">
-                                            {URGENCY_LEVELS.map(u => <option key={u} value={u}>{u}</option>)}
+                                        <Select
+                                            value={r.urgency}
+                                            onChange={(e) => {
+                                                const urgency = e.target.value as Urgency;
+                                                if (urgency === 'Critical') setEscalatingRecipient(r);
+                                                else setPendingUrgencyChange({ recipient: r, urgency });
+                                            }}
+                                            className="text-xs !p-1 !mt-0 bg-slate-700/80 border-slate-600 w-28"
+                                        >
+                                            {URGENCY_LEVELS.map(u => <option key={u} value={u} disabled={u === 'Critical' && r.urgency !== 'Critical' && isEscalationPending(r)}>{u}</option>)}
                                         </Select>
+                                        {isEscalationPending(r) && <div className="text-xs text-amber-400 mt-1">Critical pending</div>}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <button onClick={() => setExpandedScoreId(expandedScoreId === r.id ? null : r.id)} className="font-bold text-amber-400 hover:text-amber-300" title="Show score breakdown">
+                                            {calculateScore(r)}
+                                        </button>
                                     </td>
-                                    <td className="px-4 py-3 font-bold text-amber-400">{calculateScore(r)}</td>
                                     <td className="px-4 py-3 text-right">
-                                        <button onClick={() => onDeleteRecipient(r.id)} className="text-rose-500 hover:text-rose-400 font-semibold text-xs">Delete</button>
+                                        <button onClick={() => setListingRecipient(r)} className="text-rose-500 hover:text-rose-400 font-semibold text-xs">Status</button>
                                     </td>
                                 </tr>
+                                {expandedScoreId === r.id && recipientScores.get(r.id) && (
+                                    <tr className="border-b border-slate-700 bg-slate-900/50">
+                                        <td colSpan={6} className="px-4 py-3">
+                                            <ScoreBreakdown score={recipientScores.get(r.id)!} />
+                                        </td>
+                                    </tr>
+                                )}
+                                </React.Fragment>
                             ))}
                         </tbody>
                     </table>
                 </div>
             </Card>
+
+            <EscalationQueueCard recipients={recipients} session={session} onReview={onReviewEscalation} />
+
+            <DocumentVerificationCard donors={donors} onReview={onReviewDocuments} />
+
+            <AccountsCard accounts={accounts} currentAccountId={currentAccountId} onCreateAccount={onCreateAccount} onSetAccountDisabled={onSetAccountDisabled} onSetViewHospitals={onSetViewHospitals} onIssueSignInCode={onIssueSignInCode} />
         </div>
         
-        <InfoModal
+        <EscalationRequestModal
+            recipient={escalatingRecipient}
+            onClose={() => setEscalatingRecipient(null)}
+            onSubmit={(id, justification, parameters) => {
+                onRequestEscalation(id, justification, parameters);
+                setEscalatingRecipient(null);
+            }}
+        />
+
+        <ReasonPromptModal
+            isOpen={pendingUrgencyChange !== null}
+            onClose={() => setPendingUrgencyChange(null)}
+            onConfirm={reason => {
+                if (pendingUrgencyChange) onUpdateRecipientUrgency(pendingUrgencyChange.recipient.id, pendingUrgencyChange.urgency, reason);
+                setPendingUrgencyChange(null);
+            }}
+            title={`Change Urgency for ${pendingUrgencyChange?.recipient.patientId ?? ''}`}
+            confirmLabel="Change Urgency"
+        >
+            <p>{pendingUrgencyChange?.recipient.name}: {pendingUrgencyChange?.recipient.urgency} → <span className="font-semibold text-white">{pendingUrgencyChange?.urgency}</span></p>
+        </ReasonPromptModal>
+
+        <ListingStatusModal
+            recipient={listingRecipient}
+            donors={donors}
+            onClose={() => setListingRecipient(null)}
+            onSubmit={(id, change) => {
+                onChangeListing(id, change);
+                setListingRecipient(null);
+            }}
+        />
+
+        <ConfirmationModal
+            isOpen={pendingInterestConfirm !== null}
+            onClose={() => setPendingInterestConfirm(null)}
+            onConfirm={() => {
+                if (pendingInterestConfirm) onConfirmInterest(pendingInterestConfirm.id);
+                setPendingInterestConfirm(null);
+            }}
+            title="Confirm Donor Interest Match"
+            confirmLabel="Propose Offer"
+        >
+            <p>Compatibility of this donor's {pendingInterestConfirm?.organ} will be re-checked against the {pendingInterestConfirm?.organ} matching rules and the current waitlist. If a compatible patient is still waiting, an offer is proposed and their status changes to a potential match.</p>
+        </ConfirmationModal>
+
+        <UrgencyAnalysisModal
             isOpen={isUrgencyModalOpen}
             onClose={() => setIsUrgencyModalOpen(false)}
-            title="Priority Patient Urgency Analysis"
-            icon={<ZapIcon className="w-6 h-6" />}
-            accentColor="amber"
-        >
-            {sortedRecipients.length > 0 && (() => {
-                const patient = sortedRecipients[0];
-                const organSupply = organSupplyDemand.find(o => o.organ === patient.organNeeded)?.supply || 0;
-                return (
-                    <>
-                        <div className="bg-slate-900 p-3 rounded-md">
-                            <h3 className="font-bold text-amber-400">Target Patient:</h3>
-                            <p>Patient <span className="font-semibold text-white">{patient.name} ({patient.patientId})</span>, requiring <span className="font-semibold text-white">{patient.organNeeded}</span>. Highest priority score (<span className="font-semibold text-white">{calculateScore(patient)}</span>).</p>
-                        </div>
-                        <div className="bg-slate-900 p-3 rounded-md">
-                            <h3 className="font-bold text-amber-400">Immediate Action Plan:</h3>
-                            <ul className="list-disc list-inside space-y-1 mt-1 text-slate-400">
-                                <li>Immediately verify the status and precise location of the single pledged kidney donor, initiating {patient.bloodGroup} blood group confirmation and preliminary HLA typing.</li>
-                                <li>Alert the {patient.hospitalName} transplant coordination team in {HOSPITALS.find(h => h.mockId === patient.hospitalId)?.city} to prepare Patient {patient.patientId} for immediate admission and final cross-match testing procedures.</li>
-                                <li>Mobilize priority logistics (potential Green Corridor) planning for organ retrieval and transport, prioritizing minimizing cold ischemic time given the critical single-unit supply.</li>
-                            </ul>
-                        </div>
-                         <div className="bg-slate-900 p-3 rounded-md">
-                            <h3 className="font-bold text-amber-400">Critical Constraint Summary:</h3>
-                            <p>The current supply registry shows a match ({organSupply} {patient.organNeeded} pledged) for the required organ, however, the critical constraint is confirming {patient.bloodGroup} compatibility and securing a positive cross-match for Patient {patient.patientId} before the viability of the single available donor organ declines.</p>
-                        </div>
-                    </>
-                );
-            })()}
-        </InfoModal>
+            analysis={urgencyAnalysis}
+            facts={urgencyFacts}
+            recipients={recipients}
+        />
 
         <InfoModal
             isOpen={isMatchModalOpen}
@@ -1495,56 +3217,235 @@ const AdminView: FC<{
             accentColor="indigo"
         >
             {matchModalContent && matchModalContent.length > 0 ? (
-                matchModalContent.map((match, index) => (
-                    <div key={index} className="bg-slate-900 p-3 rounded-md mb-2">
-                        <p><strong className="text-slate-400">Recipient:</strong> {match.recipient.name} (ID: {match.recipient.patientId}, BG: {match.recipient.bloodGroup}, Hospital: {match.recipient.hospitalName})</p>
-                        <p><strong className="text-slate-400">Donor:</strong> {match.donor.name} (BG: {match.donor.bloodGroup}, Organ: {match.recipient.organNeeded})</p>
-                    </div>
-                ))
+                matchModalContent.map((match, index) => <MatchResultCard key={index} match={match} onPropose={onProposeOffer} isProposed={isOfferInProgress(match)} />)
             ) : (
                 <p>No compatible donor-recipient pairs were found at this time. The system will continue to monitor for new pledges and requests.</p>
             )}
+            {unverifiedPledgeCount > 0 && <p className="text-xs text-amber-400">{unverifiedPledgeCount} pledge(s) were skipped because their documents are not yet verified.</p>}
         </InfoModal>
 
-        {screeningModalNotification && (() => {
-            const donor = donors.find(d => d.id === screeningModalNotification.donorId);
-            return (
-                <InfoModal
-                    isOpen={isScreeningModalOpen}
-                    onClose={() => setIsScreeningModalOpen(false)}
-                    title="Initial Donor Screening Report"
-                    icon={<BrainCircuitIcon className="w-6 h-6" />}
-                    accentColor="amber"
-                >
-                    {donor && (
-                         <>
-                            <div className="bg-slate-900 p-3 rounded-md">
-                                <h3 className="font-bold text-amber-400">Initial Contact Draft:</h3>
-                                <p className="italic text-slate-400">Dear {donor.name}, thank you for your compassionate interest in organ donation. We appreciate your registration. An Organ Coordinator will contact you shortly for the initial screening process.</p>
-                            </div>
-                            <div className="bg-slate-900 p-3 rounded-md">
-                                <h3 className="font-bold text-amber-400">Eligibility & Risk Summary:</h3>
-                                <p>Blood Group {donor.bloodGroup} is a common phenotype, offering a high potential recipient match pool. The pledged organ ({screeningModalNotification.organ}) is critically needed. Geographic proximity to major {donor.address.split(',').pop()?.trim() || 'N/A'} transplant centers is excellent. Prioritize initial HLA typing immediately due to high demand and regional fit.</p>
+        <InfoModal
+            isOpen={exchangeSearch !== null}
+            onClose={() => setExchangeSearch(null)}
+            title={exchangeSearch && exchangeSearch.proposals.length > 0 ? `Exchange Proposals (${exchangeSearch.proposals.length})` : 'No Exchange Found'}
+            icon={<UsersIcon className="w-6 h-6" />}
+            accentColor="indigo"
+        >
+            {exchangeSearch && !exchangeSearch.exhaustive && (
+                <p className="text-xs text-amber-400 mb-2">Best effort: the cycle search stopped at its step limit, so a set of swaps covering more pairs may exist.</p>
+            )}
+            {exchangeSearch && exchangeSearch.proposals.length > 0 ? (
+                <div className="max-h-[60vh] overflow-y-auto">
+                    {exchangeSearch.proposals.map(proposal => (
+                        <div key={proposal.id} className="bg-slate-900 p-3 rounded-md mb-2">
+                            <p className="font-bold text-indigo-300">{proposal.kind} · {proposal.transplants.length} transplant(s)</p>
+                            <ol className="list-decimal list-inside space-y-1 mt-1">
+                                {proposal.transplants.map(({ donor, recipient }) => (
+                                    <li key={`${donor.id}-${recipient.id}`}>
+                                        <span className="text-white">{donor.name}</span> ({donor.bloodGroup}{donor.donorType === 'Living Altruistic' ? ', altruistic' : ''}) → <span className="text-white">{recipient.name}</span> ({recipient.bloodGroup}, {recipient.patientId})
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p>No swap cycles or altruistic chains are possible with the currently registered living donors.</p>
+            )}
+        </InfoModal>
+
+        <InfoModal
+            isOpen={matchComparison !== null}
+            onClose={() => setMatchComparison(null)}
+            title="Greedy vs. Optimal Allocation"
+            icon={<HospitalIcon className="w-6 h-6" />}
+            accentColor="indigo"
+            wide
+        >
+            {unverifiedPledgeCount > 0 && <p className="text-xs text-amber-400">{unverifiedPledgeCount} pledge(s) were skipped because their documents are not yet verified.</p>}
+            {matchComparison && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[65vh] overflow-y-auto">
+                    {([['Greedy (Ranked)', matchComparison.greedy], ['Optimal (Global)', matchComparison.optimal]] as [string, MatchResult[]][]).map(([label, matches]) => (
+                        <div key={label}>
+                            <div className="bg-slate-900 p-3 rounded-md mb-2 flex justify-between">
+                                <span className="font-bold text-indigo-300">{label}</span>
+                                <span className="text-slate-400">{matches.length} match(es) · total score <span className="font-bold text-amber-400">{totalMatchScore(matches)}</span></span>
                             </div>
-                            <p className="text-xs text-slate-500 text-center">Note: This is an AI-generated assessment. Full medical verification is mandatory.</p>
-                        </>
-                    )}
-                </InfoModal>
-            );
-        })()}
+                            {matches.length > 0
+                                ? matches.map((match, index) => <MatchResultCard key={index} match={match} onPropose={onProposeOffer} isProposed={isOfferInProgress(match)} />)
+                                : <p className="text-slate-400">No compatible pairs.</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </InfoModal>
+
+        <ScreeningReportModal
+            notification={screeningModalNotification}
+            donors={donors}
+            recipients={recipients}
+            model={model}
+            onClose={() => setScreeningModalNotification(null)}
+            onSave={(donorId, report) => {
+                onSaveScreeningReport(donorId, report);
+                setScreeningModalNotification(null);
+            }}
+        />
         </>
     );
 }
 
+const initialAuditFilters = {
+    action: '',
+    actorId: '',
+    search: '',
+    from: '',
+    to: '',
+};
+
+const AuditLogView: FC<{ entries: AuditEntry[] }> = ({ entries }) => {
+    const [filters, setFilters] = useState(initialAuditFilters);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [verification, setVerification] = useState<AuditVerification | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
+
+    const actors = useMemo(() => {
+        const byId = new Map<string, string>(entries.map(e => [e.actorId, `${e.actorName} (${e.actorRole})`]));
+        return Array.from(byId.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+    }, [entries]);
+
+    const filteredEntries = useMemo(() => {
+        const search = filters.search.trim().toLowerCase();
+        const from = filters.from ? new Date(filters.from).getTime() : -Infinity;
+        const to = filters.to ? new Date(filters.to).getTime() + MS_PER_DAY : Infinity;
+        return sortAuditLog(entries).reverse().filter(e =>
+            (!filters.action || e.action === filters.action)
+            && (!filters.actorId || e.actorId === filters.actorId)
+            && e.at >= from && e.at < to
+            && (!search || e.recordId.toLowerCase().includes(search) || e.reason.toLowerCase().includes(search) || canonicalJson(e.after ?? e.before ?? '').toLowerCase().includes(search)));
+    }, [entries, filters]);
+
+    // A new entry invalidates the previous verification result
+    useEffect(() => setVerification(null), [entries]);
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFilters(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleVerify = async () => {
+        setIsVerifying(true);
+        setVerification(await verifyAuditChain(entries));
+        setIsVerifying(false);
+    };
+
+    const titleActions = (
+        <Button onClick={handleVerify} isLoading={isVerifying} variant="secondary" className="!py-1 text-sm">Verify Chain</Button>
+    );
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-3xl font-bold text-slate-200">Audit Trail</h1>
+
+            <Card title={`Registry Mutations (${filteredEntries.length} of ${entries.length})`} titleIcon={<ListIcon className="text-indigo-400"/>} accentColor="indigo" titleActions={titleActions}>
+                {verification && (
+                    <div className={`p-3 rounded-md mb-4 text-sm ${verification.ok ? 'bg-emerald-900/40 text-emerald-300' : 'bg-red-900/40 text-red-300'}`}>
+                        {verification.ok
+                            ? `Chain intact: all ${verification.checked} entries verified against their hashes.${verification.mergedBranches > 0 ? ` ${verification.mergedBranches} concurrent branch(es) from simultaneous writers were merged.` : ''}`
+                            : `Tampering detected at entry #${verification.brokenAt} (${verification.checked} earlier entries verified). ${verification.problem}`}
+                    </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+                    <Select name="action" value={filters.action} onChange={handleFilterChange}>
+                        <option value="">All actions</option>
+                        {AUDIT_ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                    </Select>
+                    <Select name="actorId" value={filters.actorId} onChange={handleFilterChange}>
+                        <option value="">All actors</option>
+                        {actors.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                    </Select>
+                    <Input name="search" value={filters.search} onChange={handleFilterChange} placeholder="Record ID, reason or value" />
+                    <Input name="from" type="date" value={filters.from} onChange={handleFilterChange} title="From date" />
+                    <Input name="to" type="date" value={filters.to} onChange={handleFilterChange} title="To date" />
+                </div>
+                <div className="max-h-[32rem] overflow-y-auto">
+                    {filteredEntries.length === 0 ? <p className="text-slate-400 text-center py-4">No audit entries match these filters.</p> : (
+                        <table className="w-full text-left text-sm">
+                            <thead className="text-xs text-slate-400 uppercase bg-slate-900 sticky top-0">
+                                <tr>
+                                    <th className="px-4 py-3">#</th>
+                                    <th className="px-4 py-3">Time</th>
+                                    <th className="px-4 py-3">Actor</th>
+                                    <th className="px-4 py-3">Action</th>
+                                    <th className="px-4 py-3">Record</th>
+                                    <th className="px-4 py-3">Reason</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-300">
+                                {filteredEntries.map(entry => (
+                                    <React.Fragment key={entry.id}>
+                                        <tr onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className={`border-b border-slate-700 cursor-pointer hover:bg-slate-700/50 ${verification?.brokenAt === entry.sequence ? 'bg-red-900/30' : ''}`}>
+                                            <td className="px-4 py-3 text-slate-500">{entry.sequence}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                                            <td className="px-4 py-3">
+                                                <div>{entry.actorName}</div>
+                                                <div className="text-xs text-slate-500">{entry.actorRole}</div>
+                                            </td>
+                                            <td className="px-4 py-3 font-semibold">{entry.action}</td>
+                                            <td className="px-4 py-3 text-xs">{entry.collection}/{entry.recordId}</td>
+                                            <td className="px-4 py-3">{entry.reason}</td>
+                                        </tr>
+                                        {expandedId === entry.id && (
+                                            <tr className="border-b border-slate-700 bg-slate-900/50">
+                                                <td colSpan={6} className="px-4 py-3">
+                                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs">
+                                                        {([['Before', entry.before], ['After', entry.after]] as [string, unknown][]).map(([label, value]) => (
+                                                            <div key={label}>
+                                                                <p className="font-semibold text-slate-400 mb-1">{label}</p>
+                                                                <pre className="bg-slate-900 p-2 rounded-md text-slate-400 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">{value === undefined ? '—' : JSON.stringify(value, null, 2)}</pre>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                    <p className="text-[11px] text-slate-500 mt-2">Only changed fields are recorded; personal and clinical details show as {REDACTED_AUDIT_VALUE}.</p>
+                                                    <p className="text-[11px] text-slate-600 mt-1 break-all">hash {entry.hash} · previous {entry.previousHash}</p>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </Card>
+        </div>
+    );
+};
+
 // --- CHATBOT COMPONENT ---
+interface ChatToolCall {
+    name: string;
+    args: Record<string, unknown>;
+    result: unknown;
+}
+
 interface ChatMessage {
-    role: 'user' | 'model';
+    role: 'user' | 'model' | 'tool';
     text: string;
+    toolCall?: ChatToolCall;
 }
 
-const Chatbot: FC<{ onClose: () => void }> = ({ onClose }) => {
+interface ChatbotProps {
+    onClose: () => void;
+    session: AuthSession | null;
+    scope: HospitalScope;
+    donors: Donor[];
+    recipients: Recipient[];
+}
+
+const Chatbot: FC<ChatbotProps> = ({ onClose, session, scope, donors, recipients }) => {
     const [messages, setMessages] = useState<ChatMessage[]>([
-        { role: 'model', text: 'Hello! How can I help you with questions about organ donation in India?' }
+        { role: 'model', text: 'Hello! Ask me about organ donation in India, or about the registry\'s current waitlist and pledges.' }
     ]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -1560,6 +3461,8 @@ const Chatbot: FC<{ onClose: () => void }> = ({ onClose }) => {
     const streamRef = useRef<MediaStream | null>(null);
 
     const aiRef = useRef<GoogleGenAI | null>(null);
+    // Full conversation sent to the model each turn, including function calls and their responses
+    const historyRef = useRef<Content[]>([]);
     const messagesEndRef = useRef<HTMLDivElement | null>(null);
 
     useEffect(() => {
@@ -1603,30 +3506,48 @@ const Chatbot: FC<{ onClose: () => void }> = ({ onClose }) => {
         setInput('');
         setIsLoading(true);
 
+        const role: ChatRole = session?.role ?? 'Guest';
+        const toolContext: RegistryToolContext = {
+            role,
+            accountId: session?.accountId,
+            donors,
+            recipients,
+            // Auditors hold no hospital scope but have read access to every listing
+            canSeeHospital: hospitalId => role === 'Auditor' || canViewHospital(scope, hospitalId),
+            now: Date.now(),
+        };
+        const tools = registryToolsFor(role);
+        const history: Content[] = [...historyRef.current, { role: 'user', parts: [{ text: input }] }];
+
         try {
             const model = isThinkingMode ? 'gemini-2.5-pro' : 'gemini-2.5-flash-lite';
-            const config = isThinkingMode ? { thinkingConfig: { thinkingBudget: 32768 } } : {};
-            
-            const responseStream = await aiRef.current!.models.generateContentStream({
-                model: model,
-                contents: input,
-                config: config,
-            });
+            const config = {
+                ...(isThinkingMode ? { thinkingConfig: { thinkingBudget: 32768 } } : {}),
+                systemInstruction: buildChatSystemInstruction(role, session?.hospitalId ? hospitalName(session.hospitalId) : undefined),
+                tools: [{ functionDeclarations: tools.map(tool => tool.declaration) }],
+            };
 
-            let fullResponse = '';
-            setMessages(prev => [...prev, { role: 'model', text: '' }]);
-
-            for await (const chunk of responseStream) {
-                const chunkText = chunk.text;
-                if (chunkText) {
-                    fullResponse += chunkText;
-                    setMessages(prev => {
-                        const newMessages = [...prev];
-                        newMessages[newMessages.length - 1].text = fullResponse;
-                        return newMessages;
-                    });
-                }
+            let response = await aiRef.current!.models.generateContent({ model, contents: history, config });
+            for (let round = 0; round < MAX_TOOL_ROUNDS && response.functionCalls?.length; round++) {
+                const calls = response.functionCalls;
+                history.push(response.candidates?.[0]?.content ?? { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+                const toolCalls: ChatToolCall[] = calls.map(call => ({
+                    name: call.name ?? 'unknown',
+                    args: call.args ?? {},
+                    result: runRegistryTool(call.name ?? '', call.args ?? {}, toolContext),
+                }));
+                setMessages(prev => [...prev, ...toolCalls.map(toolCall => ({ role: 'tool' as const, text: '', toolCall }))]);
+                history.push({
+                    role: 'user',
+                    parts: calls.map((call, index) => ({ functionResponse: { id: call.id, name: call.name, response: { result: toolCalls[index].result } } })),
+                });
+                response = await aiRef.current!.models.generateContent({ model, contents: history, config });
             }
+
+            const fullResponse = response.text?.trim() || 'Sorry, I could not find an answer to that.';
+            history.push({ role: 'model', parts: [{ text: fullResponse }] });
+            historyRef.current = history;
+            setMessages(prev => [...prev, { role: 'model', text: fullResponse }]);
             speakResponse(fullResponse);
 
         } catch (error) {
@@ -1726,7 +3647,23 @@ const Chatbot: FC<{ onClose: () => void }> = ({ onClose }) => {
             )}
             {/* Messages */}
             <div className="flex-1 p-4 overflow-y-auto space-y-4">
-                {messages.map((msg, index) => (
+                {messages.map((msg, index) => msg.toolCall ? (
+                    <div key={index} className="flex justify-start">
+                        <div className="max-w-xs w-full text-xs bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-slate-400">
+                            <div className="flex items-center gap-1.5">
+                                <DatabaseIcon className="w-3.5 h-3.5 text-amber-400 shrink-0" />
+                                <span>Registry lookup: <code className="text-slate-200">{msg.toolCall.name}</code></span>
+                            </div>
+                            {Object.keys(msg.toolCall.args).length > 0 && (
+                                <div className="mt-1 font-mono break-words">{JSON.stringify(msg.toolCall.args)}</div>
+                            )}
+                            <details className="mt-1">
+                                <summary className="cursor-pointer hover:text-white">Result</summary>
+                                <pre className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap break-words text-[11px] text-slate-300">{JSON.stringify(msg.toolCall.result, null, 2)}</pre>
+                            </details>
+                        </div>
+                    </div>
+                ) : (
                     <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`max-w-xs px-3 py-2 rounded-xl ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-200'}`}>
                             {msg.text}
@@ -1772,24 +3709,340 @@ const Chatbot: FC<{ onClose: () => void }> = ({ onClose }) => {
 const App: FC = () => {
     const [page, setPage] = useState<Page>('donor');
     const [currentPage, setCurrentPage] = useState<Page>('donor');
-    const [donors, setDonors] = useState<Donor[]>(() => getStoredData('donors', MOCK_DONORS));
-    const [recipients, setRecipients] = useState<Recipient[]>(() => getStoredData('recipients', MOCK_RECIPIENTS));
-    const [interestNotifications, setInterestNotifications] = useState<InterestNotification[]>(() => getStoredData('interestNotifications', []));
-    const [isAdminAuthenticated, setIsAdminAuthenticated] = useState(false);
+    const [isRegistryLoaded, setIsRegistryLoaded] = useState(false);
+    // True once the store has seen the shared registry, not just this browser's copy
+    const [isRegistrySynced, setIsRegistrySynced] = useState(false);
+    const [registryLoadError, setRegistryLoadError] = useState<string | null>(null);
+    const [donors, setDonors] = useState<Donor[]>([]);
+    const [recipients, setRecipients] = useState<Recipient[]>([]);
+    const [interestNotifications, setInterestNotifications] = useState<InterestNotification[]>([]);
+    const [matchOffers, setMatchOffers] = useState<MatchOffer[]>([]);
+    const [accounts, setAccounts] = useState<UserAccount[]>([]);
+    const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+    const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+    // Restored from storage once the registry has loaded and the session token has been checked
+    const [authSession, setAuthSession] = useState<AuthSession | null>(null);
+    const structuredModel = useMemo(createDefaultStructuredModel, []);
+    const [authNotice, setAuthNotice] = useState<string | null>(null);
     const [isChatOpen, setIsChatOpen] = useState(false);
+    // Last state known to be in the store; null until the initial load completes. Credentials are not
+    // held in state: they are written and read straight from the store when needed.
+    const persistedRef = useRef<SharedCollections | null>(null);
+    // Every audit entry known to this session, and the queue that makes appends run one at a time so each links to its predecessor
+    const auditLogRef = useRef<AuditEntry[]>([]);
+    const auditQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+    const recordAudit = useCallback((inputs: AuditInput | AuditInput[], actor: AuditActor) => {
+        const batch = Array.isArray(inputs) ? inputs : [inputs];
+        if (batch.length === 0) return;
+        const at = Date.now();
+        auditQueueRef.current = auditQueueRef.current.then(async () => {
+            const appended: AuditEntry[] = [];
+            for (const input of batch) {
+                const entry = await createAuditEntry(input, actor, at, findAuditTips(auditLogRef.current));
+                auditLogRef.current = [...auditLogRef.current, entry];
+                appended.push(entry);
+            }
+            setAuditLog(prev => [...prev, ...appended]);
+        }).catch(error => console.error('Error appending to the audit trail:', error));
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        registryStore.load()
+            .then(async loaded => ({ ...loaded, session: await readAuthSession(localStorage, findDeviceCredential) }))
+            .then(({ data, quarantined, session }) => {
+                if (cancelled) return;
+                persistedRef.current = data;
+                setDonors(data.donors);
+                setRecipients(data.recipients);
+                setInterestNotifications(data.interestNotifications);
+                setMatchOffers(data.matchOffers);
+                setAccounts(data.accounts);
+                setAuditLog(data.auditLog);
+                auditLogRef.current = data.auditLog;
+                setQuarantinedRecords(quarantined);
+                setAuthSession(session);
+                if (session) setCurrentPage(defaultPageFor(session.role));
+                setIsRegistryLoaded(true);
+                return registryStore.whenSynced().then(() => {
+                    if (!cancelled) setIsRegistrySynced(true);
+                });
+            })
+            .catch(error => {
+                console.error('Error loading registry:', error);
+                if (!cancelled) setRegistryLoadError('The registry could not be loaded from local storage. Please reload the page.');
+            });
+        return () => { cancelled = true; };
+    }, []);
 
+    // Writes only the records that changed since the last persisted snapshot
     useEffect(() => {
-        setStoredData('donors', donors);
-        setStoredData('recipients', recipients);
-        setStoredData('interestNotifications', interestNotifications);
-    }, [donors, recipients, interestNotifications]);
+        const previous = persistedRef.current;
+        if (!previous) return;
+        const current: SharedCollections = { donors, recipients, interestNotifications, matchOffers, accounts, auditLog };
+        persistedRef.current = current;
+        const persist = <K extends SharedCollectionName>(collection: K) => {
+            const { changed, removedIds } = diffCollection<RegistryRecord<K>>(previous[collection], current[collection]);
+            Promise.all([
+                registryStore.putRecords(collection, changed as RegistryCollections[K]),
+                registryStore.deleteRecords(collection, removedIds),
+            ]).catch(error => console.error(`Error writing ${collection} to the registry store:`, error));
+        };
+        SHARED_COLLECTION_NAMES.forEach(persist);
+    }, [donors, recipients, interestNotifications, matchOffers, accounts, auditLog]);
+
+    // Changes written by another session (tab or sync adapter) are merged into local state without being written back
+    useRegistryChanges(event => {
+        if (event.origin === SESSION_ID || !persistedRef.current) return;
+        const persisted = persistedRef.current;
+        switch (event.collection) {
+            case 'donors':
+                persistedRef.current = { ...persisted, donors: applyChangeEvent(persisted.donors, event) };
+                setDonors(prev => applyChangeEvent(prev, event));
+                break;
+            case 'recipients':
+                persistedRef.current = { ...persisted, recipients: applyChangeEvent(persisted.recipients, event) };
+                setRecipients(prev => applyChangeEvent(prev, event));
+                break;
+            case 'interestNotifications':
+                persistedRef.current = { ...persisted, interestNotifications: applyChangeEvent(persisted.interestNotifications, event) };
+                setInterestNotifications(prev => applyChangeEvent(prev, event));
+                break;
+            case 'matchOffers':
+                persistedRef.current = { ...persisted, matchOffers: applyChangeEvent(persisted.matchOffers, event) };
+                setMatchOffers(prev => applyChangeEvent(prev, event));
+                break;
+            case 'accounts':
+                persistedRef.current = { ...persisted, accounts: applyChangeEvent(persisted.accounts, event) };
+                setAccounts(prev => applyChangeEvent(prev, event));
+                break;
+            case 'auditLog':
+                persistedRef.current = { ...persisted, auditLog: applyChangeEvent(persisted.auditLog, event) };
+                setAuditLog(prev => applyChangeEvent(prev, event));
+                auditLogRef.current = applyChangeEvent(auditLogRef.current, event);
+                break;
+        }
+    });
 
+    const endSession = useCallback((session: AuthSession, notice: string | null) => {
+        revokeSession(session).catch(error => console.error('Error revoking the session on this device:', error));
+        writeAuthSession(localStorage, null);
+        setAuthSession(null);
+        setAuthNotice(notice);
+    }, []);
 
-    const handleAddRecipient = (newRecipient: Recipient) => {
-        setRecipients(prev => [newRecipient, ...prev]);
+    // Expire idle or over-age sessions, and end sessions whose account was disabled, removed or changed role
+    useEffect(() => {
+        if (!authSession) return;
+        if (isRegistryLoaded) {
+            const account = accounts.find(a => a.id === authSession.accountId);
+            if (!account || account.disabled || account.role !== authSession.role || account.hospitalId !== authSession.hospitalId) {
+                endSession(authSession, 'Your account access has changed. Please sign in again.');
+                return;
+            }
+        }
+        const timer = setTimeout(() => endSession(authSession, 'Your session expired. Please sign in again.'), Math.max(0, sessionExpiresAt(authSession) - Date.now()));
+        return () => clearTimeout(timer);
+    }, [authSession, accounts, isRegistryLoaded, endSession]);
+
+    // User activity extends the idle window; refreshed at most once a minute
+    useEffect(() => {
+        if (!authSession) return;
+        const handleActivity = () => {
+            const now = Date.now();
+            if (now - authSession.lastActiveAt < 60000 || !isSessionActive(authSession, now)) return;
+            const refreshed = { ...authSession, lastActiveAt: now };
+            writeAuthSession(localStorage, refreshed);
+            setAuthSession(refreshed);
+        };
+        window.addEventListener('pointerdown', handleActivity);
+        window.addEventListener('keydown', handleActivity);
+        return () => {
+            window.removeEventListener('pointerdown', handleActivity);
+            window.removeEventListener('keydown', handleActivity);
+        };
+    }, [authSession]);
+
+    // Sign-in, sign-out and activity in other tabs
+    useEffect(() => {
+        const handleStorage = (e: StorageEvent) => {
+            if (e.key !== AUTH_SESSION_KEY) return;
+            readAuthSession(localStorage, findDeviceCredential)
+                .then(session => {
+                    setAuthSession(prev => prev?.token === session?.token && prev?.lastActiveAt === session?.lastActiveAt ? prev : session);
+                    if (session) setCurrentPage(page => canAccessPage(session.role, page) ? page : defaultPageFor(session.role));
+                })
+                .catch(error => console.error('Error reading the session from storage:', error));
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, []);
+
+    // Offers left unanswered past their response window expire and cascade to the next recipient
+    useEffect(() => {
+        const expireOverdueOffers = () => {
+            const now = Date.now();
+            const overdue = matchOffers.filter(o => o.state === 'Offered' && o.expiresAt !== undefined && o.expiresAt <= now);
+            if (overdue.length === 0) return;
+            const next = overdue.reduce(
+                (state, offer) => applyOfferTransition(state, offer.id, 'Expired', now, 'Response window elapsed'),
+                { offers: matchOffers, recipients, donors },
+            );
+            setMatchOffers(next.offers);
+            setRecipients(next.recipients);
+            recordAudit(offerAuditInputs(matchOffers, next.offers, 'Response window elapsed'), SYSTEM_ACTOR);
+        };
+        expireOverdueOffers();
+        const timer = setInterval(expireOverdueOffers, 30000);
+        return () => clearInterval(timer);
+    }, [matchOffers, recipients, donors, recordAudit]);
+
+
+    const currentAccount = accounts.find(a => a.id === authSession?.accountId);
+    const hospitalScope = useMemo(() => getHospitalScope(authSession, currentAccount), [authSession, currentAccount]);
+
+    const audit = (inputs: AuditInput | AuditInput[]) => recordAudit(inputs, actorFromSession(authSession));
+
+    // Returns the recipient when the signed-in user may manage it, otherwise explains why not
+    const findManageableRecipient = (id: string): Recipient | null => {
+        const recipient = recipients.find(r => r.id === id);
+        if (!recipient) return null;
+        if (!canManageHospital(hospitalScope, recipient.hospitalId)) {
+            alert('You can only manage requests registered by your own hospital.');
+            return null;
+        }
+        return recipient;
+    };
+
+    // Registry IDs are issued here rather than by the forms. Sequences are reserved through the store, so other tabs
+    // and devices never get the same one, and never below an ID this registry has already issued.
+    const reserveRegistryIds = async (prefix: string, count: number) => {
+        if (count === 0) return [];
+        const floor = highestIssuedSequence(prefix, collectIssuedIds([...recipients, ...donors, ...auditLog]));
+        const first = await registryStore.reserveSequences(prefix, floor, count);
+        return Array.from({ length: count }, (_, i) => formatRegistryId(prefix, first + i));
+    };
+
+    const issuePatientId = async (hospital: Hospital) => (await reserveRegistryIds(patientIdPrefix(hospital), 1))[0];
+
+    const handleAddRecipient = async (newRecipient: Omit<Recipient, 'patientId'>): Promise<Recipient | null> => {
+        const hospital = HOSPITALS.find(h => h.mockId === newRecipient.hospitalId);
+        if (!hospital || !canManageHospital(hospitalScope, hospital.mockId)) {
+            alert('You can only register patients for your own hospital.');
+            return null;
+        }
+        if (newRecipient.urgency === 'Critical') {
+            alert('Register the patient at High or Medium urgency, then request a Critical escalation.');
+            return null;
+        }
+        let patientId: string;
+        try {
+            patientId = await issuePatientId(hospital);
+        } catch (error) {
+            console.error('Reserving a patient ID failed:', error);
+            alert(error instanceof Error ? error.message : 'A patient ID could not be issued. Please try again.');
+            return null;
+        }
+        const registered: Recipient = { ...newRecipient, patientId };
+        setRecipients(prev => [registered, ...prev]);
+        audit({ action: 'Recipient Registered', collection: 'recipients', recordId: registered.id, after: registered, reason: `Registered by ${hospital.name}` });
+        return registered;
+    };
+
+    const handleUpdateRecipient = (id: string, changes: RecipientEditableFields, reason: string) => {
+        const recipient = findManageableRecipient(id);
+        if (!recipient) return;
+        if (changes.urgency === 'Critical' && recipient.urgency !== 'Critical') {
+            alert('Escalation to Critical needs a justified request and a second approver.');
+            return;
+        }
+        const merged = { ...recipient, ...changes };
+        const updated = { ...merged, severity: computeSeverityScore(merged.organNeeded, merged.labs, merged.dob, Date.now()) };
+        setRecipients(prev => prev.map(r => r.id === id ? updated : r));
+        audit({ action: 'Recipient Updated', collection: 'recipients', recordId: id, before: recipient, after: updated, reason });
+    };
+
+    // The original listing date is kept so waiting time carries over to the new hospital
+    const handleTransferRecipient = (id: string, hospitalId: string, reason: string) => {
+        const recipient = findManageableRecipient(id);
+        const hospital = HOSPITALS.find(h => h.mockId === hospitalId);
+        if (!recipient || !hospital || !isListingOpen(recipient) || hasOfferInProgress(recipient) || !authSession) return;
+        const updated = appendListingEvent(
+            { ...recipient, hospitalId: hospital.mockId, hospitalName: hospital.name },
+            { kind: 'Transferred', at: Date.now(), actorName: authSession.displayName, reason, fromHospitalId: recipient.hospitalId, toHospitalId: hospital.mockId },
+        );
+        setRecipients(prev => prev.map(r => r.id === id ? updated : r));
+        audit({ action: 'Recipient Transferred', collection: 'recipients', recordId: id, before: recipient, after: updated, reason });
+    };
+
+    // Replaces hard deletion: the record and its waiting time stay in the registry with a listing history
+    const handleChangeRecipientListing = (id: string, change: ListingChange) => {
+        const recipient = findManageableRecipient(id);
+        if (!recipient || !authSession) return;
+        if (hasActiveOffer(matchOffers, id)) {
+            alert('Resolve the active match offer for this patient before changing their listing status.');
+            return;
+        }
+        const invalid = validateListingChange(recipient, change, donors);
+        if (invalid) {
+            alert(invalid);
+            return;
+        }
+        const { recipient: updated, usedDonor } = applyListingChange(recipient, change, donors, authSession.displayName, Date.now());
+        setRecipients(prev => prev.map(r => r.id === id ? updated : r));
+        audit({ action: 'Recipient Status Changed', collection: 'recipients', recordId: id, before: recipient, after: updated, reason: `${getListingState(recipient)} → ${change.state}: ${change.reason}` });
+        if (usedDonor) {
+            setDonors(prev => prev.map(d => d.id === usedDonor.id ? usedDonor : d));
+            audit({ action: 'Pledge Updated', collection: 'donors', recordId: usedDonor.id, before: donors.find(d => d.id === usedDonor.id), after: usedDonor, reason: `Pledged ${recipient.organNeeded} transplanted to ${recipient.patientId}` });
+        }
+    };
+
+    // Escalations are recorded as pending; urgency (and therefore ranking) only changes once a second person approves
+    const handleRequestEscalation = (id: string, justification: string, parameters: EscalationParameters) => {
+        const recipient = findManageableRecipient(id);
+        if (!recipient || !isAwaitingAllocation(recipient) || recipient.urgency === 'Critical' || isEscalationPending(recipient) || !authSession) return;
+        const invalid = validateEscalationRequest(recipient.organNeeded, justification, parameters);
+        if (invalid) {
+            alert(invalid);
+            return;
+        }
+        const escalation: UrgencyEscalation = {
+            id: `esc${Date.now()}`,
+            from: recipient.urgency,
+            justification,
+            parameters,
+            requestedById: authSession.accountId,
+            requestedByName: authSession.displayName,
+            requestedAt: Date.now(),
+            status: 'Pending',
+        };
+        const updated = { ...recipient, urgencyEscalation: escalation };
+        setRecipients(prev => prev.map(r => r.id === id ? updated : r));
+        audit({ action: 'Escalation Requested', collection: 'recipients', recordId: id, before: recipient, after: updated, reason: justification });
+    };
+
+    const handleReviewEscalation = (id: string, approve: boolean, note: string) => {
+        const recipient = recipients.find(r => r.id === id);
+        if (!recipient || !authSession) return;
+        if (!canReviewEscalation(authSession, recipient)) {
+            alert('A different coordinator from the patient\'s hospital, or the central admin, must review this escalation.');
+            return;
+        }
+        const reviewed: UrgencyEscalation = {
+            ...recipient.urgencyEscalation!,
+            status: approve ? 'Approved' : 'Rejected',
+            reviewedById: authSession.accountId,
+            reviewedByName: authSession.displayName,
+            reviewedAt: Date.now(),
+            reviewNote: note,
+        };
+        const updated: Recipient = { ...recipient, urgency: approve ? 'Critical' : recipient.urgency, urgencyEscalation: reviewed };
+        setRecipients(prev => prev.map(r => r.id === id ? updated : r));
+        audit({ action: approve ? 'Escalation Approved' : 'Escalation Rejected', collection: 'recipients', recordId: id, before: recipient, after: updated, reason: note });
     };
     
-    const handleAddMockRecipient = () => {
+    const handleAddMockRecipient = async () => {
         const MOCK_NAMES = [
             'Aarav Sharma', 'Vivaan Singh', 'Aditya Kumar', 'Vihaan Gupta', 'Arjun Patel',
             'Sai Joshi', 'Reyansh Reddy', 'Ayaan Khan', 'Krishna Verma', 'Ishaan Ali',
@@ -1800,13 +4053,22 @@ const App: FC = () => {
         const randomName = MOCK_NAMES[Math.floor(Math.random() * MOCK_NAMES.length)];
         const randomOrgan = ORGANS[Math.floor(Math.random() * ORGANS.length)];
         const randomBloodGroup = BLOOD_GROUPS[Math.floor(Math.random() * BLOOD_GROUPS.length)];
-        const randomUrgency = URGENCY_LEVELS[Math.floor(Math.random() * URGENCY_LEVELS.length)];
+        // Mock patients follow the same rule as real ones: Critical needs a justified, second-approved escalation
+        const randomUrgency = DIRECT_URGENCY_LEVELS[Math.floor(Math.random() * DIRECT_URGENCY_LEVELS.length)];
         const randomHospital = HOSPITALS[Math.floor(Math.random() * HOSPITALS.length)];
-        const randomId = Math.floor(1000 + Math.random() * 9000);
+        const randomAge = 2 + Math.floor(Math.random() * 70);
+        let patientId: string;
+        try {
+            patientId = await issuePatientId(randomHospital);
+        } catch (error) {
+            console.error('Reserving a patient ID failed:', error);
+            alert(error instanceof Error ? error.message : 'A patient ID could not be issued. Please try again.');
+            return;
+        }
 
         const newRecipient: Recipient = {
             id: `r${Date.now()}`,
-            patientId: `NOD-${randomId}`,
+            patientId,
             name: randomName,
             organNeeded: randomOrgan,
             bloodGroup: randomBloodGroup,
@@ -1814,25 +4076,85 @@ const App: FC = () => {
             timeOnList: Date.now() - Math.floor(Math.random() * 30) * (1000 * 60 * 60 * 24), // Random time in last 30 days
             hospitalId: randomHospital.mockId,
             hospitalName: randomHospital.name,
+            dob: new Date(Date.now() - randomAge * 365.25 * MS_PER_DAY).toISOString().slice(0, 10),
             clinicalNotes: 'Mock recipient added for simulation.',
             status: 'Searching',
         };
         
         setRecipients(prev => [newRecipient, ...prev]);
+        audit({ action: 'Recipient Registered', collection: 'recipients', recordId: newRecipient.id, after: newRecipient, reason: 'Mock recipient added for simulation' });
         alert(`Added mock recipient: ${randomName} needing a ${randomOrgan}.`);
     };
 
-    const handleAddDonor = (newDonorData: Omit<Donor, 'id' | 'pledgeDate' | 'status'>) => {
+    const checkAadhaarAvailable = (aadhaar: ProtectedAadhaar): string | null => {
+        const duplicate = findDonorByAadhaar(donors, aadhaar);
+        return duplicate ? `Aadhaar ${maskAadhaar(duplicate.aadhaar!.last4)} is already registered to an existing pledge. Update that pledge instead of registering again.` : null;
+    };
+
+    // Returns a readable reason when the registration is refused, e.g. a duplicate Aadhaar number
+    const handleAddDonor = async (newDonorData: Omit<Donor, 'id' | 'pledgeDate' | 'status'>): Promise<string | null> => {
+        const duplicate = newDonorData.aadhaar ? checkAadhaarAvailable(newDonorData.aadhaar) : null;
+        if (duplicate) return duplicate;
+        let reserved: string[];
+        try {
+            reserved = await reserveRegistryIds(PLEDGE_ID_PREFIX, newDonorData.pledgedOrgans.length);
+        } catch (error) {
+            console.error('Reserving pledge IDs failed:', error);
+            return error instanceof Error ? error.message : 'Pledge IDs could not be issued. Please try again.';
+        }
         const newDonor: Donor = {
             ...newDonorData,
+            accountId: newDonorData.accountId ?? (authSession?.role === 'Donor' ? authSession.accountId : undefined),
             id: `d${Date.now()}`,
+            pledgeIds: issuePledgeIds(newDonorData.pledgedOrgans, undefined, () => reserved.shift()!),
             pledgeDate: Date.now(),
+            verification: newDonorData.documents?.length ? { status: 'Pending', submittedAt: Date.now() } : undefined,
             status: 'Pledged',
         };
         setDonors(prev => [newDonor, ...prev]);
+        audit({ action: 'Pledge Registered', collection: 'donors', recordId: newDonor.id, after: newDonor, reason: isDeceasedPledge(newDonor) ? 'Pledge registered by donor' : `${newDonor.donorType} donor registered by coordinator` });
+        return null;
     };
     
-    const handleWithdrawPledge = (donorId: string, organ: Organ) => {
+    // Edits keep the original pledge date; medically relevant changes always send the pledge back for verification,
+    // including pledges that have no documents yet, so it cannot be matched until a coordinator has reviewed it
+    const handleUpdateDonor = (donorId: string, changes: DonorEditableFields, reason: string): string | null => {
+        const donor = donors.find(d => d.id === donorId);
+        if (!donor || !authSession) return 'This pledge no longer exists.';
+        if (!canChangePledge(authSession, donor)) return 'You can only edit your own pledge.';
+        const invalid = validateDonorProfile(changes);
+        if (invalid) return invalid;
+        const duplicate = changes.aadhaar ? findDonorByAadhaar(donors, changes.aadhaar, donorId) : undefined;
+        if (duplicate) return `Aadhaar ${maskAadhaar(changes.aadhaar!.last4)} is already registered to another pledge.`;
+        const fields = changedDonorFields(donor, changes);
+        if (fields.length === 0) return null;
+        const now = Date.now();
+        const reverification = fields.some(field => REVERIFICATION_FIELDS.includes(field));
+        const updated: Donor = {
+            ...donor,
+            ...changes,
+            name: changes.name.trim(),
+            contact: changes.contact.trim(),
+            address: changes.address.trim(),
+            verification: reverification ? { status: 'Pending', submittedAt: now } : donor.verification,
+            changeHistory: [...(donor.changeHistory ?? []), { at: now, changedById: authSession.accountId, changedByName: authSession.displayName, fields, reverification }],
+        };
+        setDonors(prev => prev.map(d => d.id === donorId ? updated : d));
+        const summary = `Updated ${fields.map(field => DONOR_FIELD_LABELS[field]).join(', ')}${reverification ? '; re-verification required' : ''}`;
+        audit({ action: 'Pledge Updated', collection: 'donors', recordId: donorId, before: donor, after: updated, reason: reason ? `${summary}: ${reason}` : summary });
+        return null;
+    };
+
+    const handleWithdrawPledge = (donorId: string, organ: Organ, reason: string) => {
+        const donor = donors.find(d => d.id === donorId);
+        if (!donor || !authSession) return;
+        if (!canChangePledge(authSession, donor)) {
+            alert('You can only withdraw your own pledge.');
+            return;
+        }
+        const remainingOrgans = donor.pledgedOrgans.filter(o => o !== organ);
+        const withdrawnBy = donor.accountId === authSession.accountId ? 'the donor' : `${authSession.role} ${authSession.displayName} on the donor's behalf`;
+        audit({ action: 'Pledge Withdrawn', collection: 'donors', recordId: donorId, before: donor, after: remainingOrgans.length > 0 ? { ...donor, pledgedOrgans: remainingOrgans } : undefined, reason: `${organ} withdrawn by ${withdrawnBy}: ${reason}` });
         setDonors(prevDonors => {
             const newDonors = prevDonors.map(d => {
                 if (d.id === donorId) {
@@ -1846,78 +4168,405 @@ const App: FC = () => {
         });
     };
     
-    const handleDonorInterest = (organ: Organ) => {
-        const potentialDonor = donors.find(d => d.pledgedOrgans.includes(organ));
-
-        if(potentialDonor) {
-             const newNotification: InterestNotification = {
-                id: `in${Date.now()}`,
-                donorId: potentialDonor.id,
-                organ,
-                timestamp: Date.now()
-            };
-            setInterestNotifications(prev => [newNotification, ...prev]);
-        } else {
-             console.warn(`Interest shown for ${organ}, but no donor found with that pledge.`);
+    const handleReviewDonorDocuments = (donorId: string, approve: boolean, reason: string) => {
+        const donor = donors.find(d => d.id === donorId);
+        if (!donor || !authSession || donor.verification?.status !== 'Pending') return;
+        if (authSession.role !== 'Central Admin' && authSession.role !== 'Hospital Coordinator') {
+            alert('Only coordinators can verify pledge documents.');
+            return;
+        }
+        // Edits to medical details re-open verification even on pledges that never uploaded documents
+        if (approve && !donor.documents?.length) {
+            alert(`${donor.name} has not uploaded any documents yet. Ask for their ID proof and medical report before approving.`);
+            return;
         }
+        const updated: Donor = {
+            ...donor,
+            verification: {
+                ...donor.verification,
+                status: approve ? 'Verified' : 'Rejected',
+                reviewedById: authSession.accountId,
+                reviewedByName: authSession.displayName,
+                reviewedAt: Date.now(),
+                reason,
+            },
+        };
+        setDonors(prev => prev.map(d => d.id === donorId ? updated : d));
+        audit({ action: approve ? 'Documents Verified' : 'Documents Rejected', collection: 'donors', recordId: donorId, before: donor, after: updated, reason });
+    };
 
-        const urgencyOrder: Record<Urgency, number> = { 'Critical': 0, 'High': 1, 'Medium': 2 };
-        
-        const candidates = recipients
-            .filter(r => r.organNeeded === organ && r.status === 'Searching')
-            .sort((a, b) => {
-                const urgencyDiff = urgencyOrder[a.urgency] - urgencyOrder[b.urgency];
-                if (urgencyDiff !== 0) return urgencyDiff;
-                return a.timeOnList - b.timeOnList;
-            });
+    // Interest is recorded against the signed-in donor's own pledge; no recipient changes until a coordinator confirms
+    const handleDonorInterest = (donorId: string, organ: Organ): string | null => {
+        const donor = donors.find(d => d.id === donorId);
+        if (!donor || !authSession || donor.accountId !== authSession.accountId) return 'Interest can only be registered against your own pledge.';
+        if (!isDeceasedPledge(donor) || !donor.pledgedOrgans.includes(organ)) return `Your pledge does not include ${organ}.`;
+        if (availableOrganUnits(donor, organ) <= 0) return `Your pledged ${organ} has already been transplanted.`;
+        if (interestNotifications.some(n => n.donorId === donorId && n.organ === organ && isTriageOpen(n) && !n.matchOfferId)) {
+            return `Your interest in donating ${organ} is already with the coordinators.`;
+        }
+        const now = Date.now();
+        const candidate = rankBackupRecipients(donor, organ, recipients, '', now)[0];
+        const newNotification: InterestNotification = {
+            id: `in${now}`,
+            donorId,
+            organ,
+            timestamp: now,
+            candidateRecipientId: candidate?.id,
+        };
+        setInterestNotifications(prev => [newNotification, ...prev]);
+        audit({ action: 'Donor Interest Recorded', collection: 'interestNotifications', recordId: newNotification.id, after: newNotification, reason: `Donor indicated willingness to donate ${organ}${candidate ? '' : '; no compatible recipient waiting'}` });
+        return null;
+    };
 
-        if (candidates.length > 0) {
-            const recipientToUpdate = candidates[0];
-            setRecipients(prev => 
-                prev.map(r => 
-                    r.id === recipientToUpdate.id ? { ...r, status: 'Potential Match Found' } : r
-                )
-            );
+    // Coordinator sign-off turns an interest lead into a proposed offer, re-checking compatibility against the current waitlist
+    const handleConfirmInterestMatch = (notificationId: string) => {
+        const notification = interestNotifications.find(n => n.id === notificationId);
+        const donor = donors.find(d => d.id === notification?.donorId);
+        if (!notification || !donor || notification.matchOfferId) return;
+        if (!canWorkInterest(authSession, notification)) {
+            alert('Only the assigned coordinator or the central admin can confirm this match.');
+            return;
+        }
+        if (getTriageStatus(notification) !== 'Eligible') {
+            alert('Screen the donor and mark the lead Eligible before confirming a match.');
+            return;
+        }
+        if (!isDonorVerified(donor)) {
+            alert(`${donor.name}'s documents must be verified before a match can be confirmed.`);
+            return;
+        }
+        if (!donor.pledgedOrgans.includes(notification.organ)) {
+            alert(`${donor.name} no longer pledges ${notification.organ}.`);
+            return;
+        }
+        if (availableOrganUnits(donor, notification.organ) <= 0) {
+            alert(`${donor.name}'s pledged ${notification.organ} has already been transplanted.`);
+            return;
+        }
+        if (matchOffers.some(o => ACTIVE_OFFER_STATES.includes(o.state) && o.donorId === donor.id && o.organ === notification.organ)) {
+            alert(`${donor.name}'s ${notification.organ} already has an offer in progress.`);
+            return;
+        }
+        const now = Date.now();
+        const eligible = rankBackupRecipients(donor, notification.organ, recipients, '', now)
+            .filter(r => !hasActiveOffer(matchOffers, r.id));
+        // The suggested candidate is kept if still compatible, so the coordinator confirms what they were shown
+        const recipient = eligible.find(r => r.id === notification.candidateRecipientId) ?? eligible[0];
+        if (!recipient) {
+            alert(`No waiting ${notification.organ} recipient is currently compatible with ${donor.name} (${donor.bloodGroup}).`);
+            return;
         }
+        const offer = handleProposeOffer({ recipient, donor, score: scoreAllocation({ recipient, donor, now }), immunology: assessImmunology(donor, recipient) }, `Confirmed from donor interest ${notification.id}`);
+        const updated: InterestNotification = { ...notification, candidateRecipientId: recipient.id, matchOfferId: offer.id };
+        setInterestNotifications(prev => prev.map(n => n.id === notificationId ? updated : n));
+        audit({ action: 'Interest Confirmed', collection: 'interestNotifications', recordId: notificationId, before: notification, after: updated, reason: `Compatible with ${recipient.patientId}; offer ${offer.id} proposed` });
     };
 
-    const handleClearNotification = (id: string) => {
-        setInterestNotifications(prev => prev.filter(n => n.id !== id));
+    const handleProposeOffer = (match: MatchResult, reason = `Proposed from match run (score ${match.score.total})`): MatchOffer => {
+        const now = Date.now();
+        const backups = rankBackupRecipients(match.donor, match.recipient.organNeeded, recipients, match.recipient.id, now);
+        const offer = createMatchOffer(match.donor, match.recipient, backups, now);
+        setMatchOffers(prev => [offer, ...prev]);
+        setRecipients(prev => prev.map(r => r.id === match.recipient.id ? { ...r, status: RECIPIENT_STATUS_FOR_OFFER['Proposed'] } : r));
+        audit({ action: 'Offer Proposed', collection: 'matchOffers', recordId: offer.id, after: offer, reason });
+        return offer;
     };
 
-    const handleUpdateRecipientUrgency = (id: string, urgency: Urgency) => {
-        setRecipients(prev => prev.map(r => r.id === id ? {...r, urgency} : r));
+    const handleAdvanceOffer = (offerId: string, to: OfferState, note?: string) => {
+        try {
+            const next = applyOfferTransition({ offers: matchOffers, recipients, donors }, offerId, to, Date.now(), note);
+            setMatchOffers(next.offers);
+            setRecipients(next.recipients);
+            setDonors(next.donors);
+            audit(offerAuditInputs(matchOffers, next.offers, note ? `${to}: ${note}` : to));
+            const usedDonor = next.donors.find(d => !donors.includes(d));
+            if (usedDonor) {
+                audit({ action: 'Pledge Updated', collection: 'donors', recordId: usedDonor.id, before: donors.find(d => d.id === usedDonor.id), after: usedDonor, reason: `Pledged organ used by transplant on match offer ${offerId}` });
+            }
+        } catch (error) {
+            console.error('Error updating match offer:', error);
+            alert(error instanceof Error ? error.message : 'Could not update the match offer.');
+        }
     };
-    
-    const handleDeleteRecipient = (id: string) => {
-        setRecipients(prev => prev.filter(r => r.id !== id));
+
+    const handleClearQuarantine = () => {
+        audit({ action: 'Quarantine Cleared', collection: 'quarantine', recordId: 'quarantine', before: quarantinedRecords, reason: `Dismissed ${quarantinedRecords.length} quarantined record(s)` });
+        registryStore.clearQuarantine();
+        setQuarantinedRecords([]);
+    };
+
+    // Leads are never deleted; closing one records an outcome that stays for reporting
+    const findWorkableInterest = (id: string) => {
+        const notification = interestNotifications.find(n => n.id === id);
+        if (!notification) return null;
+        if (!canWorkInterest(authSession, notification)) {
+            alert('Only the assigned coordinator or the central admin can work this lead.');
+            return null;
+        }
+        return notification;
+    };
+
+    const handleSaveScreeningReport = (donorId: string, report: ScreeningReportDraft) => {
+        const donor = donors.find(d => d.id === donorId);
+        if (!donor || !authSession) return;
+        if (authSession.role !== 'Central Admin' && authSession.role !== 'Hospital Coordinator') {
+            alert('Only coordinators can save screening reports.');
+            return;
+        }
+        const saved: SavedScreeningReport = { ...report, savedAt: Date.now(), savedById: authSession.accountId, savedByName: authSession.displayName };
+        const updated: Donor = { ...donor, screeningReports: [...(donor.screeningReports ?? []), saved] };
+        setDonors(prev => prev.map(d => d.id === donorId ? updated : d));
+        audit({ action: 'Screening Report Saved', collection: 'donors', recordId: donorId, before: donor, after: updated, reason: `${report.organ} screening (${report.generatedBy === 'Manual' ? 'written manually' : `drafted by ${report.generatedBy}`})` });
+    };
+
+    const handleAssignInterest = (id: string, accountId: string) => {
+        const notification = interestNotifications.find(n => n.id === id);
+        const assignee = accounts.find(a => a.id === accountId);
+        if (!notification || authSession?.role !== 'Central Admin' || notification.assignedToId === assignee?.id) return;
+        const updated: InterestNotification = { ...notification, assignedToId: assignee?.id, assignedToName: assignee?.displayName };
+        setInterestNotifications(prev => prev.map(n => n.id === id ? updated : n));
+        audit({ action: 'Interest Assigned', collection: 'interestNotifications', recordId: id, before: notification, after: updated, reason: assignee ? `Assigned to ${assignee.displayName}` : 'Unassigned' });
+    };
+
+    const handleChangeTriageStatus = (id: string, status: TriageStatus, note: string) => {
+        const notification = findWorkableInterest(id);
+        if (!notification || !authSession) return;
+        const invalid = validateTriageChange(notification, status, note);
+        if (invalid) {
+            alert(invalid);
+            return;
+        }
+        const updated = applyTriageStatus(notification, status, note, authSession, Date.now());
+        setInterestNotifications(prev => prev.map(n => n.id === id ? updated : n));
+        audit({ action: 'Interest Status Changed', collection: 'interestNotifications', recordId: id, before: notification, after: updated, reason: `${getTriageStatus(notification)} → ${status}${note.trim() ? `: ${note.trim()}` : ''}` });
+    };
+
+    const handleLogContactAttempt = (id: string, attempt: Pick<ContactAttempt, 'channel' | 'result' | 'note'>) => {
+        const notification = findWorkableInterest(id);
+        if (!notification || !authSession || !isTriageOpen(notification)) return;
+        const now = Date.now();
+        const logged: InterestNotification = {
+            ...notification,
+            contactAttempts: [...(notification.contactAttempts ?? []), { ...attempt, at: now, byId: authSession.accountId, byName: authSession.displayName }],
+        };
+        // Reaching the donor for the first time is the first contact the New-lead SLA waits for
+        const updated = getTriageStatus(notification) === 'New' && attempt.result === 'Reached'
+            ? applyTriageStatus(logged, 'Contacted', `Reached by ${attempt.channel.toLowerCase()}`, authSession, now)
+            : logged;
+        setInterestNotifications(prev => prev.map(n => n.id === id ? updated : n));
+        audit({ action: 'Contact Attempt Logged', collection: 'interestNotifications', recordId: id, before: notification, after: updated, reason: `${attempt.channel}: ${attempt.result}${attempt.note ? ` (${attempt.note})` : ''}` });
+    };
+
+    const handleUpdateRecipientUrgency = (id: string, urgency: Urgency, reason: string) => {
+        const recipient = recipients.find(r => r.id === id);
+        if (authSession?.role !== 'Central Admin' || !recipient || recipient.urgency === urgency) return;
+        if (urgency === 'Critical') {
+            alert('Escalation to Critical needs a justified request and a second approver.');
+            return;
+        }
+        const updated = { ...recipient, urgency };
+        setRecipients(prev => prev.map(r => r.id === id ? updated : r));
+        audit({ action: 'Urgency Changed', collection: 'recipients', recordId: id, before: recipient, after: updated, reason });
     };
     
-    const handleNavigate = (newPage: Page) => {
-        if (currentPage === 'admin' && newPage !== 'admin') {
-            setIsAdminAuthenticated(false);
+    // Only the hash of the session token is kept, on the credential that signed in on this device
+    const startSession = async (account: UserAccount, credential: AccountCredential): Promise<string | null> => {
+        const session = createAuthSession(account, Date.now());
+        try {
+            await registryStore.putRecords('credentials', [await withSessionToken(credential, session.token)]);
+        } catch (error) {
+            console.error('Error saving the session on this device:', error);
+            return 'You could not be signed in on this device. Please try again.';
+        }
+        writeAuthSession(localStorage, session);
+        setAuthSession(session);
+        setAuthNotice(null);
+        setCurrentPage(defaultPageFor(account.role));
+    };
+
+    const handleSignIn = async (username: string, password: string): Promise<string | null> => {
+        const failed = 'Incorrect username or password. Signing in on a new device? Set it up with a sign-in code from the central admin.';
+        const account = accounts.find(a => a.username === normalizeUsername(username));
+        const [credential] = account ? await registryStore.findByIndex('credentials', 'accountId', account.id) : [];
+        if (!account || !credential) {
+            // Hash anyway so response time does not reveal which usernames exist on this device
+            await hashPassword(password, randomHex(16), PASSWORD_HASH_ITERATIONS);
+            return failed;
         }
+        if (!await verifyPassword(credential, password)) return failed;
+        if (account.disabled) return 'This account has been disabled. Contact the central admin.';
+        return startSession(account, credential);
+    };
+
+    // The first central admin may only be created on a registry the store has confirmed is empty, and only once:
+    // a disabled admin or a browser that has not yet received the shared accounts never reopens set-up
+    const needsSetup = isRegistrySynced && accounts.length === 0 && !auditLog.some(entry => entry.action === 'Registry Bootstrapped');
+
+    // Anyone may register as a donor and the first central admin may be created on a fresh registry;
+    // every other account is created by a signed-in central admin
+    const handleCreateAccount = async (input: NewAccountInput): Promise<string | null> => {
+        const isBootstrap = input.role === 'Central Admin' && needsSetup;
+        const isStaffCreation = authSession?.role === 'Central Admin';
+        if (input.role !== 'Donor' && !isBootstrap && !isStaffCreation) return 'Only the central admin can create staff accounts.';
+        const invalid = validateNewAccount(input, accounts);
+        if (invalid) return invalid;
+        const account: UserAccount = {
+            id: `u${Date.now()}${randomHex(4)}`,
+            username: normalizeUsername(input.username),
+            displayName: input.displayName.trim(),
+            role: input.role,
+            hospitalId: input.role === 'Hospital Coordinator' ? input.hospitalId : undefined,
+            createdAt: Date.now(),
+        };
+        const credential = await createAccountCredential(account.id, input.password);
+        try {
+            await registryStore.putRecords('credentials', [credential]);
+        } catch (error) {
+            console.error('Error saving account credentials:', error);
+            return 'The password could not be saved on this device. Please try again.';
+        }
+        setAccounts(prev => [...prev, account]);
+        const creator = isStaffCreation ? actorFromSession(authSession) : { actorId: account.id, actorName: account.displayName, actorRole: account.role };
+        if (isBootstrap) recordAudit({ action: 'Registry Bootstrapped', collection: 'accounts', recordId: account.id, reason: 'First central admin created on an empty registry' }, creator);
+        recordAudit({ action: 'Account Created', collection: 'accounts', recordId: account.id, after: account, reason: isBootstrap ? 'Initial central admin set-up' : isStaffCreation ? 'Created by central admin' : 'Donor self-registration' }, creator);
+        return isStaffCreation ? null : startSession(account, credential);
+    };
+
+    const updateAccount = (accountId: string, changes: Partial<UserAccount>, reason: string) => {
+        const account = accounts.find(a => a.id === accountId);
+        if (!account) return;
+        const updated = { ...account, ...changes };
+        setAccounts(prev => prev.map(a => a.id === accountId ? updated : a));
+        audit({ action: 'Account Updated', collection: 'accounts', recordId: accountId, before: account, after: updated, reason });
+    };
+
+    // Passwords stay on the device where they were set; a one-time code lets the account holder set one on another device
+    const handleIssueSignInCode = async (accountId: string): Promise<string | null> => {
+        if (authSession?.role !== 'Central Admin' || !accounts.some(a => a.id === accountId)) return null;
+        const code = createSignInCode();
+        const now = Date.now();
+        const enrollment: DeviceEnrollment = { codeHash: await sha256Hex(normalizeSignInCode(code)), issuedAt: now, expiresAt: now + SIGN_IN_CODE_TTL_MS, issuedById: authSession.accountId };
+        updateAccount(accountId, { enrollment }, 'Device sign-in code issued by central admin');
+        return code;
+    };
+
+    const handleEnrollDevice = async (username: string, code: string, password: string): Promise<string | null> => {
+        const account = accounts.find(a => a.username === normalizeUsername(username));
+        const codeHash = await sha256Hex(normalizeSignInCode(code));
+        const enrollment = account?.enrollment;
+        if (!account || !enrollment || enrollment.expiresAt <= Date.now() || !constantTimeEquals(codeHash, enrollment.codeHash)) {
+            return 'That sign-in code is not valid for this username, or it has expired.';
+        }
+        if (account.disabled) return 'This account has been disabled. Contact the central admin.';
+        if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+        const credential = await createAccountCredential(account.id, password);
+        try {
+            await registryStore.putRecords('credentials', [credential]);
+        } catch (error) {
+            console.error('Error saving account credentials:', error);
+            return 'The password could not be saved on this device. Please try again.';
+        }
+        // The code is single-use
+        const { enrollment: _used, ...updated } = account;
+        setAccounts(prev => prev.map(a => a.id === account.id ? updated : a));
+        recordAudit({ action: 'Account Updated', collection: 'accounts', recordId: account.id, before: account, after: updated, reason: 'Device set up with a sign-in code' },
+            { actorId: account.id, actorName: account.displayName, actorRole: account.role });
+        return startSession(account, credential);
+    };
+
+    const handleSetAccountDisabled = (accountId: string, disabled: boolean) => {
+        if (authSession?.role !== 'Central Admin' || accountId === authSession.accountId) return;
+        updateAccount(accountId, { disabled }, disabled ? 'Access disabled by central admin' : 'Access re-enabled by central admin');
+    };
+
+    const handleSetViewHospitals = (accountId: string, hospitalIds: string[]) => {
+        if (authSession?.role !== 'Central Admin') return;
+        updateAccount(accountId, { viewHospitalIds: Array.from(new Set(hospitalIds)) }, 'Cross-hospital visibility changed by central admin');
+    };
+
+    const handleSignOut = () => {
+        if (authSession) endSession(authSession, null);
+    };
+
+    const handleNavigate = (newPage: Page) => {
         setCurrentPage(newPage);
     };
 
     const renderContent = () => {
+        if (registryLoadError) {
+            return <Card title="Registry Unavailable" titleIcon={<XCircleIcon className="text-red-400"/>}><p className="text-slate-400">{registryLoadError}</p></Card>;
+        }
+        if (!isRegistryLoaded) {
+            return <div className="flex items-center justify-center py-20 text-slate-400"><Spinner />Loading registry...</div>;
+        }
+        if (!authSession) {
+            // Patients and families can check a waitlist status without an account; every other page asks guests to sign in
+            if (currentPage === 'waitlist' && canAccessPage('Guest', currentPage)) return <WaitlistView recipients={recipients.filter(isListingOpen)} />;
+            return <AuthView needsSetup={needsSetup} awaitingSync={!isRegistrySynced && accounts.length === 0} notice={authNotice} onSignIn={handleSignIn} onCreateAccount={handleCreateAccount} onEnrollDevice={handleEnrollDevice} onViewWaitlist={() => setCurrentPage('waitlist')} />;
+        }
+        if (!canAccessPage(authSession.role, currentPage)) {
+            return (
+                <Card title="Access Denied" titleIcon={<XCircleIcon className="text-red-400"/>}>
+                    <p className="text-slate-400">Your role ({authSession.role}) does not have access to this page.</p>
+                    <Button onClick={() => setCurrentPage(defaultPageFor(authSession.role))} variant="secondary" className="mt-4">Go to my workspace</Button>
+                </Card>
+            );
+        }
         switch (currentPage) {
             case 'donor':
-                return <DonorView donors={donors} onAddDonor={handleAddDonor} onWithdrawPledge={handleWithdrawPledge} recipients={recipients} onDonorInterest={handleDonorInterest} onOpenChat={() => setIsChatOpen(true)} />;
+                return <DonorView donors={donors.filter(d => d.accountId === authSession.accountId)} onCheckAadhaar={checkAadhaarAvailable} onAddDonor={handleAddDonor} onUpdateDonor={handleUpdateDonor} onWithdrawPledge={handleWithdrawPledge} recipients={recipients.filter(r => getListingState(r) === 'Active')} onDonorInterest={handleDonorInterest} onOpenChat={() => setIsChatOpen(true)} />;
             case 'waitlist':
-                return <WaitlistView recipients={recipients} />;
+                return <WaitlistView recipients={recipients.filter(isListingOpen)} />;
             case 'hospital':
-                return <HospitalView recipients={recipients} onAddRecipient={handleAddRecipient} />;
+                return <HospitalView
+                            recipients={recipients.filter(r => canViewHospital(hospitalScope, r.hospitalId))}
+                            scope={hospitalScope}
+                            onAddRecipient={handleAddRecipient}
+                            onUpdateRecipient={handleUpdateRecipient}
+                            onTransferRecipient={handleTransferRecipient}
+                            onChangeListing={handleChangeRecipientListing}
+                            session={authSession}
+                            onRequestEscalation={handleRequestEscalation}
+                            onReviewEscalation={handleReviewEscalation}
+                            donors={donors}
+                            onReviewDocuments={handleReviewDonorDocuments}
+                            assignedInterests={interestNotifications.filter(n => n.assignedToId === authSession.accountId)}
+                            onChangeTriageStatus={handleChangeTriageStatus}
+                            onLogContact={handleLogContactAttempt}
+                        />;
             case 'admin':
-                return isAdminAuthenticated ? <AdminView 
+                return <AdminView 
                             donors={donors} 
                             recipients={recipients} 
                             notifications={interestNotifications}
-                            onClearNotification={handleClearNotification}
+                            onAssignInterest={handleAssignInterest}
+                            onChangeTriageStatus={handleChangeTriageStatus}
+                            onLogContact={handleLogContactAttempt}
+                            onConfirmInterest={handleConfirmInterestMatch}
+                            model={structuredModel}
+                            onSaveScreeningReport={handleSaveScreeningReport}
                             onUpdateRecipientUrgency={handleUpdateRecipientUrgency}
-                            onDeleteRecipient={handleDeleteRecipient}
+                            onChangeListing={handleChangeRecipientListing}
                             onAddMockRecipient={handleAddMockRecipient}
-                        /> : <AdminAuthView onAuthSuccess={() => setIsAdminAuthenticated(true)} />;
+                            onRegisterLivingDonor={handleAddDonor}
+                            offers={matchOffers}
+                            onProposeOffer={handleProposeOffer}
+                            onAdvanceOffer={handleAdvanceOffer}
+                            quarantined={quarantinedRecords}
+                            onClearQuarantine={handleClearQuarantine}
+                            accounts={accounts}
+                            currentAccountId={authSession.accountId}
+                            onCreateAccount={handleCreateAccount}
+                            onSetAccountDisabled={handleSetAccountDisabled}
+                            onIssueSignInCode={handleIssueSignInCode}
+                            onSetViewHospitals={handleSetViewHospitals}
+                            session={authSession}
+                            onRequestEscalation={handleRequestEscalation}
+                            onReviewEscalation={handleReviewEscalation}
+                            onReviewDocuments={handleReviewDonorDocuments}
+                        />;
+            case 'audit':
+                return <AuditLogView entries={auditLog} />;
             default:
                 return <div>Page not found</div>;
         }
@@ -1925,11 +4574,11 @@ const App: FC = () => {
 
     return (
         <div className="min-h-screen bg-slate-900 text-white font-sans">
-            <Header currentPage={currentPage} onNavigate={handleNavigate} />
+            <Header currentPage={currentPage} onNavigate={handleNavigate} session={authSession} onSignOut={handleSignOut} />
             <main className="container mx-auto p-4 md:p-6">
                 {renderContent()}
             </main>
-            {isChatOpen && <Chatbot onClose={() => setIsChatOpen(false)} />}
+            {isChatOpen && <Chatbot onClose={() => setIsChatOpen(false)} session={authSession} scope={hospitalScope} donors={donors} recipients={recipients} />}
         </div>
     );
 };
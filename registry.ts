@@ -0,0 +1,316 @@
+import type { BloodGroup, Donor, Gender, Hospital, Organ, Recipient, Urgency, UserRole } from './types';
+
+
+// --- CONSTANTS ---
+export const ORGANS: Organ[] = ['Heart', 'Eye', 'Bone Marrow', 'Kidney', 'Lungs', 'Liver', 'Pancreas'];
+export const BLOOD_GROUPS: BloodGroup[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+export const URGENCY_LEVELS: Urgency[] = ['Critical', 'High', 'Medium'];
+export const GENDERS: Gender[] = ['Male', 'Female', 'Other', 'Prefer not to say'];
+export const USER_ROLES: UserRole[] = ['Donor', 'Hospital Coordinator', 'Central Admin', 'Auditor'];
+
+const HOSPITALS_DATA = [
+  // Existing
+  { id: 'apollo_bgl', name: 'Apollo Hospitals, Bannerghatta Road', city: 'Bangalore', contact: '1860-500-1066' },
+  { id: 'fortis_cunningham_bgl', name: 'Fortis Hospital, Cunningham Road', city: 'Bangalore', contact: '080-4199-4444' },
+  { id: 'manipal_bgl', name: 'Manipal Hospital, Old Airport Road', city: 'Bangalore', contact: '1800-102-5555' },
+  { id: 'narayana_health_bgl', name: 'Narayana Health City', city: 'Bangalore', contact: '1860-208-0208' },
+  { id: 'jss_msr', name: 'JSS Hospital, Mysuru', city: 'Mysore', contact: '0821-233-5555' },
+  { id: 'kmc_mgl', name: 'KMC Hospital, Mangaluru', city: 'Mangalore', contact: '0824-244-5858' },
+  { id: 'columbia_asia_bgl', name: 'Columbia Asia Hospital', city: 'Bangalore', contact: '080-6660-0666' },
+  { id: 'bgs_gleneagles_bgl', name: 'BGS Gleneagles Global Hospital', city: 'Bangalore', contact: '080-2625-5555' },
+  { id: 'kasturba_mnpl', name: 'Kasturba Hospital', city: 'Manipal', contact: '0820-292-2345' },
+  { id: 'sdm_dwd', name: 'SDM Medical College & Hospital', city: 'Dharwad', contact: '0836-247-7507' },
+  { id: 'father_muller_mgl', name: 'Father Muller Medical College Hospital', city: 'Mangalore', contact: '0824-223-8000' },
+  { id: 'st_johns_bgl', name: 'St. John\'s Medical College Hospital', city: 'Bangalore', contact: '080-2206-5000' },
+  { id: 'victoria_hosp_bgl', name: 'Victoria Hospital', city: 'Bangalore', contact: '080-2670-1150' },
+  { id: 'bowring_lady_bgl', name: 'Bowring & Lady Curzon Hospital', city: 'Bangalore', contact: '080-2559-1365' },
+  { id: 'sanjay_gandhi_trauma_bgl', name: 'Sanjay Gandhi Institute of Trauma', city: 'Bangalore', contact: '080-2653-4333' },
+  { id: 'kidwai_oncology_bgl', name: 'Kidwai Memorial Institute of Oncology', city: 'Bangalore', contact: '080-2609-4000' },
+  { id: 'jayadeva_cardio_bgl', name: 'Jayadeva Institute of Cardiovascular Sciences', city: 'Bangalore', contact: '080-2297-7200' },
+  { id: 'sagar_hosp_bgl', name: 'Sagar Hospitals', city: 'Bangalore', contact: '080-4299-9999' },
+  { id: 'hosmat_hosp_bgl', name: 'Hosmat Hospital', city: 'Bangalore', contact: '080-2559-3796' },
+  { id: 'aster_cmi_bgl', name: 'Aster CMI Hospital', city: 'Bangalore', contact: '080-4342-0100' },
+  { id: 'sakra_world_bgl', name: 'Sakra World Hospital', city: 'Bangalore', contact: '080-4969-4969' },
+  { id: 'baptist_hosp_bgl', name: 'Baptist Hospital', city: 'Bangalore', contact: '080-2202-4700' },
+  { id: 'ms_ramaiah_bgl', name: 'M S Ramaiah Memorial Hospital', city: 'Bangalore', contact: '080-2360-8888' },
+  { id: 'st_marthas_bgl', name: 'St. Martha\'s Hospital', city: 'Bangalore', contact: '080-4012-8200' },
+  { id: 'cloudnine_bgl', name: 'Cloudnine Hospital', city: 'Bangalore', contact: '1860-108-9999' },
+  { id: 'vydehi_med_sci_bgl', name: 'Vydehi Institute of Medical Sciences', city: 'Bangalore', contact: '080-2841-3381' },
+  { id: 'kims_bgl', name: 'Kempegowda Institute of Medical Sciences', city: 'Bangalore', contact: '080-2667-2727' },
+  { id: 'bmcri_bgl', name: 'Bangalore Medical College and Research Institute', city: 'Bangalore', contact: '080-2670-0810' },
+  { id: 'sparsh_hosp_bgl', name: 'Sparsh Hospital', city: 'Bangalore', contact: '080-6122-2000' },
+  { id: 'vikram_hosp_bgl', name: 'Vikram Hospital', city: 'Bangalore', contact: '080-4609-4444' },
+  { id: 'hcg_cancer_bgl', name: 'HCG Cancer Centre', city: 'Bangalore', contact: '080-4660-7700' },
+  { id: 'people_tree_bgl', name: 'People Tree Hospitals', city: 'Bangalore', contact: '080-4959-9999' },
+  { id: 'narayana_hrudayalaya_bgl', name: 'Narayana Institute of Cardiac Sciences', city: 'Bangalore', contact: '1860-208-0208' },
+  { id: 'fortis_la_femme_bgl', name: 'Fortis La Femme', city: 'Bangalore', contact: '080-6746-4646' },
+  { id: 'apollospectra_bgl', name: 'Apollo Spectra Hospitals', city: 'Bangalore', contact: '080-4612-4612' },
+  { id: 'motherhood_bgl', name: 'Motherhood Hospital', city: 'Bangalore', contact: '1800-108-8008' },
+  { id: 'columbiaasia_hebbal_bgl', name: 'Columbia Asia Hospital, Hebbal', city: 'Bangalore', contact: '080-4179-1000' },
+  { id: 'chinmaya_bgl', name: 'Chinmaya Mission Hospital', city: 'Bangalore', contact: '080-2528-0425' },
+  { id: 'shekhar_bgl', name: 'Shekhar Hospital', city: 'Bangalore', contact: '080-4248-5600' },
+  { id: 'santhosh_bgl', name: 'Santhosh Hospital', city: 'Bangalore', contact: '080-4089-0500' },
+  { id: 'apollo_bgs_msr', name: 'Apollo BGS Hospitals', city: 'Mysore', contact: '0821-256-8888' },
+  { id: 'columbia_asia_msr', name: 'Columbia Asia Hospital', city: 'Mysore', contact: '0821-398-9896' },
+  { id: 'narayana_multi_msr', name: 'Narayana Multispeciality Hospital', city: 'Mysore', contact: '1860-208-0208' },
+  { id: 'kr_hosp_msr', name: 'K.R. Hospital', city: 'Mysore', contact: '0821-242-4551' },
+  { id: 'cheluvamba_msr', name: 'Cheluvamba Hospital for Women and Children', city: 'Mysore', contact: '0821-242-0544' },
+  { id: 'gokulam_msr', name: 'Gokulam Hospital', city: 'Mysore', contact: '0821-251-5555' },
+  { id: 'kamakshi_msr', name: 'Kamakshi Hospital', city: 'Mysore', contact: '0821-236-4444' },
+  { id: 'cauvery_heart_msr', name: 'Cauvery Heart & Multi-Speciality Hospital', city: 'Mysore', contact: '0821-241-4141' },
+  { id: 'bharath_oncology_msr', name: 'Bharath Hospital and Institute of Oncology', city: 'Mysore', contact: '0821-252-1777' },
+  { id: 'secure_hosp_msr', name: 'SECURE Hospital', city: 'Mysore', contact: '0821-428-2222' },
+  { id: 'bhanavi_msr', name: 'Bhanavi Hospital', city: 'Mysore', contact: '0821-252-0000' },
+  { id: 'radiant_msr', name: 'Radiant Hospital', city: 'Mysore', contact: '0821-252-2522' },
+  { id: 'pramathi_msr', name: 'Pramathi Hospital', city: 'Mysore', contact: '0821-254-4444' },
+  { id: 'st_josephs_msr', name: 'St. Joseph\'s Hospital', city: 'Mysore', contact: '0821-244-4422' },
+  { id: 'basappa_msr', name: 'Basappa Memorial Hospital', city: 'Mysore', contact: '0821-244-2424' },
+  { id: 'aj_hosp_mgl', name: 'A J Hospital & Research Centre', city: 'Mangalore', contact: '0824-222-5533' },
+  { id: 'yenepoya_mgl', name: 'Yenepoya Medical College Hospital', city: 'Mangalore', contact: '0824-220-4668' },
+  { id: 'indiana_hosp_mgl', name: 'Indiana Hospital & Heart Institute', city: 'Mangalore', contact: '0824-288-0880' },
+  { id: 'scs_hosp_mgl', name: 'SCS Hospital', city: 'Mangalore', contact: '0824-221-1255' },
+  { id: 'tejasvini_mgl', name: 'Tejasvini Hospital', city: 'Mangalore', contact: '0824-242-4242' },
+  { id: 'kshema_mgl', name: 'K S Hegde Medical Academy (KSHEMA)', city: 'Mangalore', contact: '0824-220-4490' },
+  { id: 'unity_hosp_mgl', name: 'Unity Hospital', city: 'Mangalore', contact: '0824-244-3065' },
+  { id: 'wenlock_dist_mgl', name: 'Wenlock District Hospital', city: 'Mangalore', contact: '0824-242-3252' },
+  { id: 'lady_goschen_mgl', name: 'Lady Goschen Hospital', city: 'Mangalore', contact: '0824-242-4522' },
+  { id: 'omega_mgl', name: 'Omega Hospital', city: 'Mangalore', contact: '0824-244-0333' },
+  { id: 'city_hosp_mgl', name: 'City Hospital', city: 'Mangalore', contact: '0824-244-1144' },
+  { id: 'vasan_eye_mgl', name: 'Vasan Eye Care', city: 'Mangalore', contact: '1800-102-8272' },
+  { id: 'vinaya_hosp_mgl', name: 'Vinaya Hospital & Research Centre', city: 'Mangalore', contact: '0824-227-6666' },
+  { id: 'global_multi_mgl', name: 'Global Multispeciality Hospital', city: 'Mangalore', contact: '0824-245-5555' },
+  { id: 'kims_hbl', name: 'Karnataka Institute of Medical Sciences (KIMS)', city: 'Hubli', contact: '0836-237-3348' },
+  { id: 'sdm_med_dwd', name: 'SDM College of Medical Sciences & Hospital', city: 'Dharwad', contact: '0836-247-7507' },
+  { id: 'tatwadarsha_hbl', name: 'Tatwadarsha Hospital', city: 'Hubli', contact: '0836-235-5555' },
+  { id: 'vivekananda_hbl', name: 'Vivekananda General Hospital', city: 'Hubli', contact: '0836-236-2661' },
+  { id: 'lifepoint_hbl', name: 'Lifepoint Multispeciality Hospital', city: 'Hubli', contact: '0836-425-5555' },
+  { id: 'shushrusha_dwd', name: 'Shushrusha Nursing Home', city: 'Dharwad', contact: '0836-274-5555' },
+  { id: 'dist_hosp_dwd', name: 'District Hospital', city: 'Dharwad', contact: '0836-244-7422' },
+  { id: 'suchirayu_hbl', name: 'Suchirayu Hospital', city: 'Hubli', contact: '0836-222-2222' },
+  { id: 'shree_devi_hbl', name: 'Shree Devi Hospital', city: 'Hubli', contact: '0836-235-1111' },
+  { id: 'city_clinic_dwd', name: 'City Clinic', city: 'Dharwad', contact: '0836-274-8888' },
+  { id: 'kle_hosp_hbl', name: 'KLE Hospital', city: 'Hubli', contact: '0836-227-7777' },
+  { id: 'dr_hegde_hbl', name: 'Dr. Hegde Hospital', city: 'Hubli', contact: '0836-225-5555' },
+  { id: 'patil_hosp_dwd', name: 'Patil Nursing Home', city: 'Dharwad', contact: '0836-244-4444' },
+  { id: 'sarvodaya_hbl', name: 'Sarvodaya Hospital', city: 'Hubli', contact: '0836-226-6666' },
+  { id: 'anand_dwd', name: 'Anand Hospital', city: 'Dharwad', contact: '0836-277-7777' },
+  { id: 'jnmc_bga', name: 'Jawaharlal Nehru Medical College (JNMC) Hospital', city: 'Belgaum', contact: '0831-247-3777' },
+  { id: 'kle_kore_bga', name: 'KLE Dr. Prabhakar Kore Hospital & MRC', city: 'Belgaum', contact: '0831-247-3777' },
+  { id: 'lakeview_bga', name: 'Lakeview Goaves Hospital', city: 'Belgaum', contact: '0831-247-0777' },
+  { id: 'vijaya_ortho_bga', name: 'Vijaya Ortho & Trauma Centre', city: 'Belgaum', contact: '0831-245-5555' },
+  { id: 'belgaum_cancer_bga', name: 'Belgaum Cancer Hospital', city: 'Belgaum', contact: '0831-246-6666' },
+  { id: 'kore_charitable_bga', name: 'Dr. Prabhakar Kore Charitable Hospital', city: 'Belgaum', contact: '0831-247-3777' },
+  { id: 'gogte_nursing_bga', name: 'Gogte Nursing Home', city: 'Belgaum', contact: '0831-242-2222' },
+  { id: 'sanjeevini_bga', name: 'Sanjeevini Hospital', city: 'Belgaum', contact: '0831-243-3333' },
+  { id: 'bims_bga', name: 'Belgaum Institute of Medical Sciences (BIMS)', city: 'Belgaum', contact: '0831-240-3101' },
+  { id: 'maratha_mandal_bga', name: 'Maratha Mandal\'s Hospital', city: 'Belgaum', contact: '0831-247-4777' },
+  { id: 'ashwini_bga', name: 'Ashwini Hospital', city: 'Belgaum', contact: '0831-247-7777' },
+  { id: 'vivekanand_bga', name: 'Vivekanand Hospital', city: 'Belgaum', contact: '0831-242-4242' },
+  { id: 'shanti_bga', name: 'Shanti Hospital', city: 'Belgaum', contact: '0831-245-4545' },
+  { id: 'city_hosp_bga', name: 'City Hospital', city: 'Belgaum', contact: '0831-246-4646' },
+  { id: 'prerana_bga', name: 'Prerana Hospital', city: 'Belgaum', contact: '0831-247-4747' },
+  { id: 'tma_pai_udupi', name: 'Dr. T.M.A. Pai Hospital', city: 'Udupi', contact: '0820-257-1201' },
+  { id: 'adarsh_hosp_udupi', name: 'Adarsh Hospital', city: 'Udupi', contact: '0820-252-2522' },
+  { id: 'hitech_medicare_udupi', name: 'Hi-Tech Medicare Hospital', city: 'Udupi', contact: '0820-253-3533' },
+  { id: 'gandhi_hosp_udupi', name: 'Gandhi Hospital', city: 'Udupi', contact: '0820-252-1234' },
+  { id: 'mahesh_hosp_udupi', name: 'Mahesh Hospital', city: 'Udupi', contact: '0820-252-5252' },
+  { id: 'sri_krishna_udupi', name: 'Sri Krishna Hospital', city: 'Udupi', contact: '0820-253-0000' },
+  { id: 'city_hosp_udupi', name: 'City Hospital', city: 'Udupi', contact: '0820-252-0888' },
+  { id: 'mission_hosp_udupi', name: 'Mission Hospital', city: 'Udupi', contact: '0820-252-0555' },
+  { id: 'amc_hosp_manipal', name: 'AMC Hospital', city: 'Manipal', contact: '0820-257-1999' },
+  { id: 'vinaya_hosp_udupi', name: 'Vinaya Hospital', city: 'Udupi', contact: '0820-252-3333' },
+  { id: 'mcgann_dist_smg', name: 'Mc Gann District Hospital', city: 'Shivamogga', contact: '08182-222-222' },
+  { id: 'nanjappa_smg', name: 'Nanjappa Hospital', city: 'Shivamogga', contact: '08182-277-777' },
+  { id: 'sahyadri_narayana_smg', name: 'Sahyadri Narayana Multispeciality Hospital', city: 'Shivamogga', contact: '1860-208-0208' },
+  { id: 'sarji_smg', name: 'Sarji Hospital', city: 'Shivamogga', contact: '08182-255-555' },
+  { id: 'subbaiah_med_smg', name: 'Subbaiah Institute of Medical Sciences', city: 'Shivamogga', contact: '08182-295-555' },
+  { id: 'maxgann_smg', name: 'Maxgann Hospital', city: 'Shivamogga', contact: '08182-266-666' },
+  { id: 'shankar_eye_smg', name: 'Shankar Eye Hospital', city: 'Shivamogga', contact: '08182-228-888' },
+  { id: 'city_central_smg', name: 'City Central Hospital', city: 'Shivamogga', contact: '08182-277-277' },
+  { id: 'asha_smg', name: 'Asha Hospital', city: 'Shivamogga', contact: '08182-221-122' },
+  { id: 'gopala_gowda_smg', name: 'Gopala Gowda Shanthaveri Memorial Hospital', city: 'Shivamogga', contact: '08182-220-022' },
+  { id: 'vims_blr', name: 'Vijayanagara Institute of Medical Sciences (VIMS)', city: 'Ballari', contact: '08392-235-201' },
+  { id: 'st_marys_blr', name: 'St. Mary\'s Hospital', city: 'Ballari', contact: '08392-277-777' },
+  { id: 'al_iqra_blr', name: 'AL-IQRA Hospital', city: 'Ballari', contact: '08392-266-666' },
+  { id: 'dhanvantari_blr', name: 'Dhanvantari Hospital', city: 'Ballari', contact: '08392-255-555' },
+  { id: 'bellary_city_blr', name: 'Bellary City Hospital', city: 'Ballari', contact: '08392-244-444' },
+  { id: 'sri_raghavendra_blr', name: 'Sri Raghavendra Hospital', city: 'Ballari', contact: '08392-233-333' },
+  { id: 'kalyani_blr', name: 'Kalyani Hospital', city: 'Ballari', contact: '08392-222-222' },
+  { id: 'jyothi_blr', name: 'Jyothi Hospital', city: 'Ballari', contact: '08392-211-111' },
+  { id: 'government_hosp_blr', name: 'Government Hospital', city: 'Ballari', contact: '08392-275-275' },
+  { id: 'sunshine_blr', name: 'Sunshine Hospital', city: 'Ballari', contact: '08392-288-888' },
+  { id: 'jjmmc_dvn', name: 'JJMMC Hospital', city: 'Davanagere', contact: '08192-231-388' },
+  { id: 'bapuji_dvn', name: 'Bapuji Hospital', city: 'Davanagere', contact: '08192-221-288' },
+  { id: 'city_central_dvn', name: 'City Central Hospital', city: 'Davanagere', contact: '08192-255-555' },
+  { id: 'ssims_dvn', name: 'SS Institute of Medical Sciences & Research Centre', city: 'Davanagere', contact: '08192-266-666' },
+  { id: 'chigateri_dist_dvn', name: 'Chigateri District Hospital', city: 'Davanagere', contact: '08192-232-088' },
+  { id: 'aruna_dvn', name: 'Aruna Hospital', city: 'Davanagere', contact: '08192-277-777' },
+  { id: 'anugraha_dvn', name: 'Anugraha Hospital', city: 'Davanagere', contact: '08192-266-266' },
+  { id: 'santhosh_dvn', name: 'Santhosh Hospital', city: 'Davanagere', contact: '08192-244-444' },
+  { id: 'srinivas_dvn', name: 'Srinivas Hospital', city: 'Davanagere', contact: '08192-233-333' },
+  { id: 'shamanur_shivashankarappa_dvn', name: 'Shamanur Shivashankarappa Janakalyan Trust Hospital', city: 'Davanagere', contact: '08192-222-222' },
+  { id: 'basaveshwar_klb', name: 'Basaveshwar Teaching and General Hospital', city: 'Kalaburagi', contact: '08472-220-303' },
+  { id: 'united_hosp_klb', name: 'United Hospital', city: 'Kalaburagi', contact: '08472-255-555' },
+  { id: 'esic_med_klb', name: 'ESIC Medical College & Hospital', city: 'Kalaburagi', contact: '08472-265-555' },
+  { id: 'gda_hosp_klb', name: 'GDA Hospital', city: 'Kalaburagi', contact: '08472-244-444' },
+  { id: 'humnabad_klb', name: 'Humnabad Hospital', city: 'Kalaburagi', contact: '08472-233-333' },
+  { id: 'khaja_bandanawaz_klb', name: 'Khaja Bandanawaz Institute of Medical Sciences', city: 'Kalaburagi', contact: '08472-266-666' },
+  { id: 'navodaya_klb', name: 'Navodaya Hospital', city: 'Kalaburagi', contact: '08472-277-777' },
+  { id: 'soukhya_klb', name: 'Soukhya Hospital', city: 'Kalaburagi', contact: '08472-222-222' },
+  { id: 'sai_klb', name: 'Sai Hospital', city: 'Kalaburagi', contact: '08472-211-111' },
+  { id: 'vasavi_klb', name: 'Vasavi Hospital', city: 'Kalaburagi', contact: '08472-288-888' },
+  { id: 'brims_bdr', name: 'Bidar Institute of Medical Sciences (BRIMS)', city: 'Bidar', contact: '08482-225-333' },
+  { id: 'guru_nanak_bdr', name: 'Guru Nanak Hospital', city: 'Bidar', contact: '08482-222-222' },
+  { id: 'bidar_city_bdr', name: 'Bidar City Hospital', city: 'Bidar', contact: '08482-233-333' },
+  { id: 'mr_med_bdr', name: 'M.R. Medical College Hospital', city: 'Bidar', contact: '08482-244-444' },
+  { id: 'prakash_bdr', name: 'Prakash Hospital', city: 'Bidar', contact: '08482-255-555' },
+  { id: 'bhalke_bdr', name: 'Bhalke Hospital', city: 'Bidar', contact: '08482-266-666' },
+  { id: 'shiva_bdr', name: 'Shiva Hospital', city: 'Bidar', contact: '08482-277-777' },
+  { id: 'sanjivani_bdr', name: 'Sanjivani Hospital', city: 'Bidar', contact: '08482-288-888' },
+  { id: 'basavakalyan_bdr', name: 'Basavakalyan Hospital', city: 'Bidar', contact: '08482-299-999' },
+  { id: 'noori_bdr', name: 'Noori Hospital', city: 'Bidar', contact: '08482-211-111' },
+  { id: 'hims_hsn', name: 'Hassan Institute of Medical Sciences (HIMS)', city: 'Hassan', contact: '08172-231-000' },
+  { id: 'ssm_hosp_hsn', name: 'SSM Hospital', city: 'Hassan', contact: '08172-266-666' },
+  { id: 'mangala_hsn', name: 'Mangala Hospital', city: 'Hassan', contact: '08172-255-555' },
+  { id: 'city_hosp_hsn', name: 'City Hospital', city: 'Hassan', contact: '08172-244-444' },
+  { id: 'chamarajendra_hsn', name: 'Sri Chamarajendra Hospital', city: 'Hassan', contact: '08172-233-333' },
+  { id: 'hemavathi_hsn', name: 'Hemavathi Hospital', city: 'Hassan', contact: '08172-222-222' },
+  { id: 'vasan_eye_hsn', name: 'Vasan Eye Care', city: 'Hassan', contact: '1800-102-8272' },
+  { id: 'hosalli_hsn', name: 'Hosalli Hospital', city: 'Hassan', contact: '08172-277-777' },
+  { id: 'nethradhama_hsn', name: 'Nethradhama Superspeciality Eye Hospital', city: 'Hassan', contact: '08172-288-888' },
+  { id: 'malnad_hsn', name: 'Malnad Hospital', city: 'Hassan', contact: '08172-299-999' },
+  { id: 'siddaganga_tmk', name: 'Siddaganga Hospital & Research Centre', city: 'Tumakuru', contact: '0816-228-1111' },
+  { id: 'dist_govt_tmk', name: 'District Government Hospital', city: 'Tumakuru', contact: '0816-227-8686' },
+  { id: 'shridevi_med_tmk', name: 'Shridevi Institute of Medical Sciences & Research Hospital', city: 'Tumakuru', contact: '0816-221-1555' },
+  { id: 'adarsha_tmk', name: 'Adarsha Hospital', city: 'Tumakuru', contact: '0816-225-5555' },
+  { id: 'sree_siddaganga_med_tmk', name: 'Sree Siddaganga Medical College And Research Institute', city: 'Tumakuru', contact: '0816-220-0222' },
+  { id: 'seetharam_tmk', name: 'Seetharam Hospital', city: 'Tumakuru', contact: '0816-224-4444' },
+  { id: 'sri_manjunatha_tmk', name: 'Sri Manjunatha Hospital', city: 'Tumakuru', contact: '0816-226-6666' },
+  { id: 'vasavi_tmk', name: 'Vasavi Hospital', city: 'Tumakuru', contact: '0816-223-3333' },
+  { id: 'mamatha_tmk', name: 'Mamatha Hospital', city: 'Tumakuru', contact: '0816-227-7777' },
+  { id: 'aruna_tmk', name: 'Aruna Hospital', city: 'Tumakuru', contact: '0816-228-8888' },
+];
+
+
+export const HOSPITALS: Hospital[] = HOSPITALS_DATA.map((hospital, index) => ({
+    ...hospital,
+    mockId: `HSP-${String(index + 1).padStart(3, '0')}`
+}));
+
+
+// --- MOCK DATA (for initial state if localStorage is empty) ---
+export const MOCK_DONORS: Donor[] = [];
+
+export const MOCK_RECIPIENTS: Recipient[] = [];
+
+
+// --- SHARED HELPERS ---
+export const STORAGE_PREFIX = 'lifeconnect';
+
+export const asObject = (record: unknown): Record<string, unknown> | null =>
+    typeof record === 'object' && record !== null && !Array.isArray(record) ? record as Record<string, unknown> : null;
+
+// Returns the first failing field as a readable reason, or null when the record is valid
+export const validateFields = (record: unknown, checks: Record<string, (value: unknown) => boolean>): string | null => {
+    const obj = asObject(record);
+    if (!obj) return 'Record is not an object';
+    const failed = Object.keys(checks).find(field => !checks[field](obj[field]));
+    return failed ? `Invalid or missing field "${failed}"` : null;
+};
+
+export const isString = (value: unknown) => typeof value === 'string';
+export const isNumber = (value: unknown) => typeof value === 'number' && !Number.isNaN(value);
+export const isOptional = (check: (value: unknown) => boolean) => (value: unknown) => value === undefined || check(value);
+export const isOneOf = (options: readonly string[]) => (value: unknown) => typeof value === 'string' && options.includes(value);
+export const isArrayOf = (check: (value: unknown) => boolean) => (value: unknown) => Array.isArray(value) && value.every(check);
+
+export const readStoredJson = (storage: Storage, key: string): { value?: unknown; error?: string } => {
+    const stored = storage.getItem(key);
+    if (stored === null) return {};
+    try {
+        return { value: JSON.parse(stored) };
+    } catch (error) {
+        return { value: stored, error: `Unparseable JSON under "${key}"` };
+    }
+};
+
+export const writeStoredJson = (storage: Storage, key: string, value: unknown) => {
+    try {
+        storage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.error(`Error writing to localStorage key "${key}":`, error);
+    }
+};
+
+export const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+
+// --- DOMAIN LOGIC HELPERS ---
+export const isBloodTypeCompatible = (donorBG: BloodGroup, recipientBG: BloodGroup): boolean => {
+    const compatibility: Record<BloodGroup, BloodGroup[]> = {
+        'A+': ['A+', 'A-', 'O+', 'O-'], 'A-': ['A-', 'O-'],
+        'B+': ['B+', 'B-', 'O+', 'O-'], 'B-': ['B-', 'O-'],
+        'AB+': ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
+        'AB-': ['A-', 'B-', 'AB-', 'O-'],
+        'O+': ['O+', 'O-'], 'O-': ['O-'],
+    };
+    return compatibility[recipientBG]?.includes(donorBG) ?? false;
+};
+
+export const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const daysSince = (timestamp: number, now: number = Date.now()) => Math.floor((now - timestamp) / MS_PER_DAY);
+
+export const ageInYears = (dob: string, now: number = Date.now()): number | null => {
+    const birth = new Date(dob).getTime();
+    if (Number.isNaN(birth)) return null;
+    return Math.floor((now - birth) / (MS_PER_DAY * 365.25));
+};
+
+// Approximate city centres used for donor-to-hospital distance estimates
+const CITY_COORDINATES: Record<string, { lat: number; lng: number }> = {
+    'Bangalore': { lat: 12.9716, lng: 77.5946 },
+    'Mysore': { lat: 12.2958, lng: 76.6394 },
+    'Mangalore': { lat: 12.9141, lng: 74.8560 },
+    'Manipal': { lat: 13.3525, lng: 74.7928 },
+    'Udupi': { lat: 13.3409, lng: 74.7421 },
+    'Dharwad': { lat: 15.4589, lng: 75.0078 },
+    'Hubli': { lat: 15.3647, lng: 75.1240 },
+    'Belgaum': { lat: 15.8497, lng: 74.4977 },
+    'Shivamogga': { lat: 13.9299, lng: 75.5681 },
+    'Ballari': { lat: 15.1394, lng: 76.9214 },
+    'Davanagere': { lat: 14.4644, lng: 75.9218 },
+    'Kalaburagi': { lat: 17.3297, lng: 76.8343 },
+    'Bidar': { lat: 17.9104, lng: 77.5199 },
+    'Hassan': { lat: 13.0033, lng: 76.1004 },
+    'Tumakuru': { lat: 13.3379, lng: 77.1173 },
+};
+
+const CITY_ALIASES: Record<string, string> = {
+    'bengaluru': 'Bangalore', 'mysuru': 'Mysore', 'mangaluru': 'Mangalore', 'belagavi': 'Belgaum',
+    'hubballi': 'Hubli', 'shimoga': 'Shivamogga', 'bellary': 'Ballari', 'gulbarga': 'Kalaburagi', 'tumkur': 'Tumakuru',
+};
+
+// Donors only give a free-text address, so look for any known city name within it
+const resolveCity = (address: string): string | null => {
+    const lower = address.toLowerCase();
+    const known = Object.keys(CITY_COORDINATES).find(city => lower.includes(city.toLowerCase()));
+    if (known) return known;
+    const alias = Object.keys(CITY_ALIASES).find(a => lower.includes(a));
+    return alias ? CITY_ALIASES[alias] : null;
+};
+
+const distanceKm = (from: { lat: number; lng: number }, to: { lat: number; lng: number }): number => {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(to.lat - from.lat);
+    const dLng = toRad(to.lng - from.lng);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const donorHospitalDistance = (donor: Donor, recipient: Recipient): { km: number; donorCity: string; hospitalCity: string } | null => {
+    const hospitalCity = HOSPITALS.find(h => h.mockId === recipient.hospitalId)?.city;
+    const donorCity = resolveCity(donor.address);
+    if (!hospitalCity || !donorCity || !CITY_COORDINATES[hospitalCity]) return null;
+    return { km: Math.round(distanceKm(CITY_COORDINATES[donorCity], CITY_COORDINATES[hospitalCity])), donorCity, hospitalCity };
+};
@@ -0,0 +1,86 @@
+import type { Donor, ProtectedAadhaar } from '../types';
+import { hashPassword } from './auth';
+
+
+// --- AADHAAR IDENTITY ---
+// Verhoeff dihedral-group tables; the last Aadhaar digit is the Verhoeff check digit of the first eleven
+export const VERHOEFF_MULTIPLY = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+    [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+    [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+    [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+export const VERHOEFF_PERMUTE = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+    [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+    [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+const isVerhoeffValid = (digits: string) => {
+    let check = 0;
+    digits.split('').reverse().forEach((digit, i) => {
+        check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[i % 8][Number(digit)]];
+    });
+    return check === 0;
+};
+
+export const normalizeAadhaar = (input: string) => input.replace(/[\s-]/g, '');
+
+// Returns a readable reason the number is invalid, or null
+export const validateAadhaar = (input: string): string | null => {
+    const digits = normalizeAadhaar(input);
+    if (!/^\d{12}$/.test(digits)) return 'Aadhaar numbers have 12 digits.';
+    if (/^[01]/.test(digits)) return 'Aadhaar numbers do not start with 0 or 1.';
+    return isVerhoeffValid(digits) ? null : 'This Aadhaar number fails the checksum; please check for typos.';
+};
+
+export const maskAadhaar = (last4: string) => `XXXX-XXXX-${last4}`;
+
+// Fixed registry-wide salt so every client derives the same digest for the same number. The salt ships with the
+// app and the last four digits are stored in the clear, so these digests must never leave the device.
+const AADHAAR_DIGEST_SALT = '6c6966656c696e6b2d61616468616172';
+const AADHAAR_DIGEST_ITERATIONS = 100000;
+
+export interface AadhaarDigester {
+    // Keyed digests are made with a secret the clients never see, so they are safe to share
+    keyed: boolean;
+    digest: (digits: string) => Promise<string>;
+}
+
+export const localAadhaarDigester: AadhaarDigester = {
+    keyed: false,
+    digest: digits => hashPassword(digits, AADHAAR_DIGEST_SALT, AADHAAR_DIGEST_ITERATIONS),
+};
+
+// A backend (e.g. a Cloud Function) holding the HMAC key answers POST { aadhaar } with { digest }
+export const createAadhaarDigestService = (url: string): AadhaarDigester => ({
+    keyed: true,
+    digest: async digits => {
+        const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ aadhaar: digits }) });
+        if (!response.ok) throw new Error(`Aadhaar digest service returned ${response.status}`);
+        const { digest } = await response.json() as { digest?: unknown };
+        if (typeof digest !== 'string' || !/^[0-9a-f]{64}$/.test(digest)) throw new Error('Aadhaar digest service returned an invalid digest');
+        return digest;
+    },
+});
+
+// Uses the keyed service when AADHAAR_DIGEST_URL is set. Without it a shared registry keeps no digest at all,
+// since every client could read it, and only a registry confined to this device uses the local digest.
+export const getAadhaarDigester = (shared: boolean): AadhaarDigester | null => {
+    const url = process.env.AADHAAR_DIGEST_URL;
+    if (url) return createAadhaarDigestService(url);
+    return shared ? null : localAadhaarDigester;
+};
+
+export const protectAadhaar = async (input: string, digester: AadhaarDigester | null): Promise<ProtectedAadhaar> => {
+    const digits = normalizeAadhaar(input);
+    const last4 = digits.slice(-4);
+    if (!digester) return { last4 };
+    const digest = await digester.digest(digits);
+    return digester.keyed ? { last4, digest, keyed: true } : { last4, digest };
+};
+
+// Digests only compare when made the same way; a number kept without one cannot be checked for duplicates
+export const findDonorByAadhaar = (donors: Donor[], aadhaar: ProtectedAadhaar, excludeId?: string) =>
+    aadhaar.digest === undefined ? undefined : donors.find(d =>
+        d.id !== excludeId && d.aadhaar?.digest === aadhaar.digest && !!d.aadhaar.keyed === !!aadhaar.keyed);
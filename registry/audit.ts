@@ -0,0 +1,155 @@
+import type { AuditAction, AuditEntry, AuthSession, MatchOffer, UserRole } from '../types';
+import { asObject, isSameValue } from '../registry';
+import { randomHex, sha256Hex } from './auth';
+
+
+// --- AUDIT TRAIL ---
+const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+    'Recipient Registered', 'Recipient Updated', 'Recipient Transferred', 'Recipient Withdrawn', 'Recipient Deleted', 'Recipient Status Changed', 'Urgency Changed',
+    'Pledge Registered', 'Pledge Updated', 'Pledge Withdrawn', 'Donor Interest Recorded', 'Notification Cleared',
+    'Offer Proposed', 'Offer Updated', 'Account Created', 'Account Updated', 'Quarantine Cleared',
+    'Escalation Requested', 'Escalation Approved', 'Escalation Rejected',
+    'Documents Verified', 'Documents Rejected', 'Interest Confirmed',
+    'Interest Assigned', 'Interest Status Changed', 'Contact Attempt Logged', 'Screening Report Saved',
+    'Registry Bootstrapped',
+];
+
+export interface AuditActor {
+    actorId: string;
+    actorName: string;
+    actorRole: UserRole | 'System';
+}
+
+// What a handler reports about a mutation; actor, sequence and hashes are filled in when it is appended,
+// and before and after are reduced to the changed fields
+export interface AuditInput {
+    action: AuditAction;
+    collection: AuditEntry['collection'];
+    recordId: string;
+    before?: unknown;
+    after?: unknown;
+    reason: string;
+}
+
+export interface AuditVerification {
+    ok: boolean;
+    checked: number;
+    // First entry whose hash, link or sequence does not check out
+    brokenAt?: number;
+    problem?: string;
+    // Concurrent branches that were later joined; expected when several tabs or devices write at once
+    mergedBranches: number;
+}
+
+export const SYSTEM_ACTOR: AuditActor = { actorId: 'system', actorName: 'System', actorRole: 'System' };
+
+export const actorFromSession = (session: AuthSession | null): AuditActor =>
+    session ? { actorId: session.accountId, actorName: session.displayName, actorRole: session.role } : SYSTEM_ACTOR;
+
+// JSON with object keys sorted at every level so equal entries always hash the same
+export const canonicalJson = (value: unknown) => JSON.stringify(value, (_key, nested) => {
+    const obj = asObject(nested);
+    return obj ? Object.fromEntries(Object.keys(obj).sort().map(key => [key, obj[key]])) : nested;
+});
+
+const computeAuditHash = (entry: Omit<AuditEntry, 'hash'>) => sha256Hex(canonicalJson(entry));
+
+// Audit entries sync to every client, so they keep only the fields a mutation changed, and the values only of
+// fields that carry IDs or workflow state. Personal and clinical details show as changed without their contents.
+const AUDIT_VALUE_FIELDS = new Set([
+    'id', 'patientId', 'accountId', 'donorId', 'recipientId', 'candidateRecipientId', 'pairedRecipientId', 'matchOfferId', 'previousOfferId',
+    'backupRecipientIds', 'pledgeIds', 'status', 'state', 'urgency', 'listingState', 'triageStatus', 'verification', 'donorType', 'organ',
+    'organNeeded', 'pledgedOrgans', 'transplantedOrgans', 'score', 'hospitalId', 'hospitalName', 'viewHospitalIds', 'role', 'disabled',
+    'assignedToId', 'assignedToName', 'pledgeDate', 'timeOnList', 'timestamp', 'createdAt', 'expiresAt',
+]);
+
+export const REDACTED_AUDIT_VALUE = '[redacted]';
+
+export const summarizeAuditChange = (before: unknown, after: unknown): Pick<AuditEntry, 'before' | 'after'> => {
+    const previous = asObject(before);
+    const next = asObject(after);
+    // Lists such as cleared quarantine records are not field-by-field comparable
+    if ((before !== undefined && !previous) || (after !== undefined && !next)) {
+        return { ...(before !== undefined ? { before: REDACTED_AUDIT_VALUE } : {}), ...(after !== undefined ? { after: REDACTED_AUDIT_VALUE } : {}) };
+    }
+    const fields = [...new Set([...Object.keys(previous ?? {}), ...Object.keys(next ?? {})])]
+        .filter(field => !isSameValue(previous?.[field], next?.[field]))
+        .sort();
+    const changed = (record: Record<string, unknown>) => Object.fromEntries(fields
+        .filter(field => record[field] !== undefined)
+        .map(field => [field, AUDIT_VALUE_FIELDS.has(field) ? record[field] : REDACTED_AUDIT_VALUE]));
+    return { ...(previous ? { before: changed(previous) } : {}), ...(next ? { after: changed(next) } : {}) };
+};
+
+// Entries no other entry links to. Normally just the latest one; several when tabs or devices appended concurrently.
+export const findAuditTips = (entries: AuditEntry[]): AuditEntry[] => {
+    const linked = new Set(entries.flatMap(entry => [entry.previousHash, ...(entry.mergedHashes ?? [])]));
+    return sortAuditLog(entries.filter(entry => !linked.has(entry.hash)));
+};
+
+// Links to the highest tip and joins any other tips, so a fork lasts only until the next append that has seen both branches
+export const createAuditEntry = async (input: AuditInput, actor: AuditActor, at: number, tips: AuditEntry[]): Promise<AuditEntry> => {
+    const previous = tips.length > 0 ? tips[tips.length - 1] : null;
+    const merged = tips.slice(0, -1).map(tip => tip.hash);
+    const sequence = (previous?.sequence ?? 0) + 1;
+    const { before, after, ...details } = input;
+    const unsigned: Omit<AuditEntry, 'hash'> = {
+        id: `au${at}-${sequence}-${randomHex(4)}`,
+        sequence,
+        at,
+        ...actor,
+        ...details,
+        ...summarizeAuditChange(before, after),
+        previousHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+        ...(merged.length > 0 ? { mergedHashes: merged } : {}),
+    };
+    return { ...unsigned, hash: await computeAuditHash(unsigned) };
+};
+
+// Audit inputs for offers that a workflow step created or changed
+export const offerAuditInputs = (previous: MatchOffer[], next: MatchOffer[], reason: string): AuditInput[] => {
+    const previousById = new Map(previous.map(offer => [offer.id, offer]));
+    return next
+        .filter(offer => previousById.get(offer.id) !== offer)
+        .map(offer => ({
+            action: previousById.has(offer.id) ? 'Offer Updated' : 'Offer Proposed',
+            collection: 'matchOffers',
+            recordId: offer.id,
+            before: previousById.get(offer.id),
+            after: offer,
+            reason,
+        }));
+};
+
+// Sequence order; concurrent entries with the same sequence are ordered by time, then hash, so every client agrees
+export const sortAuditLog = (entries: AuditEntry[]) =>
+    [...entries].sort((a, b) => a.sequence - b.sequence || a.at - b.at || a.hash.localeCompare(b.hash));
+
+// Recomputes every hash and checks every link resolves to an entry exactly one sequence earlier. Two tabs or
+// devices appending at once produce two entries with the same sequence and predecessor; that fork is accepted,
+// and the next entry joins it through mergedHashes. Only altered entries and links to missing entries are breaks.
+export const verifyAuditChain = async (entries: AuditEntry[]): Promise<AuditVerification> => {
+    const ordered = sortAuditLog(entries);
+    const byHash = new Map(ordered.map(entry => [entry.hash, entry]));
+    let mergedBranches = 0;
+    for (let i = 0; i < ordered.length; i++) {
+        const { hash, ...unsigned } = ordered[i];
+        const fail = (problem: string): AuditVerification => ({ ok: false, checked: i, brokenAt: unsigned.sequence, problem, mergedBranches });
+        if (await computeAuditHash(unsigned) !== hash) return fail('Entry contents do not match its hash; the entry was altered.');
+        if (unsigned.previousHash === AUDIT_GENESIS_HASH) {
+            if (unsigned.sequence !== 1) return fail(`Entry #${unsigned.sequence} claims to start the chain; earlier entries are missing.`);
+        } else {
+            const previous = byHash.get(unsigned.previousHash);
+            if (!previous) return fail('Link to the previous entry does not match; an earlier entry was altered or removed.');
+            if (previous.sequence !== unsigned.sequence - 1) return fail(`Entry links to #${previous.sequence} instead of #${unsigned.sequence - 1}; entries are missing or renumbered.`);
+        }
+        for (const mergedHash of unsigned.mergedHashes ?? []) {
+            const branch = byHash.get(mergedHash);
+            if (!branch || branch.sequence >= unsigned.sequence) return fail('A concurrent branch this entry joins is missing; an entry was removed.');
+            mergedBranches++;
+        }
+    }
+    return { ok: true, checked: ordered.length, mergedBranches };
+};
@@ -0,0 +1,134 @@
+import type { AccountCredential, AuthSession, NewAccountInput, Page, UserAccount, UserRole } from '../types';
+import {
+    HOSPITALS, isNumber, isOneOf, isOptional, isString, readStoredJson, STORAGE_PREFIX, USER_ROLES, validateFields, writeStoredJson,
+} from '../registry';
+
+
+// --- AUTHENTICATION & ROLES ---
+export const PASSWORD_HASH_ITERATIONS = 210000;
+export const MIN_PASSWORD_LENGTH = 10;
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+// Shared by all tabs so signing out in one signs out the others
+export const AUTH_SESSION_KEY = `${STORAGE_PREFIX}:authSession`;
+
+// Device sign-in codes are shown once to the central admin and expire after a day
+export const SIGN_IN_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Pages each role may open; App.renderContent refuses anything not listed here and asks guests to sign in
+const PAGE_ACCESS: Record<Page, (UserRole | 'Guest')[]> = {
+    donor: ['Donor'],
+    waitlist: ['Guest', 'Donor', 'Hospital Coordinator', 'Central Admin', 'Auditor'],
+    hospital: ['Hospital Coordinator', 'Central Admin'],
+    admin: ['Central Admin'],
+    audit: ['Central Admin', 'Auditor'],
+};
+
+const PAGE_ORDER: Page[] = ['donor', 'waitlist', 'hospital', 'admin', 'audit'];
+
+export const canAccessPage = (role: UserRole | 'Guest', page: Page) => PAGE_ACCESS[page].includes(role);
+
+export const defaultPageFor = (role: UserRole): Page => PAGE_ORDER.find(page => canAccessPage(role, page)) ?? 'waitlist';
+
+export const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+    Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) ?? []).map(byte => parseInt(byte, 16)));
+
+export const randomHex = (byteLength: number) => toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const sha256Hex = async (text: string) => toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+export const hashPassword = async (password: string, saltHex: string, iterations: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex), iterations }, key, 256);
+    return toHex(bits);
+};
+
+// Compares every character so the time taken does not reveal how much of the hash matched
+export const constantTimeEquals = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+    let difference = 0;
+    for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return difference === 0;
+};
+
+// One credential per account per device; setting a password again on the same device replaces it
+export const credentialIdFor = (accountId: string) => `cr-${accountId}`;
+
+export const createAccountCredential = async (accountId: string, password: string): Promise<AccountCredential> => {
+    const passwordSalt = randomHex(16);
+    return {
+        id: credentialIdFor(accountId),
+        accountId,
+        passwordSalt,
+        passwordIterations: PASSWORD_HASH_ITERATIONS,
+        passwordHash: await hashPassword(password, passwordSalt, PASSWORD_HASH_ITERATIONS),
+    };
+};
+
+export const verifyPassword = async (credential: AccountCredential, password: string) =>
+    constantTimeEquals(await hashPassword(password, credential.passwordSalt, credential.passwordIterations), credential.passwordHash);
+
+// Codes are shown as eight groups of four hex digits; spaces, dashes and case are ignored when entered
+export const createSignInCode = () => randomHex(16).match(/.{4}/g)!.join('-');
+
+export const normalizeSignInCode = (code: string) => code.toLowerCase().replace(/[^0-9a-f]/g, '');
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+// Returns a readable reason the new account cannot be created, or null when it is valid
+export const validateNewAccount = (input: NewAccountInput, accounts: UserAccount[]): string | null => {
+    const username = normalizeUsername(input.username);
+    if (!/^[a-z0-9._-]{3,32}$/.test(username)) return 'Username must be 3-32 characters: letters, digits, ".", "_" or "-".';
+    if (accounts.some(a => a.username === username)) return 'That username is already taken.';
+    if (!input.displayName.trim()) return 'Please enter a display name.';
+    if (input.password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+    if (input.role === 'Hospital Coordinator' && !HOSPITALS.some(h => h.mockId === input.hospitalId)) return 'Hospital coordinators must be bound to a hospital.';
+    return null;
+};
+
+export const createAuthSession = (account: UserAccount, now: number): AuthSession => ({
+    token: randomHex(32),
+    accountId: account.id,
+    role: account.role,
+    displayName: account.displayName,
+    hospitalId: account.hospitalId,
+    issuedAt: now,
+    lastActiveAt: now,
+});
+
+// Sessions end after SESSION_IDLE_TIMEOUT_MS without activity or SESSION_MAX_AGE_MS overall
+export const sessionExpiresAt = (session: AuthSession) =>
+    Math.min(session.issuedAt + SESSION_MAX_AGE_MS, session.lastActiveAt + SESSION_IDLE_TIMEOUT_MS);
+
+export const isSessionActive = (session: AuthSession, now: number = Date.now()) => now < sessionExpiresAt(session);
+
+// Stamps the credential with the hash of a newly issued session token, or clears it when the session ends
+export const withSessionToken = async (credential: AccountCredential, token: string | null): Promise<AccountCredential> => {
+    const { sessionTokenHash: _previous, ...rest } = credential;
+    return token ? { ...rest, sessionTokenHash: await sha256Hex(token) } : rest;
+};
+
+// The stored session is only trusted when its token hashes to the one recorded on the account's credential on this
+// device, so a session object written into storage by hand is refused
+export const readAuthSession = async (
+    storage: Storage, findCredential: (accountId: string) => Promise<AccountCredential | undefined>,
+): Promise<AuthSession | null> => {
+    const { value } = readStoredJson(storage, AUTH_SESSION_KEY);
+    const invalid = validateFields(value, {
+        token: isString, accountId: isString, role: isOneOf(USER_ROLES), displayName: isString,
+        hospitalId: isOptional(isString), issuedAt: isNumber, lastActiveAt: isNumber,
+    });
+    if (invalid) return null;
+    const session = value as AuthSession;
+    if (!isSessionActive(session)) return null;
+    const credential = await findCredential(session.accountId);
+    if (!credential?.sessionTokenHash) return null;
+    return constantTimeEquals(await sha256Hex(session.token), credential.sessionTokenHash) ? session : null;
+};
+
+export const writeAuthSession = (storage: Storage, session: AuthSession | null) => {
+    if (session) writeStoredJson(storage, AUTH_SESSION_KEY, session);
+    else storage.removeItem(AUTH_SESSION_KEY);
+};
@@ -0,0 +1,237 @@
+import { Type, type Schema, type FunctionDeclaration } from "@google/genai";
+import type { BloodGroup, Donor, Hospital, Organ, Recipient, Urgency, UserRole } from '../types';
+import { BLOOD_GROUPS, HOSPITALS, MS_PER_DAY, ORGANS, URGENCY_LEVELS } from '../registry';
+import { isDonorVerified } from './documents';
+import { summarizeSupplyDemand } from './matching';
+import { isDeceasedPledge } from './matchingRules';
+import { isAwaitingAllocation } from './offers';
+import { scoreAllocation } from './scoring';
+import { currentSeverity, formatSeverity } from './severity';
+
+
+// --- REGISTRY CHAT TOOLS ---
+// Read-only functions the assistant may call; each declares which roles may use it and never returns names, contacts or Aadhaar data
+export type ChatRole = UserRole | 'Guest';
+
+export interface RegistryToolContext {
+    role: ChatRole;
+    accountId?: string;
+    donors: Donor[];
+    recipients: Recipient[];
+    // Whether patient-level rows from this hospital may be listed for the signed-in user
+    canSeeHospital: (hospitalId: string | undefined) => boolean;
+    now: number;
+}
+
+interface RegistryTool {
+    declaration: FunctionDeclaration;
+    roles: ChatRole[];
+    run: (args: Record<string, unknown>, ctx: RegistryToolContext) => unknown;
+}
+
+export const MAX_TOOL_ROUNDS = 5;
+const MAX_TOOL_ROWS = 25;
+
+const pickOption = <T extends string>(value: unknown, options: readonly T[]): T | undefined =>
+    typeof value === 'string' ? options.find(option => option.toLowerCase() === value.trim().toLowerCase()) : undefined;
+
+// Matches "Apollo", "Bengaluru" or "BLR001" against hospital name, city and ID
+const matchHospitals = (query: string) => {
+    const needle = query.trim().toLowerCase();
+    return HOSPITALS.filter(h => [h.name, h.city, h.mockId].some(field => field.toLowerCase().includes(needle)));
+};
+
+interface RecipientFilter {
+    organ?: Organ;
+    bloodGroup?: BloodGroup;
+    urgency?: Urgency;
+    hospitals?: Hospital[];
+}
+
+// Turns loose model arguments into a filter, or an error the model can correct and retry
+const parseRecipientFilter = (args: Record<string, unknown>): RecipientFilter | { error: string } => {
+    const filter: RecipientFilter = {
+        organ: pickOption(args.organ, ORGANS),
+        bloodGroup: pickOption(args.bloodGroup, BLOOD_GROUPS),
+        urgency: pickOption(args.urgency, URGENCY_LEVELS),
+    };
+    if (args.organ !== undefined && !filter.organ) return { error: `Unknown organ "${args.organ}". Use one of: ${ORGANS.join(', ')}.` };
+    if (args.bloodGroup !== undefined && !filter.bloodGroup) return { error: `Unknown blood group "${args.bloodGroup}". Use one of: ${BLOOD_GROUPS.join(', ')}.` };
+    if (args.urgency !== undefined && !filter.urgency) return { error: `Unknown urgency "${args.urgency}". Use one of: ${URGENCY_LEVELS.join(', ')}.` };
+    if (typeof args.hospital === 'string' && args.hospital.trim()) {
+        filter.hospitals = matchHospitals(args.hospital);
+        if (filter.hospitals.length === 0) return { error: `No hospital matches "${args.hospital}". Call list_hospitals to see registered hospitals.` };
+    }
+    return filter;
+};
+
+const filterWaitingRecipients = (recipients: Recipient[], filter: RecipientFilter) =>
+    recipients.filter(r => isAwaitingAllocation(r)
+        && (!filter.organ || r.organNeeded === filter.organ)
+        && (!filter.bloodGroup || r.bloodGroup === filter.bloodGroup)
+        && (!filter.urgency || r.urgency === filter.urgency)
+        && (!filter.hospitals || filter.hospitals.some(h => h.mockId === r.hospitalId)));
+
+const describeFilter = (filter: RecipientFilter) => ({
+    organ: filter.organ ?? 'any',
+    bloodGroup: filter.bloodGroup ?? 'any',
+    urgency: filter.urgency ?? 'any',
+    hospitals: filter.hospitals?.map(h => h.name) ?? 'all',
+});
+
+export const hospitalName = (hospitalId: string | undefined) => HOSPITALS.find(h => h.mockId === hospitalId)?.name ?? 'Unknown hospital';
+
+const RECIPIENT_FILTER_PROPERTIES: Record<string, Schema> = {
+    organ: { type: Type.STRING, enum: ORGANS, description: 'Organ needed.' },
+    bloodGroup: { type: Type.STRING, enum: BLOOD_GROUPS, description: 'Recipient blood group, e.g. "O-".' },
+    urgency: { type: Type.STRING, enum: URGENCY_LEVELS },
+    hospital: { type: Type.STRING, description: 'Hospital name, city or registry ID; partial names such as "Apollo" match every hospital containing them.' },
+};
+
+const REGISTRY_TOOLS: RegistryTool[] = [
+    {
+        declaration: {
+            name: 'list_hospitals',
+            description: 'Lists transplant hospitals registered with the organ registry.',
+            parameters: { type: Type.OBJECT, properties: { city: { type: Type.STRING, description: 'Optional city filter.' } } },
+        },
+        roles: ['Guest', 'Donor', 'Hospital Coordinator', 'Central Admin', 'Auditor'],
+        run: args => {
+            const city = typeof args.city === 'string' ? args.city.trim().toLowerCase() : '';
+            const hospitals = HOSPITALS.filter(h => !city || h.city.toLowerCase().includes(city));
+            return { count: hospitals.length, hospitals: hospitals.map(h => ({ id: h.mockId, name: h.name, city: h.city, contact: h.contact })) };
+        },
+    },
+    {
+        declaration: {
+            name: 'get_demand_statistics',
+            description: 'Returns, per organ, how many recipients have an active listing, how many verified deceased-donor pledges are still available, and how many more await document verification.',
+            parameters: { type: Type.OBJECT, properties: { organ: RECIPIENT_FILTER_PROPERTIES.organ } },
+        },
+        roles: ['Guest', 'Donor', 'Hospital Coordinator', 'Central Admin', 'Auditor'],
+        run: (args, { donors, recipients }) => {
+            const organ = pickOption(args.organ, ORGANS);
+            if (args.organ !== undefined && !organ) return { error: `Unknown organ "${args.organ}".` };
+            return {
+                organs: summarizeSupplyDemand(donors, recipients)
+                    .filter(row => !organ || row.organ === organ)
+                    .map(row => ({ organ: row.organ, waiting: row.demand, availableVerifiedPledges: row.supply, pledgesAwaitingVerification: row.awaitingVerification })),
+            };
+        },
+    },
+    {
+        declaration: {
+            name: 'count_waiting_recipients',
+            description: 'Counts recipients currently waiting for an organ, broken down by hospital. All filters are optional.',
+            parameters: { type: Type.OBJECT, properties: RECIPIENT_FILTER_PROPERTIES },
+        },
+        roles: ['Donor', 'Hospital Coordinator', 'Central Admin', 'Auditor'],
+        run: (args, { recipients }) => {
+            const filter = parseRecipientFilter(args);
+            if ('error' in filter) return filter;
+            const waiting = filterWaitingRecipients(recipients, filter);
+            const byHospital = new Map<string, number>();
+            waiting.forEach(r => byHospital.set(hospitalName(r.hospitalId), (byHospital.get(hospitalName(r.hospitalId)) ?? 0) + 1));
+            return { filter: describeFilter(filter), count: waiting.length, byHospital: [...byHospital].map(([hospital, count]) => ({ hospital, count })) };
+        },
+    },
+    {
+        declaration: {
+            name: 'list_waiting_recipients',
+            description: `Lists waiting recipients ranked by allocation score, identified only by patient ID (at most ${MAX_TOOL_ROWS}).`,
+            parameters: { type: Type.OBJECT, properties: { ...RECIPIENT_FILTER_PROPERTIES, limit: { type: Type.INTEGER, description: `Rows to return, default 10, maximum ${MAX_TOOL_ROWS}.` } } },
+        },
+        roles: ['Hospital Coordinator', 'Central Admin', 'Auditor'],
+        run: (args, { recipients, canSeeHospital, now }) => {
+            const filter = parseRecipientFilter(args);
+            if ('error' in filter) return filter;
+            const waiting = filterWaitingRecipients(recipients, filter);
+            const visible = waiting.filter(r => canSeeHospital(r.hospitalId));
+            const limit = Math.min(Math.max(Math.floor(Number(args.limit) || 10), 1), MAX_TOOL_ROWS);
+            const rows = visible
+                .map(r => ({ recipient: r, score: scoreAllocation({ recipient: r, now }).total }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+                .map(({ recipient: r, score }) => ({
+                    patientId: r.patientId,
+                    organ: r.organNeeded,
+                    bloodGroup: r.bloodGroup,
+                    urgency: r.urgency,
+                    severity: formatSeverity(currentSeverity(r, now)) ?? undefined,
+                    allocationScore: score,
+                    daysOnList: Math.floor((now - r.timeOnList) / MS_PER_DAY),
+                    hospital: hospitalName(r.hospitalId),
+                }));
+            return { filter: describeFilter(filter), totalMatching: visible.length, hiddenOutsideYourHospitals: waiting.length - visible.length, rows };
+        },
+    },
+    {
+        declaration: {
+            name: 'search_donor_pledges',
+            description: `Searches deceased-donor pledges by organ, blood group and verification, identified only by pledge ID (at most ${MAX_TOOL_ROWS} rows).`,
+            parameters: {
+                type: Type.OBJECT,
+                properties: {
+                    organ: RECIPIENT_FILTER_PROPERTIES.organ,
+                    bloodGroup: { type: Type.STRING, enum: BLOOD_GROUPS, description: 'Donor blood group.' },
+                    verifiedOnly: { type: Type.BOOLEAN, description: 'Only pledges whose documents have been verified.' },
+                },
+            },
+        },
+        roles: ['Hospital Coordinator', 'Central Admin', 'Auditor'],
+        run: (args, { donors }) => {
+            const organ = pickOption(args.organ, ORGANS);
+            const bloodGroup = pickOption(args.bloodGroup, BLOOD_GROUPS);
+            if (args.organ !== undefined && !organ) return { error: `Unknown organ "${args.organ}".` };
+            if (args.bloodGroup !== undefined && !bloodGroup) return { error: `Unknown blood group "${args.bloodGroup}".` };
+            const pledges = donors.flatMap(d => !isDeceasedPledge(d) ? [] : d.pledgedOrgans
+                .filter(o => (!organ || o === organ) && (!bloodGroup || d.bloodGroup === bloodGroup) && (args.verifiedOnly !== true || isDonorVerified(d)))
+                .map(o => ({ pledgeId: d.pledgeIds?.[o] ?? 'Not issued', organ: o, bloodGroup: d.bloodGroup, verification: d.verification?.status ?? 'No documents uploaded' })));
+            return { count: pledges.length, pledges: pledges.slice(0, MAX_TOOL_ROWS) };
+        },
+    },
+    {
+        declaration: {
+            name: 'get_my_pledges',
+            description: "Returns the signed-in donor's own pledges with their pledge IDs and document verification status.",
+            parameters: { type: Type.OBJECT, properties: {} },
+        },
+        roles: ['Donor'],
+        run: (_args, { donors, accountId }) => {
+            const own = donors.filter(d => d.accountId !== undefined && d.accountId === accountId);
+            return {
+                pledges: own.flatMap(d => d.pledgedOrgans.map(o => ({
+                    pledgeId: d.pledgeIds?.[o] ?? 'Not issued',
+                    organ: o,
+                    bloodGroup: d.bloodGroup,
+                    donorType: d.donorType ?? 'Deceased Pledge',
+                    pledgedOn: new Date(d.pledgeDate).toISOString().slice(0, 10),
+                    verification: d.verification?.status ?? 'No documents uploaded',
+                }))),
+            };
+        },
+    },
+];
+
+export const registryToolsFor = (role: ChatRole) => REGISTRY_TOOLS.filter(tool => tool.roles.includes(role));
+
+// Tools are re-checked against the role here, so a call the model was never offered still fails closed
+export const runRegistryTool = (name: string, args: Record<string, unknown>, ctx: RegistryToolContext): unknown => {
+    const tool = registryToolsFor(ctx.role).find(t => t.declaration.name === name);
+    if (!tool) return { error: `Tool "${name}" is not available to ${ctx.role === 'Guest' ? 'signed-out users' : `the ${ctx.role} role`}.` };
+    try {
+        return tool.run(args, ctx);
+    } catch (error) {
+        console.error(`Registry tool ${name} failed:`, error);
+        return { error: `Tool "${name}" failed while reading the registry.` };
+    }
+};
+
+export const buildChatSystemInstruction = (role: ChatRole, hospital?: string) => [
+    "You are the NOTTO Info Assistant for India's organ donation registry. Answer questions about organ donation in India and about this registry.",
+    `The user is ${role === 'Guest' ? 'not signed in' : `signed in as ${role}${hospital ? ` at ${hospital}` : ''}`}.`,
+    'For any registry number (waiting recipients, pledges, hospitals), call the provided tools and state only what they return; never estimate registry figures.',
+    'If a tool reports an error or the data is outside what the user may see, say so plainly instead of guessing.',
+    'Tools identify patients and donors only by registry ID; never ask for or reveal names, contact details or Aadhaar numbers.',
+    'Keep answers short and plain; they may be read aloud.',
+].join('\n');
@@ -0,0 +1,137 @@
+import type { FirebaseStorage, StorageError } from 'firebase/storage';
+import type { Donor, PledgeDocument, PledgeDocumentKind } from '../types';
+import { randomHex, toHex } from './auth';
+import type { FirestoreSyncConfig } from './firestoreSync';
+import { requestToPromise, transactionToPromise } from './indexedDbStore';
+
+
+// --- DOCUMENT STORE ---
+// Uploaded files are kept in their own IndexedDB database, content-addressed by SHA-256, so the bytes
+// never travel through the registry's localStorage, cross-tab or Firestore paths; only metadata does.
+// With a storage bucket configured a copy also goes to Cloud Storage so coordinators on other devices can fetch it.
+const DOCUMENT_DB_NAME = 'lifeconnect-documents';
+const DOCUMENT_DB_VERSION = 1;
+const DOCUMENT_FILE_STORE = 'files';
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+export const ACCEPTED_DOCUMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+export const DOCUMENT_KINDS: PledgeDocumentKind[] = ['ID Proof', 'Medical Report'];
+
+interface StoredDocumentFile {
+    sha256: string;
+    blob: Blob;
+}
+
+export interface DocumentStore {
+    // Stores the file and returns its metadata; identical content is stored once
+    put: (file: File, kind: PledgeDocumentKind) => Promise<PledgeDocument>;
+    get: (sha256: string) => Promise<Blob | null>;
+}
+
+export const sha256HexOfBlob = async (blob: Blob) => toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+
+// Returns a readable reason the file cannot be accepted, or null
+export const validateDocumentFile = (file: File): string | null => {
+    if (!ACCEPTED_DOCUMENT_TYPES.includes(file.type)) return `${file.name}: only PDF, PNG, JPEG or WebP files are accepted.`;
+    if (file.size > MAX_DOCUMENT_BYTES) return `${file.name}: files must be ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB or smaller.`;
+    return null;
+};
+
+const describeDocument = (file: File, kind: PledgeDocumentKind, sha256: string): PledgeDocument => ({
+    id: `doc${Date.now()}${randomHex(4)}`,
+    kind,
+    fileName: file.name,
+    mimeType: file.type,
+    size: file.size,
+    sha256,
+    uploadedAt: Date.now(),
+});
+
+export const createIndexedDbDocumentStore = (factory: IDBFactory): DocumentStore => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getDb = () => dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = factory.open(DOCUMENT_DB_NAME, DOCUMENT_DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(DOCUMENT_FILE_STORE)) request.result.createObjectStore(DOCUMENT_FILE_STORE, { keyPath: 'sha256' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+    return {
+        put: async (file, kind) => {
+            const sha256 = await sha256HexOfBlob(file);
+            const db = await getDb();
+            const tx = db.transaction(DOCUMENT_FILE_STORE, 'readwrite');
+            tx.objectStore(DOCUMENT_FILE_STORE).put({ sha256, blob: file } satisfies StoredDocumentFile);
+            await transactionToPromise(tx);
+            return describeDocument(file, kind, sha256);
+        },
+        get: async sha256 => {
+            const db = await getDb();
+            const entry = await requestToPromise(db.transaction(DOCUMENT_FILE_STORE).objectStore(DOCUMENT_FILE_STORE).get(sha256));
+            return (entry as StoredDocumentFile | undefined)?.blob ?? null;
+        },
+    };
+};
+
+// Used where IndexedDB is unavailable; files last only for the current page session
+export const createMemoryDocumentStore = (): DocumentStore => {
+    const files = new Map<string, Blob>();
+    return {
+        put: async (file, kind) => {
+            const sha256 = await sha256HexOfBlob(file);
+            files.set(sha256, file);
+            return describeDocument(file, kind, sha256);
+        },
+        get: async sha256 => files.get(sha256) ?? null,
+    };
+};
+
+// Uploads are copied to Cloud Storage under their hash and files missing on this device are fetched from there
+// and cached. A failed upload leaves the document local-only (no storagePath); whoever views a fetched file
+// re-hashes it, so a replaced object in the bucket is caught before it can be verified.
+export const withCloudDocumentCopies = (local: DocumentStore, config: FirestoreSyncConfig): DocumentStore => {
+    let connection: Promise<{ st: typeof import('firebase/storage'); storage: FirebaseStorage }> | null = null;
+    const connect = () => connection ??= (async () => {
+        const [{ initializeApp }, st] = await Promise.all([import('firebase/app'), import('firebase/storage')]);
+        const storage = st.getStorage(initializeApp(config.firebase, 'lifeconnect-documents'));
+        if (config.storageEmulatorHost) {
+            const [host, port] = config.storageEmulatorHost.split(':');
+            st.connectStorageEmulator(storage, host, Number(port || 9199));
+        }
+        return { st, storage };
+    })();
+    const pathFor = (sha256: string) => `${config.collectionPrefix}pledgeDocuments/${sha256}`;
+
+    return {
+        put: async (file, kind) => {
+            const document = await local.put(file, kind);
+            try {
+                const { st, storage } = await connect();
+                const storagePath = pathFor(document.sha256);
+                await st.uploadBytes(st.ref(storage, storagePath), file, { contentType: file.type });
+                return { ...document, storagePath };
+            } catch (error) {
+                console.error(`Uploading ${file.name} to document storage failed; it stays on this device only:`, error);
+                return document;
+            }
+        },
+        get: async sha256 => {
+            const cached = await local.get(sha256);
+            if (cached) return cached;
+            const { st, storage } = await connect();
+            try {
+                const blob = await st.getBlob(st.ref(storage, pathFor(sha256)));
+                // Stored under the hash of what actually arrived, so a tampered copy cannot take the recorded hash's place
+                await local.put(new File([blob], sha256, { type: blob.type }), 'ID Proof');
+                return blob;
+            } catch (error) {
+                if ((error as Partial<StorageError> | null)?.code === 'storage/object-not-found') return null;
+                throw error;
+            }
+        },
+    };
+};
+
+
+export const isDonorVerified = (donor: Donor) => donor.verification?.status === 'Verified';
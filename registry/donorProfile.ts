@@ -0,0 +1,31 @@
+import type { AuthSession, Donor, DonorEditableFields } from '../types';
+import { isSameValue } from '../registry';
+
+
+// --- DONOR PROFILE ---
+export const DONOR_FIELD_LABELS: Record<keyof DonorEditableFields, string> = {
+    name: 'Name', contact: 'Contact', dob: 'Date of Birth', gender: 'Gender', bloodGroup: 'Blood Group',
+    address: 'Address', immunology: 'Immunology', documents: 'Documents', aadhaar: 'Aadhaar',
+};
+
+// Changing any of these sends the pledge back through coordinator verification before it can be matched again
+export const REVERIFICATION_FIELDS: (keyof DonorEditableFields)[] = ['name', 'dob', 'bloodGroup', 'immunology', 'documents', 'aadhaar'];
+
+// Donors edit and withdraw their own pledges; the central admin may act on any pledge on a donor's behalf
+export const canChangePledge = (session: AuthSession | null, donor: Donor) =>
+    !!session && (donor.accountId === session.accountId || session.role === 'Central Admin');
+
+// Returns a readable reason the profile is invalid, or null
+export const validateDonorProfile = (fields: DonorEditableFields, now: number = Date.now()): string | null => {
+    if (!fields.name.trim()) return 'Name cannot be empty.';
+    if (!/^\+?\d[\d\s-]{7,15}$/.test(fields.contact.trim())) return 'Please enter a valid contact number.';
+    const dob = new Date(fields.dob).getTime();
+    if (Number.isNaN(dob) || dob > now) return 'Please enter a valid date of birth.';
+    if (!fields.address.trim()) return 'Address cannot be empty.';
+    return null;
+};
+
+export const changedDonorFields = (before: Donor, after: DonorEditableFields) =>
+    (Object.keys(DONOR_FIELD_LABELS) as (keyof DonorEditableFields)[]).filter(field => !isSameValue(before[field], after[field]));
+
+export const formatFileSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -0,0 +1,52 @@
+import type { AuthSession, EscalationParameters, HeartStatusCode, Organ, Recipient } from '../types';
+import { URGENCY_LEVELS } from '../registry';
+
+
+// --- URGENCY ESCALATION ---
+export const HEART_STATUS_CODES: HeartStatusCode[] = ['Status 1', 'Status 2', 'Status 3', 'Status 4', 'Status 5', 'Status 6'];
+export const MELD_RANGE = { min: 6, max: 40 };
+
+// Critical is only reachable through an approved escalation, never set directly
+export const DIRECT_URGENCY_LEVELS = URGENCY_LEVELS.filter(u => u !== 'Critical');
+
+// Which supporting parameter an escalation to Critical must carry for each organ
+export const ESCALATION_PARAMETER_FOR_ORGAN: Record<Organ, keyof EscalationParameters> = {
+    Liver: 'meldScore',
+    Heart: 'heartStatusCode',
+    Kidney: 'clinicalIndicator',
+    Lungs: 'clinicalIndicator',
+    Pancreas: 'clinicalIndicator',
+    Eye: 'clinicalIndicator',
+    'Bone Marrow': 'clinicalIndicator',
+};
+
+export const isEscalationPending = (recipient: Recipient) => recipient.urgencyEscalation?.status === 'Pending';
+
+// Returns a readable reason the request is incomplete, or null when it may be submitted
+export const validateEscalationRequest = (organ: Organ, justification: string, parameters: EscalationParameters): string | null => {
+    if (justification.trim().length < 20) return 'Please give a clinical justification of at least 20 characters.';
+    switch (ESCALATION_PARAMETER_FOR_ORGAN[organ]) {
+        case 'meldScore': {
+            const meld = parameters.meldScore;
+            return meld !== undefined && Number.isInteger(meld) && meld >= MELD_RANGE.min && meld <= MELD_RANGE.max
+                ? null : `Liver escalations need a MELD score between ${MELD_RANGE.min} and ${MELD_RANGE.max}.`;
+        }
+        case 'heartStatusCode':
+            return parameters.heartStatusCode && HEART_STATUS_CODES.includes(parameters.heartStatusCode) ? null : 'Heart escalations need a heart status code.';
+        default:
+            return parameters.clinicalIndicator?.trim() ? null : 'Please record the supporting clinical indicator (e.g. latest labs or ICU status).';
+    }
+};
+
+export const describeEscalationParameters = (parameters: EscalationParameters) => [
+    parameters.meldScore !== undefined ? `MELD ${parameters.meldScore}` : null,
+    parameters.heartStatusCode ?? null,
+    parameters.clinicalIndicator ?? null,
+].filter(Boolean).join(' · ');
+
+// Approval needs a second person: the central admin or a coordinator at the patient's hospital, never the requester
+export const canReviewEscalation = (session: AuthSession | null, recipient: Recipient) => {
+    const escalation = recipient.urgencyEscalation;
+    if (!session || !escalation || escalation.status !== 'Pending' || escalation.requestedById === session.accountId) return false;
+    return session.role === 'Central Admin' || (session.role === 'Hospital Coordinator' && session.hospitalId === recipient.hospitalId);
+};
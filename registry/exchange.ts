@@ -0,0 +1,116 @@
+import type { Donor, ExchangeProposal, ExchangeSearchResult, ExchangeTransplant, Recipient } from '../types';
+import { checkOrganRule } from './matchingRules';
+
+
+// --- KIDNEY PAIRED EXCHANGE ---
+const MAX_CHAIN_PAIRS = 4;
+const CYCLE_SEARCH_BUDGET = 50000;
+
+interface ExchangePair {
+    donor: Donor;
+    recipient: Recipient;
+}
+
+const getExchangePairs = (donors: Donor[], recipients: Recipient[]): ExchangePair[] => {
+    const recipientById = new Map(recipients.map(r => [r.id, r]));
+    return donors
+        .filter(d => d.donorType === 'Living Paired' && d.pairedRecipientId)
+        .flatMap(donor => {
+            const recipient = recipientById.get(donor.pairedRecipientId!);
+            return recipient && recipient.organNeeded === 'Kidney' ? [{ donor, recipient }] : [];
+        });
+};
+
+// Picks the set of vertex-disjoint cycles covering the most pairs. On ties it keeps the set with more cycles,
+// i.e. more 2-way swaps instead of 3-way ones, since each shorter cycle has fewer transplants that can fall through.
+// `exhaustive` is false when the search budget ran out, in which case a better set may exist.
+export const selectDisjointCycles = (cycles: number[][]): { cycles: number[][]; exhaustive: boolean } => {
+    let best: number[][] = [];
+    let bestCovered = 0;
+    let steps = 0;
+    const search = (index: number, chosen: number[][], used: Set<number>, covered: number) => {
+        if (++steps > CYCLE_SEARCH_BUDGET) return;
+        if (covered > bestCovered || (covered === bestCovered && chosen.length > best.length)) {
+            best = [...chosen];
+            bestCovered = covered;
+        }
+        for (let i = index; i < cycles.length; i++) {
+            if (cycles[i].some(p => used.has(p))) continue;
+            cycles[i].forEach(p => used.add(p));
+            chosen.push(cycles[i]);
+            search(i + 1, chosen, used, covered + cycles[i].length);
+            chosen.pop();
+            cycles[i].forEach(p => used.delete(p));
+        }
+    };
+    search(0, [], new Set(), 0);
+    return { cycles: best, exhaustive: steps <= CYCLE_SEARCH_BUDGET };
+};
+
+// Finds 2- and 3-way swap cycles among incompatible living pairs, then starts chains from
+// altruistic donors through the remaining pairs, ending at the top-ranked waitlist kidney patient.
+export const findExchangeProposals = (donors: Donor[], rankedRecipients: Recipient[]): ExchangeSearchResult => {
+    const pairs = getExchangePairs(donors, rankedRecipients);
+    const canGive = (donor: Donor, recipient: Recipient) => checkOrganRule(donor, recipient).eligible;
+    const edges = pairs.map(from => pairs.map(to => from !== to && canGive(from.donor, to.recipient)));
+
+    const cycles: number[][] = [];
+    for (let i = 0; i < pairs.length; i++) {
+        for (let j = i + 1; j < pairs.length; j++) {
+            if (edges[i][j] && edges[j][i]) cycles.push([i, j]);
+            for (let k = i + 1; k < pairs.length; k++) {
+                if (k !== j && edges[i][j] && edges[j][k] && edges[k][i]) cycles.push([i, j, k]);
+            }
+        }
+    }
+
+    const proposals: ExchangeProposal[] = [];
+    const used = new Set<number>();
+    const selection = selectDisjointCycles(cycles);
+    selection.cycles.forEach(cycle => {
+        cycle.forEach(p => used.add(p));
+        proposals.push({
+            id: `cycle-${cycle.map(p => pairs[p].donor.id).join('-')}`,
+            kind: cycle.length === 2 ? '2-way Cycle' : '3-way Cycle',
+            transplants: cycle.map((p, idx) => ({ donor: pairs[p].donor, recipient: pairs[cycle[(idx + 1) % cycle.length]].recipient })),
+        });
+    });
+
+    const pairedRecipientIds = new Set(pairs.map(p => p.recipient.id));
+    const usedWaitlistIds = new Set<string>();
+    donors.filter(d => d.donorType === 'Living Altruistic' && d.pledgedOrgans.includes('Kidney')).forEach(altruist => {
+        // Longest path through unused pairs starting from the altruistic donor
+        let bestPath: number[] = [];
+        const extend = (giver: Donor, path: number[]) => {
+            if (path.length > bestPath.length) bestPath = [...path];
+            if (path.length >= MAX_CHAIN_PAIRS) return;
+            pairs.forEach((pair, p) => {
+                if (used.has(p) || path.includes(p) || !canGive(giver, pair.recipient)) return;
+                path.push(p);
+                extend(pair.donor, path);
+                path.pop();
+            });
+        };
+        extend(altruist, []);
+
+        const lastDonor = bestPath.length > 0 ? pairs[bestPath[bestPath.length - 1]].donor : altruist;
+        const endRecipient = rankedRecipients.find(r =>
+            r.organNeeded === 'Kidney' && !pairedRecipientIds.has(r.id) && !usedWaitlistIds.has(r.id) && canGive(lastDonor, r));
+        if (bestPath.length === 0 && !endRecipient) return;
+
+        bestPath.forEach(p => used.add(p));
+        const transplants: ExchangeTransplant[] = [];
+        let giver = altruist;
+        bestPath.forEach(p => {
+            transplants.push({ donor: giver, recipient: pairs[p].recipient });
+            giver = pairs[p].donor;
+        });
+        if (endRecipient) {
+            usedWaitlistIds.add(endRecipient.id);
+            transplants.push({ donor: giver, recipient: endRecipient });
+        }
+        proposals.push({ id: `chain-${altruist.id}`, kind: 'Altruistic Chain', transplants });
+    });
+
+    return { proposals, exhaustive: selection.exhaustive };
+};
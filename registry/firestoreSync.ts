@@ -0,0 +1,303 @@
+import type { Firestore, FirestoreError } from 'firebase/firestore';
+import { asObject, isSameValue, STORAGE_PREFIX } from '../registry';
+import { canonicalJson } from './audit';
+import {
+    appendQuarantine, createChangeEmitter, isSharedCollection, RECORD_VALIDATORS, SESSION_ID, SHARED_COLLECTION_NAMES, STORAGE_SCHEMA_VERSION,
+} from './storage';
+import type { CollectionName, RegistryCollections, RegistryRecord, RegistryStore } from './storage';
+
+
+// --- FIRESTORE SYNC ADAPTER ---
+// Optional: enabled when FIREBASE_PROJECT_ID is set. Set FIREBASE_EMULATOR_HOST (e.g. "localhost:8080")
+// to run against `firebase emulators:start --only firestore` instead of the live service.
+// FIREBASE_STORAGE_BUCKET (and FIREBASE_STORAGE_EMULATOR_HOST) also share pledge document files.
+// Aadhaar digests are shared only when keyed by the service at AADHAAR_DIGEST_URL.
+export interface FirestoreSyncConfig {
+    firebase: { apiKey?: string; authDomain?: string; projectId: string; appId?: string; storageBucket?: string };
+    emulatorHost?: string;
+    storageEmulatorHost?: string;
+    collectionPrefix: string;
+}
+
+// Shape of every synced document. Deletes are written as tombstones so offline clients
+// cannot resurrect a record that another hospital removed.
+interface SyncedDocument {
+    data: Record<string, unknown> | null;
+    revision: number;
+    deleted: boolean;
+    updatedBy: string;
+    updatedAt: unknown;
+}
+
+interface KnownRemoteRecord {
+    revision: number;
+    data: Record<string, unknown> | null;
+}
+
+export const getFirestoreSyncConfig = (): FirestoreSyncConfig | null => {
+    const projectId = process.env.FIREBASE_PROJECT_ID;
+    if (!projectId) return null;
+    return {
+        firebase: {
+            projectId,
+            apiKey: process.env.FIREBASE_API_KEY || undefined,
+            authDomain: process.env.FIREBASE_AUTH_DOMAIN || undefined,
+            appId: process.env.FIREBASE_APP_ID || undefined,
+            storageBucket: process.env.FIREBASE_STORAGE_BUCKET || undefined,
+        },
+        emulatorHost: process.env.FIREBASE_EMULATOR_HOST || undefined,
+        storageEmulatorHost: process.env.FIREBASE_STORAGE_EMULATOR_HOST || undefined,
+        collectionPrefix: `${STORAGE_PREFIX}_`,
+    };
+};
+
+// Accounts synced before credentials moved to their own local-only collection may still carry these remotely
+const LEGACY_CREDENTIAL_FIELDS = ['passwordHash', 'passwordSalt', 'passwordIterations'];
+
+const hasLegacyCredentials = (data: Record<string, unknown> | null) => !!data && LEGACY_CREDENTIAL_FIELDS.some(field => field in data);
+
+const withoutLegacyCredentials = (data: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(data).filter(([field]) => !LEGACY_CREDENTIAL_FIELDS.includes(field)));
+
+// Aadhaar digests made with the public salt could be brute-forced from the last four digits, so only keyed ones are shared
+const hasUnkeyedAadhaarDigest = (data: Record<string, unknown> | null) => {
+    const aadhaar = asObject(data?.aadhaar);
+    return !!aadhaar && 'digest' in aadhaar && aadhaar.keyed !== true;
+};
+
+const hasUnsharedFields = (data: Record<string, unknown> | null) => hasLegacyCredentials(data) || hasUnkeyedAadhaarDigest(data);
+
+const withoutUnsharedFields = (data: Record<string, unknown>) => {
+    const shared = withoutLegacyCredentials(data);
+    if (!hasUnkeyedAadhaarDigest(shared)) return shared;
+    const { digest: _digest, ...aadhaar } = asObject(shared.aadhaar)!;
+    return { ...shared, aadhaar };
+};
+
+// Append-only logs kept on synced records, with the timestamp their entries are ordered by
+const APPEND_ONLY_FIELDS: Record<string, string> = {
+    listingHistory: 'at', changeHistory: 'at', history: 'at', contactAttempts: 'at', triageHistory: 'at', screeningReports: 'savedAt',
+};
+
+// Entries have no IDs of their own, so identical content counts as the same entry
+const unionEntries = (ours: unknown, theirs: unknown, timestampKey: string): unknown[] | undefined => {
+    if (!Array.isArray(ours) || !Array.isArray(theirs)) return undefined;
+    const remote = new Set(theirs.map(entry => canonicalJson(entry)));
+    const timestampOf = (entry: unknown) => Number(asObject(entry)?.[timestampKey] ?? 0);
+    return [...theirs, ...ours.filter(entry => !remote.has(canonicalJson(entry)))]
+        .map((entry, index) => ({ entry, index }))
+        .sort((a, b) => timestampOf(a.entry) - timestampOf(b.entry) || a.index - b.index)
+        .map(({ entry }) => entry);
+};
+
+// Three-way merge: fields this session changed since it last saw the remote copy win,
+// every other field takes the remote value. Append-only logs are unioned instead, so
+// entries appended concurrently on both sides are all kept.
+export const mergeRecords = (base: Record<string, unknown> | null, ours: Record<string, unknown>, theirs: Record<string, unknown>) => {
+    const merged: Record<string, unknown> = {};
+    new Set([...Object.keys(ours), ...Object.keys(theirs)]).forEach(key => {
+        const union = key in APPEND_ONLY_FIELDS ? unionEntries(ours[key], theirs[key], APPEND_ONLY_FIELDS[key]) : undefined;
+        merged[key] = union ?? (isSameValue(ours[key], base?.[key]) ? theirs[key] : ours[key]);
+    });
+    return merged;
+};
+
+const isOfflineError = (error: unknown) => {
+    const code = (error as Partial<FirestoreError> | null)?.code;
+    return code === 'unavailable' || code === 'failed-precondition' || code === 'deadline-exceeded';
+};
+
+// Wraps a local store: reads and writes stay local-first, every write is pushed to Firestore
+// and realtime snapshots from other sessions are written back locally and re-emitted.
+// Conflicts are detected with per-record revisions and resolved by field-level merge;
+// a remote delete always wins over a concurrent edit.
+export const createFirestoreSyncStore = (local: RegistryStore, config: FirestoreSyncConfig, quarantineStorage: Storage): RegistryStore => {
+    const emitter = createChangeEmitter();
+    const known = new Map<string, KnownRemoteRecord>();
+    const localRecords = new Map<string, Record<string, unknown>>();
+    const keyOf = (collection: CollectionName, id: string) => `${collection}/${id}`;
+    let connection: Promise<{ fs: typeof import('firebase/firestore'); db: Firestore }> | null = null;
+    let listening = false;
+    // Collections still waiting for their first snapshot from the server rather than the offline cache
+    const awaitingServer = new Set<CollectionName>(SHARED_COLLECTION_NAMES);
+    let markSynced: () => void = () => {};
+    const synced = new Promise<void>(resolve => { markSynced = resolve; });
+
+    const connect = () => connection ??= (async () => {
+        const [{ initializeApp }, fs] = await Promise.all([import('firebase/app'), import('firebase/firestore')]);
+        // One app per session, so separate stores in one process (as in the emulator tests) do not share a Firestore instance
+        const app = initializeApp(config.firebase, `lifeconnect-sync-${SESSION_ID}`);
+        const db = fs.initializeFirestore(app, {
+            ignoreUndefinedProperties: true,
+            localCache: typeof indexedDB !== 'undefined'
+                ? fs.persistentLocalCache({ tabManager: fs.persistentMultipleTabManager() })
+                : fs.memoryLocalCache(),
+        });
+        if (config.emulatorHost) {
+            const [host, port] = config.emulatorHost.split(':');
+            fs.connectFirestoreEmulator(db, host, Number(port || 8080));
+        }
+        return { fs, db };
+    })();
+
+    const collectionPath = (collection: CollectionName) => `${config.collectionPrefix}${collection}`;
+
+    // Writes a remote or merged result into the local store and tells subscribers about it
+    const applyLocally = async (collection: CollectionName, id: string, data: Record<string, unknown> | null, origin: string) => {
+        const key = keyOf(collection, id);
+        if (data === null) {
+            if (!localRecords.has(key)) return;
+            localRecords.delete(key);
+            await local.deleteRecords(collection, [id]);
+            emitter.emit({ collection, type: 'delete', id, origin, at: Date.now() });
+            return;
+        }
+        const reason = RECORD_VALIDATORS[collection](data);
+        if (reason) {
+            appendQuarantine(quarantineStorage, [{ collection, record: data, reason: `Rejected from sync: ${reason}`, schemaVersion: STORAGE_SCHEMA_VERSION, quarantinedAt: Date.now() }]);
+            return;
+        }
+        if (isSameValue(localRecords.get(key), data)) return;
+        localRecords.set(key, data);
+        const record = data as unknown as RegistryRecord;
+        await local.putRecords(collection, [record] as RegistryCollections[typeof collection]);
+        emitter.emit({ collection, type: 'put', id, record, origin, at: Date.now() });
+    };
+
+    const pushRecord = async (collection: CollectionName, id: string, record: Record<string, unknown> | null) => {
+        const data = record && hasUnsharedFields(record) ? withoutUnsharedFields(record) : record;
+        const { fs, db } = await connect();
+        const ref = fs.doc(db, collectionPath(collection), id);
+        const key = keyOf(collection, id);
+        const base = known.get(key);
+        try {
+            const result = await fs.runTransaction(db, async tx => {
+                const snapshot = await tx.get(ref);
+                const remote = snapshot.exists() ? snapshot.data() as SyncedDocument : null;
+                let resolved = data;
+                if (remote && remote.revision > (base?.revision ?? 0)) {
+                    if (remote.deleted) resolved = null;
+                    else if (data && remote.data) resolved = mergeRecords(base?.data ?? null, data, remote.data);
+                }
+                if (resolved && hasUnsharedFields(resolved)) resolved = withoutUnsharedFields(resolved);
+                const revision = (remote?.revision ?? 0) + 1;
+                const document: SyncedDocument = { data: resolved, revision, deleted: resolved === null, updatedBy: SESSION_ID, updatedAt: fs.serverTimestamp() };
+                tx.set(ref, document);
+                return { resolved, revision };
+            });
+            known.set(key, { revision: result.revision, data: result.resolved });
+            if (!isSameValue(result.resolved, data)) await applyLocally(collection, id, result.resolved, 'firestore-merge');
+        } catch (error) {
+            if (!isOfflineError(error)) {
+                console.error(`Firestore sync failed for ${key}:`, error);
+                return;
+            }
+            // Transactions need the server; offline writes are queued in the persistent cache instead
+            const revision = (base?.revision ?? 0) + 1;
+            known.set(key, { revision, data });
+            const document: SyncedDocument = { data, revision, deleted: data === null, updatedBy: SESSION_ID, updatedAt: fs.serverTimestamp() };
+            fs.setDoc(ref, document).catch(queuedError => console.error(`Queued Firestore write failed for ${key}:`, queuedError));
+        }
+    };
+
+    const listen = async () => {
+        const { fs, db } = await connect();
+        SHARED_COLLECTION_NAMES.forEach(collection => {
+            let isFirstSnapshot = true;
+            // Metadata changes are included so the switch from cached to server data is seen even when no document changed
+            fs.onSnapshot(fs.collection(db, collectionPath(collection)), { includeMetadataChanges: true }, snapshot => {
+                const applied = snapshot.docChanges().map(async change => {
+                    if (change.doc.metadata.hasPendingWrites) return;
+                    const id = change.doc.id;
+                    const remote = change.doc.data() as SyncedDocument;
+                    const hadUnsharedFields = hasUnsharedFields(remote.data);
+                    const data = change.type === 'removed' || remote.deleted ? null : hadUnsharedFields ? withoutUnsharedFields(remote.data!) : remote.data;
+                    known.set(keyOf(collection, id), { revision: remote.revision ?? 0, data });
+                    // Rewrite the shared copy so an old password hash or unkeyed Aadhaar digest stops being readable by every client
+                    if (hadUnsharedFields && data) void pushRecord(collection, id, data);
+                    if (remote.updatedBy === SESSION_ID) return;
+                    await applyLocally(collection, id, data, remote.updatedBy || 'firestore')
+                        .catch(error => console.error(`Applying remote change to ${collection}/${id} failed:`, error));
+                });
+                if (!snapshot.metadata.fromCache && awaitingServer.has(collection)) {
+                    void Promise.all(applied).then(() => {
+                        awaitingServer.delete(collection);
+                        if (awaitingServer.size === 0) markSynced();
+                    });
+                }
+                if (isFirstSnapshot) {
+                    isFirstSnapshot = false;
+                    // Upload records that exist only locally, e.g. created before sync was enabled
+                    localRecords.forEach((data, key) => {
+                        const [keyCollection, id] = key.split('/');
+                        if (keyCollection === collection && !known.has(key)) void pushRecord(collection, id, data);
+                    });
+                }
+            }, error => console.error(`Firestore listener for ${collection} stopped:`, error));
+        });
+    };
+
+    return {
+        load: async () => {
+            const result = await local.load();
+            SHARED_COLLECTION_NAMES.forEach(collection => {
+                result.data[collection].forEach(record => localRecords.set(keyOf(collection, record.id), record as unknown as Record<string, unknown>));
+            });
+            if (!listening) {
+                listening = true;
+                listen().catch(error => console.error('Firestore sync unavailable; continuing with local data only:', error));
+            }
+            return result;
+        },
+        putRecords: async (collection, records) => {
+            if (records.length === 0) return;
+            await local.putRecords(collection, records);
+            if (!isSharedCollection(collection)) return;
+            const at = Date.now();
+            records.forEach(record => {
+                const data = record as unknown as Record<string, unknown>;
+                localRecords.set(keyOf(collection, record.id), data);
+                emitter.emit({ collection, type: 'put', id: record.id, record, origin: SESSION_ID, at });
+                void pushRecord(collection, record.id, data);
+            });
+        },
+        deleteRecords: async (collection, ids) => {
+            if (ids.length === 0) return;
+            await local.deleteRecords(collection, ids);
+            if (!isSharedCollection(collection)) return;
+            const at = Date.now();
+            ids.forEach(id => {
+                localRecords.delete(keyOf(collection, id));
+                emitter.emit({ collection, type: 'delete', id, origin: SESSION_ID, at });
+                void pushRecord(collection, id, null);
+            });
+        },
+        findByIndex: local.findByIndex,
+        subscribe: emitter.subscribe,
+        whenSynced: () => synced,
+        // Counters live in one shared document per prefix and are bumped in a transaction, so two devices
+        // never get the same sequence. Transactions need the server, so reserving fails while offline.
+        reserveSequences: async (prefix, floor, count) => {
+            const { fs, db } = await connect();
+            const localFirst = await local.reserveSequences(prefix, floor, count);
+            const ref = fs.doc(db, `${config.collectionPrefix}idCounters`, prefix);
+            try {
+                const first = await fs.runTransaction(db, async tx => {
+                    const snapshot = await tx.get(ref);
+                    const last = snapshot.exists() ? Number((snapshot.data() as { last?: unknown }).last) || 0 : 0;
+                    const reserved = Math.max(last, localFirst - 1) + 1;
+                    tx.set(ref, { last: reserved + count - 1, updatedBy: SESSION_ID, updatedAt: fs.serverTimestamp() });
+                    return reserved;
+                });
+                // Keep the local counter level with the shared one
+                if (first > localFirst) await local.reserveSequences(prefix, first - 1, count);
+                return first;
+            } catch (error) {
+                if (isOfflineError(error)) throw new Error('Registry IDs can only be issued while connected to the shared registry. Please try again once you are back online.');
+                throw error;
+            }
+        },
+        getQuarantine: local.getQuarantine,
+        clearQuarantine: local.clearQuarantine,
+    };
+};
@@ -0,0 +1,17 @@
+import type { AuthSession, HospitalScope, UserAccount } from '../types';
+
+
+// --- HOSPITAL SCOPE ---
+// Coordinators manage only their own hospital and view others only where explicitly granted
+export const getHospitalScope = (session: AuthSession | null, account: UserAccount | undefined): HospitalScope => {
+    if (session?.role === 'Central Admin') return { manageableHospitalIds: null, viewableHospitalIds: null };
+    if (session?.role !== 'Hospital Coordinator' || !session.hospitalId) return { manageableHospitalIds: [], viewableHospitalIds: [] };
+    const granted = (account?.viewHospitalIds ?? []).filter(id => id !== session.hospitalId);
+    return { manageableHospitalIds: [session.hospitalId], viewableHospitalIds: [session.hospitalId, ...granted] };
+};
+
+export const canManageHospital = (scope: HospitalScope, hospitalId: string | undefined) =>
+    scope.manageableHospitalIds === null || (hospitalId !== undefined && scope.manageableHospitalIds.includes(hospitalId));
+
+export const canViewHospital = (scope: HospitalScope, hospitalId: string | undefined) =>
+    scope.viewableHospitalIds === null || (hospitalId !== undefined && scope.viewableHospitalIds.includes(hospitalId));
@@ -0,0 +1,64 @@
+import type { Donor, HlaTyping, ImmunologyAssessment, ImmunologyProfile, Recipient } from '../types';
+
+
+// --- IMMUNOLOGY HELPERS ---
+const HLA_LOCI: (keyof HlaTyping)[] = ['A', 'B', 'DR'];
+
+const parseAntigenList = (text: string): string[] =>
+    text.split(/[,\s]+/).map(antigen => antigen.trim().toUpperCase()).filter(Boolean);
+
+const isHlaTyped = (hla?: HlaTyping): hla is HlaTyping => !!hla && HLA_LOCI.every(locus => hla[locus].length > 0);
+
+// Counts donor antigens the recipient lacks, per locus (0-2 each, 0-6 overall)
+const countHlaMismatches = (donorHla: HlaTyping, recipientHla: HlaTyping) => {
+    const [A, B, DR] = HLA_LOCI.map(locus =>
+        Math.min(2, donorHla[locus].filter(antigen => !recipientHla[locus].includes(antigen)).length));
+    return { A, B, DR, total: A + B + DR };
+};
+
+// Virtual crossmatch: positive when the donor carries any antigen listed as unacceptable for the recipient
+export const assessImmunology = (donor: Donor, recipient: Recipient): ImmunologyAssessment => {
+    const donorHla = donor.immunology?.hla;
+    const recipientHla = recipient.immunology?.hla;
+    const mismatches = isHlaTyped(donorHla) && isHlaTyped(recipientHla) ? countHlaMismatches(donorHla, recipientHla) : null;
+    if (!isHlaTyped(donorHla)) {
+        return { mismatches, crossmatch: 'Not Tested', conflictingAntigens: [] };
+    }
+    const donorAntigens = HLA_LOCI.flatMap(locus => donorHla[locus]);
+    const conflictingAntigens = (recipient.immunology?.unacceptableAntigens || []).filter(antigen => donorAntigens.includes(antigen));
+    return { mismatches, crossmatch: conflictingAntigens.length > 0 ? 'Positive' : 'Negative', conflictingAntigens };
+};
+
+
+// Raw text inputs backing the immunology fields of the donor and hospital forms
+export interface ImmunologyFormFields {
+    hlaA: string;
+    hlaB: string;
+    hlaDR: string;
+    pra: string;
+    cpra: string;
+    unacceptableAntigens: string;
+}
+
+export const initialImmunologyForm: ImmunologyFormFields = { hlaA: '', hlaB: '', hlaDR: '', pra: '', cpra: '', unacceptableAntigens: '' };
+
+export const immunologyProfileToForm = (profile?: ImmunologyProfile): ImmunologyFormFields => ({
+    hlaA: profile?.hla?.A.join(', ') ?? '',
+    hlaB: profile?.hla?.B.join(', ') ?? '',
+    hlaDR: profile?.hla?.DR.join(', ') ?? '',
+    pra: profile?.pra === undefined ? '' : String(profile.pra),
+    cpra: profile?.cpra === undefined ? '' : String(profile.cpra),
+    unacceptableAntigens: profile?.unacceptableAntigens?.join(', ') ?? '',
+});
+
+export const buildImmunologyProfile = (fields: ImmunologyFormFields): ImmunologyProfile | undefined => {
+    const hla: HlaTyping = { A: parseAntigenList(fields.hlaA), B: parseAntigenList(fields.hlaB), DR: parseAntigenList(fields.hlaDR) };
+    const toPercent = (value: string) => value.trim() === '' ? undefined : Math.min(100, Math.max(0, Number(value)));
+    const profile: ImmunologyProfile = {
+        hla: HLA_LOCI.some(locus => hla[locus].length > 0) ? hla : undefined,
+        pra: toPercent(fields.pra),
+        cpra: toPercent(fields.cpra),
+        unacceptableAntigens: fields.unacceptableAntigens.trim() ? parseAntigenList(fields.unacceptableAntigens) : undefined,
+    };
+    return Object.values(profile).some(value => value !== undefined) ? profile : undefined;
+};
@@ -0,0 +1,147 @@
+import {
+    appendQuarantine, clearLocalStorageRegistry, COLLECTION_NAMES, createChangeEmitter, getStoredQuarantine, idCounterKey, migrateAndValidate,
+    QUARANTINE_KEY, readLocalStorageRegistry, recordId, SESSION_ID, STORAGE_SCHEMA_VERSION,
+} from './storage';
+import type { CollectionName, RawCollections, RegistryCollections, RegistryStore } from './storage';
+
+
+// --- INDEXEDDB REGISTRY STORE ---
+const INDEXED_DB_NAME = 'lifeconnect-registry';
+const INDEXED_DB_VERSION = 4;
+const META_STORE = 'meta';
+
+// Object store indexes; array-valued fields (e.g. pledgedOrgans) are indexed per entry
+const INDEXED_DB_INDEXES: Record<CollectionName, string[]> = {
+    donors: ['bloodGroup', 'pledgedOrgans'],
+    recipients: ['patientId', 'organNeeded', 'bloodGroup', 'hospitalId'],
+    interestNotifications: ['donorId', 'organ'],
+    matchOffers: ['recipientId', 'donorId', 'state'],
+    accounts: ['username', 'role', 'hospitalId'],
+    auditLog: ['sequence', 'recordId', 'actorId', 'action'],
+    credentials: ['accountId'],
+};
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const transactionToPromise = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openRegistryDatabase = (factory: IDBFactory): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = factory.open(INDEXED_DB_NAME, INDEXED_DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        COLLECTION_NAMES.forEach(collection => {
+            if (db.objectStoreNames.contains(collection)) return;
+            const store = db.createObjectStore(collection, { keyPath: 'id' });
+            INDEXED_DB_INDEXES[collection].forEach(index => store.createIndex(index, index, { multiEntry: index === 'pledgedOrgans' }));
+        });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// IndexedDB-backed store with per-record writes. On first open it imports whatever the
+// localStorage registry (versioned or legacy keys) holds, then clears those keys.
+export const createIndexedDbStore = (factory: IDBFactory, legacyStorage: Storage, fallback: RegistryCollections): RegistryStore => {
+    const emitter = createChangeEmitter();
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    let importPromise: Promise<void> | null = null;
+    const getDb = () => dbPromise ??= openRegistryDatabase(factory);
+
+    const readMeta = async (key: string): Promise<unknown> => {
+        const db = await getDb();
+        const entry = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+        return (entry as { value?: unknown } | undefined)?.value;
+    };
+
+    const writeAll = async (data: Partial<RawCollections>, meta: Record<string, unknown>) => {
+        const db = await getDb();
+        const tx = db.transaction([...COLLECTION_NAMES, META_STORE], 'readwrite');
+        (Object.keys(data) as CollectionName[]).forEach(collection => {
+            const store = tx.objectStore(collection);
+            data[collection]!.forEach(record => store.put(record));
+        });
+        Object.keys(meta).forEach(key => tx.objectStore(META_STORE).put({ key, value: meta[key] }));
+        await transactionToPromise(tx);
+    };
+
+    const importFromLocalStorage = async (now: number) => {
+        const legacy = readLocalStorageRegistry(legacyStorage, fallback, now);
+        appendQuarantine(legacyStorage, legacy.quarantined);
+        await writeAll(legacy.data, { schemaVersion: STORAGE_SCHEMA_VERSION, legacyImportedAt: now });
+        clearLocalStorageRegistry(legacyStorage);
+    };
+
+    return {
+        load: async () => {
+            const now = Date.now();
+            if (await readMeta('legacyImportedAt') === undefined) {
+                await (importPromise ??= importFromLocalStorage(now));
+            }
+            const db = await getDb();
+            const storedVersion = Number(await readMeta('schemaVersion') ?? STORAGE_SCHEMA_VERSION);
+            const tx = db.transaction(COLLECTION_NAMES);
+            const raw = {} as RawCollections;
+            await Promise.all(COLLECTION_NAMES.map(async collection => {
+                raw[collection] = await requestToPromise(tx.objectStore(collection).getAll());
+            }));
+
+            const { data, quarantined } = migrateAndValidate(raw, storedVersion, now);
+            if (quarantined.length > 0 || storedVersion < STORAGE_SCHEMA_VERSION) {
+                const cleanup = db.transaction([...COLLECTION_NAMES, META_STORE], 'readwrite');
+                quarantined.forEach(({ collection, record }) => cleanup.objectStore(collection).delete(recordId(record)));
+                COLLECTION_NAMES.forEach(collection => data[collection].forEach(record => cleanup.objectStore(collection).put(record)));
+                cleanup.objectStore(META_STORE).put({ key: 'schemaVersion', value: Math.max(storedVersion, STORAGE_SCHEMA_VERSION) });
+                await transactionToPromise(cleanup);
+            }
+            appendQuarantine(legacyStorage, quarantined);
+            return { data, quarantined: getStoredQuarantine(legacyStorage) };
+        },
+        putRecords: async (collection, records) => {
+            if (records.length === 0) return;
+            const db = await getDb();
+            const tx = db.transaction(collection, 'readwrite');
+            records.forEach(record => tx.objectStore(collection).put(record));
+            await transactionToPromise(tx);
+            const at = Date.now();
+            records.forEach(record => emitter.emit({ collection, type: 'put', id: record.id, record, origin: SESSION_ID, at }));
+        },
+        deleteRecords: async (collection, ids) => {
+            if (ids.length === 0) return;
+            const db = await getDb();
+            const tx = db.transaction(collection, 'readwrite');
+            ids.forEach(id => tx.objectStore(collection).delete(id));
+            await transactionToPromise(tx);
+            const at = Date.now();
+            ids.forEach(id => emitter.emit({ collection, type: 'delete', id, origin: SESSION_ID, at }));
+        },
+        findByIndex: async (collection, index, value) => {
+            const db = await getDb();
+            const store = db.transaction(collection).objectStore(collection);
+            return await requestToPromise(store.index(index).getAll(value)) as RegistryCollections[typeof collection];
+        },
+        subscribe: emitter.subscribe,
+        whenSynced: async () => {},
+        // A readwrite transaction on the meta store is exclusive, so other tabs wait for this one
+        reserveSequences: async (prefix, floor, count) => {
+            const db = await getDb();
+            const tx = db.transaction(META_STORE, 'readwrite');
+            const store = tx.objectStore(META_STORE);
+            const key = idCounterKey(prefix);
+            const entry = await requestToPromise(store.get(key)) as { value?: unknown } | undefined;
+            const first = Math.max(floor, typeof entry?.value === 'number' ? entry.value : 0) + 1;
+            store.put({ key, value: first + count - 1 });
+            await transactionToPromise(tx);
+            return first;
+        },
+        getQuarantine: () => getStoredQuarantine(legacyStorage),
+        clearQuarantine: () => legacyStorage.removeItem(QUARANTINE_KEY),
+    };
+};
@@ -0,0 +1,86 @@
+import type { Donor, ListingChange, ListingEvent, ListingEventKind, ListingState, Recipient } from '../types';
+import { MS_PER_DAY } from '../registry';
+import { availableOrganUnits, recordOrganTransplanted } from './matchingRules';
+
+
+// --- RECIPIENT LIFECYCLE ---
+const LISTING_STATES: ListingState[] = ['Active', 'Temporarily Inactive', 'Transplanted', 'Removed - Deceased', 'Removed - Recovered'];
+
+// Transplanted and removed listings are final; a new listing is needed to return to the list
+export const LISTING_TRANSITIONS: Record<ListingState, ListingState[]> = {
+    'Active': ['Temporarily Inactive', 'Transplanted', 'Removed - Deceased', 'Removed - Recovered'],
+    'Temporarily Inactive': ['Active', 'Transplanted', 'Removed - Deceased', 'Removed - Recovered'],
+    'Transplanted': [],
+    'Removed - Deceased': [],
+    'Removed - Recovered': [],
+};
+
+export const LISTING_STATE_CLASSES: Record<ListingState, string> = {
+    'Active': 'bg-emerald-500/20 text-emerald-300',
+    'Temporarily Inactive': 'bg-amber-500/20 text-amber-300',
+    'Transplanted': 'bg-sky-500/20 text-sky-300',
+    'Removed - Deceased': 'bg-slate-600/40 text-slate-300',
+    'Removed - Recovered': 'bg-slate-600/40 text-slate-300',
+};
+
+export const getListingState = (recipient: Recipient): ListingState => recipient.listingState ?? 'Active';
+
+export const isListingOpen = (recipient: Recipient) => LISTING_TRANSITIONS[getListingState(recipient)].length > 0;
+
+// Listing changes and transfers wait until any match offer for the patient has been resolved
+export const hasOfferInProgress = (recipient: Recipient) => recipient.status === 'Offer Pending' || recipient.status === 'Offer Accepted';
+
+export const latestListingEvent = (recipient: Recipient, kind: ListingEventKind) =>
+    [...(recipient.listingHistory ?? [])].reverse().find(event => event.kind === kind);
+
+export const isReviewOverdue = (recipient: Recipient, now: number = Date.now()) => {
+    if (getListingState(recipient) !== 'Temporarily Inactive') return false;
+    const reviewDate = latestListingEvent(recipient, 'Temporarily Inactive')?.reviewDate;
+    return !!reviewDate && new Date(reviewDate).getTime() < now;
+};
+
+// Returns a readable reason the change cannot be applied, or null
+export const validateListingChange = (recipient: Recipient, change: ListingChange, donors: Donor[], now: number = Date.now()): string | null => {
+    const from = getListingState(recipient);
+    if (!LISTING_TRANSITIONS[from].includes(change.state)) return `A ${from} listing cannot be changed to ${change.state}.`;
+    if (!change.reason.trim()) return 'Please record a reason for the status change.';
+    if (change.state === 'Temporarily Inactive') {
+        const review = change.reviewDate ? new Date(change.reviewDate).getTime() : NaN;
+        if (Number.isNaN(review) || review < now - MS_PER_DAY) return 'Temporarily inactive listings need a review date that is not in the past.';
+    }
+    if (change.state === 'Transplanted') {
+        const date = change.transplantDate ? new Date(change.transplantDate).getTime() : NaN;
+        if (Number.isNaN(date) || date > now) return 'Please record the transplant date.';
+        if (change.transplantDonorId) {
+            const linked = donors.find(d => d.id === change.transplantDonorId);
+            if (!linked) return 'The linked donor is not on the registry.';
+            if (availableOrganUnits(linked, recipient.organNeeded) <= 0) return `The linked donor has no unused ${recipient.organNeeded} left to transplant.`;
+        }
+    }
+    return null;
+};
+
+export const appendListingEvent = (recipient: Recipient, event: ListingEvent): Recipient => ({
+    ...recipient,
+    listingState: event.kind === 'Transferred' ? recipient.listingState : event.kind,
+    listingHistory: [...(recipient.listingHistory ?? []), event],
+});
+
+// Applies a validated change. Marking a listing Transplanted with a linked donor uses up that donor's organ,
+// exactly as when a match offer reaches Transplanted; the updated donor is returned so the caller can save it.
+export const applyListingChange = (recipient: Recipient, change: ListingChange, donors: Donor[], actorName: string, now: number): { recipient: Recipient; usedDonor?: Donor } => {
+    const withEvent = appendListingEvent(recipient, {
+        kind: change.state,
+        at: now,
+        actorName,
+        reason: change.reason,
+        reviewDate: change.reviewDate,
+        transplantDonorId: change.transplantDonorId,
+        transplantDate: change.transplantDate,
+    });
+    const linkedDonor = change.state === 'Transplanted' ? donors.find(d => d.id === change.transplantDonorId) : undefined;
+    return {
+        recipient: { ...withEvent, status: change.state === 'Transplanted' ? 'Transplanted' : 'Searching' },
+        usedDonor: linkedDonor && recordOrganTransplanted(linkedDonor, recipient.organNeeded),
+    };
+};
@@ -0,0 +1,145 @@
+import type { Donor, MatchResult, Organ, Recipient } from '../types';
+import { ORGANS } from '../registry';
+import { isDonorVerified } from './documents';
+import { assessImmunology } from './immunology';
+import { getListingState } from './listings';
+import { availableOrganUnits, checkOrganRule, isDeceasedPledge } from './matchingRules';
+import { scoreAllocation } from './scoring';
+
+
+// --- MATCHING ALGORITHMS ---
+// Walks recipients in rank order and hands each the best-scoring eligible donor with a unit of that organ left.
+// Units follow unitsPerDonor as in the optimal matcher, so one kidney or cornea donor can serve two recipients.
+export const runGreedyMatching = (donors: Donor[], rankedRecipients: Recipient[], now: number): MatchResult[] => {
+    const matches: MatchResult[] = [];
+    const donorOrganMap = new Map<Organ, { donor: Donor; units: number }[]>();
+    donors.filter(isDeceasedPledge).forEach(d => {
+        d.pledgedOrgans.forEach(o => {
+            const units = availableOrganUnits(d, o);
+            if (units <= 0) return;
+            if (!donorOrganMap.has(o)) donorOrganMap.set(o, []);
+            donorOrganMap.get(o)?.push({ donor: d, units });
+        })
+    });
+
+    rankedRecipients.forEach(recipient => {
+        const compatibleDonors = donorOrganMap.get(recipient.organNeeded) || [];
+        const compatibleAndAvailable = compatibleDonors
+            .filter(entry => entry.units > 0 && checkOrganRule(entry.donor, recipient).eligible)
+            .map(entry => ({ entry, score: scoreAllocation({ recipient, donor: entry.donor, now }) }))
+            .sort((a, b) => b.score.total - a.score.total);
+
+        if (compatibleAndAvailable.length > 0) {
+            const { entry, score } = compatibleAndAvailable[0];
+            matches.push({ recipient, donor: entry.donor, score, immunology: assessImmunology(entry.donor, recipient) });
+            entry.units -= 1;
+        }
+    });
+    return matches;
+};
+
+// Hungarian algorithm (Kuhn-Munkres) minimising total cost; rows must not outnumber columns.
+// Returns the assigned column index for each row.
+export const solveAssignment = (cost: number[][]): number[] => {
+    const n = cost.length;
+    const m = n > 0 ? cost[0].length : 0;
+    const u = new Array(n + 1).fill(0);
+    const v = new Array(m + 1).fill(0);
+    const p = new Array(m + 1).fill(0);
+    const way = new Array(m + 1).fill(0);
+
+    for (let i = 1; i <= n; i++) {
+        p[0] = i;
+        let j0 = 0;
+        const minv = new Array(m + 1).fill(Infinity);
+        const used = new Array(m + 1).fill(false);
+        do {
+            used[j0] = true;
+            const i0 = p[j0];
+            let delta = Infinity;
+            let j1 = 0;
+            for (let j = 1; j <= m; j++) {
+                if (used[j]) continue;
+                const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+                if (cur < minv[j]) { minv[j] = cur; way[j] = j0; }
+                if (minv[j] < delta) { delta = minv[j]; j1 = j; }
+            }
+            for (let j = 0; j <= m; j++) {
+                if (used[j]) { u[p[j]] += delta; v[j] -= delta; }
+                else minv[j] -= delta;
+            }
+            j0 = j1;
+        } while (p[j0] !== 0);
+        do {
+            const j1 = way[j0];
+            p[j0] = p[j1];
+            j0 = j1;
+        } while (j0);
+    }
+
+    const assignment = new Array(n).fill(-1);
+    for (let j = 1; j <= m; j++) {
+        if (p[j]) assignment[p[j] - 1] = j - 1;
+    }
+    return assignment;
+};
+
+// Solves the whole allocation as a weighted bipartite matching between recipients and donor-organ
+// units, maximising the total allocation score. A multi-organ donor contributes one unit per organ
+// still available, so organs already used by a recorded transplant are never offered again.
+export const runOptimalMatching = (donors: Donor[], recipients: Recipient[], now: number): MatchResult[] => {
+    const units = donors.filter(isDeceasedPledge).flatMap(donor => donor.pledgedOrgans.flatMap(organ =>
+        Array.from({ length: Math.max(0, availableOrganUnits(donor, organ)) }, () => ({ donor, organ }))));
+
+    const candidates = recipients.map(recipient => units.map(unit =>
+        unit.organ === recipient.organNeeded && checkOrganRule(unit.donor, recipient).eligible
+            ? scoreAllocation({ recipient, donor: unit.donor, now })
+            : null));
+    const matchable = recipients.map((recipient, i) => ({ recipient, scores: candidates[i] })).filter(row => row.scores.some(Boolean));
+    if (matchable.length === 0) return [];
+
+    // Each recipient also gets a private zero-cost "unmatched" column so nobody is forced onto an ineligible unit
+    const INELIGIBLE = 1e9;
+    const cost = matchable.map((row, i) => [
+        ...row.scores.map(score => score ? -score.total : INELIGIBLE),
+        ...matchable.map((_, k) => k === i ? 0 : INELIGIBLE),
+    ]);
+
+    return solveAssignment(cost).flatMap((column, i) => {
+        const score = column < units.length ? matchable[i].scores[column] : null;
+        if (!score) return [];
+        const { recipient } = matchable[i];
+        const { donor } = units[column];
+        return [{ recipient, donor, score, immunology: assessImmunology(donor, recipient) }];
+    });
+};
+
+export const totalMatchScore = (matches: MatchResult[]) => matches.reduce((sum, match) => sum + match.score.total, 0);
+
+
+// --- SUPPLY AND DEMAND ---
+export interface OrganSupplyDemand {
+    organ: Organ;
+    // Recipients with an active listing for the organ
+    demand: number;
+    // Deceased-donor pledges with verified documents and an unused unit of the organ
+    supply: number;
+    // Pledges with an unused unit that are still waiting for document verification
+    awaitingVerification: number;
+}
+
+// One set of figures for the dashboard, the urgency analysis and the chat tool, so none of them counts
+// withdrawn, transplanted, living-donor or unverified pledges as supply
+export const summarizeSupplyDemand = (donors: Donor[], recipients: Recipient[]): OrganSupplyDemand[] => {
+    const pledges = donors.filter(isDeceasedPledge);
+    return ORGANS.map(organ => {
+        const unused = pledges.filter(d => availableOrganUnits(d, organ) > 0);
+        const supply = unused.filter(isDonorVerified).length;
+        return {
+            organ,
+            demand: recipients.filter(r => r.organNeeded === organ && getListingState(r) === 'Active').length,
+            supply,
+            awaitingVerification: unused.length - supply,
+        };
+    });
+};
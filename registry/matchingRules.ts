@@ -0,0 +1,131 @@
+import type { Donor, Organ, Recipient, ScoreFactorId } from '../types';
+import { ageInYears, donorHospitalDistance, isBloodTypeCompatible } from '../registry';
+import { isDonorVerified } from './documents';
+import { assessImmunology } from './immunology';
+
+
+// --- ORGAN MATCHING RULES ---
+type MatchAttribute = 'bloodGroup' | 'hla' | 'crossmatch' | 'donorAge' | 'distance';
+
+interface OrganMatchingRule {
+    // Attributes that must pass before a donor is proposed at all
+    required: MatchAttribute[];
+    // Scoring factors that contribute to ranking for this organ
+    scored: ScoreFactorId[];
+    maxDonorAge?: number;
+    maxDistanceKm?: number;
+    maxHlaMismatches?: number;
+    // Separately allocatable units per donor (two kidneys, two corneas); defaults to 1
+    unitsPerDonor?: number;
+    description: string;
+}
+
+interface RuleCheckResult {
+    eligible: boolean;
+    reasons: string[];
+}
+
+export const ORGAN_MATCHING_RULES: Record<Organ, OrganMatchingRule> = {
+    'Heart': {
+        required: ['bloodGroup', 'crossmatch', 'distance'],
+        scored: ['urgency', 'waitingTime', 'bloodGroup', 'organRule', 'pediatric', 'distance'],
+        maxDistanceKm: 500,
+        description: 'ABO compatible; short ischemic window limits transport distance.',
+    },
+    'Lungs': {
+        required: ['bloodGroup', 'crossmatch', 'distance'],
+        scored: ['urgency', 'severity', 'waitingTime', 'bloodGroup', 'organRule', 'pediatric', 'distance'],
+        maxDistanceKm: 500,
+        description: 'ABO compatible; short ischemic window limits transport distance.',
+    },
+    'Liver': {
+        required: ['bloodGroup', 'distance'],
+        scored: ['urgency', 'severity', 'waitingTime', 'bloodGroup', 'organRule', 'pediatric', 'distance'],
+        maxDistanceKm: 800,
+        description: 'ABO compatible within a regional transport radius.',
+    },
+    'Kidney': {
+        required: ['bloodGroup', 'crossmatch', 'donorAge'],
+        scored: ['urgency', 'severity', 'waitingTime', 'bloodGroup', 'hlaMatch', 'sensitization', 'organRule', 'pediatric', 'distance'],
+        maxDonorAge: 70,
+        unitsPerDonor: 2,
+        description: 'ABO compatible donor aged 70 or under; waiting time weighs heavily.',
+    },
+    'Pancreas': {
+        required: ['bloodGroup', 'crossmatch', 'donorAge'],
+        scored: ['urgency', 'waitingTime', 'bloodGroup', 'hlaMatch', 'sensitization', 'pediatric', 'distance'],
+        maxDonorAge: 50,
+        description: 'ABO compatible donor aged 50 or under.',
+    },
+    'Eye': {
+        required: [],
+        scored: ['urgency', 'waitingTime', 'pediatric', 'distance'],
+        unitsPerDonor: 2,
+        description: 'Cornea grafts are avascular, so no ABO matching is needed.',
+    },
+    'Bone Marrow': {
+        required: ['hla', 'crossmatch'],
+        scored: ['urgency', 'waitingTime', 'hlaMatch', 'pediatric'],
+        maxHlaMismatches: 1,
+        description: 'HLA matched (5/6 or better); ABO mismatch is manageable post-transplant.',
+    },
+};
+
+const ATTRIBUTE_CHECKS: Record<MatchAttribute, (donor: Donor, recipient: Recipient, rule: OrganMatchingRule) => string | null> = {
+    bloodGroup: (donor, recipient) =>
+        isBloodTypeCompatible(donor.bloodGroup, recipient.bloodGroup) ? null : `Blood group ${donor.bloodGroup} is not compatible with ${recipient.bloodGroup}`,
+    hla: (donor, recipient, rule) => {
+        const mismatches = assessImmunology(donor, recipient).mismatches;
+        if (!mismatches) return 'HLA typing not recorded';
+        return rule.maxHlaMismatches !== undefined && mismatches.total > rule.maxHlaMismatches
+            ? `${mismatches.total} HLA mismatches exceed limit of ${rule.maxHlaMismatches}`
+            : null;
+    },
+    crossmatch: (donor, recipient) => {
+        const { crossmatch, conflictingAntigens } = assessImmunology(donor, recipient);
+        return crossmatch === 'Positive' ? `Positive virtual crossmatch (${conflictingAntigens.join(', ')})` : null;
+    },
+    donorAge: (donor, _recipient, rule) => {
+        const age = ageInYears(donor.dob);
+        if (age === null) return 'Donor age unknown';
+        return rule.maxDonorAge !== undefined && age > rule.maxDonorAge ? `Donor age ${age} exceeds limit of ${rule.maxDonorAge}` : null;
+    },
+    distance: (donor, recipient, rule) => {
+        if (rule.maxDistanceKm === undefined) return null;
+        const route = donorHospitalDistance(donor, recipient);
+        // Unknown locations are left for the coordinator to confirm rather than excluded outright
+        if (!route) return null;
+        return route.km > rule.maxDistanceKm ? `${route.km} km exceeds transport limit of ${rule.maxDistanceKm} km` : null;
+    },
+};
+
+// Living donors are allocated through paired exchange, never through the deceased-donor matcher
+export const isDeceasedPledge = (donor: Donor) => !donor.donorType || donor.donorType === 'Deceased Pledge';
+
+// Units of a pledged organ that no recorded transplant has used yet
+export const availableOrganUnits = (donor: Donor, organ: Organ) =>
+    !donor.pledgedOrgans.includes(organ) ? 0
+        : (ORGAN_MATCHING_RULES[organ].unitsPerDonor ?? 1) - (donor.transplantedOrgans ?? []).filter(o => o === organ).length;
+
+export const recordOrganTransplanted = (donor: Donor, organ: Organ): Donor =>
+    ({ ...donor, transplantedOrgans: [...(donor.transplantedOrgans ?? []), organ] });
+
+// Checks a donor against the required attributes of the recipient's organ rule. Every matcher, the offer
+// cascade and interest confirmation go through here, so pledges without verified documents are never proposed;
+// living donors are worked up by their own transplant hospital instead.
+export const checkOrganRule = (donor: Donor, recipient: Recipient): RuleCheckResult => {
+    const rule = ORGAN_MATCHING_RULES[recipient.organNeeded];
+    if (isDeceasedPledge(donor) && !isDonorVerified(donor)) {
+        return { eligible: false, reasons: [`Donor documents are ${donor.verification?.status.toLowerCase() ?? 'not yet submitted'}, not verified`] };
+    }
+    if (!donor.pledgedOrgans.includes(recipient.organNeeded)) {
+        return { eligible: false, reasons: [`Donor has not pledged ${recipient.organNeeded}`] };
+    }
+    if (availableOrganUnits(donor, recipient.organNeeded) <= 0) {
+        return { eligible: false, reasons: [`Donor's pledged ${recipient.organNeeded} has already been transplanted`] };
+    }
+    const reasons = rule.required
+        .map(attribute => ATTRIBUTE_CHECKS[attribute](donor, recipient, rule))
+        .filter((reason): reason is string => reason !== null);
+    return { eligible: reasons.length === 0, reasons };
+};
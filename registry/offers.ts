@@ -0,0 +1,125 @@
+import type { Donor, MatchOffer, OfferState, Organ, Recipient, RecipientStatus } from '../types';
+import { appendListingEvent, getListingState } from './listings';
+import { checkOrganRule, recordOrganTransplanted } from './matchingRules';
+import { scoreAllocation } from './scoring';
+
+
+// --- MATCH OFFER WORKFLOW ---
+const OFFER_RESPONSE_WINDOW_MS = 60 * 60 * 1000;
+
+export const DECLINE_REASONS = [
+    'Donor organ quality',
+    'Recipient medically unsuitable',
+    'Positive crossmatch',
+    'Recipient unreachable',
+    'Recipient declined',
+    'Logistics / transport',
+    'Other',
+];
+
+export const OFFER_TRANSITIONS: Record<OfferState, OfferState[]> = {
+    'Proposed': ['Offered', 'Declined'],
+    'Offered': ['Accepted', 'Declined', 'Expired'],
+    'Accepted': ['Transplanted', 'Declined'],
+    'Declined': [],
+    'Transplanted': [],
+    'Expired': [],
+};
+
+export const RECIPIENT_STATUS_FOR_OFFER: Record<OfferState, RecipientStatus> = {
+    'Proposed': 'Potential Match Found',
+    'Offered': 'Offer Pending',
+    'Accepted': 'Offer Accepted',
+    'Transplanted': 'Transplanted',
+    'Declined': 'Searching',
+    'Expired': 'Searching',
+};
+
+export const ACTIVE_OFFER_STATES: OfferState[] = ['Proposed', 'Offered', 'Accepted'];
+
+// An offer still in progress for the recipient, other than the one being changed; a recipient holds at most one at a time
+const findActiveOffer = (offers: MatchOffer[], recipientId: string, exceptOfferId?: string) =>
+    offers.find(o => o.id !== exceptOfferId && o.recipientId === recipientId && ACTIVE_OFFER_STATES.includes(o.state));
+
+export const hasActiveOffer = (offers: MatchOffer[], recipientId: string) => !!findActiveOffer(offers, recipientId);
+
+export const isAwaitingAllocation = (recipient: Recipient) =>
+    getListingState(recipient) === 'Active' && (recipient.status === 'Searching' || recipient.status === 'Potential Match Found');
+
+export const createMatchOffer = (donor: Donor, recipient: Recipient, backups: Recipient[], now: number, previousOfferId?: string): MatchOffer => ({
+    id: `mo${now}-${recipient.id}`,
+    donorId: donor.id,
+    recipientId: recipient.id,
+    organ: recipient.organNeeded,
+    state: 'Proposed',
+    score: scoreAllocation({ recipient, donor, now }).total,
+    backupRecipientIds: backups.map(r => r.id),
+    previousOfferId,
+    createdAt: now,
+    history: [{ state: 'Proposed', at: now, note: previousOfferId ? 'Cascaded from previous offer' : undefined }],
+});
+
+// Other recipients who could take the same donor organ, best score first
+export const rankBackupRecipients = (donor: Donor, organ: Organ, recipients: Recipient[], excludeId: string, now: number): Recipient[] =>
+    recipients
+        .filter(r => r.id !== excludeId && r.organNeeded === organ && isAwaitingAllocation(r) && checkOrganRule(donor, r).eligible)
+        .map(r => ({ r, total: scoreAllocation({ recipient: r, donor, now }).total }))
+        .sort((a, b) => b.total - a.total)
+        .map(({ r }) => r);
+
+const transitionOffer = (offer: MatchOffer, to: OfferState, now: number, note?: string): MatchOffer => {
+    if (!OFFER_TRANSITIONS[offer.state].includes(to)) {
+        throw new Error(`Invalid offer transition from ${offer.state} to ${to}`);
+    }
+    return {
+        ...offer,
+        state: to,
+        expiresAt: to === 'Offered' ? now + OFFER_RESPONSE_WINDOW_MS : offer.expiresAt,
+        declineReason: to === 'Declined' ? note : offer.declineReason,
+        history: [...offer.history, { state: to, at: now, note }],
+    };
+};
+
+interface OfferWorkflowState {
+    offers: MatchOffer[];
+    recipients: Recipient[];
+    donors: Donor[];
+}
+
+// Applies a transition, keeps the recipient's status in step with it, uses up the donor organ on
+// transplant, and on decline or expiry cascades the donor organ to the next still-eligible backup recipient
+// who has no other offer in progress. A recipient whose offer ends keeps the status of any other offer they still hold.
+export const applyOfferTransition = (state: OfferWorkflowState, offerId: string, to: OfferState, now: number, note?: string): OfferWorkflowState => {
+    const offer = state.offers.find(o => o.id === offerId);
+    if (!offer) return state;
+    const donors = to === 'Transplanted'
+        ? state.donors.map(d => d.id === offer.donorId ? recordOrganTransplanted(d, offer.organ) : d)
+        : state.donors;
+    const updated = transitionOffer(offer, to, now, note);
+    let offers = state.offers.map(o => o.id === offerId ? updated : o);
+    let recipients = state.recipients.map(r => {
+        if (r.id !== offer.recipientId) return r;
+        const otherOffer = to === 'Declined' || to === 'Expired' ? findActiveOffer(offers, r.id, offerId) : undefined;
+        const withStatus = { ...r, status: RECIPIENT_STATUS_FOR_OFFER[otherOffer?.state ?? to] };
+        return to === 'Transplanted'
+            ? appendListingEvent(withStatus, { kind: 'Transplanted', at: now, actorName: 'Match offer workflow', reason: note ?? 'Transplant recorded on match offer', transplantDonorId: offer.donorId, transplantDate: new Date(now).toISOString().slice(0, 10) })
+            : withStatus;
+    });
+
+    if (to === 'Declined' || to === 'Expired') {
+        const donor = donors.find(d => d.id === offer.donorId);
+        const nextIndex = donor ? offer.backupRecipientIds.findIndex(id => {
+            const candidate = recipients.find(r => r.id === id);
+            return !!candidate && isAwaitingAllocation(candidate) && !hasActiveOffer(offers, candidate.id) && checkOrganRule(donor, candidate).eligible;
+        }) : -1;
+        if (donor && nextIndex >= 0) {
+            const next = recipients.find(r => r.id === offer.backupRecipientIds[nextIndex])!;
+            const remaining = offer.backupRecipientIds.slice(nextIndex + 1)
+                .map(id => recipients.find(r => r.id === id))
+                .filter((r): r is Recipient => !!r && !hasActiveOffer(offers, r.id));
+            offers = [createMatchOffer(donor, next, remaining, now, offer.id), ...offers];
+            recipients = recipients.map(r => r.id === next.id ? { ...r, status: RECIPIENT_STATUS_FOR_OFFER['Proposed'] } : r);
+        }
+    }
+    return { offers, recipients, donors };
+};
@@ -0,0 +1,59 @@
+import type { Hospital, Organ } from '../types';
+import { asObject, isString } from '../registry';
+import { VERHOEFF_MULTIPLY, VERHOEFF_PERMUTE } from './aadhaar';
+
+
+// --- REGISTRY IDS ---
+// Patient IDs look like NOD-BLR001-000042-4 (region, hospital number, sequence, check digit) and pledge IDs like PLG-KA-000042-0.
+// The check digit is the Verhoeff digit of every number in the ID, so single-digit typos and adjacent swaps are caught.
+const REGION_CODES: Record<string, string> = { Bangalore: 'BLR', Mysore: 'MYS', Tumakuru: 'TMK' };
+// Pledges are not tied to a hospital, so they carry the state registry's code
+export const PLEDGE_ID_PREFIX = 'PLG-KA';
+const REGISTRY_SEQUENCE_DIGITS = 6;
+const VERHOEFF_INVERSE = [0, 4, 3, 2, 1, 5, 6, 7, 8, 9];
+
+export const verhoeffCheckDigit = (digits: string) => {
+    let check = 0;
+    digits.split('').reverse().forEach((digit, i) => {
+        check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[(i + 1) % 8][Number(digit)]];
+    });
+    return String(VERHOEFF_INVERSE[check]);
+};
+
+export const patientIdPrefix = (hospital: Hospital) => `NOD-${REGION_CODES[hospital.city] ?? 'IND'}${hospital.mockId.replace(/\D/g, '')}`;
+
+export const formatRegistryId = (prefix: string, sequence: number) => {
+    const serial = String(sequence).padStart(REGISTRY_SEQUENCE_DIGITS, '0');
+    return `${prefix}-${serial}-${verhoeffCheckDigit(prefix.replace(/\D/g, '') + serial)}`;
+};
+
+// Null for IDs issued before check digits existed (e.g. NOD-1701)
+export const parseRegistryId = (id: string): { prefix: string; sequence: number; checkValid: boolean } | null => {
+    const match = /^((?:NOD|PLG)-[A-Z0-9]+)-(\d{6,})-(\d)$/.exec(id.trim().toUpperCase());
+    if (!match) return null;
+    const [, prefix, serial, check] = match;
+    return { prefix, sequence: Number(serial), checkValid: verhoeffCheckDigit(prefix.replace(/\D/g, '') + serial) === check };
+};
+
+// IDs carried by a record, or by the before/after snapshots of an audit entry, so IDs of removed records are never reissued
+const registryIdsOf = (record: unknown): string[] => {
+    const obj = asObject(record);
+    if (!obj) return [];
+    const pledgeIds = Object.values(asObject(obj.pledgeIds) ?? {}).filter(isString) as string[];
+    return [...(isString(obj.patientId) ? [obj.patientId as string] : []), ...pledgeIds, ...registryIdsOf(obj.before), ...registryIdsOf(obj.after)];
+};
+
+export const collectIssuedIds = (records: unknown[]) => new Set(records.flatMap(registryIdsOf));
+
+export const highestIssuedSequence = (prefix: string, issued: Set<string>) =>
+    Math.max(0, ...Array.from(issued, parseRegistryId).filter(parsed => parsed?.prefix === prefix).map(parsed => parsed!.sequence));
+
+// Only for migrations, which run before the store can reserve sequences; the new ID is added to `issued` so a batch stays unique
+export const issueRegistryId = (prefix: string, issued: Set<string>) => {
+    const id = formatRegistryId(prefix, highestIssuedSequence(prefix, issued) + 1);
+    issued.add(id);
+    return id;
+};
+
+export const issuePledgeIds = (organs: Organ[], existing: Partial<Record<Organ, string>> | undefined, nextId: () => string): Partial<Record<Organ, string>> =>
+    organs.reduce((ids, organ) => ids[organ] ? ids : { ...ids, [organ]: nextId() }, { ...existing });
@@ -0,0 +1,155 @@
+import type { AllocationScore, Donor, Organ, Recipient, ScoreFactorId } from '../types';
+import { ageInYears, daysSince, donorHospitalDistance, isBloodTypeCompatible } from '../registry';
+import { assessImmunology } from './immunology';
+import { ORGAN_MATCHING_RULES } from './matchingRules';
+import { currentSeverity, estimateKdpi, LONGEVITY_MATCH_PERCENTILE } from './severity';
+
+
+// --- ALLOCATION SCORING ENGINE ---
+interface ScoringContext {
+    recipient: Recipient;
+    // Donor-dependent factors (blood group exactness, distance) score 0 when no donor is given
+    donor?: Donor;
+    now: number;
+}
+
+interface ScoreFactor {
+    id: ScoreFactorId;
+    label: string;
+    weight: number;
+    evaluate: (ctx: ScoringContext) => { points: number; detail: string };
+}
+
+// Organs with short preservation windows get an extra boost for sicker patients
+const TIME_CRITICAL_ORGANS: Organ[] = ['Heart', 'Lungs', 'Liver'];
+
+// Highly sensitized patients rarely find a crossmatch-negative donor, so a compatible offer is worth more to them.
+// Sliding scale modelled on kidney cPRA points, steepest above 95%.
+const sensitizationPoints = (percent: number) =>
+    percent >= 99 ? 150 : percent >= 95 ? 100 : percent >= 80 ? 50 : percent >= 50 ? 20 : percent >= 20 ? 5 : 0;
+
+const SCORING_FACTORS: ScoreFactor[] = [
+    {
+        id: 'urgency',
+        label: 'Urgency',
+        weight: 1,
+        evaluate: ({ recipient }) => {
+            const points = recipient.urgency === 'Critical' ? 150 : recipient.urgency === 'High' ? 100 : 50;
+            return { points, detail: `${recipient.urgency} urgency` };
+        },
+    },
+    {
+        id: 'severity',
+        label: 'Severity Score',
+        weight: 1,
+        evaluate: ({ recipient, donor, now }) => {
+            const severity = currentSeverity(recipient, now);
+            if (!severity) return { points: 0, detail: 'No severity score recorded' };
+            switch (severity.kind) {
+                // MELD 40 is worth about as much as Critical urgency
+                case 'MELD':
+                case 'MELD-Na':
+                    return { points: severity.value * 4, detail: severity.detail };
+                case 'LAS':
+                    return { points: severity.value * 1.5, detail: severity.detail };
+                case 'EPTS': {
+                    if (!donor) return { points: 0, detail: `${severity.detail}; longevity match needs a donor` };
+                    const kdpi = estimateKdpi(donor, now);
+                    if (kdpi === null) return { points: 0, detail: `${severity.detail}; donor KDPI unknown` };
+                    const isLongevityMatch = severity.value <= LONGEVITY_MATCH_PERCENTILE && kdpi <= LONGEVITY_MATCH_PERCENTILE;
+                    return { points: isLongevityMatch ? 40 : 0, detail: `${severity.detail}, donor KDPI ~${kdpi}%${isLongevityMatch ? ' (longevity match)' : ''}` };
+                }
+            }
+        },
+    },
+    {
+        id: 'waitingTime',
+        label: 'Waiting Time',
+        weight: 1,
+        evaluate: ({ recipient, now }) => {
+            const days = daysSince(recipient.timeOnList, now);
+            return { points: days, detail: `${days} day(s) on list` };
+        },
+    },
+    {
+        id: 'bloodGroup',
+        label: 'Blood Group',
+        weight: 1,
+        evaluate: ({ recipient, donor }) => {
+            if (!donor) return { points: 0, detail: 'No donor selected' };
+            if (donor.bloodGroup === recipient.bloodGroup) return { points: 20, detail: `Identical (${donor.bloodGroup})` };
+            if (isBloodTypeCompatible(donor.bloodGroup, recipient.bloodGroup)) return { points: 5, detail: `Compatible (${donor.bloodGroup} → ${recipient.bloodGroup})` };
+            return { points: 0, detail: `Incompatible (${donor.bloodGroup} → ${recipient.bloodGroup})` };
+        },
+    },
+    {
+        id: 'hlaMatch',
+        label: 'HLA Match',
+        weight: 1,
+        evaluate: ({ recipient, donor }) => {
+            if (!donor) return { points: 0, detail: 'No donor selected' };
+            const mismatches = assessImmunology(donor, recipient).mismatches;
+            if (!mismatches) return { points: 0, detail: 'HLA typing incomplete' };
+            return { points: (6 - mismatches.total) * 10, detail: `${mismatches.total}/6 antigen mismatches` };
+        },
+    },
+    {
+        id: 'sensitization',
+        label: 'Sensitization',
+        weight: 1,
+        evaluate: ({ recipient }) => {
+            const { cpra, pra } = recipient.immunology ?? {};
+            // cPRA is the calculated value against the donor population; the older panel PRA stands in when it is missing
+            if (cpra !== undefined) return { points: sensitizationPoints(cpra), detail: `cPRA ${cpra}%` };
+            if (pra !== undefined) return { points: sensitizationPoints(pra), detail: `PRA ${pra}% (cPRA not recorded)` };
+            return { points: 0, detail: 'cPRA not recorded' };
+        },
+    },
+    {
+        id: 'organRule',
+        label: 'Organ Rule',
+        weight: 1,
+        evaluate: ({ recipient, now }) => {
+            if (TIME_CRITICAL_ORGANS.includes(recipient.organNeeded) && recipient.urgency === 'Critical') {
+                return { points: 50, detail: `Critical ${recipient.organNeeded} patient` };
+            }
+            if (recipient.organNeeded === 'Kidney') {
+                // Kidney allocation leans on waiting time since dialysis can bridge patients
+                const bonus = Math.floor(daysSince(recipient.timeOnList, now) / 2);
+                return { points: bonus, detail: 'Kidney waiting-time bonus' };
+            }
+            return { points: 0, detail: 'No organ-specific adjustment' };
+        },
+    },
+    {
+        id: 'pediatric',
+        label: 'Pediatric',
+        weight: 1,
+        evaluate: ({ recipient, now }) => {
+            const age = recipient.dob ? ageInYears(recipient.dob, now) : null;
+            if (age === null) return { points: 0, detail: 'Age not recorded' };
+            return age < 18 ? { points: 75, detail: `Pediatric patient (${age} yrs)` } : { points: 0, detail: `Adult (${age} yrs)` };
+        },
+    },
+    {
+        id: 'distance',
+        label: 'Distance',
+        weight: 1,
+        evaluate: ({ recipient, donor }) => {
+            if (!donor) return { points: 0, detail: 'No donor selected' };
+            const route = donorHospitalDistance(donor, recipient);
+            if (!route) return { points: 0, detail: 'Location unknown' };
+            return { points: Math.max(0, 50 - Math.floor(route.km / 10)), detail: `${route.km} km (${route.donorCity} → ${route.hospitalCity})` };
+        },
+    },
+];
+
+// Factors not listed in the recipient's organ rule are skipped, so e.g. corneas ignore blood group
+export const scoreAllocation = (ctx: ScoringContext, factors: ScoreFactor[] = SCORING_FACTORS): AllocationScore => {
+    const scored = ORGAN_MATCHING_RULES[ctx.recipient.organNeeded]?.scored;
+    const breakdown = factors.filter(factor => !scored || scored.includes(factor.id)).map(factor => {
+        const { points, detail } = factor.evaluate(ctx);
+        return { factor: factor.id, label: factor.label, points: Math.round(points * factor.weight), detail };
+    });
+    return { total: breakdown.reduce((sum, item) => sum + item.points, 0), breakdown };
+};
@@ -0,0 +1,181 @@
+import type { ClinicalLabs, Donor, LungDiagnosisGroup, Organ, Recipient, SeverityScore } from '../types';
+import { ageInYears, MS_PER_DAY } from '../registry';
+import { MELD_RANGE } from './escalation';
+
+
+// --- CLINICAL SEVERITY SCORES ---
+export const LUNG_DIAGNOSIS_GROUPS: { value: LungDiagnosisGroup; label: string }[] = [
+    { value: 'A', label: 'A - Obstructive (e.g. COPD)' },
+    { value: 'B', label: 'B - Pulmonary vascular (e.g. PAH)' },
+    { value: 'C', label: 'C - Cystic fibrosis / immunodeficiency' },
+    { value: 'D', label: 'D - Restrictive (e.g. IPF)' },
+];
+
+// Lab fields that apply to each organ; organs without an entry have no severity score
+export const SEVERITY_LAB_FIELDS: Partial<Record<Organ, (keyof ClinicalLabs)[]>> = {
+    Liver: ['bilirubin', 'inr', 'creatinine', 'sodium', 'dialysisTwiceInPastWeek'],
+    Lungs: ['lungDiagnosisGroup', 'fvcPercent', 'paSystolic', 'oxygenLpm', 'sixMinuteWalkM', 'onVentilator'],
+    Kidney: ['diabetes', 'priorTransplant', 'dialysisStartDate'],
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Linear interpolation over ascending [raw, percentile] anchor points
+const interpolatePercentile = (raw: number, anchors: [number, number][]) => {
+    if (raw <= anchors[0][0]) return anchors[0][1];
+    for (let i = 1; i < anchors.length; i++) {
+        const [x1, y1] = anchors[i];
+        if (raw <= x1) {
+            const [x0, y0] = anchors[i - 1];
+            return Math.round(y0 + (y1 - y0) * (raw - x0) / (x1 - x0));
+        }
+    }
+    return anchors[anchors.length - 1][1];
+};
+
+// UNOS MELD (2016): bilirubin, INR and creatinine floored at 1.0, creatinine capped at 4.0 (set to 4.0 on dialysis).
+// MELD-Na adds the sodium correction for MELD above 11 with sodium bounded to 125-137.
+const computeMeld = (labs: ClinicalLabs): { meld: number; meldNa?: number } | null => {
+    if (labs.bilirubin === undefined || labs.inr === undefined || labs.creatinine === undefined) return null;
+    const creatinine = labs.dialysisTwiceInPastWeek ? 4 : clamp(labs.creatinine, 1, 4);
+    const raw = 10 * (0.957 * Math.log(creatinine) + 0.378 * Math.log(Math.max(1, labs.bilirubin)) + 1.12 * Math.log(Math.max(1, labs.inr)) + 0.643);
+    const meld = clamp(Math.round(raw), MELD_RANGE.min, MELD_RANGE.max);
+    if (labs.sodium === undefined) return { meld };
+    const sodium = clamp(labs.sodium, 125, 137);
+    const meldNa = meld > 11 ? clamp(Math.round(meld + 1.32 * (137 - sodium) - 0.033 * meld * (137 - sodium)), MELD_RANGE.min, MELD_RANGE.max) : meld;
+    return { meld, meldNa };
+};
+
+// Simplified LAS-style estimate on the 0-100 LAS scale. The full LAS combines two survival models with
+// more covariates than the registry captures, so this weights the main drivers of waitlist mortality.
+const computeLungAllocationScore = (labs: ClinicalLabs): number | null => {
+    if (!labs.lungDiagnosisGroup) return null;
+    const groupPoints: Record<LungDiagnosisGroup, number> = { A: 0, B: 10, C: 12, D: 15 };
+    let score = 30 + groupPoints[labs.lungDiagnosisGroup];
+    if (labs.lungDiagnosisGroup === 'D' && labs.fvcPercent !== undefined && labs.fvcPercent < 40) score += 10;
+    if (labs.paSystolic !== undefined && labs.paSystolic > 40) score += Math.min(15, (labs.paSystolic - 40) / 2);
+    if (labs.oxygenLpm !== undefined) score += Math.min(20, labs.oxygenLpm * 2);
+    if (labs.sixMinuteWalkM !== undefined) score += labs.sixMinuteWalkM < 150 ? 10 : labs.sixMinuteWalkM < 300 ? 5 : 0;
+    if (labs.onVentilator) score += 20;
+    return clamp(Math.round(score), 0, 100);
+};
+
+// Approximate raw-score anchors of the published EPTS mapping table; update when OPTN republishes it
+const EPTS_PERCENTILE_ANCHORS: [number, number][] = [[0, 0], [1.05, 20], [1.65, 40], [2.1, 60], [2.5, 80], [3.2, 100]];
+
+// OPTN Estimated Post-Transplant Survival; lower percentiles mean longer expected graft benefit
+const computeEpts = (labs: ClinicalLabs, dob: string | undefined, now: number): number | null => {
+    const age = dob ? ageInYears(dob, now) : null;
+    if (age === null) return null;
+    const diabetes = labs.diabetes ? 1 : 0;
+    const prior = labs.priorTransplant ? 1 : 0;
+    const dialysisStart = labs.dialysisStartDate ? new Date(labs.dialysisStartDate).getTime() : NaN;
+    const yearsOnDialysis = Number.isNaN(dialysisStart) ? 0 : Math.max(0, (now - dialysisStart) / (MS_PER_DAY * 365.25));
+    const notOnDialysis = yearsOnDialysis === 0 ? 1 : 0;
+    const ageOver25 = Math.max(age - 25, 0);
+    const logDialysis = Math.log(yearsOnDialysis + 1);
+    const raw = 0.047 * ageOver25 - 0.015 * diabetes * ageOver25
+        + 0.398 * prior - 0.237 * diabetes * prior
+        + 0.315 * logDialysis - 0.099 * diabetes * logDialysis
+        + 0.13 * notOnDialysis - 0.348 * diabetes * notOnDialysis
+        + 1.262 * diabetes;
+    return interpolatePercentile(raw, EPTS_PERCENTILE_ANCHORS);
+};
+
+// Age-only KDPI estimate from the Rao KDRI age terms; pledges carry no donor-side labs until procurement
+const KDPI_PERCENTILE_ANCHORS: [number, number][] = [[0.6, 0], [0.9, 20], [1.05, 40], [1.2, 60], [1.45, 80], [2.0, 100]];
+
+export const estimateKdpi = (donor: Donor, now: number): number | null => {
+    const age = ageInYears(donor.dob, now);
+    if (age === null) return null;
+    const kdri = Math.exp(0.0128 * (age - 40) - 0.0194 * Math.min(age - 18, 0) + 0.0107 * Math.max(age - 50, 0));
+    return interpolatePercentile(kdri, KDPI_PERCENTILE_ANCHORS);
+};
+
+// Top-20% EPTS candidates get priority for top-20% KDPI kidneys (longevity matching)
+export const LONGEVITY_MATCH_PERCENTILE = 20;
+
+export const computeSeverityScore = (organ: Organ, labs: ClinicalLabs | undefined, dob: string | undefined, now: number): SeverityScore | undefined => {
+    if (!labs) return undefined;
+    switch (organ) {
+        case 'Liver': {
+            const result = computeMeld(labs);
+            if (!result) return undefined;
+            return result.meldNa !== undefined
+                ? { kind: 'MELD-Na', value: result.meldNa, detail: `MELD ${result.meld}, MELD-Na ${result.meldNa}`, computedAt: now }
+                : { kind: 'MELD', value: result.meld, detail: `MELD ${result.meld} (no sodium recorded)`, computedAt: now };
+        }
+        case 'Lungs': {
+            const las = computeLungAllocationScore(labs);
+            return las === null ? undefined : { kind: 'LAS', value: las, detail: `LAS (est.) ${las} (group ${labs.lungDiagnosisGroup})`, computedAt: now };
+        }
+        case 'Kidney': {
+            const epts = computeEpts(labs, dob, now);
+            return epts === null ? undefined : { kind: 'EPTS', value: epts, detail: `EPTS ${epts}%`, computedAt: now };
+        }
+        default:
+            return undefined;
+    }
+};
+
+// The score saved with the record dates from the last lab entry, and EPTS drifts with age and time on dialysis,
+// so ranking and display recompute it from the stored labs; the saved copy is only used for records without labs
+export const currentSeverity = (recipient: Recipient, now: number): SeverityScore | undefined =>
+    computeSeverityScore(recipient.organNeeded, recipient.labs, recipient.dob, now) ?? (recipient.labs ? undefined : recipient.severity);
+
+// LAS is marked as an estimate: the registry's simplified model is not the published OPTN score
+export const formatSeverity = (severity?: SeverityScore) =>
+    !severity ? null : severity.kind === 'EPTS' ? `EPTS ${severity.value}%` : severity.kind === 'LAS' ? `LAS (est.) ${severity.value}` : `${severity.kind} ${severity.value}`;
+
+// Raw text inputs backing the lab fields of the hospital request and edit forms
+export interface ClinicalLabFormFields {
+    bilirubin: string;
+    inr: string;
+    creatinine: string;
+    sodium: string;
+    dialysisTwiceInPastWeek: boolean;
+    lungDiagnosisGroup: LungDiagnosisGroup | '';
+    fvcPercent: string;
+    paSystolic: string;
+    oxygenLpm: string;
+    sixMinuteWalkM: string;
+    onVentilator: boolean;
+    diabetes: boolean;
+    priorTransplant: boolean;
+    dialysisStartDate: string;
+}
+
+export const initialClinicalLabForm: ClinicalLabFormFields = {
+    bilirubin: '', inr: '', creatinine: '', sodium: '', dialysisTwiceInPastWeek: false,
+    lungDiagnosisGroup: '', fvcPercent: '', paSystolic: '', oxygenLpm: '', sixMinuteWalkM: '', onVentilator: false,
+    diabetes: false, priorTransplant: false, dialysisStartDate: '',
+};
+
+export const clinicalLabsToForm = (labs?: ClinicalLabs): ClinicalLabFormFields => {
+    const text = (value?: number) => value === undefined ? '' : String(value);
+    return {
+        bilirubin: text(labs?.bilirubin), inr: text(labs?.inr), creatinine: text(labs?.creatinine), sodium: text(labs?.sodium),
+        dialysisTwiceInPastWeek: !!labs?.dialysisTwiceInPastWeek, lungDiagnosisGroup: labs?.lungDiagnosisGroup ?? '',
+        fvcPercent: text(labs?.fvcPercent), paSystolic: text(labs?.paSystolic), oxygenLpm: text(labs?.oxygenLpm),
+        sixMinuteWalkM: text(labs?.sixMinuteWalkM), onVentilator: !!labs?.onVentilator,
+        diabetes: !!labs?.diabetes, priorTransplant: !!labs?.priorTransplant, dialysisStartDate: labs?.dialysisStartDate ?? '',
+    };
+};
+
+export const buildClinicalLabs = (organ: Organ, fields: ClinicalLabFormFields): ClinicalLabs | undefined => {
+    const allowed = SEVERITY_LAB_FIELDS[organ];
+    if (!allowed) return undefined;
+    const toNumber = (value: string) => value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Math.max(0, Number(value));
+    const all: ClinicalLabs = {
+        bilirubin: toNumber(fields.bilirubin), inr: toNumber(fields.inr), creatinine: toNumber(fields.creatinine), sodium: toNumber(fields.sodium),
+        dialysisTwiceInPastWeek: fields.dialysisTwiceInPastWeek || undefined, lungDiagnosisGroup: fields.lungDiagnosisGroup || undefined,
+        fvcPercent: toNumber(fields.fvcPercent), paSystolic: toNumber(fields.paSystolic), oxygenLpm: toNumber(fields.oxygenLpm),
+        sixMinuteWalkM: toNumber(fields.sixMinuteWalkM), onVentilator: fields.onVentilator || undefined,
+        diabetes: fields.diabetes || undefined, priorTransplant: fields.priorTransplant || undefined, dialysisStartDate: fields.dialysisStartDate || undefined,
+    };
+    const labs: ClinicalLabs = {};
+    allowed.forEach(field => {
+        if (all[field] !== undefined) (labs as Record<string, unknown>)[field] = all[field];
+    });
+    return Object.keys(labs).length > 0 ? labs : undefined;
+};
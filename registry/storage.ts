@@ -0,0 +1,342 @@
+import type { AccountCredential, AuditEntry, Donor, InterestNotification, MatchOffer, Organ, Recipient, UserAccount } from '../types';
+import {
+    asObject, BLOOD_GROUPS, GENDERS, isArrayOf, isNumber, isOneOf, isOptional, isString, ORGANS, readStoredJson, STORAGE_PREFIX, URGENCY_LEVELS,
+    USER_ROLES, validateFields, writeStoredJson,
+} from '../registry';
+import { credentialIdFor } from './auth';
+import { collectIssuedIds, issuePledgeIds, issueRegistryId, PLEDGE_ID_PREFIX } from './registryIds';
+
+
+// --- PERSISTENCE: VERSIONED REGISTRY STORE ---
+// Bump STORAGE_SCHEMA_VERSION and append a migration whenever a stored interface changes shape.
+export const STORAGE_SCHEMA_VERSION = 6;
+const SCHEMA_VERSION_KEY = `${STORAGE_PREFIX}:schemaVersion`;
+export const QUARANTINE_KEY = `${STORAGE_PREFIX}:quarantine`;
+export const idCounterKey = (prefix: string) => `idCounter:${prefix}`;
+
+export interface RegistryCollections {
+    donors: Donor[];
+    recipients: Recipient[];
+    interestNotifications: InterestNotification[];
+    matchOffers: MatchOffer[];
+    accounts: UserAccount[];
+    auditLog: AuditEntry[];
+    credentials: AccountCredential[];
+}
+
+export type CollectionName = keyof RegistryCollections;
+
+// Collections that never leave this device: skipped by the Firestore adapter and the cross-tab channel
+type LocalOnlyCollectionName = 'credentials';
+export type SharedCollectionName = Exclude<CollectionName, LocalOnlyCollectionName>;
+export type SharedCollections = Pick<RegistryCollections, SharedCollectionName>;
+
+export const SHARED_COLLECTION_NAMES: SharedCollectionName[] = ['donors', 'recipients', 'interestNotifications', 'matchOffers', 'accounts', 'auditLog'];
+const LOCAL_ONLY_COLLECTION_NAMES: LocalOnlyCollectionName[] = ['credentials'];
+export const COLLECTION_NAMES: CollectionName[] = [...SHARED_COLLECTION_NAMES, ...LOCAL_ONLY_COLLECTION_NAMES];
+
+export const isSharedCollection = (collection: CollectionName): collection is SharedCollectionName =>
+    (SHARED_COLLECTION_NAMES as CollectionName[]).includes(collection);
+
+// Collections as read from storage, before validation
+export type RawCollections = Record<CollectionName, unknown[]>;
+
+export interface QuarantinedRecord {
+    collection: CollectionName;
+    record: unknown;
+    reason: string;
+    schemaVersion: number;
+    quarantinedAt: number;
+}
+
+interface StorageMigration {
+    version: number;
+    description: string;
+    migrate: (data: RawCollections) => RawCollections;
+}
+
+type RecordValidator = (record: unknown) => string | null;
+
+export type RegistryRecord<K extends CollectionName = CollectionName> = RegistryCollections[K][number];
+
+export interface RegistryChangeEvent {
+    collection: CollectionName;
+    type: 'put' | 'delete';
+    id: string;
+    record?: RegistryRecord;
+    // Identifies the writing session so subscribers can ignore their own echoes
+    origin: string;
+    at: number;
+}
+
+export type RegistryChangeListener = (event: RegistryChangeEvent) => void;
+
+interface RegistryLoadResult {
+    data: RegistryCollections;
+    quarantined: QuarantinedRecord[];
+}
+
+// Common interface for every storage backend (localStorage, IndexedDB, ...)
+export interface RegistryStore {
+    load: () => Promise<RegistryLoadResult>;
+    putRecords: <K extends CollectionName>(collection: K, records: RegistryCollections[K]) => Promise<void>;
+    deleteRecords: (collection: CollectionName, ids: string[]) => Promise<void>;
+    findByIndex: <K extends CollectionName>(collection: K, index: string, value: string) => Promise<RegistryCollections[K]>;
+    subscribe: (listener: RegistryChangeListener) => () => void;
+    // Resolves once remote data has been received at least once; local-only backends resolve straight after load
+    whenSynced: () => Promise<void>;
+    // Reserves `count` consecutive sequences under an ID prefix, never at or below `floor`; resolves to the first one
+    reserveSequences: (prefix: string, floor: number, count: number) => Promise<number>;
+    getQuarantine: () => QuarantinedRecord[];
+    clearQuarantine: () => void;
+}
+
+export const SESSION_ID = `s${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const RECORD_VALIDATORS: Record<CollectionName, RecordValidator> = {
+    donors: record => validateFields(record, {
+        id: isString, name: isString, contact: isString, dob: isString, address: isString,
+        gender: isOneOf(GENDERS), bloodGroup: isOneOf(BLOOD_GROUPS),
+        pledgedOrgans: isArrayOf(isOneOf(ORGANS)), transplantedOrgans: isOptional(isArrayOf(isOneOf(ORGANS))), pledgeDate: isNumber,
+        donorType: isOptional(isOneOf(['Deceased Pledge', 'Living Paired', 'Living Altruistic'])),
+        pairedRecipientId: isOptional(isString), accountId: isOptional(isString),
+        documents: isOptional(Array.isArray), verification: isOptional(value => asObject(value) !== null),
+        aadhaar: isOptional(value => validateFields(value, { last4: isString, digest: isOptional(isString), keyed: isOptional(value => typeof value === 'boolean') }) === null),
+        changeHistory: isOptional(Array.isArray), screeningReports: isOptional(Array.isArray), pledgeIds: isOptional(value => asObject(value) !== null),
+    }),
+    recipients: record => validateFields(record, {
+        id: isString, patientId: isString, name: isString, timeOnList: isNumber,
+        organNeeded: isOneOf(ORGANS), bloodGroup: isOneOf(BLOOD_GROUPS), urgency: isOneOf(URGENCY_LEVELS),
+        status: isOneOf(['Searching', 'Potential Match Found', 'Offer Pending', 'Offer Accepted', 'Transplanted']),
+        hospitalId: isOptional(isString), dob: isOptional(isString), urgencyEscalation: isOptional(value => asObject(value) !== null),
+        labs: isOptional(value => asObject(value) !== null), severity: isOptional(value => asObject(value) !== null),
+        listingState: isOptional(isOneOf(['Active', 'Temporarily Inactive', 'Transplanted', 'Removed - Deceased', 'Removed - Recovered'])),
+        listingHistory: isOptional(Array.isArray),
+    }),
+    interestNotifications: record => validateFields(record, {
+        id: isString, donorId: isString, organ: isOneOf(ORGANS), timestamp: isNumber,
+        candidateRecipientId: isOptional(isString), matchOfferId: isOptional(isString),
+        triageStatus: isOptional(isOneOf(['New', 'Contacted', 'Screening', 'Eligible', 'Ineligible', 'Withdrawn'])),
+        assignedToId: isOptional(isString), contactAttempts: isOptional(Array.isArray), triageHistory: isOptional(Array.isArray),
+        outcome: isOptional(value => asObject(value) !== null),
+    }),
+    matchOffers: record => validateFields(record, {
+        id: isString, donorId: isString, recipientId: isString, organ: isOneOf(ORGANS), score: isNumber, createdAt: isNumber,
+        state: isOneOf(['Proposed', 'Offered', 'Accepted', 'Declined', 'Transplanted', 'Expired']),
+        backupRecipientIds: isArrayOf(isString), history: Array.isArray,
+    }),
+    accounts: record => validateFields(record, {
+        id: isString, username: isString, displayName: isString, role: isOneOf(USER_ROLES),
+        hospitalId: isOptional(isString), viewHospitalIds: isOptional(isArrayOf(isString)), createdAt: isNumber,
+        enrollment: isOptional(value => validateFields(value, { codeHash: isString, issuedAt: isNumber, expiresAt: isNumber, issuedById: isString }) === null),
+    }),
+    credentials: record => validateFields(record, {
+        id: isString, accountId: isString, passwordHash: isString, passwordSalt: isString, passwordIterations: isNumber,
+        sessionTokenHash: isOptional(isString),
+    }),
+    auditLog: record => validateFields(record, {
+        id: isString, sequence: isNumber, at: isNumber, actorId: isString, actorName: isString,
+        actorRole: isOneOf([...USER_ROLES, 'System']), action: isString, collection: isString, recordId: isString,
+        reason: isString, previousHash: isString, mergedHashes: isOptional(isArrayOf(isString)), hash: isString,
+    }),
+};
+
+// Ordered migrations; each upgrades data written by version - 1
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+    {
+        version: 1,
+        description: 'Adopt versioned storage; data is imported from the legacy unversioned keys',
+        migrate: data => data,
+    },
+    {
+        version: 2,
+        description: 'Backfill donorType on donors and status on recipients created before those fields existed',
+        migrate: data => ({
+            ...data,
+            donors: data.donors.map(d => {
+                const donor = asObject(d);
+                return donor && donor.donorType === undefined ? { ...donor, donorType: 'Deceased Pledge' } : d;
+            }),
+            recipients: data.recipients.map(r => {
+                const recipient = asObject(r);
+                return recipient && recipient.status === undefined ? { ...recipient, status: 'Searching' } : r;
+            }),
+        }),
+    },
+    {
+        version: 3,
+        description: 'Add the accounts collection for role-based sign-in',
+        migrate: data => ({ ...data, accounts: data.accounts ?? [] }),
+    },
+    {
+        version: 4,
+        description: 'Add the append-only audit log collection',
+        migrate: data => ({ ...data, auditLog: data.auditLog ?? [] }),
+    },
+    {
+        version: 5,
+        description: 'Issue persistent pledge IDs, oldest pledge first, to donors registered before pledge IDs were stored',
+        migrate: data => {
+            const issued = collectIssuedIds([...data.donors, ...data.recipients, ...data.auditLog]);
+            const byPledgeDate = [...data.donors].sort((a, b) => Number(asObject(a)?.pledgeDate ?? 0) - Number(asObject(b)?.pledgeDate ?? 0));
+            const pledgeIds = new Map(byPledgeDate.map(d => {
+                const donor = asObject(d);
+                const organs = Array.isArray(donor?.pledgedOrgans) ? donor!.pledgedOrgans as Organ[] : [];
+                return [d, donor && !donor.pledgeIds ? issuePledgeIds(organs, undefined, () => issueRegistryId(PLEDGE_ID_PREFIX, issued)) : undefined];
+            }));
+            return { ...data, donors: data.donors.map(d => pledgeIds.get(d) ? { ...asObject(d), pledgeIds: pledgeIds.get(d) } : d) };
+        },
+    },
+    {
+        version: 6,
+        description: 'Move password hashes out of the synced accounts into the local-only credentials collection',
+        migrate: data => {
+            const credentials = [...(data.credentials ?? [])];
+            const accounts = data.accounts.map(a => {
+                const account = asObject(a);
+                if (!account || account.passwordHash === undefined) return a;
+                const { passwordHash, passwordSalt, passwordIterations, ...rest } = account;
+                credentials.push({ id: credentialIdFor(String(account.id)), accountId: account.id, passwordHash, passwordSalt, passwordIterations });
+                return rest;
+            });
+            return { ...data, accounts, credentials };
+        },
+    },
+];
+
+// Quarantined records are kept in localStorage whichever backend holds the registry
+export const getStoredQuarantine = (storage: Storage): QuarantinedRecord[] => {
+    const { value } = readStoredJson(storage, QUARANTINE_KEY);
+    return Array.isArray(value) ? value as QuarantinedRecord[] : [];
+};
+
+export const appendQuarantine = (storage: Storage, records: QuarantinedRecord[]) => {
+    if (records.length === 0) return;
+    console.warn(`${records.length} stored record(s) failed validation and were quarantined.`);
+    writeStoredJson(storage, QUARANTINE_KEY, [...getStoredQuarantine(storage), ...records]);
+};
+
+// Runs pending migrations on raw collections, then splits them into valid data and quarantined records
+export const migrateAndValidate = (raw: RawCollections, storedVersion: number, now: number): { data: RegistryCollections; quarantined: QuarantinedRecord[] } => {
+    let migrated = raw;
+    if (storedVersion > STORAGE_SCHEMA_VERSION) {
+        console.warn(`Stored registry schema v${storedVersion} is newer than this app (v${STORAGE_SCHEMA_VERSION}); loading without migration.`);
+    } else {
+        STORAGE_MIGRATIONS
+            .filter(migration => migration.version > storedVersion)
+            .forEach(migration => { migrated = migration.migrate(migrated); });
+    }
+
+    const quarantined: QuarantinedRecord[] = [];
+    const data = {} as Record<CollectionName, unknown[]>;
+    COLLECTION_NAMES.forEach(collection => {
+        data[collection] = migrated[collection].filter(record => {
+            const reason = RECORD_VALIDATORS[collection](record);
+            if (reason) quarantined.push({ collection, record, reason, schemaVersion: storedVersion, quarantinedAt: now });
+            return !reason;
+        });
+    });
+    return { data: data as unknown as RegistryCollections, quarantined };
+};
+
+export const createChangeEmitter = () => {
+    const listeners = new Set<RegistryChangeListener>();
+    return {
+        subscribe: (listener: RegistryChangeListener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        emit: (event: RegistryChangeEvent) => listeners.forEach(listener => listener(event)),
+    };
+};
+
+export const recordId = (record: unknown) => String(asObject(record)?.id ?? '');
+
+const recordMatchesIndex = (record: unknown, index: string, value: string) => {
+    const field = asObject(record)?.[index];
+    return Array.isArray(field) ? field.includes(value) : field === value;
+};
+
+const localStorageCollectionKey = (collection: CollectionName) => `${STORAGE_PREFIX}:${collection}`;
+
+// Reads the registry written by this store or by the pre-versioning helpers (bare "donors"/... keys)
+export const readLocalStorageRegistry = (storage: Storage, fallback: RegistryCollections, now: number) => {
+    const storedVersion = Number(storage.getItem(SCHEMA_VERSION_KEY) ?? 0);
+    // Version 0 means the pre-repository layout: bare "donors"/"recipients"/... keys
+    const keyFor = (collection: CollectionName) => storedVersion === 0 ? collection : localStorageCollectionKey(collection);
+    const hasAnyData = COLLECTION_NAMES.some(collection => storage.getItem(keyFor(collection)) !== null);
+    const unreadable: QuarantinedRecord[] = [];
+
+    const raw = {} as RawCollections;
+    COLLECTION_NAMES.forEach(collection => {
+        const { value, error } = readStoredJson(storage, keyFor(collection));
+        if (error || (value !== undefined && !Array.isArray(value))) {
+            unreadable.push({ collection, record: value, reason: error || 'Stored collection is not an array', schemaVersion: storedVersion, quarantinedAt: now });
+            raw[collection] = [];
+        } else {
+            raw[collection] = (value as unknown[] | undefined) ?? [];
+        }
+    });
+
+    const result = hasAnyData
+        ? migrateAndValidate(raw, storedVersion, now)
+        : { data: fallback, quarantined: [] };
+    return { ...result, quarantined: [...unreadable, ...result.quarantined], storedVersion, hasAnyData };
+};
+
+export const clearLocalStorageRegistry = (storage: Storage) => {
+    COLLECTION_NAMES.forEach(collection => {
+        storage.removeItem(collection);
+        storage.removeItem(localStorageCollectionKey(collection));
+    });
+    storage.removeItem(SCHEMA_VERSION_KEY);
+};
+
+export const createLocalStorageStore = (storage: Storage, fallback: RegistryCollections): RegistryStore => {
+    const emitter = createChangeEmitter();
+    const readCollection = (collection: CollectionName): unknown[] => {
+        const { value } = readStoredJson(storage, localStorageCollectionKey(collection));
+        return Array.isArray(value) ? value : [];
+    };
+
+    return {
+        load: async () => {
+            const { data, quarantined, storedVersion } = readLocalStorageRegistry(storage, fallback, Date.now());
+            if (storedVersion <= STORAGE_SCHEMA_VERSION) {
+                COLLECTION_NAMES.forEach(collection => writeStoredJson(storage, localStorageCollectionKey(collection), data[collection]));
+                writeStoredJson(storage, SCHEMA_VERSION_KEY, STORAGE_SCHEMA_VERSION);
+                if (storedVersion === 0) COLLECTION_NAMES.forEach(collection => storage.removeItem(collection));
+            }
+            appendQuarantine(storage, quarantined);
+            return { data, quarantined: getStoredQuarantine(storage) };
+        },
+        putRecords: async (collection, records) => {
+            if (records.length === 0) return;
+            const byId = new Map(readCollection(collection).map(record => [recordId(record), record]));
+            records.forEach(record => byId.set(record.id, record));
+            writeStoredJson(storage, localStorageCollectionKey(collection), Array.from(byId.values()));
+            const at = Date.now();
+            records.forEach(record => emitter.emit({ collection, type: 'put', id: record.id, record, origin: SESSION_ID, at }));
+        },
+        deleteRecords: async (collection, ids) => {
+            if (ids.length === 0) return;
+            writeStoredJson(storage, localStorageCollectionKey(collection), readCollection(collection).filter(record => !ids.includes(recordId(record))));
+            const at = Date.now();
+            ids.forEach(id => emitter.emit({ collection, type: 'delete', id, origin: SESSION_ID, at }));
+        },
+        findByIndex: async (collection, index, value) =>
+            readCollection(collection).filter(record => recordMatchesIndex(record, index, value)) as RegistryCollections[typeof collection],
+        subscribe: emitter.subscribe,
+        whenSynced: async () => {},
+        // Read-modify-write is synchronous, so tabs sharing this storage cannot interleave
+        reserveSequences: async (prefix, floor, count) => {
+            const key = `${STORAGE_PREFIX}:${idCounterKey(prefix)}`;
+            const { value } = readStoredJson(storage, key);
+            const first = Math.max(floor, typeof value === 'number' ? value : 0) + 1;
+            writeStoredJson(storage, key, first + count - 1);
+            return first;
+        },
+        getQuarantine: () => getStoredQuarantine(storage),
+        clearQuarantine: () => storage.removeItem(QUARANTINE_KEY),
+    };
+};
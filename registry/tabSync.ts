@@ -0,0 +1,77 @@
+import { STORAGE_PREFIX, writeStoredJson } from '../registry';
+import { createChangeEmitter, isSharedCollection, RECORD_VALIDATORS, SESSION_ID } from './storage';
+import type { RegistryChangeEvent, RegistryStore } from './storage';
+
+
+// --- CROSS-TAB SYNC ---
+const TAB_CHANNEL_NAME = `${STORAGE_PREFIX}:registry-changes`;
+const TAB_MESSAGE_KEY = `${STORAGE_PREFIX}:tabMessage`;
+
+interface TabMessage {
+    kind: 'registry-change';
+    event: RegistryChangeEvent;
+}
+
+interface TabChannel {
+    post: (message: TabMessage) => void;
+    listen: (handler: (message: TabMessage) => void) => void;
+}
+
+// BroadcastChannel where available; otherwise a localStorage key whose `storage` events reach other tabs
+export const createTabChannel = (storage: Storage): TabChannel => {
+    if (typeof BroadcastChannel !== 'undefined') {
+        const channel = new BroadcastChannel(TAB_CHANNEL_NAME);
+        return {
+            post: message => channel.postMessage(message),
+            listen: handler => { channel.onmessage = (e: MessageEvent<TabMessage>) => handler(e.data); },
+        };
+    }
+    return {
+        post: message => writeStoredJson(storage, TAB_MESSAGE_KEY, message),
+        listen: handler => window.addEventListener('storage', e => {
+            if (e.key !== TAB_MESSAGE_KEY || !e.newValue) return;
+            try {
+                handler(JSON.parse(e.newValue) as TabMessage);
+            } catch (error) {
+                console.error('Ignoring unreadable cross-tab message:', error);
+            }
+        }),
+    };
+};
+
+// Broadcasts this tab's per-record writes and re-emits other tabs' writes to local subscribers.
+// All tabs share the same underlying storage, so receivers only update in-memory state, record by record.
+export const withCrossTabSync = (inner: RegistryStore, channel: TabChannel): RegistryStore => {
+    const emitter = createChangeEmitter();
+    inner.subscribe(event => {
+        emitter.emit(event);
+        if (event.origin === SESSION_ID && isSharedCollection(event.collection)) channel.post({ kind: 'registry-change', event });
+    });
+    channel.listen(message => {
+        const event = message?.event;
+        if (message?.kind !== 'registry-change' || !event || event.origin === SESSION_ID) return;
+        if (!isSharedCollection(event.collection)) return;
+        if (event.type === 'put' && RECORD_VALIDATORS[event.collection](event.record)) return;
+        emitter.emit(event);
+    });
+    return { ...inner, subscribe: emitter.subscribe };
+};
+
+// Splits a collection update into records to write and ids to delete; unchanged records keep their identity
+export const diffCollection = <T extends { id: string },>(previous: T[], current: T[]) => {
+    const previousById = new Map(previous.map(record => [record.id, record]));
+    const currentIds = new Set(current.map(record => record.id));
+    return {
+        changed: current.filter(record => previousById.get(record.id) !== record),
+        removedIds: previous.filter(record => !currentIds.has(record.id)).map(record => record.id),
+    };
+};
+
+// Applies a put/delete event to an in-memory collection, replacing in place or prepending new records
+export const applyChangeEvent = <T extends { id: string },>(records: T[], event: RegistryChangeEvent): T[] => {
+    if (event.type === 'delete') return records.filter(record => record.id !== event.id);
+    const incoming = event.record as unknown as T;
+    return records.some(record => record.id === event.id)
+        ? records.map(record => record.id === event.id ? incoming : record)
+        : [incoming, ...records];
+};
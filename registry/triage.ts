@@ -0,0 +1,73 @@
+import type { AuthSession, ContactChannel, ContactResult, InterestNotification, TriageOutcome, TriageStatus } from '../types';
+
+
+// --- INTEREST TRIAGE ---
+export const CONTACT_CHANNELS: ContactChannel[] = ['Phone', 'SMS', 'Email', 'In person'];
+export const CONTACT_RESULTS: ContactResult[] = ['Reached', 'No answer', 'Left message', 'Wrong number'];
+
+// Eligible leads stay open until a match is confirmed or the donor withdraws; the other outcomes are final
+export const TRIAGE_TRANSITIONS: Record<TriageStatus, TriageStatus[]> = {
+    'New': ['Contacted', 'Ineligible', 'Withdrawn'],
+    'Contacted': ['Screening', 'Ineligible', 'Withdrawn'],
+    'Screening': ['Eligible', 'Ineligible', 'Withdrawn'],
+    'Eligible': ['Withdrawn'],
+    'Ineligible': [],
+    'Withdrawn': [],
+};
+
+export const TRIAGE_OUTCOME_STATUSES: TriageStatus[] = ['Eligible', 'Ineligible', 'Withdrawn'];
+
+// How long a lead may stay in each working status before it is overdue; the clock restarts on every status change
+export const TRIAGE_SLA_HOURS: Partial<Record<TriageStatus, number>> = { 'New': 24, 'Contacted': 72, 'Screening': 168 };
+
+export const TRIAGE_STATUS_CLASSES: Record<TriageStatus, string> = {
+    'New': 'bg-sky-500/20 text-sky-300',
+    'Contacted': 'bg-indigo-500/20 text-indigo-300',
+    'Screening': 'bg-amber-500/20 text-amber-300',
+    'Eligible': 'bg-emerald-500/20 text-emerald-300',
+    'Ineligible': 'bg-red-500/20 text-red-300',
+    'Withdrawn': 'bg-slate-600/40 text-slate-300',
+};
+
+export const getTriageStatus = (notification: InterestNotification): TriageStatus => notification.triageStatus ?? 'New';
+
+export const isTriageOpen = (notification: InterestNotification) => TRIAGE_TRANSITIONS[getTriageStatus(notification)].length > 0;
+
+export const triageDueAt = (notification: InterestNotification): number | null => {
+    const hours = TRIAGE_SLA_HOURS[getTriageStatus(notification)];
+    if (hours === undefined) return null;
+    const since = notification.triageHistory?.[notification.triageHistory.length - 1]?.at ?? notification.timestamp;
+    return since + hours * 60 * 60 * 1000;
+};
+
+export const isTriageOverdue = (notification: InterestNotification, now: number) => {
+    const due = triageDueAt(notification);
+    return due !== null && due < now;
+};
+
+export const formatSlaRemaining = (dueAt: number, now: number) => {
+    const hours = Math.round(Math.abs(dueAt - now) / (60 * 60 * 1000));
+    const span = hours >= 48 ? `${Math.round(hours / 24)}d` : `${hours}h`;
+    return dueAt < now ? `Overdue by ${span}` : `Due in ${span}`;
+};
+
+// Only the central admin or the assigned coordinator works a lead
+export const canWorkInterest = (session: AuthSession | null, notification: InterestNotification) =>
+    session?.role === 'Central Admin' || (!!session && notification.assignedToId === session.accountId);
+
+// Returns a readable reason the status change cannot be applied, or null
+export const validateTriageChange = (notification: InterestNotification, to: TriageStatus, note: string): string | null => {
+    const from = getTriageStatus(notification);
+    if (!TRIAGE_TRANSITIONS[from].includes(to)) return `A ${from} lead cannot move to ${to}.`;
+    if (TRIAGE_OUTCOME_STATUSES.includes(to) && !note.trim()) return `Please record why the donor is ${to.toLowerCase()}; it is kept for reporting.`;
+    return null;
+};
+
+export const applyTriageStatus = (notification: InterestNotification, to: TriageStatus, note: string, session: AuthSession, now: number): InterestNotification => ({
+    ...notification,
+    triageStatus: to,
+    triageHistory: [...(notification.triageHistory ?? []), { status: to, at: now, byId: session.accountId, byName: session.displayName, note: note.trim() || undefined }],
+    outcome: TRIAGE_OUTCOME_STATUSES.includes(to)
+        ? { status: to as TriageOutcome['status'], note: note.trim(), at: now, byName: session.displayName }
+        : notification.outcome,
+});
@@ -0,0 +1,321 @@
+import { GoogleGenAI, Type, type Schema } from "@google/genai";
+import { ageInYears, HOSPITALS, isArrayOf, isOneOf, isString, MS_PER_DAY, ORGANS, validateFields } from './registry';
+import { isDonorVerified } from './registry/documents';
+import { isEscalationPending } from './registry/escalation';
+import type { OrganSupplyDemand } from './registry/matching';
+import { checkOrganRule, isDeceasedPledge } from './registry/matchingRules';
+import { isAwaitingAllocation, rankBackupRecipients } from './registry/offers';
+import { scoreAllocation } from './registry/scoring';
+import { currentSeverity, formatSeverity } from './registry/severity';
+import type { Donor, InterestNotification, Organ, Recipient, ScreeningFlagStatus, ScreeningReport } from './types';
+
+
+// --- STRUCTURED AI GENERATION ---
+export interface StructuredGenerationRequest {
+    systemInstruction: string;
+    prompt: string;
+    schema: Schema;
+}
+
+// The only model call the structured reports need, so a local fake can stand in for Gemini in tests and offline demos
+export interface StructuredModel {
+    name: string;
+    generateJson: (request: StructuredGenerationRequest) => Promise<unknown>;
+}
+
+const createGeminiStructuredModel = (apiKey: string, model = 'gemini-2.5-flash'): StructuredModel => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        name: model,
+        generateJson: async ({ systemInstruction, prompt, schema }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: { systemInstruction, responseMimeType: 'application/json', responseSchema: schema },
+            });
+            if (!response.text) throw new Error('The model returned an empty response.');
+            return JSON.parse(response.text);
+        },
+    };
+};
+
+// Answers every request with `respond`, e.g. a canned report; nothing leaves the browser
+export const createFakeStructuredModel = (respond: (request: StructuredGenerationRequest) => unknown, name = 'local-fake'): StructuredModel => ({
+    name,
+    generateJson: async request => respond(request),
+});
+
+// Null when no API key is configured; callers then fall back to manual or rule-based output
+export const createDefaultStructuredModel = (): StructuredModel | null =>
+    process.env.API_KEY ? createGeminiStructuredModel(process.env.API_KEY) : null;
+
+export const SCREENING_FLAG_STATUSES: ScreeningFlagStatus[] = ['Meets', 'Concern', 'Unknown'];
+
+const SCREENING_REPORT_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: 'Two or three sentences for the coordinator' },
+        eligibilityFlags: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    criterion: { type: Type.STRING },
+                    status: { type: Type.STRING, enum: SCREENING_FLAG_STATUSES },
+                    note: { type: Type.STRING },
+                },
+                required: ['criterion', 'status', 'note'],
+            },
+        },
+        risks: { type: Type.ARRAY, items: { type: Type.STRING } },
+        followUpQuestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+        contactDraft: { type: Type.STRING, description: 'Message to the donor; address them as {donorName}' },
+    },
+    required: ['summary', 'eligibilityFlags', 'risks', 'followUpQuestions', 'contactDraft'],
+    propertyOrdering: ['summary', 'eligibilityFlags', 'risks', 'followUpQuestions', 'contactDraft'],
+};
+
+const SCREENING_SYSTEM_INSTRUCTION = [
+    'You help organ donation coordinators in India prepare an initial screening of a registered donor who volunteered an organ.',
+    'Use only the facts provided. Mark a criterion Unknown when the facts do not settle it and never invent medical history.',
+    'Follow-up questions should close the Unknown and Concern items. The contact draft is a short, respectful first message;',
+    'address the donor as {donorName}, do not promise a transplant and do not mention any recipient.',
+].join(' ');
+
+// Placeholder the model writes instead of the donor's name, which is never sent to it
+const DONOR_NAME_PLACEHOLDER = '{donorName}';
+
+// De-identified facts only: no name, contact, address line or Aadhaar leaves the registry
+const buildScreeningPrompt = (donor: Donor, notification: InterestNotification, recipients: Recipient[], now: number) => {
+    const immunology = donor.immunology;
+    const facts = {
+        organOffered: notification.organ,
+        otherPledgedOrgans: donor.pledgedOrgans.filter(o => o !== notification.organ),
+        donorType: donor.donorType ?? 'Deceased Pledge',
+        ageYears: ageInYears(donor.dob),
+        gender: donor.gender,
+        bloodGroup: donor.bloodGroup,
+        city: donor.address.split(',').pop()?.trim() || null,
+        documentVerification: donor.verification?.status ?? 'No documents uploaded',
+        hlaTyped: !!immunology?.hla,
+        pra: immunology?.pra ?? null,
+        unacceptableAntigens: immunology?.unacceptableAntigens ?? [],
+        compatibleRecipientsWaiting: rankBackupRecipients(donor, notification.organ, recipients, '', now).length,
+        contactAttemptsSoFar: notification.contactAttempts?.length ?? 0,
+    };
+    return `Prepare the initial screening report for this donor.\n\nRegistry facts (JSON):\n${JSON.stringify(facts, null, 2)}`;
+};
+
+const isScreeningFlag = (value: unknown) =>
+    validateFields(value, { criterion: isString, status: isOneOf(SCREENING_FLAG_STATUSES), note: isString }) === null;
+
+// Model output is untrusted: anything that does not match the schema is rejected rather than shown
+export const parseScreeningReport = (value: unknown): ScreeningReport => {
+    const invalid = validateFields(value, {
+        summary: isString, eligibilityFlags: isArrayOf(isScreeningFlag),
+        risks: isArrayOf(isString), followUpQuestions: isArrayOf(isString), contactDraft: isString,
+    });
+    if (invalid) throw new Error(`The model response did not match the report schema: ${invalid}`);
+    const { summary, eligibilityFlags, risks, followUpQuestions, contactDraft } = value as ScreeningReport;
+    return { summary, eligibilityFlags, risks, followUpQuestions, contactDraft };
+};
+
+export const generateScreeningReport = async (model: StructuredModel, donor: Donor, notification: InterestNotification, recipients: Recipient[], now: number): Promise<ScreeningReport> => {
+    const report = parseScreeningReport(await model.generateJson({
+        systemInstruction: SCREENING_SYSTEM_INSTRUCTION,
+        prompt: buildScreeningPrompt(donor, notification, recipients, now),
+        schema: SCREENING_REPORT_SCHEMA,
+    }));
+    return { ...report, contactDraft: report.contactDraft.split(DONOR_NAME_PLACEHOLDER).join(donor.name) };
+};
+
+export const BLANK_SCREENING_REPORT: ScreeningReport = {
+    summary: '',
+    eligibilityFlags: [
+        { criterion: 'Age within donation limits', status: 'Unknown', note: '' },
+        { criterion: 'Blood group compatible with waiting recipients', status: 'Unknown', note: '' },
+        { criterion: 'Identity and medical documents verified', status: 'Unknown', note: '' },
+    ],
+    risks: [],
+    followUpQuestions: [],
+    contactDraft: '',
+};
+
+
+// How many of the highest-ranked waiting patients the urgency analysis covers
+export const URGENCY_ANALYSIS_TOP_N = 5;
+
+// Every registry figure handed to the model, keyed like "NOD-BLR001-000042-4.score" or "Kidney.waiting"
+export interface UrgencyFacts {
+    patientIds: string[];
+    organs: Organ[];
+    values: Record<string, string | number>;
+}
+
+interface UrgencyActionPlan {
+    patientId: string;
+    headline: string;
+    actions: string[];
+    citedFacts: string[];
+}
+
+interface OrganOutlook {
+    organ: Organ;
+    assessment: string;
+    citedFacts: string[];
+}
+
+export interface UrgencyAnalysis {
+    overview: string;
+    patientPlans: UrgencyActionPlan[];
+    organOutlook: OrganOutlook[];
+    // Model name, or 'Rule-based' for the deterministic summary
+    source: string;
+    // Why the rule-based summary was used instead of the model
+    fallbackReason?: string;
+}
+
+export const buildUrgencyFacts = (rankedRecipients: Recipient[], donors: Donor[], supplyDemand: OrganSupplyDemand[], now: number): UrgencyFacts => {
+    const patients = rankedRecipients.filter(isAwaitingAllocation).slice(0, URGENCY_ANALYSIS_TOP_N);
+    const verifiedPledges = donors.filter(d => isDeceasedPledge(d) && isDonorVerified(d));
+    const values: Record<string, string | number> = {};
+    patients.forEach((r, index) => {
+        const key = (field: string) => `${r.patientId}.${field}`;
+        values[key('rank')] = index + 1;
+        values[key('organ')] = r.organNeeded;
+        values[key('bloodGroup')] = r.bloodGroup;
+        values[key('urgency')] = r.urgency;
+        values[key('score')] = scoreAllocation({ recipient: r, now }).total;
+        values[key('daysOnList')] = Math.floor((now - r.timeOnList) / MS_PER_DAY);
+        values[key('hospitalCity')] = HOSPITALS.find(h => h.mockId === r.hospitalId)?.city ?? 'Unknown';
+        values[key('compatibleVerifiedPledges')] = verifiedPledges.filter(d => checkOrganRule(d, r).eligible).length;
+        const severity = formatSeverity(currentSeverity(r, now));
+        if (severity) values[key('severity')] = severity;
+        if (isEscalationPending(r)) values[key('escalationPending')] = 'yes';
+    });
+    const organs = supplyDemand.filter(({ demand }) => demand > 0).map(({ organ }) => organ);
+    supplyDemand.filter(({ organ }) => organs.includes(organ)).forEach(({ organ, demand, supply, awaitingVerification }) => {
+        values[`${organ}.waiting`] = demand;
+        values[`${organ}.availablePledges`] = supply;
+        values[`${organ}.awaitingVerification`] = awaitingVerification;
+    });
+    return { patientIds: patients.map(r => r.patientId), organs, values };
+};
+
+// Deterministic summary used without an API key, or when the model's answer is rejected
+const buildRuleBasedUrgencyAnalysis = (facts: UrgencyFacts, fallbackReason: string): UrgencyAnalysis => {
+    const value = (key: string) => facts.values[key];
+    const patientPlans = facts.patientIds.map(patientId => {
+        const key = (field: string) => `${patientId}.${field}`;
+        const organ = value(key('organ'));
+        const compatible = Number(value(key('compatibleVerifiedPledges')));
+        const days = Number(value(key('daysOnList')));
+        const actions = [
+            compatible > 0
+                ? `Run matching now: ${compatible} verified ${organ} pledge(s) pass the ${organ} matching rules for this patient.`
+                : `No verified ${organ} pledge is compatible yet; clear pending document verifications and widen the regional search.`,
+        ];
+        const citedFacts = [key('rank'), key('score'), key('urgency'), key('compatibleVerifiedPledges')];
+        if (value(key('escalationPending'))) {
+            actions.push('A Critical escalation is awaiting its second approver; review it today.');
+            citedFacts.push(key('escalationPending'));
+        }
+        if (value(key('severity'))) {
+            actions.push(`Keep ${value(key('severity'))} current with fresh labs so the severity factor reflects today's condition.`);
+            citedFacts.push(key('severity'));
+        }
+        if (value(key('urgency')) === 'Critical') {
+            actions.push(`Confirm the transplant team in ${value(key('hospitalCity'))} can admit at short notice.`);
+            citedFacts.push(key('hospitalCity'));
+        }
+        if (days > 180) {
+            actions.push(`On the list for ${days} days; review the listing and immunology for barriers to matching.`);
+            citedFacts.push(key('daysOnList'));
+        }
+        return { patientId, headline: `Rank ${value(key('rank'))}: ${value(key('urgency'))} ${organ} candidate, score ${value(key('score'))}`, actions, citedFacts };
+    });
+    const organOutlook = facts.organs.map(organ => {
+        const waiting = Number(value(`${organ}.waiting`));
+        const available = Number(value(`${organ}.availablePledges`));
+        const awaiting = Number(value(`${organ}.awaitingVerification`));
+        const assessment = available < waiting
+            ? `Shortage: ${waiting} waiting against ${available} verified pledge(s) available; ${awaiting} more await document verification.`
+            : `${available} verified pledge(s) available for ${waiting} waiting.`;
+        return { organ, assessment, citedFacts: [`${organ}.waiting`, `${organ}.availablePledges`, `${organ}.awaitingVerification`] };
+    });
+    const shortest = [...organOutlook].sort((a, b) =>
+        (Number(value(`${a.organ}.availablePledges`)) - Number(value(`${a.organ}.waiting`))) - (Number(value(`${b.organ}.availablePledges`)) - Number(value(`${b.organ}.waiting`))))[0];
+    const overview = `Top ${patientPlans.length} waiting patient(s) by allocation score.${shortest ? ` Largest gap: ${shortest.organ}, ${value(`${shortest.organ}.waiting`)} waiting vs ${value(`${shortest.organ}.availablePledges`)} verified pledge(s) available.` : ''}`;
+    return { overview, patientPlans, organOutlook, source: 'Rule-based', fallbackReason };
+};
+
+const URGENCY_ANALYSIS_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        overview: { type: Type.STRING },
+        patientPlans: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    patientId: { type: Type.STRING },
+                    headline: { type: Type.STRING },
+                    actions: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    citedFacts: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Exact keys of the registry facts this plan relies on' },
+                },
+                required: ['patientId', 'headline', 'actions', 'citedFacts'],
+            },
+        },
+        organOutlook: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    organ: { type: Type.STRING, enum: ORGANS },
+                    assessment: { type: Type.STRING },
+                    citedFacts: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['organ', 'assessment', 'citedFacts'],
+            },
+        },
+    },
+    required: ['overview', 'patientPlans', 'organOutlook'],
+};
+
+const URGENCY_SYSTEM_INSTRUCTION = [
+    'You support the central organ allocation coordinator. You are given registry facts as a flat JSON object.',
+    'Write one action plan per listed patient and one outlook per listed organ. Every number you mention must come from the facts,',
+    'and citedFacts must list the exact keys you relied on. Do not change the ranking; it is set by the allocation score.',
+].join(' ');
+
+// Rejects answers that break the schema, cover unknown patients or cite figures that were never provided
+const parseUrgencyAnalysis = (value: unknown, facts: UrgencyFacts, modelName: string): UrgencyAnalysis => {
+    const citesKnownFacts = isArrayOf(key => isString(key) && Object.hasOwn(facts.values, key as string));
+    const invalid = validateFields(value, {
+        overview: isString,
+        patientPlans: isArrayOf(plan => validateFields(plan, {
+            patientId: isOneOf(facts.patientIds), headline: isString, actions: isArrayOf(isString), citedFacts: citesKnownFacts,
+        }) === null),
+        organOutlook: isArrayOf(outlook => validateFields(outlook, {
+            organ: isOneOf(facts.organs), assessment: isString, citedFacts: citesKnownFacts,
+        }) === null),
+    });
+    if (invalid) throw new Error(`The model response failed validation (${invalid}).`);
+    const { overview, patientPlans, organOutlook } = value as UrgencyAnalysis;
+    return { overview, patientPlans, organOutlook, source: modelName };
+};
+
+export const analyzeUrgency = async (model: StructuredModel | null, facts: UrgencyFacts): Promise<UrgencyAnalysis> => {
+    if (!model) return buildRuleBasedUrgencyAnalysis(facts, 'No Gemini API key is configured.');
+    try {
+        const response = await model.generateJson({
+            systemInstruction: URGENCY_SYSTEM_INSTRUCTION,
+            prompt: `Patients in rank order: ${facts.patientIds.join(', ')}\n\nRegistry facts (JSON):\n${JSON.stringify(facts.values, null, 2)}`,
+            schema: URGENCY_ANALYSIS_SCHEMA,
+        });
+        return parseUrgencyAnalysis(response, facts, model.name);
+    } catch (error) {
+        console.error('Urgency analysis generation failed:', error);
+        return buildRuleBasedUrgencyAnalysis(facts, error instanceof Error ? error.message : 'The model could not be reached.');
+    }
+};
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    createAadhaarDigestService, findDonorByAadhaar, localAadhaarDigester, maskAadhaar, normalizeAadhaar, protectAadhaar, validateAadhaar,
+} from '../registry/aadhaar';
+import type { Donor } from '../types';
+
+const VALID_AADHAAR = '2341 2341 2346';
+
+describe('validateAadhaar', () => {
+    it('accepts a number whose last digit is its Verhoeff check digit', () => {
+        expect(validateAadhaar(VALID_AADHAAR)).toBeNull();
+        expect(validateAadhaar('2341-2341-2346')).toBeNull();
+        expect(validateAadhaar('499187529045')).toBeNull();
+    });
+
+    it('catches a single mistyped digit', () => {
+        expect(validateAadhaar('234123412347')).toBe('This Aadhaar number fails the checksum; please check for typos.');
+        expect(validateAadhaar('234123512346')).not.toBeNull();
+    });
+
+    it('catches two adjacent digits swapped', () => {
+        expect(validateAadhaar('243123412346')).not.toBeNull();
+        expect(validateAadhaar('499187529054')).not.toBeNull();
+    });
+
+    it('rejects numbers of the wrong length or with a leading 0 or 1', () => {
+        expect(validateAadhaar('23412341234')).toBe('Aadhaar numbers have 12 digits.');
+        expect(validateAadhaar('2341234123a6')).toBe('Aadhaar numbers have 12 digits.');
+        expect(validateAadhaar('123412341234')).toBe('Aadhaar numbers do not start with 0 or 1.');
+    });
+});
+
+describe('protectAadhaar', () => {
+    it('keeps only the last four digits and a digest that ignores formatting', async () => {
+        const spaced = await protectAadhaar(VALID_AADHAAR, localAadhaarDigester);
+        const plain = await protectAadhaar(normalizeAadhaar(VALID_AADHAAR), localAadhaarDigester);
+
+        expect(spaced.last4).toBe('2346');
+        expect(spaced.digest).toBe(plain.digest);
+        expect(spaced.digest).not.toContain('234123412346');
+        expect(maskAadhaar(spaced.last4)).toBe('XXXX-XXXX-2346');
+    });
+
+    it('lets duplicate registrations be found by digest', async () => {
+        const aadhaar = await protectAadhaar(VALID_AADHAAR, localAadhaarDigester);
+        const other = await protectAadhaar('499187529045', localAadhaarDigester);
+        const donor = { id: 'd1', aadhaar } as Donor;
+
+        expect(findDonorByAadhaar([donor], aadhaar)).toBe(donor);
+        expect(findDonorByAadhaar([donor], aadhaar, 'd1')).toBeUndefined();
+        expect(findDonorByAadhaar([donor], other)).toBeUndefined();
+    });
+
+    it('keeps no digest without a digester, so nothing brute-forceable is stored', async () => {
+        const aadhaar = await protectAadhaar(VALID_AADHAAR, null);
+        const donor = { id: 'd1', aadhaar } as Donor;
+
+        expect(aadhaar).toEqual({ last4: '2346' });
+        expect(findDonorByAadhaar([donor], aadhaar)).toBeUndefined();
+    });
+});
+
+describe('createAadhaarDigestService', () => {
+    const DIGEST = 'ab'.repeat(32);
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('asks the service for a keyed digest and never compares it with an unkeyed one', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ digest: DIGEST })));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const keyed = await protectAadhaar(VALID_AADHAAR, createAadhaarDigestService('https://example.test/digest'));
+        const unkeyed = { last4: '2346', digest: DIGEST };
+
+        expect(keyed).toEqual({ last4: '2346', digest: DIGEST, keyed: true });
+        expect(fetchMock).toHaveBeenCalledWith('https://example.test/digest', expect.objectContaining({ body: JSON.stringify({ aadhaar: '234123412346' }) }));
+        expect(findDonorByAadhaar([{ id: 'd1', aadhaar: keyed } as Donor], keyed)?.id).toBe('d1');
+        expect(findDonorByAadhaar([{ id: 'd1', aadhaar: unkeyed } as Donor], keyed)).toBeUndefined();
+    });
+
+    it('rejects a failed or malformed response', async () => {
+        const service = createAadhaarDigestService('https://example.test/digest');
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+        await expect(protectAadhaar(VALID_AADHAAR, service)).rejects.toThrow('Aadhaar digest service returned 503');
+
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ digest: 'not-hex' }))));
+        await expect(protectAadhaar(VALID_AADHAAR, service)).rejects.toThrow('Aadhaar digest service returned an invalid digest');
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalJson, createAuditEntry, findAuditTips, REDACTED_AUDIT_VALUE, SYSTEM_ACTOR, verifyAuditChain } from '../registry/audit';
+import { sha256Hex } from '../registry/auth';
+import type { AuditInput } from '../registry/audit';
+import type { AuditEntry } from '../types';
+import { makeDonor, NOW } from './fixtures';
+
+const input = (recordId: string): AuditInput => ({
+    action: 'Recipient Updated', collection: 'recipients', recordId, before: { urgency: 'High' }, after: { urgency: 'Medium' }, reason: 'Test',
+});
+
+// Appends each record in turn, linking to whatever tips the log has so far
+const buildChain = async (recordIds: string[], log: AuditEntry[] = []) => {
+    for (const recordId of recordIds) {
+        log = [...log, await createAuditEntry(input(recordId), SYSTEM_ACTOR, NOW + log.length, findAuditTips(log))];
+    }
+    return log;
+};
+
+// Two tabs that both saw `log` append without seeing each other
+const fork = async (log: AuditEntry[]) => {
+    const tips = findAuditTips(log);
+    const left = await createAuditEntry(input('left'), SYSTEM_ACTOR, NOW + 100, tips);
+    const right = await createAuditEntry(input('right'), SYSTEM_ACTOR, NOW + 101, tips);
+    return { left, right, log: [...log, left, right] };
+};
+
+describe('audit chain', () => {
+    it('links each entry to the one before it, starting from the genesis hash', async () => {
+        const log = await buildChain(['r1', 'r2', 'r3']);
+
+        expect(log.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+        expect(log[0].previousHash).toBe('0'.repeat(64));
+        expect(log[1].previousHash).toBe(log[0].hash);
+        expect(log[2].previousHash).toBe(log[1].hash);
+        expect(findAuditTips(log)).toEqual([log[2]]);
+        expect(await verifyAuditChain(log)).toEqual({ ok: true, checked: 3, mergedBranches: 0 });
+    });
+
+    it('accepts concurrent appends and joins the fork on the next entry', async () => {
+        const { left, right, log: forked } = await fork(await buildChain(['r1']));
+
+        expect(findAuditTips(forked).map(entry => entry.hash).sort()).toEqual([left.hash, right.hash].sort());
+        expect(await verifyAuditChain(forked)).toEqual({ ok: true, checked: 3, mergedBranches: 0 });
+
+        const joined = await buildChain(['r2'], forked);
+        const join = joined[joined.length - 1];
+        expect(join.sequence).toBe(3);
+        expect([join.previousHash, ...(join.mergedHashes ?? [])].sort()).toEqual([left.hash, right.hash].sort());
+        expect(findAuditTips(joined)).toEqual([join]);
+        expect(await verifyAuditChain(joined)).toEqual({ ok: true, checked: 4, mergedBranches: 1 });
+    });
+
+    it('reports an entry whose contents were altered', async () => {
+        const log = await buildChain(['r1', 'r2', 'r3']);
+        const tampered = log.map(entry => entry.sequence === 2 ? { ...entry, reason: 'Rewritten' } : entry);
+
+        const result = await verifyAuditChain(tampered);
+
+        expect(result).toMatchObject({ ok: false, checked: 1, brokenAt: 2 });
+        expect(result.problem).toContain('altered');
+    });
+
+    it('reports a link to an entry that was removed', async () => {
+        const log = await buildChain(['r1', 'r2', 'r3']);
+
+        const result = await verifyAuditChain(log.filter(entry => entry.sequence !== 2));
+
+        expect(result).toMatchObject({ ok: false, brokenAt: 3 });
+        expect(result.problem).toContain('previous entry');
+    });
+
+    it('reports a removed branch of a fork that was already joined', async () => {
+        const { right, log: forked } = await fork(await buildChain(['r1']));
+        const joined = await buildChain(['r2'], forked);
+        const join = joined[joined.length - 1];
+        const removed = join.previousHash === right.hash ? forked[1] : right;
+
+        const result = await verifyAuditChain(joined.filter(entry => entry !== removed));
+
+        expect(result).toMatchObject({ ok: false, brokenAt: 3 });
+        expect(result.problem).toContain('concurrent branch');
+    });
+
+    it('reports a chain that starts after its first entries even when the hashes are recomputed', async () => {
+        const log = await buildChain(['r1', 'r2', 'r3']);
+        const { hash, ...second } = log[1];
+        const unsigned = { ...second, previousHash: log[0].previousHash };
+        const resigned = { ...unsigned, hash: await sha256Hex(canonicalJson(unsigned)) };
+
+        const result = await verifyAuditChain([resigned, log[2]]);
+
+        expect(result).toMatchObject({ ok: false, checked: 0, brokenAt: 2 });
+        expect(result.problem).toContain('earlier entries are missing');
+    });
+});
+
+describe('audit entry contents', () => {
+    it('keeps only the changed fields and redacts personal details', async () => {
+        const donor = makeDonor('d1', ['Kidney', 'Liver']);
+        const updated = { ...donor, contact: '9000000000', address: 'New address', pledgedOrgans: ['Kidney'] };
+
+        const entry = await createAuditEntry({ action: 'Pledge Updated', collection: 'donors', recordId: 'd1', before: donor, after: updated, reason: 'Test' }, SYSTEM_ACTOR, NOW, []);
+
+        expect(entry.before).toEqual({ address: REDACTED_AUDIT_VALUE, contact: REDACTED_AUDIT_VALUE, pledgedOrgans: ['Kidney', 'Liver'] });
+        expect(entry.after).toEqual({ address: REDACTED_AUDIT_VALUE, contact: REDACTED_AUDIT_VALUE, pledgedOrgans: ['Kidney'] });
+        expect(canonicalJson(entry)).not.toContain(donor.contact);
+        expect(await verifyAuditChain([entry])).toMatchObject({ ok: true });
+    });
+
+    it('lists every field of a new record without the personal values', async () => {
+        const donor = makeDonor('d1', ['Kidney']);
+
+        const entry = await createAuditEntry({ action: 'Pledge Registered', collection: 'donors', recordId: 'd1', after: donor, reason: 'Test' }, SYSTEM_ACTOR, NOW, []);
+
+        expect(entry.before).toBeUndefined();
+        expect(entry.after).toMatchObject({ id: 'd1', name: REDACTED_AUDIT_VALUE, dob: REDACTED_AUDIT_VALUE, pledgedOrgans: ['Kidney'] });
+        expect(Object.keys(entry.after as object).sort()).toEqual(Object.keys(donor).filter(field => donor[field as keyof typeof donor] !== undefined).sort());
+    });
+
+    it('redacts lists that cannot be compared field by field', async () => {
+        const entry = await createAuditEntry({ action: 'Quarantine Cleared', collection: 'quarantine', recordId: 'quarantine', before: [{ name: 'Asha' }], reason: 'Test' }, SYSTEM_ACTOR, NOW, []);
+
+        expect(entry.before).toBe(REDACTED_AUDIT_VALUE);
+        expect(entry.after).toBeUndefined();
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AUTH_SESSION_KEY, createAccountCredential, createAuthSession, readAuthSession, withSessionToken, writeAuthSession } from '../registry/auth';
+import type { AccountCredential, UserAccount } from '../types';
+import { createMemoryStorage } from './memoryStorage';
+
+const admin: UserAccount = { id: 'acc-1', username: 'admin', displayName: 'Central Admin', role: 'Central Admin', createdAt: Date.now() };
+
+const lookup = (credential: AccountCredential) => async (accountId: string) => credential.accountId === accountId ? credential : undefined;
+
+describe('auth sessions', () => {
+    it('restores a session whose token matches the hash on the device credential', async () => {
+        const storage = createMemoryStorage();
+        const session = createAuthSession(admin, Date.now());
+        const credential = await withSessionToken(await createAccountCredential(admin.id, 'correct horse battery'), session.token);
+        writeAuthSession(storage, session);
+
+        expect(credential).not.toHaveProperty('token');
+        expect(await readAuthSession(storage, lookup(credential))).toEqual(session);
+    });
+
+    it('refuses a session written into storage by hand', async () => {
+        const storage = createMemoryStorage();
+        const credential = await withSessionToken(await createAccountCredential(admin.id, 'correct horse battery'), 'a'.repeat(64));
+        const now = Date.now();
+        storage.setItem(AUTH_SESSION_KEY, JSON.stringify({
+            token: 'b'.repeat(64), accountId: admin.id, role: 'Central Admin', displayName: 'Central Admin', issuedAt: now, lastActiveAt: now,
+        }));
+
+        expect(await readAuthSession(storage, lookup(credential))).toBeNull();
+    });
+
+    it('refuses a session once its token has been cleared from the credential', async () => {
+        const storage = createMemoryStorage();
+        const session = createAuthSession(admin, Date.now());
+        const signedIn = await withSessionToken(await createAccountCredential(admin.id, 'correct horse battery'), session.token);
+        writeAuthSession(storage, session);
+
+        const signedOut = await withSessionToken(signedIn, null);
+
+        expect(signedOut).not.toHaveProperty('sessionTokenHash');
+        expect(await readAuthSession(storage, lookup(signedOut))).toBeNull();
+    });
+});
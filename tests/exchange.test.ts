@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { findExchangeProposals, selectDisjointCycles } from '../registry/exchange';
+import type { BloodGroup, Donor, Recipient } from '../types';
+
+const NOW = Date.UTC(2025, 0, 15);
+
+const pair = (id: string, donorGroup: BloodGroup, recipientGroup: BloodGroup): [Donor, Recipient] => [
+    {
+        id: `d${id}`,
+        name: `Donor ${id}`,
+        contact: '9876543210',
+        dob: '1980-01-01',
+        gender: 'Female',
+        bloodGroup: donorGroup,
+        address: 'Bangalore',
+        pledgedOrgans: ['Kidney'],
+        pledgeDate: NOW,
+        donorType: 'Living Paired',
+        pairedRecipientId: `r${id}`,
+        status: 'Pledged',
+    },
+    {
+        id: `r${id}`,
+        patientId: `NOD-${id}`,
+        name: `Recipient ${id}`,
+        organNeeded: 'Kidney',
+        bloodGroup: recipientGroup,
+        urgency: 'High',
+        timeOnList: NOW,
+        status: 'Searching',
+    },
+];
+
+const covered = (cycles: number[][]) => cycles.reduce((sum, cycle) => sum + cycle.length, 0);
+
+describe('selectDisjointCycles', () => {
+    it('covers the most pairs without using a pair twice', () => {
+        const { cycles, exhaustive } = selectDisjointCycles([[0, 1], [1, 2, 3], [2, 3], [4, 5, 6]]);
+        expect(exhaustive).toBe(true);
+        expect(covered(cycles)).toBe(7);
+        expect(new Set(cycles.flat()).size).toBe(7);
+    });
+
+    it('prefers more, shorter cycles when coverage ties', () => {
+        const { cycles } = selectDisjointCycles([[0, 1, 2], [3, 4, 5], [0, 1], [2, 3], [4, 5]]);
+        expect(cycles).toEqual([[0, 1], [2, 3], [4, 5]]);
+    });
+
+    it('returns nothing for no cycles', () => {
+        expect(selectDisjointCycles([])).toEqual({ cycles: [], exhaustive: true });
+    });
+
+    it('reports a best-effort result when the search budget runs out', () => {
+        const cycles = Array.from({ length: 20 }, (_, i) => [2 * i, 2 * i + 1]);
+        const result = selectDisjointCycles(cycles);
+        expect(result.exhaustive).toBe(false);
+        expect(result.cycles.length).toBeGreaterThan(0);
+    });
+});
+
+describe('findExchangeProposals', () => {
+    it('proposes a 2-way swap between two incompatible pairs', () => {
+        const [donorA, recipientA] = pair('1', 'A+', 'B+');
+        const [donorB, recipientB] = pair('2', 'B+', 'A+');
+
+        const { proposals, exhaustive } = findExchangeProposals([donorA, donorB], [recipientA, recipientB]);
+
+        expect(exhaustive).toBe(true);
+        expect(proposals).toHaveLength(1);
+        expect(proposals[0].kind).toBe('2-way Cycle');
+        expect(proposals[0].transplants.map(t => [t.donor.id, t.recipient.id])).toEqual([['d1', 'r2'], ['d2', 'r1']]);
+    });
+
+    it('finds nothing when no pair can give to another', () => {
+        const [donorA, recipientA] = pair('1', 'AB+', 'O+');
+        const [donorB, recipientB] = pair('2', 'AB+', 'O-');
+
+        expect(findExchangeProposals([donorA, donorB], [recipientA, recipientB]).proposals).toEqual([]);
+    });
+});
@@ -0,0 +1,73 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { RegistryCollections, RegistryStore } from '../registry/storage';
+import type { Recipient } from '../types';
+import { makeDonor, makeRecipient } from './fixtures';
+import { createMemoryStorage } from './memoryStorage';
+
+// Runs only against a Firestore emulator, e.g. `npm run test:emulator`; skipped otherwise
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST;
+
+const EMPTY_REGISTRY: RegistryCollections = {
+    donors: [], recipients: [], interestNotifications: [], matchOffers: [], accounts: [], auditLog: [], credentials: [],
+};
+
+// Each device gets fresh module instances, and with them its own session ID and Firebase app
+const connectDevice = async (collectionPrefix: string) => {
+    vi.resetModules();
+    const { createFirestoreSyncStore } = await import('../registry/firestoreSync');
+    const { createLocalStorageStore } = await import('../registry/storage');
+    const storage = createMemoryStorage();
+    const local = createLocalStorageStore(storage, EMPTY_REGISTRY);
+    const store = createFirestoreSyncStore(local, { firebase: { projectId: 'demo-lifeconnect' }, emulatorHost: EMULATOR_HOST, collectionPrefix }, storage);
+    await store.load();
+    await store.whenSynced();
+    return { store, local };
+};
+
+const recipientOn = async (local: RegistryStore, id: string) => (await local.load()).data.recipients.find(r => r.id === id);
+
+describe.skipIf(!EMULATOR_HOST)('Firestore sync against the emulator', () => {
+    afterAll(async () => {
+        const { deleteApp, getApps } = await import('firebase/app');
+        await Promise.all(getApps().map(app => deleteApp(app)));
+    });
+
+    it('merges concurrent edits to one record from two devices', async () => {
+        const prefix = `test${Date.now()}_`;
+        const first = await connectDevice(prefix);
+        const second = await connectDevice(prefix);
+
+        const recipient = makeRecipient('r1', 'Kidney');
+        await first.store.putRecords('recipients', [recipient]);
+        await vi.waitFor(async () => expect(await recipientOn(second.local, 'r1')).toEqual(recipient), { timeout: 10000 });
+
+        const transfer = { kind: 'Transferred' as const, at: 1, actorName: 'Central Admin', reason: 'Closer to home', fromHospitalId: 'h1', toHospitalId: 'h2' };
+        const pause = { kind: 'Temporarily Inactive' as const, at: 2, actorName: 'Coordinator', reason: 'Infection' };
+        const ours: Recipient = { ...recipient, urgency: 'Critical', listingHistory: [transfer] };
+        const theirs: Recipient = { ...recipient, name: 'Asha R', listingHistory: [pause] };
+        await Promise.all([first.store.putRecords('recipients', [ours]), second.store.putRecords('recipients', [theirs])]);
+
+        const merged = { ...recipient, urgency: 'Critical', name: 'Asha R', listingHistory: [transfer, pause] };
+        await vi.waitFor(async () => {
+            expect(await recipientOn(first.local, 'r1')).toEqual(merged);
+            expect(await recipientOn(second.local, 'r1')).toEqual(merged);
+        }, { timeout: 10000 });
+    }, 30000);
+
+    it('shares keyed Aadhaar digests but keeps unkeyed ones on the device that made them', async () => {
+        const prefix = `test${Date.now()}_`;
+        const first = await connectDevice(prefix);
+        const second = await connectDevice(prefix);
+
+        const unkeyed = makeDonor('d1', ['Kidney'], { aadhaar: { last4: '2346', digest: 'ab'.repeat(32) } });
+        const keyed = makeDonor('d2', ['Kidney'], { aadhaar: { last4: '9045', digest: 'cd'.repeat(32), keyed: true } });
+        await first.store.putRecords('donors', [unkeyed, keyed]);
+
+        await vi.waitFor(async () => {
+            const donors = (await second.local.load()).data.donors;
+            expect(donors.find(d => d.id === 'd1')?.aadhaar).toEqual({ last4: '2346' });
+            expect(donors.find(d => d.id === 'd2')?.aadhaar).toEqual(keyed.aadhaar);
+        }, { timeout: 10000 });
+        expect((await first.local.load()).data.donors.find(d => d.id === 'd1')?.aadhaar).toEqual(unkeyed.aadhaar);
+    }, 30000);
+});
@@ -0,0 +1,31 @@
+import type { Donor, Organ, Recipient } from '../types';
+
+export const NOW = Date.UTC(2025, 0, 15);
+
+export const makeDonor = (id: string, pledgedOrgans: Organ[], overrides: Partial<Donor> = {}): Donor => ({
+    id,
+    name: `Donor ${id}`,
+    contact: '9876543210',
+    dob: '1985-06-01',
+    gender: 'Male',
+    bloodGroup: 'O+',
+    address: 'Bangalore',
+    pledgedOrgans,
+    pledgeDate: NOW,
+    verification: { status: 'Verified', submittedAt: NOW },
+    status: 'Pledged',
+    ...overrides,
+});
+
+export const makeRecipient = (id: string, organNeeded: Organ, overrides: Partial<Recipient> = {}): Recipient => ({
+    id,
+    patientId: `NOD-${id}`,
+    name: `Recipient ${id}`,
+    organNeeded,
+    bloodGroup: 'O+',
+    urgency: 'High',
+    timeOnList: NOW - 30 * 24 * 60 * 60 * 1000,
+    hospitalId: 'h1',
+    status: 'Searching',
+    ...overrides,
+});
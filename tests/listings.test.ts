@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applyListingChange, getListingState, isListingOpen, isReviewOverdue, LISTING_TRANSITIONS, validateListingChange,
+} from '../registry/listings';
+import { availableOrganUnits } from '../registry/matchingRules';
+import type { ListingChange } from '../types';
+import { makeDonor, makeRecipient, NOW } from './fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const isoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+describe('listing state machine', () => {
+    it('treats recipients without a listing state as Active', () => {
+        const recipient = makeRecipient('r1', 'Kidney');
+        expect(getListingState(recipient)).toBe('Active');
+        expect(isListingOpen(recipient)).toBe(true);
+    });
+
+    it('makes Transplanted and removals final', () => {
+        (['Transplanted', 'Removed - Deceased', 'Removed - Recovered'] as const).forEach(state => {
+            expect(LISTING_TRANSITIONS[state]).toEqual([]);
+            const closed = makeRecipient('r1', 'Kidney', { listingState: state });
+            expect(isListingOpen(closed)).toBe(false);
+            expect(validateListingChange(closed, { state: 'Active', reason: 'Relisted' }, [], NOW)).toBe(`A ${state} listing cannot be changed to Active.`);
+        });
+    });
+
+    it('requires a reason', () => {
+        expect(validateListingChange(makeRecipient('r1', 'Kidney'), { state: 'Removed - Recovered', reason: ' ' }, [], NOW))
+            .toBe('Please record a reason for the status change.');
+    });
+
+    it('requires a review date for a temporary inactivation and flags it once overdue', () => {
+        const recipient = makeRecipient('r1', 'Kidney');
+        const change: ListingChange = { state: 'Temporarily Inactive', reason: 'Infection', reviewDate: isoDate(NOW + 7 * DAY) };
+        expect(validateListingChange(recipient, { ...change, reviewDate: undefined }, [], NOW)).toMatch(/review date/);
+        expect(validateListingChange(recipient, { ...change, reviewDate: isoDate(NOW - 3 * DAY) }, [], NOW)).toMatch(/review date/);
+        expect(validateListingChange(recipient, change, [], NOW)).toBeNull();
+
+        const { recipient: inactive } = applyListingChange(recipient, change, [], 'Coordinator', NOW);
+        expect(getListingState(inactive)).toBe('Temporarily Inactive');
+        expect(inactive.status).toBe('Searching');
+        expect(isReviewOverdue(inactive, NOW)).toBe(false);
+        expect(isReviewOverdue(inactive, NOW + 8 * DAY)).toBe(true);
+    });
+});
+
+describe('marking a listing Transplanted', () => {
+    const recipient = makeRecipient('r1', 'Liver');
+    const donor = makeDonor('d1', ['Liver', 'Kidney']);
+    const change: ListingChange = { state: 'Transplanted', reason: 'Transplant done', transplantDate: isoDate(NOW - DAY), transplantDonorId: 'd1' };
+
+    it('needs a transplant date that is not in the future', () => {
+        expect(validateListingChange(recipient, { ...change, transplantDate: isoDate(NOW + 2 * DAY) }, [donor], NOW)).toBe('Please record the transplant date.');
+    });
+
+    it('uses up the linked donor organ', () => {
+        expect(validateListingChange(recipient, change, [donor], NOW)).toBeNull();
+        const { recipient: transplanted, usedDonor } = applyListingChange(recipient, change, [donor], 'Coordinator', NOW);
+
+        expect(transplanted.status).toBe('Transplanted');
+        expect(transplanted.listingHistory).toEqual([expect.objectContaining({ kind: 'Transplanted', actorName: 'Coordinator', transplantDonorId: 'd1' })]);
+        expect(usedDonor?.transplantedOrgans).toEqual(['Liver']);
+        expect(availableOrganUnits(usedDonor!, 'Liver')).toBe(0);
+        expect(availableOrganUnits(usedDonor!, 'Kidney')).toBe(2);
+    });
+
+    it('refuses a linked donor whose organ is already used or who is not registered', () => {
+        const { usedDonor } = applyListingChange(recipient, change, [donor], 'Coordinator', NOW);
+        expect(validateListingChange(makeRecipient('r2', 'Liver'), change, [usedDonor!], NOW)).toBe('The linked donor has no unused Liver left to transplant.');
+        expect(validateListingChange(recipient, change, [], NOW)).toBe('The linked donor is not on the registry.');
+    });
+
+    it('leaves donors alone when no donor is linked', () => {
+        const { usedDonor } = applyListingChange(recipient, { ...change, transplantDonorId: undefined }, [donor], 'Coordinator', NOW);
+        expect(usedDonor).toBeUndefined();
+    });
+});
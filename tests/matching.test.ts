@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { runGreedyMatching, runOptimalMatching, solveAssignment, summarizeSupplyDemand } from '../registry/matching';
+import { checkOrganRule, recordOrganTransplanted } from '../registry/matchingRules';
+import { makeDonor as donor, makeRecipient as recipient, NOW } from './fixtures';
+
+const totalCost = (cost: number[][], assignment: number[]) => assignment.reduce((sum, column, row) => sum + cost[row][column], 0);
+
+// Tries every assignment of rows to distinct columns
+const bruteForceMinimum = (cost: number[][]): number => {
+    const search = (row: number, used: Set<number>): number => {
+        if (row === cost.length) return 0;
+        let best = Infinity;
+        cost[row].forEach((value, column) => {
+            if (used.has(column)) return;
+            used.add(column);
+            best = Math.min(best, value + search(row + 1, used));
+            used.delete(column);
+        });
+        return best;
+    };
+    return search(0, new Set());
+};
+
+// Small deterministic generator so failures are reproducible
+const seededRandom = (seed: number) => () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+
+describe('solveAssignment', () => {
+    it('finds the minimum-cost assignment of a square matrix', () => {
+        const cost = [[4, 1, 3], [2, 0, 5], [3, 2, 2]];
+        const assignment = solveAssignment(cost);
+        expect(assignment).toEqual([1, 0, 2]);
+        expect(totalCost(cost, assignment)).toBe(5);
+    });
+
+    it('leaves extra columns unassigned when rows are fewer', () => {
+        const cost = [[9, 2, 7, 8], [6, 4, 3, 7]];
+        const assignment = solveAssignment(cost);
+        expect(new Set(assignment).size).toBe(2);
+        expect(totalCost(cost, assignment)).toBe(5);
+    });
+
+    it('handles negative costs, as used for maximising scores', () => {
+        const cost = [[-10, -3], [-8, -1]];
+        expect(totalCost(cost, solveAssignment(cost))).toBe(-11);
+    });
+
+    it('returns an empty assignment for no rows', () => {
+        expect(solveAssignment([])).toEqual([]);
+    });
+
+    it('matches a brute-force search on random matrices', () => {
+        const random = seededRandom(42);
+        for (let trial = 0; trial < 50; trial++) {
+            const rows = 1 + Math.floor(random() * 5);
+            const columns = rows + Math.floor(random() * 3);
+            const cost = Array.from({ length: rows }, () => Array.from({ length: columns }, () => Math.floor(random() * 100) - 50));
+            const assignment = solveAssignment(cost);
+            expect(new Set(assignment).size).toBe(rows);
+            expect(totalCost(cost, assignment)).toBe(bruteForceMinimum(cost));
+        }
+    });
+});
+
+describe.each([
+    ['runGreedyMatching', runGreedyMatching],
+    ['runOptimalMatching', runOptimalMatching],
+])('%s', (_name, match) => {
+    it('gives both corneas of one donor to two recipients', () => {
+        const matches = match([donor('d1', ['Eye'])], [recipient('r1', 'Eye'), recipient('r2', 'Eye'), recipient('r3', 'Eye')], NOW);
+        expect(matches).toHaveLength(2);
+        expect(matches.every(m => m.donor.id === 'd1')).toBe(true);
+    });
+
+    it('gives a heart to only one recipient', () => {
+        const matches = match([donor('d1', ['Heart'])], [recipient('r1', 'Heart'), recipient('r2', 'Heart')], NOW);
+        expect(matches).toHaveLength(1);
+    });
+
+    it('offers only the units a recorded transplant has not used', () => {
+        const partlyUsed = recordOrganTransplanted(donor('d1', ['Kidney']), 'Kidney');
+        const matches = match([partlyUsed], [recipient('r1', 'Kidney'), recipient('r2', 'Kidney')], NOW);
+        expect(matches).toHaveLength(1);
+
+        const fullyUsed = recordOrganTransplanted(partlyUsed, 'Kidney');
+        expect(match([fullyUsed], [recipient('r1', 'Kidney')], NOW)).toEqual([]);
+    });
+
+    it('never proposes living donors', () => {
+        const living = donor('d1', ['Kidney'], { donorType: 'Living Altruistic' });
+        expect(match([living], [recipient('r1', 'Kidney')], NOW)).toEqual([]);
+    });
+
+    it('proposes only donors whose documents have been verified', () => {
+        const pending = donor('d1', ['Liver'], { verification: { status: 'Pending', submittedAt: NOW } });
+        const undocumented = donor('d2', ['Liver'], { verification: undefined });
+        const verified = donor('d3', ['Liver']);
+        const matches = match([pending, undocumented, verified], [recipient('r1', 'Liver'), recipient('r2', 'Liver')], NOW);
+        expect(matches.map(m => m.donor.id)).toEqual(['d3']);
+    });
+});
+
+describe('checkOrganRule', () => {
+    it('refuses unverified donors before checking compatibility', () => {
+        const rejected = donor('d1', ['Heart'], { verification: { status: 'Rejected', submittedAt: NOW, reason: 'Illegible ID' } });
+        expect(checkOrganRule(rejected, recipient('r1', 'Heart'))).toEqual({ eligible: false, reasons: ['Donor documents are rejected, not verified'] });
+        expect(checkOrganRule(donor('d2', ['Heart']), recipient('r1', 'Heart')).eligible).toBe(true);
+    });
+});
+
+describe('summarizeSupplyDemand', () => {
+    it('counts only verified deceased-donor pledges with an unused unit as supply', () => {
+        const donors = [
+            donor('d1', ['Liver', 'Heart']),
+            donor('d2', ['Liver'], { verification: { status: 'Pending', submittedAt: NOW } }),
+            recordOrganTransplanted(donor('d3', ['Liver']), 'Liver'),
+            donor('d4', ['Liver'], { donorType: 'Living Altruistic' }),
+            recordOrganTransplanted(donor('d5', ['Kidney']), 'Kidney'),
+        ];
+        const recipients = [
+            recipient('r1', 'Liver'),
+            recipient('r2', 'Liver', { listingState: 'Transplanted' }),
+            recipient('r3', 'Kidney', { status: 'Offer Pending' }),
+        ];
+        const byOrgan = new Map(summarizeSupplyDemand(donors, recipients).map(row => [row.organ, row]));
+
+        expect(byOrgan.get('Liver')).toEqual({ organ: 'Liver', demand: 1, supply: 1, awaitingVerification: 1 });
+        expect(byOrgan.get('Heart')).toEqual({ organ: 'Heart', demand: 0, supply: 1, awaitingVerification: 0 });
+        expect(byOrgan.get('Kidney')).toEqual({ organ: 'Kidney', demand: 1, supply: 1, awaitingVerification: 0 });
+    });
+});
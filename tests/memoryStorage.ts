@@ -0,0 +1,12 @@
+// In-memory stand-in for window.localStorage
+export const createMemoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        clear: () => items.clear(),
+        getItem: key => items.get(key) ?? null,
+        key: index => Array.from(items.keys())[index] ?? null,
+        removeItem: key => { items.delete(key); },
+        setItem: (key, value) => { items.set(key, String(value)); },
+    };
+};
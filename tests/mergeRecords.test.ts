@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { mergeRecords } from '../registry/firestoreSync';
+
+const base = { id: 'r1', name: 'Asha', urgency: 'High', labs: { creatinine: 1.2, sodium: 137 } };
+
+describe('mergeRecords', () => {
+    it('takes the remote value for fields this session left untouched', () => {
+        const theirs = { ...base, urgency: 'Critical' };
+        expect(mergeRecords(base, base, theirs)).toEqual(theirs);
+    });
+
+    it('keeps fields this session changed when the remote left them alone', () => {
+        const ours = { ...base, name: 'Asha R' };
+        expect(mergeRecords(base, ours, base)).toEqual(ours);
+    });
+
+    it('combines edits to different fields from both sides', () => {
+        const ours = { ...base, name: 'Asha R' };
+        const theirs = { ...base, urgency: 'Critical' };
+        expect(mergeRecords(base, ours, theirs)).toEqual({ ...base, name: 'Asha R', urgency: 'Critical' });
+    });
+
+    it('lets this session win when both sides changed the same field', () => {
+        const ours = { ...base, urgency: 'Medium' };
+        const theirs = { ...base, urgency: 'Critical' };
+        expect(mergeRecords(base, ours, theirs).urgency).toBe('Medium');
+    });
+
+    it('compares nested values by content and merges them as a whole field', () => {
+        const ours = { ...base, labs: { ...base.labs } };
+        const theirs = { ...base, labs: { creatinine: 2.4, sodium: 137 } };
+        expect(mergeRecords(base, ours, theirs).labs).toEqual({ creatinine: 2.4, sodium: 137 });
+
+        const edited = { ...base, labs: { creatinine: 1.2, sodium: 130 } };
+        expect(mergeRecords(base, edited, theirs).labs).toEqual({ creatinine: 1.2, sodium: 130 });
+    });
+
+    it('carries over fields added or removed on either side', () => {
+        const { labs, ...withoutLabs } = base;
+        const theirs = { ...base, hospitalId: 'h2' };
+        const merged = mergeRecords(base, withoutLabs, theirs);
+        expect(merged.hospitalId).toBe('h2');
+        expect(merged.labs).toBeUndefined();
+
+        const remoteRemoved = mergeRecords(base, base, withoutLabs);
+        expect(remoteRemoved.labs).toBeUndefined();
+    });
+
+    it('prefers this session on shared fields when there is no common base', () => {
+        const ours = { id: 'r1', name: 'Asha', urgency: 'Medium' };
+        const theirs = { id: 'r1', name: 'Asha', urgency: 'Critical', hospitalId: 'h2' };
+        expect(mergeRecords(null, ours, theirs)).toEqual({ id: 'r1', name: 'Asha', urgency: 'Medium', hospitalId: 'h2' });
+    });
+
+    it('keeps entries appended to the same history on both sides, in time order', () => {
+        const shared = { state: 'Proposed', at: 1 };
+        const offer = { id: 'mo1', state: 'Proposed', history: [shared] };
+        const ours = { ...offer, state: 'Offered', history: [shared, { state: 'Offered', at: 3 }] };
+        const theirs = { ...offer, state: 'Declined', history: [shared, { state: 'Declined', at: 2, note: 'Positive crossmatch' }] };
+
+        expect(mergeRecords(offer, ours, theirs).history).toEqual([shared, { state: 'Declined', at: 2, note: 'Positive crossmatch' }, { state: 'Offered', at: 3 }]);
+    });
+
+    it('unions listing and change histories even when only one side had them', () => {
+        const recipient = { id: 'r1', name: 'Asha' };
+        const transferred = { kind: 'Transferred', at: 5, actorName: 'Admin', reason: 'Moved' };
+        const ours = { ...recipient, listingHistory: [transferred] };
+        expect(mergeRecords(recipient, ours, recipient).listingHistory).toEqual([transferred]);
+
+        const edit = { at: 4, changedById: 'u1', changedByName: 'Donor', fields: ['contact'], reverification: false };
+        const donor = { id: 'd1', changeHistory: [edit] };
+        const later = { at: 6, changedById: 'u1', changedByName: 'Donor', fields: ['address'], reverification: false };
+        const earlier = { at: 5, changedById: 'u2', changedByName: 'Admin', fields: ['name'], reverification: true };
+        expect(mergeRecords(donor, { ...donor, changeHistory: [edit, later] }, { ...donor, changeHistory: [edit, earlier] }).changeHistory)
+            .toEqual([edit, earlier, later]);
+    });
+});
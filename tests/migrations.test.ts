@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatRegistryId, PLEDGE_ID_PREFIX } from '../registry/registryIds';
+import { createLocalStorageStore, STORAGE_SCHEMA_VERSION } from '../registry/storage';
+import type { RegistryCollections } from '../registry/storage';
+import { makeDonor, makeRecipient, NOW } from './fixtures';
+import { createMemoryStorage } from './memoryStorage';
+
+const EMPTY_REGISTRY: RegistryCollections = {
+    donors: [], recipients: [], interestNotifications: [], matchOffers: [], accounts: [], auditLog: [], credentials: [],
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const legacyRecipient = (id: string) => {
+    const { status, ...rest } = makeRecipient(id, 'Kidney');
+    return rest;
+};
+
+const legacyAccount = {
+    id: 'acc-1', username: 'admin', displayName: 'Central Admin', role: 'Central Admin', createdAt: NOW,
+    passwordHash: 'hash', passwordSalt: 'salt', passwordIterations: 210000,
+};
+
+const seed = (storage: Storage, entries: Record<string, unknown>) =>
+    Object.entries(entries).forEach(([key, value]) => storage.setItem(key, JSON.stringify(value)));
+
+const load = (storage: Storage) => createLocalStorageStore(storage, EMPTY_REGISTRY).load();
+
+describe('storage migrations', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('starts from the fallback when nothing is stored', async () => {
+        const storage = createMemoryStorage();
+        const fallback = { ...EMPTY_REGISTRY, donors: [makeDonor('d1', ['Heart'])] };
+
+        const { data, quarantined } = await createLocalStorageStore(storage, fallback).load();
+
+        expect(data).toBe(fallback);
+        expect(quarantined).toEqual([]);
+        expect(storage.getItem('lifeconnect:schemaVersion')).toBe(String(STORAGE_SCHEMA_VERSION));
+    });
+
+    it('imports the legacy unversioned keys into versioned storage and removes them', async () => {
+        const storage = createMemoryStorage();
+        seed(storage, { donors: [makeDonor('d1', ['Heart'])], recipients: [legacyRecipient('r1')] });
+
+        const { data } = await load(storage);
+
+        expect(data.donors.map(d => d.id)).toEqual(['d1']);
+        expect(data.recipients.map(r => r.id)).toEqual(['r1']);
+        expect(storage.getItem('donors')).toBeNull();
+        expect(storage.getItem('recipients')).toBeNull();
+        expect(JSON.parse(storage.getItem('lifeconnect:donors')!)).toEqual(data.donors);
+        expect(storage.getItem('lifeconnect:schemaVersion')).toBe(String(STORAGE_SCHEMA_VERSION));
+    });
+
+    it('backfills donorType and recipient status on records that predate them', async () => {
+        const storage = createMemoryStorage();
+        seed(storage, {
+            donors: [makeDonor('d1', ['Heart']), makeDonor('d2', ['Kidney'], { donorType: 'Living Paired' })],
+            recipients: [legacyRecipient('r1'), makeRecipient('r2', 'Liver', { status: 'Transplanted' })],
+        });
+
+        const { data } = await load(storage);
+
+        expect(data.donors.map(d => d.donorType)).toEqual(['Deceased Pledge', 'Living Paired']);
+        expect(data.recipients.map(r => r.status)).toEqual(['Searching', 'Transplanted']);
+    });
+
+    it('issues pledge IDs oldest pledge first and keeps IDs already issued', async () => {
+        const storage = createMemoryStorage();
+        const kept = formatRegistryId(PLEDGE_ID_PREFIX, 7);
+        seed(storage, {
+            'lifeconnect:schemaVersion': 4,
+            'lifeconnect:donors': [
+                makeDonor('newer', ['Heart'], { pledgeDate: NOW }),
+                makeDonor('older', ['Kidney', 'Eye'], { pledgeDate: NOW - 10 * DAY }),
+                makeDonor('issued', ['Liver'], { pledgeDate: NOW - 20 * DAY, pledgeIds: { Liver: kept } }),
+            ],
+        });
+
+        const { data } = await load(storage);
+        const byId = new Map(data.donors.map(d => [d.id, d.pledgeIds]));
+
+        expect(byId.get('issued')).toEqual({ Liver: kept });
+        expect(byId.get('older')).toEqual({ Kidney: formatRegistryId(PLEDGE_ID_PREFIX, 8), Eye: formatRegistryId(PLEDGE_ID_PREFIX, 9) });
+        expect(byId.get('newer')).toEqual({ Heart: formatRegistryId(PLEDGE_ID_PREFIX, 10) });
+    });
+
+    it('moves password hashes out of accounts into local credentials', async () => {
+        const storage = createMemoryStorage();
+        seed(storage, { 'lifeconnect:schemaVersion': 5, 'lifeconnect:accounts': [legacyAccount] });
+
+        const { data } = await load(storage);
+
+        expect(data.accounts).toEqual([{ id: 'acc-1', username: 'admin', displayName: 'Central Admin', role: 'Central Admin', createdAt: NOW }]);
+        expect(data.credentials).toEqual([
+            { id: 'cr-acc-1', accountId: 'acc-1', passwordHash: 'hash', passwordSalt: 'salt', passwordIterations: 210000 },
+        ]);
+    });
+
+    it('quarantines invalid records and unreadable collections instead of loading them', async () => {
+        const storage = createMemoryStorage();
+        seed(storage, {
+            'lifeconnect:schemaVersion': STORAGE_SCHEMA_VERSION,
+            'lifeconnect:donors': [makeDonor('d1', ['Heart'], { donorType: 'Deceased Pledge' }), { id: 'd2', name: 'No blood group' }],
+        });
+        storage.setItem('lifeconnect:recipients', '{not json');
+
+        const { data, quarantined } = await load(storage);
+
+        expect(data.donors.map(d => d.id)).toEqual(['d1']);
+        expect(data.recipients).toEqual([]);
+        expect(quarantined.map(q => [q.collection, q.reason])).toEqual([
+            ['recipients', 'Unparseable JSON under "lifeconnect:recipients"'],
+            ['donors', 'Invalid or missing field "contact"'],
+        ]);
+        expect(JSON.parse(storage.getItem('lifeconnect:quarantine')!)).toHaveLength(2);
+    });
+
+    it('loads data from a newer schema without migrating or rewriting it', async () => {
+        const storage = createMemoryStorage();
+        const futureVersion = STORAGE_SCHEMA_VERSION + 1;
+        seed(storage, { 'lifeconnect:schemaVersion': futureVersion, 'lifeconnect:accounts': [legacyAccount] });
+
+        const { data } = await load(storage);
+
+        expect(data.accounts).toEqual([legacyAccount]);
+        expect(data.credentials).toEqual([]);
+        expect(storage.getItem('lifeconnect:schemaVersion')).toBe(String(futureVersion));
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(`v${futureVersion} is newer`));
+    });
+});
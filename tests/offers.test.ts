@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { getListingState } from '../registry/listings';
+import { availableOrganUnits, checkOrganRule } from '../registry/matchingRules';
+import { applyOfferTransition, createMatchOffer, OFFER_TRANSITIONS } from '../registry/offers';
+import type { MatchOffer, OfferState } from '../types';
+import { makeDonor, makeRecipient, NOW } from './fixtures';
+
+const HOUR = 60 * 60 * 1000;
+
+const setUp = () => {
+    const donor = makeDonor('d1', ['Liver']);
+    const first = makeRecipient('r1', 'Liver', { status: 'Potential Match Found' });
+    const backup = makeRecipient('r2', 'Liver');
+    const offer = createMatchOffer(donor, first, [backup], NOW);
+    return { donor, first, backup, state: { offers: [offer], recipients: [first, backup], donors: [donor] }, offer };
+};
+
+const advance = (state: ReturnType<typeof setUp>['state'], offer: MatchOffer, path: OfferState[], note?: string) =>
+    path.reduce((current, to, i) => applyOfferTransition(current, offer.id, to, NOW + i * 1000, note), state);
+
+describe('offer state machine', () => {
+    it('only allows the listed transitions and treats Declined, Transplanted and Expired as final', () => {
+        expect(OFFER_TRANSITIONS['Declined']).toEqual([]);
+        expect(OFFER_TRANSITIONS['Transplanted']).toEqual([]);
+        expect(OFFER_TRANSITIONS['Expired']).toEqual([]);
+        const { state, offer } = setUp();
+        expect(() => applyOfferTransition(state, offer.id, 'Accepted', NOW)).toThrow('Invalid offer transition from Proposed to Accepted');
+        expect(() => applyOfferTransition(state, offer.id, 'Transplanted', NOW)).toThrow();
+    });
+
+    it('starts the response window when the offer is made and keeps the recipient status in step', () => {
+        const { state, offer } = setUp();
+        const offered = applyOfferTransition(state, offer.id, 'Offered', NOW);
+        expect(offered.offers[0]).toMatchObject({ state: 'Offered', expiresAt: NOW + HOUR });
+        expect(offered.recipients[0].status).toBe('Offer Pending');
+
+        const accepted = applyOfferTransition(offered, offer.id, 'Accepted', NOW + 1000);
+        expect(accepted.recipients[0].status).toBe('Offer Accepted');
+        expect(accepted.offers[0].history.map(entry => entry.state)).toEqual(['Proposed', 'Offered', 'Accepted']);
+    });
+
+    it('ignores unknown offers', () => {
+        const { state } = setUp();
+        expect(applyOfferTransition(state, 'missing', 'Offered', NOW)).toBe(state);
+    });
+});
+
+describe('transplant', () => {
+    it('closes the listing and uses up the donor organ', () => {
+        const { state, offer, first, backup } = setUp();
+        const done = advance(state, offer, ['Offered', 'Accepted', 'Transplanted']);
+
+        const recipient = done.recipients.find(r => r.id === first.id)!;
+        expect(recipient.status).toBe('Transplanted');
+        expect(getListingState(recipient)).toBe('Transplanted');
+        expect(recipient.listingHistory?.at(-1)).toMatchObject({ kind: 'Transplanted', transplantDonorId: 'd1' });
+
+        const donor = done.donors[0];
+        expect(donor.transplantedOrgans).toEqual(['Liver']);
+        expect(availableOrganUnits(donor, 'Liver')).toBe(0);
+        expect(checkOrganRule(donor, backup).eligible).toBe(false);
+        expect(done.offers).toHaveLength(1);
+    });
+
+    it('leaves the second kidney available', () => {
+        const donor = makeDonor('d1', ['Kidney']);
+        const recipient = makeRecipient('r1', 'Kidney');
+        const offer = createMatchOffer(donor, recipient, [], NOW);
+        const done = advance({ offers: [offer], recipients: [recipient], donors: [donor] }, offer, ['Offered', 'Accepted', 'Transplanted']);
+        expect(availableOrganUnits(done.donors[0], 'Kidney')).toBe(1);
+    });
+});
+
+describe('cascade', () => {
+    it('offers the organ to the next eligible backup on decline', () => {
+        const { state, offer, backup } = setUp();
+        const declined = advance(state, offer, ['Offered', 'Declined'], 'Positive crossmatch');
+
+        expect(declined.offers).toHaveLength(2);
+        const [next, original] = declined.offers;
+        expect(original).toMatchObject({ state: 'Declined', declineReason: 'Positive crossmatch' });
+        expect(next).toMatchObject({ recipientId: backup.id, state: 'Proposed', previousOfferId: offer.id, backupRecipientIds: [] });
+        expect(declined.recipients.map(r => r.status)).toEqual(['Searching', 'Potential Match Found']);
+    });
+
+    it('cascades on expiry and skips backups that are no longer waiting', () => {
+        const { donor, first, backup } = setUp();
+        const third = makeRecipient('r3', 'Liver');
+        const offer = createMatchOffer(donor, first, [backup, third], NOW);
+        const state = { offers: [offer], recipients: [first, { ...backup, listingState: 'Temporarily Inactive' as const }, third], donors: [donor] };
+
+        const expired = advance(state, offer, ['Offered', 'Expired']);
+        expect(expired.offers[0]).toMatchObject({ recipientId: third.id, state: 'Proposed' });
+    });
+
+    it('stops when no backup is left', () => {
+        const donor = makeDonor('d1', ['Liver']);
+        const recipient = makeRecipient('r1', 'Liver');
+        const offer = createMatchOffer(donor, recipient, [], NOW);
+        const declined = advance({ offers: [offer], recipients: [recipient], donors: [donor] }, offer, ['Declined']);
+        expect(declined.offers).toHaveLength(1);
+        expect(declined.recipients[0].status).toBe('Searching');
+    });
+
+    it('does not cascade a pledge that went back for verification', () => {
+        const { state, offer, donor } = setUp();
+        const pending = { ...donor, verification: { status: 'Pending' as const, submittedAt: NOW } };
+        const declined = advance({ ...state, donors: [pending] }, offer, ['Offered', 'Declined'], 'Donor organ quality');
+        expect(declined.offers).toHaveLength(1);
+        expect(declined.recipients.map(r => r.status)).toEqual(['Searching', 'Searching']);
+    });
+
+    it('skips backups who already hold an offer for another donor', () => {
+        const { donor, first, backup } = setUp();
+        const third = makeRecipient('r3', 'Liver');
+        const otherDonor = makeDonor('d2', ['Liver']);
+        const held = createMatchOffer(otherDonor, backup, [], NOW);
+        const offer = createMatchOffer(donor, first, [backup, third], NOW);
+        const state = { offers: [offer, held], recipients: [first, { ...backup, status: 'Potential Match Found' as const }, third], donors: [donor, otherDonor] };
+
+        const declined = advance(state, offer, ['Offered', 'Declined'], 'Positive crossmatch');
+        expect(declined.offers[0]).toMatchObject({ recipientId: third.id, state: 'Proposed', backupRecipientIds: [] });
+        expect(declined.offers.filter(o => o.recipientId === backup.id)).toEqual([held]);
+    });
+
+    it('keeps the status of another offer the recipient still holds', () => {
+        const { donor, first } = setUp();
+        const otherDonor = makeDonor('d2', ['Liver']);
+        const offer = createMatchOffer(donor, first, [], NOW);
+        const other = createMatchOffer(otherDonor, first, [], NOW + 1);
+        const state = { offers: [offer, other], recipients: [first], donors: [donor, otherDonor] };
+
+        const withOther = applyOfferTransition(state, other.id, 'Offered', NOW);
+        const expired = advance(withOther, offer, ['Offered', 'Expired']);
+        expect(expired.recipients[0].status).toBe('Offer Pending');
+
+        const declined = applyOfferTransition(expired, other.id, 'Declined', NOW + HOUR, 'Recipient declined');
+        expect(declined.recipients[0].status).toBe('Searching');
+    });
+});
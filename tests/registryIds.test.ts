@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+    collectIssuedIds, formatRegistryId, highestIssuedSequence, issuePledgeIds, issueRegistryId, parseRegistryId, patientIdPrefix, PLEDGE_ID_PREFIX,
+    verhoeffCheckDigit,
+} from '../registry/registryIds';
+import { createLocalStorageStore } from '../registry/storage';
+import type { RegistryCollections } from '../registry/storage';
+import { createMemoryStorage } from './memoryStorage';
+
+const EMPTY_REGISTRY: RegistryCollections = {
+    donors: [], recipients: [], interestNotifications: [], matchOffers: [], accounts: [], auditLog: [], credentials: [],
+};
+
+describe('verhoeffCheckDigit', () => {
+    it('matches the published Verhoeff example', () => {
+        expect(verhoeffCheckDigit('236')).toBe('3');
+    });
+
+    it('produces a digit that catches every single-digit change and adjacent swap', () => {
+        const digits = '001000042';
+        const check = verhoeffCheckDigit(digits);
+        for (let i = 0; i < digits.length; i++) {
+            for (let d = 0; d <= 9; d++) {
+                if (String(d) === digits[i]) continue;
+                expect(verhoeffCheckDigit(digits.slice(0, i) + d + digits.slice(i + 1))).not.toBe(check);
+            }
+            if (i + 1 < digits.length && digits[i] !== digits[i + 1]) {
+                expect(verhoeffCheckDigit(digits.slice(0, i) + digits[i + 1] + digits[i] + digits.slice(i + 2))).not.toBe(check);
+            }
+        }
+    });
+});
+
+describe('registry IDs', () => {
+    const hospital = { id: '1', mockId: 'h1', name: 'City Hospital', city: 'Bangalore', contact: '' };
+
+    it('formats and parses patient and pledge IDs', () => {
+        const patientId = formatRegistryId(patientIdPrefix(hospital), 42);
+        expect(patientId).toMatch(/^NOD-BLR1-000042-\d$/);
+        expect(parseRegistryId(patientId)).toEqual({ prefix: 'NOD-BLR1', sequence: 42, checkValid: true });
+        expect(parseRegistryId(formatRegistryId(PLEDGE_ID_PREFIX, 7))).toMatchObject({ prefix: 'PLG-KA', sequence: 7, checkValid: true });
+    });
+
+    it('flags a mistyped ID and ignores IDs from before check digits', () => {
+        const id = formatRegistryId('NOD-BLR1', 42);
+        const typo = id.replace('000042', '000043');
+        expect(parseRegistryId(typo)?.checkValid).toBe(false);
+        expect(parseRegistryId('NOD-1701')).toBeNull();
+    });
+
+    it('continues from the highest sequence issued, including IDs only left in audit snapshots', () => {
+        const issued = collectIssuedIds([
+            { patientId: formatRegistryId('NOD-BLR1', 3) },
+            { after: { pledgeIds: { Kidney: formatRegistryId(PLEDGE_ID_PREFIX, 9) } } },
+            { before: { patientId: formatRegistryId('NOD-BLR1', 8) } },
+        ]);
+        expect(highestIssuedSequence('NOD-BLR1', issued)).toBe(8);
+        expect(highestIssuedSequence('NOD-MYS2', issued)).toBe(0);
+        expect(issueRegistryId('NOD-BLR1', issued)).toBe(formatRegistryId('NOD-BLR1', 9));
+        expect(issueRegistryId('NOD-BLR1', issued)).toBe(formatRegistryId('NOD-BLR1', 10));
+    });
+
+    it('gives each newly pledged organ its own ID and keeps existing ones', () => {
+        let next = 0;
+        const ids = issuePledgeIds(['Kidney', 'Eye', 'Liver'], { Kidney: 'PLG-KA-000001-5' }, () => `id-${++next}`);
+        expect(ids).toEqual({ Kidney: 'PLG-KA-000001-5', Eye: 'id-1', Liver: 'id-2' });
+    });
+});
+
+describe('reserveSequences', () => {
+    it('hands out consecutive blocks that never repeat, starting above the floor', async () => {
+        const storage = createMemoryStorage();
+        const store = createLocalStorageStore(storage, EMPTY_REGISTRY);
+        // A second store over the same storage stands in for another tab
+        const otherTab = createLocalStorageStore(storage, EMPTY_REGISTRY);
+
+        expect(await store.reserveSequences('NOD-BLR1', 5, 2)).toBe(6);
+        expect(await otherTab.reserveSequences('NOD-BLR1', 5, 1)).toBe(8);
+        expect(await store.reserveSequences('NOD-BLR1', 20, 1)).toBe(21);
+        expect(await store.reserveSequences('PLG-KA', 0, 1)).toBe(1);
+    });
+});
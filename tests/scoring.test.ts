@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { scoreAllocation } from '../registry/scoring';
+import type { ImmunologyProfile, Organ, Recipient } from '../types';
+
+const NOW = Date.UTC(2025, 0, 15);
+
+const recipient = (organNeeded: Organ, immunology?: ImmunologyProfile): Recipient => ({
+    id: 'r1',
+    patientId: 'NOD-1',
+    name: 'Recipient',
+    organNeeded,
+    bloodGroup: 'O+',
+    urgency: 'High',
+    timeOnList: NOW,
+    immunology,
+    status: 'Searching',
+});
+
+const sensitization = (r: Recipient) => scoreAllocation({ recipient: r, now: NOW }).breakdown.find(item => item.factor === 'sensitization');
+
+describe('sensitization factor', () => {
+    it('raises priority on a sliding cPRA scale', () => {
+        expect(sensitization(recipient('Kidney', { cpra: 10 }))?.points).toBe(0);
+        expect(sensitization(recipient('Kidney', { cpra: 60 }))?.points).toBe(20);
+        expect(sensitization(recipient('Kidney', { cpra: 96 }))?.points).toBe(100);
+        expect(sensitization(recipient('Kidney', { cpra: 99 }))).toEqual({ factor: 'sensitization', label: 'Sensitization', points: 150, detail: 'cPRA 99%' });
+    });
+
+    it('falls back to PRA when cPRA is missing', () => {
+        expect(sensitization(recipient('Kidney', { pra: 85 }))).toMatchObject({ points: 50, detail: 'PRA 85% (cPRA not recorded)' });
+        expect(sensitization(recipient('Kidney', { pra: 85, cpra: 30 }))?.points).toBe(5);
+        expect(sensitization(recipient('Kidney'))).toMatchObject({ points: 0, detail: 'cPRA not recorded' });
+    });
+
+    it('counts towards the total for kidney and pancreas only', () => {
+        const base = scoreAllocation({ recipient: recipient('Kidney'), now: NOW }).total;
+        expect(scoreAllocation({ recipient: recipient('Kidney', { cpra: 99 }), now: NOW }).total).toBe(base + 150);
+        expect(sensitization(recipient('Pancreas', { cpra: 99 }))?.points).toBe(150);
+        expect(sensitization(recipient('Liver', { cpra: 99 }))).toBeUndefined();
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { MELD_RANGE } from '../registry/escalation';
+import { scoreAllocation } from '../registry/scoring';
+import { computeSeverityScore, currentSeverity, formatSeverity } from '../registry/severity';
+import type { Donor, Recipient } from '../types';
+
+const NOW = Date.UTC(2025, 0, 15);
+
+describe('MELD and MELD-Na', () => {
+    it('computes MELD from bilirubin, INR and creatinine', () => {
+        expect(computeSeverityScore('Liver', { bilirubin: 3, inr: 1.5, creatinine: 2 }, undefined, NOW))
+            .toEqual({ kind: 'MELD', value: 22, detail: 'MELD 22 (no sodium recorded)', computedAt: NOW });
+    });
+
+    it('applies the sodium correction', () => {
+        expect(computeSeverityScore('Liver', { bilirubin: 3, inr: 1.5, creatinine: 2, sodium: 130 }, undefined, NOW))
+            .toMatchObject({ kind: 'MELD-Na', value: 26, detail: 'MELD 22, MELD-Na 26' });
+    });
+
+    it('sets creatinine to 4.0 for patients on dialysis', () => {
+        const onDialysis = computeSeverityScore('Liver', { bilirubin: 3, inr: 1.5, creatinine: 1.2, dialysisTwiceInPastWeek: true }, undefined, NOW);
+        expect(onDialysis?.value).toBe(28);
+    });
+
+    it('floors lab values at 1.0 and keeps the score within 6-40', () => {
+        expect(computeSeverityScore('Liver', { bilirubin: 0.3, inr: 0.8, creatinine: 0.5 }, undefined, NOW)?.value).toBe(MELD_RANGE.min);
+        expect(computeSeverityScore('Liver', { bilirubin: 60, inr: 9, creatinine: 9 }, undefined, NOW)?.value).toBe(MELD_RANGE.max);
+    });
+
+    it('needs all three labs', () => {
+        expect(computeSeverityScore('Liver', { bilirubin: 3, inr: 1.5 }, undefined, NOW)).toBeUndefined();
+    });
+});
+
+describe('LAS', () => {
+    it('adds the main waitlist mortality drivers to the diagnosis group baseline', () => {
+        const las = computeSeverityScore('Lungs', {
+            lungDiagnosisGroup: 'D', fvcPercent: 35, paSystolic: 50, oxygenLpm: 4, sixMinuteWalkM: 100, onVentilator: true,
+        }, undefined, NOW);
+        expect(las).toMatchObject({ kind: 'LAS', value: 98, detail: 'LAS (est.) 98 (group D)' });
+        expect(formatSeverity(las)).toBe('LAS (est.) 98');
+    });
+
+    it('scores a stable obstructive patient low and caps at 100', () => {
+        expect(computeSeverityScore('Lungs', { lungDiagnosisGroup: 'A' }, undefined, NOW)?.value).toBe(30);
+        expect(computeSeverityScore('Lungs', { lungDiagnosisGroup: 'D', fvcPercent: 20, paSystolic: 90, oxygenLpm: 15, sixMinuteWalkM: 50, onVentilator: true }, undefined, NOW)?.value).toBe(100);
+    });
+
+    it('needs a diagnosis group', () => {
+        expect(computeSeverityScore('Lungs', { oxygenLpm: 4 }, undefined, NOW)).toBeUndefined();
+    });
+});
+
+describe('EPTS', () => {
+    it('gives a young non-diabetic candidate a low percentile', () => {
+        expect(computeSeverityScore('Kidney', {}, '1994-06-01', NOW)).toMatchObject({ kind: 'EPTS', value: 7, detail: 'EPTS 7%' });
+    });
+
+    it('raises the percentile for age, diabetes and time on dialysis', () => {
+        expect(computeSeverityScore('Kidney', { diabetes: true, dialysisStartDate: '2023-01-15' }, '1964-06-01', NOW)?.value).toBe(83);
+    });
+
+    it('needs the date of birth', () => {
+        expect(computeSeverityScore('Kidney', { diabetes: true }, undefined, NOW)).toBeUndefined();
+    });
+
+    it('gives longevity-match points only when both EPTS and donor KDPI are in the top 20%', () => {
+        const recipient = {
+            id: 'r1', patientId: 'NOD-1', name: 'R', organNeeded: 'Kidney', bloodGroup: 'O+', urgency: 'High', timeOnList: NOW, status: 'Searching',
+            severity: computeSeverityScore('Kidney', {}, '1994-06-01', NOW),
+        } as Recipient;
+        const severityPoints = (dob: string) => scoreAllocation({ recipient, donor: { dob, bloodGroup: 'O+', address: '' } as Donor, now: NOW })
+            .breakdown.find(item => item.factor === 'severity')?.points;
+
+        expect(severityPoints('2004-06-01')).toBe(40);
+        expect(severityPoints('1960-06-01')).toBe(0);
+    });
+});
+
+describe('computeSeverityScore', () => {
+    it('has no score for organs without one, or without labs', () => {
+        expect(computeSeverityScore('Heart', { bilirubin: 3 }, undefined, NOW)).toBeUndefined();
+        expect(computeSeverityScore('Liver', undefined, undefined, NOW)).toBeUndefined();
+        expect(formatSeverity(computeSeverityScore('Kidney', {}, '1994-06-01', NOW))).toBe('EPTS 7%');
+    });
+});
+
+describe('currentSeverity', () => {
+    const YEAR = 365.25 * 24 * 60 * 60 * 1000;
+    const kidneyRecipient = (overrides: Partial<Recipient>) => ({
+        id: 'r1', patientId: 'NOD-1', name: 'R', organNeeded: 'Kidney', bloodGroup: 'O+', urgency: 'High', timeOnList: NOW, status: 'Searching',
+        dob: '1990-06-01', ...overrides,
+    }) as Recipient;
+
+    it('recomputes the score from the stored labs instead of trusting the saved copy', () => {
+        const labs = { diabetes: true, dialysisStartDate: '2024-01-15' };
+        const saved = computeSeverityScore('Kidney', labs, '1990-06-01', NOW);
+        const recipient = kidneyRecipient({ labs, severity: saved });
+        const later = NOW + 5 * YEAR;
+
+        expect(currentSeverity(recipient, NOW)).toEqual(saved);
+        expect(currentSeverity(recipient, later)).toEqual(computeSeverityScore('Kidney', labs, '1990-06-01', later));
+        expect(currentSeverity(recipient, later)!.value).toBeGreaterThan(saved!.value);
+    });
+
+    it('ranks on the recomputed score', () => {
+        const recipient = kidneyRecipient({ labs: {}, dob: '2000-06-01', severity: { kind: 'EPTS', value: 90, detail: 'EPTS 90%', computedAt: NOW - 10 * YEAR } });
+        const points = scoreAllocation({ recipient, donor: { dob: '2004-06-01', bloodGroup: 'O+', address: '' } as Donor, now: NOW })
+            .breakdown.find(item => item.factor === 'severity')?.points;
+        expect(points).toBe(40);
+    });
+
+    it('falls back to the saved score only for records without labs', () => {
+        const saved = { kind: 'MELD' as const, value: 22, detail: 'MELD 22', computedAt: NOW };
+        expect(currentSeverity(kidneyRecipient({ organNeeded: 'Liver', severity: saved }), NOW)).toEqual(saved);
+        expect(currentSeverity(kidneyRecipient({ organNeeded: 'Liver', labs: { bilirubin: 3 }, severity: saved }), NOW)).toBeUndefined();
+    });
+});
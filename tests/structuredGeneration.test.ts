@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeStructuredModel, generateScreeningReport, parseScreeningReport, type StructuredGenerationRequest } from '../structuredGeneration';
+import type { Donor, InterestNotification, ScreeningReport } from '../types';
+
+const NOW = Date.UTC(2025, 0, 15);
+
+const donor: Donor = {
+    id: 'd1',
+    name: 'Meera Rao',
+    contact: '9876543210',
+    dob: '1980-04-02',
+    gender: 'Female',
+    bloodGroup: 'O+',
+    address: '12 MG Road, Bangalore',
+    pledgedOrgans: ['Kidney', 'Eye'],
+    pledgeDate: NOW,
+    status: 'Pledged',
+};
+
+const notification: InterestNotification = { id: 'n1', donorId: 'd1', organ: 'Kidney', timestamp: NOW };
+
+const validReport: ScreeningReport = {
+    summary: 'Living kidney donor, documents not yet verified.',
+    eligibilityFlags: [{ criterion: 'Age within donation limits', status: 'Meets', note: '44 years' }],
+    risks: [],
+    followUpQuestions: ['Any history of hypertension?'],
+    contactDraft: 'Dear {donorName}, thank you for your pledge.',
+};
+
+describe('generateScreeningReport', () => {
+    it('returns the parsed report with the donor name filled into the contact draft', async () => {
+        const requests: StructuredGenerationRequest[] = [];
+        const model = createFakeStructuredModel(request => {
+            requests.push(request);
+            return validReport;
+        });
+
+        const report = await generateScreeningReport(model, donor, notification, [], NOW);
+
+        expect(report.contactDraft).toBe('Dear Meera Rao, thank you for your pledge.');
+        expect(report.eligibilityFlags).toEqual(validReport.eligibilityFlags);
+        expect(requests).toHaveLength(1);
+        expect(requests[0].schema.required).toContain('contactDraft');
+    });
+
+    it('sends only de-identified facts to the model', async () => {
+        let prompt = '';
+        const model = createFakeStructuredModel(request => {
+            prompt = request.prompt;
+            return validReport;
+        });
+
+        await generateScreeningReport(model, donor, notification, [], NOW);
+
+        expect(prompt).toContain('"organOffered": "Kidney"');
+        expect(prompt).not.toContain(donor.name);
+        expect(prompt).not.toContain(donor.contact);
+        expect(prompt).not.toContain('MG Road');
+    });
+
+    it('rejects output that is missing a required field', async () => {
+        const { contactDraft, ...incomplete } = validReport;
+        const model = createFakeStructuredModel(() => incomplete);
+
+        await expect(generateScreeningReport(model, donor, notification, [], NOW))
+            .rejects.toThrow('The model response did not match the report schema: Invalid or missing field "contactDraft"');
+    });
+
+    it('rejects eligibility flags with a status outside the schema', async () => {
+        const model = createFakeStructuredModel(() => ({
+            ...validReport,
+            eligibilityFlags: [{ criterion: 'Blood group compatible', status: 'Probably', note: '' }],
+        }));
+
+        await expect(generateScreeningReport(model, donor, notification, [], NOW)).rejects.toThrow('"eligibilityFlags"');
+    });
+
+    it('rejects output that is not an object', async () => {
+        const model = createFakeStructuredModel(() => 'Looks fine to me.');
+
+        await expect(generateScreeningReport(model, donor, notification, [], NOW)).rejects.toThrow('Record is not an object');
+    });
+});
+
+describe('parseScreeningReport', () => {
+    it('drops fields the schema does not define', () => {
+        expect(parseScreeningReport({ ...validReport, diagnosis: 'invented' })).toEqual(validReport);
+    });
+});
@@ -0,0 +1,470 @@
+import type { CollectionName } from './registry/storage';
+
+// --- TYPE DEFINITIONS ---
+export type Page = 'donor' | 'waitlist' | 'admin' | 'hospital' | 'audit';
+export type BloodGroup = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
+export type Organ = 'Heart' | 'Kidney' | 'Liver' | 'Eye' | 'Lungs' | 'Pancreas' | 'Bone Marrow';
+export type Urgency = 'Critical' | 'High' | 'Medium';
+export type Gender = 'Male' | 'Female' | 'Other' | 'Prefer not to say';
+// Records created before living donation was supported have no donorType and are deceased pledges
+export type DonorType = 'Deceased Pledge' | 'Living Paired' | 'Living Altruistic';
+
+export interface HlaTyping {
+    A: string[];
+    B: string[];
+    DR: string[];
+}
+
+export interface ImmunologyProfile {
+    hla?: HlaTyping;
+    pra?: number;
+    cpra?: number;
+    unacceptableAntigens?: string[];
+}
+
+export interface Donor {
+    id: string;
+    name: string;
+    contact: string;
+    dob: string;
+    gender: Gender;
+    bloodGroup: BloodGroup;
+    address: string;
+    // Free-text links entered before real document upload existed; kept for older pledges
+    aadharUrl?: string;
+    reportUrl?: string;
+    documents?: PledgeDocument[];
+    aadhaar?: ProtectedAadhaar;
+    // One persistent ID per pledged organ; kept after a withdrawal so it is never reissued
+    pledgeIds?: Partial<Record<Organ, string>>;
+    // Absent until documents have been uploaded; matching only proposes 'Verified' donors
+    verification?: DonorVerification;
+    pledgedOrgans: Organ[];
+    // Organ units already used by recorded transplants; a kidney or cornea can appear twice
+    transplantedOrgans?: Organ[];
+    pledgeDate: number;
+    immunology?: ImmunologyProfile;
+    donorType?: DonorType;
+    // Set for living donors registered together with an incompatible intended recipient
+    pairedRecipientId?: string;
+    // The signed-in donor account that registered this pledge
+    accountId?: string;
+    changeHistory?: DonorChangeEntry[];
+    screeningReports?: SavedScreeningReport[];
+    status: 'Pledged';
+}
+
+export interface DonorChangeEntry {
+    at: number;
+    changedById: string;
+    changedByName: string;
+    fields: (keyof DonorEditableFields)[];
+    // True when the change sent the pledge back for document verification
+    reverification: boolean;
+}
+
+// The full Aadhaar number is never stored: only the last four digits for display and a digest for duplicate checks.
+// Keyed digests come from the registry's HMAC service and may be synced; unkeyed ones use a public salt, so they
+// could be brute-forced from the last four digits and stay on the device that made them.
+export interface ProtectedAadhaar {
+    last4: string;
+    digest?: string;
+    keyed?: boolean;
+}
+
+export type PledgeDocumentKind = 'ID Proof' | 'Medical Report';
+
+// Metadata for an uploaded file; the bytes live in the local document store keyed by their SHA-256 hash
+export interface PledgeDocument {
+    id: string;
+    kind: PledgeDocumentKind;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    sha256: string;
+    uploadedAt: number;
+    // Cloud Storage object holding a copy of the file, set once the upload succeeded; absent when files stay on the uploading device
+    storagePath?: string;
+}
+
+export type VerificationStatus = 'Pending' | 'Verified' | 'Rejected';
+
+export interface DonorVerification {
+    status: VerificationStatus;
+    submittedAt: number;
+    reviewedById?: string;
+    reviewedByName?: string;
+    reviewedAt?: number;
+    reason?: string;
+}
+
+// Heart allocation status codes; Status 1 is the most urgent
+export type HeartStatusCode = 'Status 1' | 'Status 2' | 'Status 3' | 'Status 4' | 'Status 5' | 'Status 6';
+
+export type EscalationStatus = 'Pending' | 'Approved' | 'Rejected';
+
+// Supporting clinical parameters; which one is required depends on the organ
+export interface EscalationParameters {
+    meldScore?: number;
+    heartStatusCode?: HeartStatusCode;
+    clinicalIndicator?: string;
+}
+
+export interface UrgencyEscalation {
+    id: string;
+    from: Urgency;
+    justification: string;
+    parameters: EscalationParameters;
+    requestedById: string;
+    requestedByName: string;
+    requestedAt: number;
+    status: EscalationStatus;
+    reviewedById?: string;
+    reviewedByName?: string;
+    reviewedAt?: number;
+    reviewNote?: string;
+}
+
+// Lung diagnosis groups used by the Lung Allocation Score: A obstructive, B pulmonary vascular, C cystic fibrosis, D restrictive
+export type LungDiagnosisGroup = 'A' | 'B' | 'C' | 'D';
+
+// Lab values and findings behind the organ-specific severity scores; only the patient's organ's fields are kept
+export interface ClinicalLabs {
+    // Liver (MELD / MELD-Na); creatinine in mg/dL, bilirubin in mg/dL, sodium in mEq/L
+    bilirubin?: number;
+    inr?: number;
+    creatinine?: number;
+    sodium?: number;
+    dialysisTwiceInPastWeek?: boolean;
+    // Lungs (LAS)
+    lungDiagnosisGroup?: LungDiagnosisGroup;
+    fvcPercent?: number;
+    paSystolic?: number;
+    oxygenLpm?: number;
+    sixMinuteWalkM?: number;
+    onVentilator?: boolean;
+    // Kidney (EPTS)
+    diabetes?: boolean;
+    priorTransplant?: boolean;
+    dialysisStartDate?: string;
+}
+
+export type SeverityScoreKind = 'MELD' | 'MELD-Na' | 'LAS' | 'EPTS';
+
+export interface SeverityScore {
+    kind: SeverityScoreKind;
+    value: number;
+    detail: string;
+    computedAt: number;
+}
+
+// Whether the patient is on the list at all; independent of RecipientStatus, which tracks allocation progress
+export type ListingState = 'Active' | 'Temporarily Inactive' | 'Transplanted' | 'Removed - Deceased' | 'Removed - Recovered';
+
+// Transfers appear in the listing history but leave the listing state (and waiting time) unchanged
+export type ListingEventKind = ListingState | 'Transferred';
+
+export interface ListingEvent {
+    kind: ListingEventKind;
+    at: number;
+    actorName: string;
+    reason: string;
+    reviewDate?: string;
+    transplantDonorId?: string;
+    transplantDate?: string;
+    fromHospitalId?: string;
+    toHospitalId?: string;
+}
+
+export interface ListingChange {
+    state: ListingState;
+    reason: string;
+    reviewDate?: string;
+    transplantDonorId?: string;
+    transplantDate?: string;
+}
+
+// 'Offer Pending', 'Offer Accepted' and 'Transplanted' follow the state of the recipient's match offer
+export type RecipientStatus = 'Searching' | 'Potential Match Found' | 'Offer Pending' | 'Offer Accepted' | 'Transplanted';
+
+export interface Recipient {
+    id:string;
+    patientId: string;
+    name: string;
+    organNeeded: Organ;
+    bloodGroup: BloodGroup;
+    urgency: Urgency;
+    timeOnList: number;
+    hospitalId?: string;
+    hospitalName?: string;
+    clinicalNotes?: string;
+    dob?: string;
+    immunology?: ImmunologyProfile;
+    labs?: ClinicalLabs;
+    // Recomputed from labs whenever they change; absent for organs without a severity score
+    severity?: SeverityScore;
+    // Latest request to escalate to Critical; urgency only changes once a second coordinator approves it
+    urgencyEscalation?: UrgencyEscalation;
+    // Absent on records listed before lifecycle tracking; treated as 'Active'
+    listingState?: ListingState;
+    listingHistory?: ListingEvent[];
+    status: RecipientStatus;
+}
+
+export type ScoreFactorId = 'urgency' | 'severity' | 'waitingTime' | 'bloodGroup' | 'hlaMatch' | 'sensitization' | 'organRule' | 'pediatric' | 'distance';
+
+export interface ScoreBreakdownItem {
+    factor: ScoreFactorId;
+    label: string;
+    points: number;
+    detail: string;
+}
+
+export interface AllocationScore {
+    total: number;
+    breakdown: ScoreBreakdownItem[];
+}
+
+export type CrossmatchResult = 'Negative' | 'Positive' | 'Not Tested';
+
+export interface ImmunologyAssessment {
+    // Null when either side has no HLA typing on record
+    mismatches: { A: number; B: number; DR: number; total: number } | null;
+    crossmatch: CrossmatchResult;
+    conflictingAntigens: string[];
+}
+
+export interface MatchResult {
+    recipient: Recipient;
+    donor: Donor;
+    score: AllocationScore;
+    immunology: ImmunologyAssessment;
+}
+
+export type MatchingMode = 'greedy' | 'optimal';
+
+export interface MatchComparison {
+    greedy: MatchResult[];
+    optimal: MatchResult[];
+}
+
+export type OfferState = 'Proposed' | 'Offered' | 'Accepted' | 'Declined' | 'Transplanted' | 'Expired';
+
+export interface OfferHistoryEntry {
+    state: OfferState;
+    at: number;
+    note?: string;
+}
+
+export interface MatchOffer {
+    id: string;
+    donorId: string;
+    recipientId: string;
+    organ: Organ;
+    state: OfferState;
+    score: number;
+    // Remaining ranked recipients the offer cascades to on decline or expiry
+    backupRecipientIds: string[];
+    // The declined or expired offer this one was cascaded from
+    previousOfferId?: string;
+    createdAt: number;
+    expiresAt?: number;
+    declineReason?: string;
+    history: OfferHistoryEntry[];
+}
+
+export interface ExchangeTransplant {
+    donor: Donor;
+    recipient: Recipient;
+}
+
+export interface ExchangeProposal {
+    id: string;
+    kind: '2-way Cycle' | '3-way Cycle' | 'Altruistic Chain';
+    transplants: ExchangeTransplant[];
+}
+
+export interface ExchangeSearchResult {
+    proposals: ExchangeProposal[];
+    // False when the cycle search hit its budget, so the cycles are a best-effort selection
+    exhaustive: boolean;
+}
+
+export interface Hospital {
+  id: string;
+  mockId: string;
+  name: string;
+  city: string;
+  contact: string;
+}
+
+export type ScreeningFlagStatus = 'Meets' | 'Concern' | 'Unknown';
+
+export interface ScreeningFlag {
+    criterion: string;
+    status: ScreeningFlagStatus;
+    note: string;
+}
+
+// Shape the model is asked to return; every field stays editable by the coordinator before saving
+export interface ScreeningReport {
+    summary: string;
+    eligibilityFlags: ScreeningFlag[];
+    risks: string[];
+    followUpQuestions: string[];
+    contactDraft: string;
+}
+
+export interface SavedScreeningReport extends ScreeningReport {
+    notificationId: string;
+    organ: Organ;
+    // Model that produced the first draft, or 'Manual' when the coordinator wrote it
+    generatedBy: string;
+    savedAt: number;
+    savedById: string;
+    savedByName: string;
+}
+
+export type TriageStatus = 'New' | 'Contacted' | 'Screening' | 'Eligible' | 'Ineligible' | 'Withdrawn';
+export type ContactChannel = 'Phone' | 'SMS' | 'Email' | 'In person';
+export type ContactResult = 'Reached' | 'No answer' | 'Left message' | 'Wrong number';
+
+export interface ContactAttempt {
+    at: number;
+    byId: string;
+    byName: string;
+    channel: ContactChannel;
+    result: ContactResult;
+    note?: string;
+}
+
+export interface TriageEvent {
+    status: TriageStatus;
+    at: number;
+    byId: string;
+    byName: string;
+    note?: string;
+}
+
+// Kept on the notification for reporting once screening reaches a decision
+export interface TriageOutcome {
+    status: 'Eligible' | 'Ineligible' | 'Withdrawn';
+    note: string;
+    at: number;
+    byName: string;
+}
+
+export interface InterestNotification {
+    id: string;
+    donorId: string;
+    organ: Organ;
+    timestamp: number;
+    // Best compatible waiting recipient when the interest was recorded; only a suggestion until a coordinator confirms
+    candidateRecipientId?: string;
+    // Set once a coordinator confirms the match and an offer is proposed
+    matchOfferId?: string;
+    // Absent on notifications recorded before triage existed; treated as 'New'
+    triageStatus?: TriageStatus;
+    assignedToId?: string;
+    assignedToName?: string;
+    contactAttempts?: ContactAttempt[];
+    triageHistory?: TriageEvent[];
+    outcome?: TriageOutcome;
+}
+
+export type UserRole = 'Donor' | 'Hospital Coordinator' | 'Central Admin' | 'Auditor';
+
+export interface UserAccount {
+    id: string;
+    username: string;
+    displayName: string;
+    role: UserRole;
+    // Hospital.mockId a coordinator's workspace is bound to
+    hospitalId?: string;
+    // Other hospitals whose requests a coordinator may view read-only, granted by the central admin
+    viewHospitalIds?: string[];
+    // Outstanding one-time code for setting up the account on another device
+    enrollment?: DeviceEnrollment;
+    createdAt: number;
+    disabled?: boolean;
+}
+
+// The code is 128 random bits, so the synced SHA-256 of it cannot be brute-forced the way a password hash can
+export interface DeviceEnrollment {
+    codeHash: string;
+    issuedAt: number;
+    expiresAt: number;
+    issuedById: string;
+}
+
+// Password verifier for one account on this device. Lives in a local-only collection that is never
+// synced to Firestore or broadcast to other tabs, so other clients cannot attack it offline.
+export interface AccountCredential {
+    id: string;
+    accountId: string;
+    // PBKDF2-SHA256 of the password with a per-account random salt, both hex encoded
+    passwordHash: string;
+    passwordSalt: string;
+    passwordIterations: number;
+    // SHA-256 of the token of the session signed in on this device; cleared on sign-out
+    sessionTokenHash?: string;
+}
+
+export interface NewAccountInput {
+    username: string;
+    displayName: string;
+    role: UserRole;
+    hospitalId?: string;
+    password: string;
+}
+
+export type AuditAction =
+    | 'Recipient Registered' | 'Recipient Updated' | 'Recipient Transferred' | 'Recipient Withdrawn' | 'Recipient Deleted' | 'Recipient Status Changed' | 'Urgency Changed'
+    | 'Pledge Registered' | 'Pledge Updated' | 'Pledge Withdrawn' | 'Donor Interest Recorded' | 'Notification Cleared'
+    | 'Offer Proposed' | 'Offer Updated' | 'Account Created' | 'Account Updated' | 'Quarantine Cleared'
+    | 'Escalation Requested' | 'Escalation Approved' | 'Escalation Rejected'
+    | 'Documents Verified' | 'Documents Rejected' | 'Interest Confirmed'
+    | 'Interest Assigned' | 'Interest Status Changed' | 'Contact Attempt Logged' | 'Screening Report Saved'
+    | 'Registry Bootstrapped';
+
+// One link of the append-only audit chain; hash covers every other field including previousHash
+export interface AuditEntry {
+    id: string;
+    sequence: number;
+    at: number;
+    actorId: string;
+    actorName: string;
+    actorRole: UserRole | 'System';
+    action: AuditAction;
+    collection: CollectionName | 'quarantine';
+    recordId: string;
+    // Changed fields only, with personal and clinical values redacted; entries from older versions hold full snapshots
+    before?: unknown;
+    after?: unknown;
+    reason: string;
+    previousHash: string;
+    // Tips of branches appended concurrently by other tabs or devices, joined back into the chain by this entry
+    mergedHashes?: string[];
+    hash: string;
+}
+
+// Fields a coordinator may correct on their own hospital's requests
+export type DonorEditableFields = Pick<Donor, 'name' | 'contact' | 'dob' | 'gender' | 'bloodGroup' | 'address' | 'immunology' | 'documents' | 'aadhaar'>;
+
+export type RecipientEditableFields = Pick<Recipient, 'name' | 'bloodGroup' | 'urgency' | 'dob' | 'clinicalNotes' | 'labs'>;
+
+// Null lists mean every hospital (central admin)
+export interface HospitalScope {
+    manageableHospitalIds: string[] | null;
+    viewableHospitalIds: string[] | null;
+}
+
+export interface AuthSession {
+    token: string;
+    accountId: string;
+    role: UserRole;
+    displayName: string;
+    hospitalId?: string;
+    issuedAt: number;
+    lastActiveAt: number;
+}
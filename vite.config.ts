@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.FIREBASE_PROJECT_ID': JSON.stringify(env.FIREBASE_PROJECT_ID ?? ''),
+        'process.env.FIREBASE_API_KEY': JSON.stringify(env.FIREBASE_API_KEY ?? ''),
+        'process.env.FIREBASE_AUTH_DOMAIN': JSON.stringify(env.FIREBASE_AUTH_DOMAIN ?? ''),
+        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID ?? ''),
+        'process.env.FIREBASE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_EMULATOR_HOST ?? ''),
+        'process.env.FIREBASE_STORAGE_BUCKET': JSON.stringify(env.FIREBASE_STORAGE_BUCKET ?? ''),
+        'process.env.FIREBASE_STORAGE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_STORAGE_EMULATOR_HOST ?? ''),
+        'process.env.AADHAAR_DIGEST_URL': JSON.stringify(env.AADHAAR_DIGEST_URL ?? '')
       },
       resolve: {
         alias: {